@@ -1,17 +1,33 @@
 #!/usr/bin/env node
 
 import 'dotenv/config';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { z } from 'zod';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CallToolRequestSchema,
+  ErrorCode,
+  ListToolsRequestSchema,
+  McpError,
+  type CallToolResult,
+  type ServerNotification,
+  type ServerRequest,
+  type Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod/v4';
 import {
   createTokenValidator,
   createWithAuth,
+  createAuthInfoResolver,
+  createAuthRegistry,
   AuthenticationError,
   AuthorizationError,
   // RFC 9728 MCP-compliant utilities
-  createProtectedResourceMetadata,
   formatWwwAuthenticateHeader,
+  type AuthRegistry,
+  type McpAuthInfo,
+  type WithAuthFn,
+  type WithAuthOptions,
 } from '@pingidentity/aic-mcp-sdk';
 
 /**
@@ -102,16 +118,25 @@ async function fetchTodoById(id: number): Promise<Todo> {
  * - 401 errors (AuthenticationError) should include WWW-Authenticate header info
  * - 403 errors (AuthorizationError) indicate insufficient scopes
  *
+ * The challenge's scope parameter lists only the scopes the attempted tool needs, and the
+ * resource metadata advertises every scope registered through withAuth.
+ *
  * Note: For stdio transport, we return error info in the response body.
  * For HTTP transport, you would set actual HTTP status codes and headers.
  */
 function formatAuthError(
   error: AuthenticationError | AuthorizationError,
-  issuerUrl: string
+  issuerUrl: string,
+  registry: AuthRegistry,
+  toolName: string
 ): {
   content: [{ type: 'text'; text: string }];
   isError: true;
 } {
+  const resourceMetadataUrl = `${MCP_SERVER_URL}/.well-known/oauth-protected-resource`;
+  const challengeScope = registry.getChallengeScopes('tool', toolName).join(' ');
+  const scopeParam = challengeScope.length > 0 ? { scope: challengeScope } : {};
+
   // 403 Forbidden - Valid token but insufficient scopes
   if (error instanceof AuthorizationError) {
     return {
@@ -123,6 +148,12 @@ function formatAuthError(
               httpStatus: error.httpStatusCode,
               error: 'insufficient_scope',
               message: error.message,
+              wwwAuthenticate: formatWwwAuthenticateHeader({
+                resourceMetadataUrl,
+                ...scopeParam,
+                error: 'insufficient_scope',
+                errorDescription: error.message,
+              }),
               requiredScopes: error.requiredScopes,
               presentScopes: error.presentScopes,
               missingScopes: error.missingScopes,
@@ -140,21 +171,20 @@ function formatAuthError(
   // Include RFC 9728 WWW-Authenticate header format for MCP compliance
   const wwwAuthenticate = formatWwwAuthenticateHeader(
     error.code === 'MISSING_TOKEN'
-      ? {
-          resourceMetadataUrl: `${MCP_SERVER_URL}/.well-known/oauth-protected-resource`,
-        }
+      ? { resourceMetadataUrl, ...scopeParam }
       : {
-          resourceMetadataUrl: `${MCP_SERVER_URL}/.well-known/oauth-protected-resource`,
+          resourceMetadataUrl,
+          ...scopeParam,
           error: 'invalid_token',
           errorDescription: error.message,
         }
   );
 
-  // Create RFC 9728 protected resource metadata for client discovery
-  const resourceMetadata = createProtectedResourceMetadata({
+  // Create RFC 9728 protected resource metadata for client discovery,
+  // with scopes_supported derived from the tools' withAuth options
+  const resourceMetadata = registry.createProtectedResourceMetadata({
     resourceUrl: MCP_SERVER_URL,
     authorizationServers: issuerUrl,
-    scopesSupported: ['openid'],
     resourceName: 'Todos MCP Server',
   });
 
@@ -188,13 +218,17 @@ function formatAuthError(
  * Creates a wrapper that catches auth errors and returns them as MCP error responses.
  *
  * @param issuerUrl - The authorization server issuer URL for RFC 9728 metadata
+ * @param registry - Registry holding the auth requirements of every tool
  */
 function createErrorHandler(
-  issuerUrl: string
+  issuerUrl: string,
+  registry: AuthRegistry
 ): <TArgs, TExtra, TResult>(
+  toolName: string,
   handler: (args: TArgs, extra: TExtra) => TResult | Promise<TResult>
 ) => (args: TArgs, extra: TExtra) => Promise<TResult | ReturnType<typeof formatAuthError>> {
   return <TArgs, TExtra, TResult>(
+    toolName: string,
     handler: (args: TArgs, extra: TExtra) => TResult | Promise<TResult>
   ) => {
     return async (args: TArgs, extra: TExtra) => {
@@ -202,7 +236,7 @@ function createErrorHandler(
         return await handler(args, extra);
       } catch (error) {
         if (error instanceof AuthenticationError || error instanceof AuthorizationError) {
-          return formatAuthError(error, issuerUrl);
+          return formatAuthError(error, issuerUrl, registry, toolName);
         }
         throw error;
       }
@@ -210,10 +244,83 @@ function createErrorHandler(
   };
 }
 
+/**
+ * Arguments, auth requirements and handler of a tool, declared once: its name serves as the
+ * MCP tool name, the withAuth toolName and the key for auth error challenges.
+ */
+interface TodoToolSpec<TArgs extends z.ZodObject> {
+  readonly name: string;
+  readonly description: string;
+  readonly inputSchema: TArgs;
+  readonly auth: Omit<WithAuthOptions, 'toolName'>;
+  readonly handler: (
+    args: z.infer<TArgs>,
+    extra: { readonly authInfo?: McpAuthInfo }
+  ) => Promise<CallToolResult>;
+}
+
+/**
+ * A tool ready to be listed and called through the low-level Server.
+ */
+interface ServedTool {
+  readonly definition: Tool;
+  readonly call: (
+    args: unknown,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ) => Promise<CallToolResult>;
+}
+
+/**
+ * Creates a factory that turns tool specs into served tools, with arguments validated
+ * against the spec's schema and the handler wrapped in withAuth and error handling.
+ */
+function createToolFactory(
+  withAuth: WithAuthFn,
+  withErrorHandling: ReturnType<typeof createErrorHandler>
+): <TArgs extends z.ZodObject>(spec: TodoToolSpec<TArgs>) => ServedTool {
+  return (spec) => {
+    const call = withErrorHandling(
+      spec.name,
+      withAuth({ ...spec.auth, toolName: spec.name }, spec.handler)
+    );
+    const { $schema: _dialect, properties = {}, ...inputSchema } = z.toJSONSchema(spec.inputSchema);
+    // MCP tool schemas spell JSON Schema's boolean schemas as objects
+    const toolProperties = Object.fromEntries(
+      Object.entries(properties).map(([name, schema]) => [
+        name,
+        typeof schema === 'object' ? schema : schema ? {} : { not: {} },
+      ])
+    );
+
+    return {
+      definition: {
+        name: spec.name,
+        description: spec.description,
+        inputSchema: { ...inputSchema, type: 'object', properties: toolProperties },
+      },
+      call: async (args, extra) => {
+        const parsed = spec.inputSchema.safeParse(args ?? {});
+        if (!parsed.success) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Invalid arguments for ${spec.name}: ${z.prettifyError(parsed.error)}`
+          );
+        }
+        return call(parsed.data, extra);
+      },
+    };
+  };
+}
+
 /**
  * Creates the MCP server with todos tools protected by authentication.
+ *
+ * The low-level Server is used so that tools/list is an ordinary handler of this example,
+ * which filters the tools by what the caller's token can use. The MCP SDK marks Server as
+ * meant for such advanced cases, since McpServer offers no hook into its tools/list.
  */
-function createServer(): McpServer {
+// eslint-disable-next-line @typescript-eslint/no-deprecated -- see above
+function createServer(): Server {
   const config = getConfig();
 
   // Compute the issuer URL for RFC 9728 metadata
@@ -222,37 +329,32 @@ function createServer(): McpServer {
   const issuerUrl = `${config.amUrl}${realmPath}`;
 
   // Create the token validator
-  // const validatorConfig =
-  //   config.realmPath !== undefined
-  //     ? { amUrl: config.amUrl, clientId: config.clientId, realmPath: config.realmPath }
-  //     : { amUrl: config.amUrl, clientId: config.clientId };
   const validator = createTokenValidator(config);
 
-  // Create the withAuth wrapper
-  const withAuth = createWithAuth({ validator });
+  // Record each tool's auth requirements so metadata and challenges stay in sync with them
+  const registry = createAuthRegistry();
 
-  // Create error handler with issuer URL for MCP-compliant error responses
-  const withErrorHandling = createErrorHandler(issuerUrl);
+  // Create the withAuth wrapper, and a resolver finding the caller of list requests the same way
+  const authConfig = { validator, registry };
+  const withAuth = createWithAuth(authConfig);
+  const resolveAuthInfo = createAuthInfoResolver(authConfig);
 
-  const server = new McpServer({
-    name: 'todos-server',
-    version: '0.0.1',
-  });
+  // Create error handler with issuer URL for MCP-compliant error responses
+  const defineTool = createToolFactory(withAuth, createErrorHandler(issuerUrl, registry));
 
-  // Tool: List all todos or filter by userId (requires 'todos:read' scope)
-  server.registerTool(
-    'list_todos',
-    {
+  const tools: readonly ServedTool[] = [
+    // List all todos or filter by userId
+    defineTool({
+      name: 'list_todos',
       description: 'List todos from JSONPlaceholder API. Optionally filter by userId.',
-      inputSchema: {
+      inputSchema: z.object({
         userId: z.number().optional().describe('Filter todos by user ID (1-10)'),
         limit: z.number().optional().describe('Maximum number of todos to return'),
-      },
-    },
-    withErrorHandling(
-      withAuth({ requiredScopes: ['openid'] }, async ({ userId, limit }, extra) => {
+      }),
+      auth: { requiredScopes: ['openid'] },
+      handler: async ({ userId, limit }, extra) => {
         // Access authenticated user info
-        const sub = extra.authInfo?.extra?.['sub'];
+        const sub = extra.authInfo?.extra?.sub;
         console.error(`[list_todos] Authenticated user: ${String(sub)}`);
 
         const todos = await fetchTodos(userId);
@@ -266,22 +368,19 @@ function createServer(): McpServer {
             },
           ],
         };
-      })
-    )
-  );
+      },
+    }),
 
-  // Tool: Get a specific todo by ID (requires 'todos:read' scope)
-  server.registerTool(
-    'get_todo',
-    {
+    // Get a specific todo by ID
+    defineTool({
+      name: 'get_todo',
       description: 'Get a specific todo by its ID from JSONPlaceholder API.',
-      inputSchema: {
+      inputSchema: z.object({
         id: z.number().describe('The todo ID to fetch (1-200)'),
-      },
-    },
-    withErrorHandling(
-      withAuth({ requiredScopes: ['openid'] }, async ({ id }, extra) => {
-        const sub = extra.authInfo?.extra?.['sub'];
+      }),
+      auth: { requiredScopes: ['openid'] },
+      handler: async ({ id }, extra) => {
+        const sub = extra.authInfo?.extra?.sub;
         console.error(`[get_todo] Authenticated user: ${String(sub)}`);
 
         const todo = await fetchTodoById(id);
@@ -294,22 +393,19 @@ function createServer(): McpServer {
             },
           ],
         };
-      })
-    )
-  );
+      },
+    }),
 
-  // Tool: Get todos summary by user (requires 'todos:read' scope)
-  server.registerTool(
-    'get_todos_summary',
-    {
+    // Get todos summary by user
+    defineTool({
+      name: 'get_todos_summary',
       description: 'Get a summary of todos completion status for a specific user.',
-      inputSchema: {
+      inputSchema: z.object({
         userId: z.number().describe('The user ID to get summary for (1-10)'),
-      },
-    },
-    withErrorHandling(
-      withAuth({ requiredScopes: ['openid'] }, async ({ userId }, extra) => {
-        const sub = extra.authInfo?.extra?.['sub'];
+      }),
+      auth: { requiredScopes: ['openid'] },
+      handler: async ({ userId }, extra) => {
+        const sub = extra.authInfo?.extra?.sub;
         console.error(`[get_todos_summary] Authenticated user: ${String(sub)}`);
 
         const todos = await fetchTodos(userId);
@@ -332,10 +428,33 @@ function createServer(): McpServer {
             },
           ],
         };
-      })
+      },
+    }),
+  ];
+  const toolsByName = new Map(tools.map((tool) => [tool.definition.name, tool]));
+
+  // eslint-disable-next-line @typescript-eslint/no-deprecated -- see createServer
+  const server = new Server(
+    { name: 'todos-server', version: '0.0.1' },
+    { capabilities: { tools: {} } }
+  );
+
+  // Only list the tools the caller's token can use
+  server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) =>
+    registry.filterTools(
+      { tools: tools.map((tool) => tool.definition) },
+      await resolveAuthInfo(extra)
     )
   );
 
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const tool = toolsByName.get(request.params.name);
+    if (tool === undefined) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${request.params.name}`);
+    }
+    return tool.call(request.params.arguments, extra);
+  });
+
   return server;
 }
 
@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  auditValidation,
+  createAuthEvent,
+  createJsonLinesSink,
+  emitAuthEvent,
+  toAuthEventCaller,
+} from './audit.js';
+import type { AuthEvent } from './types.js';
+import type { TokenValidationResult } from '../types.js';
+import { hashToken } from '../validation/token-hash.js';
+import {
+  FIXED_TIMESTAMP_SECONDS,
+  SCOPE_READ,
+  SCOPE_WRITE,
+  TEST_CLIENT_ID,
+  TEST_ISSUER,
+  TEST_SUBJECT,
+  createValidClaims,
+} from '../test/fixtures.js';
+
+const TOKEN = 'raw-access-token';
+
+describe('createAuthEvent', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(FIXED_TIMESTAMP_SECONDS * 1000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('given a verified caller', () => {
+    it('records the caller, token hash and latency', () => {
+      const startedAt = Date.now() - 25;
+
+      const event = createAuthEvent({
+        source: 'withAuth',
+        decision: 'allow',
+        startedAt,
+        token: TOKEN,
+        toolName: 'list_todos',
+        caller: toAuthEventCaller(createValidClaims()),
+        requiredScopes: [SCOPE_READ],
+      });
+
+      expect(event).toEqual({
+        timestamp: new Date(FIXED_TIMESTAMP_SECONDS * 1000).toISOString(),
+        source: 'withAuth',
+        decision: 'allow',
+        toolName: 'list_todos',
+        subject: TEST_SUBJECT,
+        clientId: TEST_CLIENT_ID,
+        issuer: TEST_ISSUER,
+        tokenHash: hashToken(TOKEN),
+        requiredScopes: [SCOPE_READ],
+        presentScopes: [SCOPE_READ, SCOPE_WRITE],
+        latencyMs: 25,
+      });
+    });
+  });
+
+  describe('given a denial before the token was verified', () => {
+    it('omits the caller and present scopes', () => {
+      const event = createAuthEvent({
+        source: 'validator',
+        decision: 'deny',
+        startedAt: Date.now(),
+        token: TOKEN,
+        requiredScopes: [],
+        errorCode: 'EXPIRED_TOKEN',
+        reason: 'Token has expired',
+      });
+
+      expect(event.subject).toBeUndefined();
+      expect(event.presentScopes).toBeUndefined();
+      expect(event.errorCode).toBe('EXPIRED_TOKEN');
+      expect(event.reason).toBe('Token has expired');
+    });
+  });
+
+  describe('given no token', () => {
+    it('omits the token hash', () => {
+      const event = createAuthEvent({
+        source: 'withAuth',
+        decision: 'deny',
+        startedAt: Date.now(),
+        token: undefined,
+        requiredScopes: [],
+        errorCode: 'MISSING_TOKEN',
+      });
+
+      expect(event).not.toHaveProperty('tokenHash');
+    });
+  });
+});
+
+describe('emitAuthEvent', () => {
+  const event = createAuthEvent({
+    source: 'validator',
+    decision: 'allow',
+    startedAt: Date.now(),
+    token: TOKEN,
+    requiredScopes: [],
+  });
+
+  it('delivers the event to the listener', () => {
+    const listener = vi.fn();
+
+    emitAuthEvent(listener, event);
+
+    expect(listener).toHaveBeenCalledWith(event);
+  });
+
+  describe('given a listener that throws', () => {
+    it('ignores the error', () => {
+      expect(() => {
+        emitAuthEvent(() => {
+          throw new Error('sink down');
+        }, event);
+      }).not.toThrow();
+    });
+  });
+
+  describe('given a listener that rejects', () => {
+    it('ignores the rejection', async () => {
+      const listener = vi.fn().mockRejectedValue(new Error('sink down'));
+
+      emitAuthEvent(listener, event);
+      await Promise.resolve();
+
+      expect(listener).toHaveBeenCalledOnce();
+    });
+  });
+});
+
+describe('auditValidation', () => {
+  describe('given a successful validation', () => {
+    it('emits an allow event and returns the result unchanged', async () => {
+      const result: TokenValidationResult = {
+        valid: true,
+        claims: createValidClaims(),
+        accessToken: TOKEN,
+      };
+      const events: AuthEvent[] = [];
+      const validate = auditValidation(
+        () => Promise.resolve(result),
+        (event) => {
+          events.push(event);
+        }
+      );
+
+      const returned = await validate(TOKEN, { requiredScopes: [SCOPE_READ] });
+
+      expect(returned).toBe(result);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        source: 'validator',
+        decision: 'allow',
+        subject: TEST_SUBJECT,
+        requiredScopes: [SCOPE_READ],
+        presentScopes: [SCOPE_READ, SCOPE_WRITE],
+      });
+    });
+  });
+
+  describe('given a failed validation', () => {
+    it('emits a deny event with the error code', async () => {
+      const events: AuthEvent[] = [];
+      const validate = auditValidation(
+        () =>
+          Promise.resolve({
+            valid: false,
+            error: 'INVALID_SIGNATURE',
+            message: 'Signature verification failed',
+          }),
+        (event) => {
+          events.push(event);
+        }
+      );
+
+      await validate(TOKEN);
+
+      expect(events[0]).toMatchObject({
+        source: 'validator',
+        decision: 'deny',
+        errorCode: 'INVALID_SIGNATURE',
+        reason: 'Signature verification failed',
+        requiredScopes: [],
+      });
+    });
+  });
+});
+
+describe('createJsonLinesSink', () => {
+  const event = createAuthEvent({
+    source: 'withAuth',
+    decision: 'allow',
+    startedAt: Date.now(),
+    token: TOKEN,
+    caller: toAuthEventCaller(createValidClaims()),
+    requiredScopes: [SCOPE_READ],
+  });
+
+  it('writes each event as one line of JSON', () => {
+    const lines: string[] = [];
+    const sink = createJsonLinesSink({ write: (line) => lines.push(line) });
+
+    void sink(event);
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]?.endsWith('\n')).toBe(true);
+    expect(JSON.parse(lines[0] ?? '')).toEqual(event);
+  });
+
+  it('never writes the raw token', () => {
+    const lines: string[] = [];
+    const sink = createJsonLinesSink({ write: (line) => lines.push(line) });
+
+    void sink(event);
+
+    expect(lines[0]).not.toContain(TOKEN);
+  });
+
+  describe('given fields to redact', () => {
+    it('replaces their values', () => {
+      const lines: string[] = [];
+      const sink = createJsonLinesSink({
+        write: (line) => lines.push(line),
+        redact: ['subject', 'tokenHash', 'reason'],
+      });
+
+      void sink(event);
+
+      const written = JSON.parse(lines[0] ?? '') as Record<string, unknown>;
+      expect(written['subject']).toBe('[REDACTED]');
+      expect(written['tokenHash']).toBe('[REDACTED]');
+      expect(written['clientId']).toBe(TEST_CLIENT_ID);
+      expect(written).not.toHaveProperty('reason');
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import type { TokenClaims, TokenValidationResult } from '../types.js';
+import type { ValidationOptions } from '../validation/types.js';
+import type {
+  AuthEvent,
+  AuthEventCaller,
+  AuthEventInput,
+  AuthEventListener,
+  JsonLinesSinkOptions,
+} from './types.js';
+import { hashToken } from '../validation/token-hash.js';
+import { parseScopes } from '../validation/scopes.js';
+
+/** Replacement value for redacted fields */
+const REDACTED = '[REDACTED]';
+
+/**
+ * Describes the caller of a verified token for auth events.
+ *
+ * @param claims - Claims of the verified token
+ * @returns The caller's subject, client, issuer and scopes
+ */
+export const toAuthEventCaller = (claims: TokenClaims): AuthEventCaller => ({
+  subject: claims.sub,
+  clientId: claims.client_id,
+  issuer: claims.iss,
+  presentScopes: parseScopes(claims.scope),
+});
+
+/**
+ * Builds an auth event, hashing the token so the raw value never leaves this function.
+ *
+ * @param input - The decision and what is known about the caller
+ * @returns The auth event
+ */
+export const createAuthEvent = (input: AuthEventInput): AuthEvent => {
+  const { caller } = input;
+  const now = Date.now();
+
+  return {
+    timestamp: new Date(now).toISOString(),
+    source: input.source,
+    decision: input.decision,
+    ...(input.toolName !== undefined ? { toolName: input.toolName } : {}),
+    ...(caller?.subject !== undefined ? { subject: caller.subject } : {}),
+    ...(caller?.clientId !== undefined && caller.clientId.length > 0
+      ? { clientId: caller.clientId }
+      : {}),
+    ...(caller?.issuer !== undefined ? { issuer: caller.issuer } : {}),
+    ...(input.token !== undefined && input.token.trim().length > 0
+      ? { tokenHash: hashToken(input.token) }
+      : {}),
+    requiredScopes: input.requiredScopes,
+    ...(caller !== undefined ? { presentScopes: caller.presentScopes } : {}),
+    ...(input.errorCode !== undefined ? { errorCode: input.errorCode } : {}),
+    ...(input.reason !== undefined ? { reason: input.reason } : {}),
+    latencyMs: now - input.startedAt,
+  };
+};
+
+/**
+ * Delivers an event to a listener, ignoring anything the listener throws or rejects with.
+ *
+ * @param listener - The listener, if one is configured
+ * @param event - The event to deliver
+ */
+export const emitAuthEvent = (listener: AuthEventListener | undefined, event: AuthEvent): void => {
+  if (listener === undefined) {
+    return;
+  }
+  try {
+    void Promise.resolve(listener(event)).catch(() => undefined);
+  } catch {
+    // Auditing must never change the outcome of an access decision
+  }
+};
+
+/**
+ * Wraps a validate function so every call emits a "validator" auth event.
+ *
+ * @param validate - The validate function to audit
+ * @param listener - Receives one event per call
+ * @returns A validate function with the same behavior
+ */
+export const auditValidation = (
+  validate: (
+    token: string | undefined,
+    options?: ValidationOptions
+  ) => Promise<TokenValidationResult>,
+  listener: AuthEventListener
+): ((token: string | undefined, options?: ValidationOptions) => Promise<TokenValidationResult>) => {
+  return async (token, options = {}) => {
+    const startedAt = Date.now();
+    const result = await validate(token, options);
+    const requiredScopes = options.requiredScopes ?? [];
+
+    emitAuthEvent(
+      listener,
+      result.valid
+        ? createAuthEvent({
+            source: 'validator',
+            decision: 'allow',
+            startedAt,
+            token,
+            caller: toAuthEventCaller(result.claims),
+            requiredScopes,
+          })
+        : createAuthEvent({
+            source: 'validator',
+            decision: 'deny',
+            startedAt,
+            token,
+            requiredScopes,
+            errorCode: result.error,
+            reason: result.message,
+          })
+    );
+
+    return result;
+  };
+};
+
+/**
+ * Creates an auth event listener that writes each event as one line of JSON.
+ *
+ * Events never contain the raw token; `redact` additionally masks identifying fields.
+ *
+ * @param options - Where to write and which fields to redact
+ * @returns An AuthEventListener
+ *
+ * @example
+ * ```typescript
+ * import { createWriteStream } from 'node:fs';
+ *
+ * const auditLog = createWriteStream('audit.jsonl', { flags: 'a' });
+ *
+ * const withAuth = createWithAuth({
+ *   validator,
+ *   onAuthEvent: createJsonLinesSink({
+ *     write: (line) => auditLog.write(line),
+ *     redact: ['subject'],
+ *   }),
+ * });
+ * ```
+ */
+export const createJsonLinesSink = (options: JsonLinesSinkOptions = {}): AuthEventListener => {
+  const {
+    write = (line: string) => {
+      process.stdout.write(line);
+    },
+    redact = [],
+  } = options;
+
+  return (event: AuthEvent): void => {
+    const redacted: Record<string, unknown> = { ...event };
+    for (const field of redact) {
+      if (redacted[field] !== undefined) {
+        redacted[field] = REDACTED;
+      }
+    }
+    write(`${JSON.stringify(redacted)}\n`);
+  };
+};
@@ -0,0 +1,12 @@
+// Audit sinks
+export { createJsonLinesSink } from './audit.js';
+
+// Types
+export type {
+  AuthEvent,
+  AuthEventSource,
+  AuthDecision,
+  AuthEventListener,
+  JsonLinesSinkOptions,
+  RedactableAuthEventField,
+} from './types.js';
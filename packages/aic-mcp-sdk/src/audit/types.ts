@@ -0,0 +1,95 @@
+/**
+ * Where an auth event was raised:
+ * - "validator": a token validator's validate() call
+ * - "withAuth": a tool call's full authentication and authorization check
+ */
+export type AuthEventSource = 'validator' | 'withAuth';
+
+/**
+ * Outcome of an authentication or authorization decision.
+ */
+export type AuthDecision = 'allow' | 'deny';
+
+/**
+ * Structured record of one authentication or authorization decision.
+ * Events never carry the raw token, only its hash.
+ */
+export interface AuthEvent {
+  /** When the decision was made (ISO 8601) */
+  readonly timestamp: string;
+  /** What raised the event */
+  readonly source: AuthEventSource;
+  /** Whether access was granted */
+  readonly decision: AuthDecision;
+  /** Tool being called, when known (withAuth events for tools with a toolName) */
+  readonly toolName?: string;
+  /** Subject of the token, once verified */
+  readonly subject?: string;
+  /** Client the token was issued to, once verified */
+  readonly clientId?: string;
+  /** Issuer of the token, once verified */
+  readonly issuer?: string;
+  /** Base64url SHA-256 hash of the token, for correlating events without exposing it */
+  readonly tokenHash?: string;
+  /** Scopes the caller needed */
+  readonly requiredScopes: readonly string[];
+  /** Scopes the token carries; absent when the token could not be verified */
+  readonly presentScopes?: readonly string[];
+  /**
+   * Why access was denied: a TokenValidationError code, or for withAuth INSUFFICIENT_SCOPE,
+   * POLICY_DENIED, INSUFFICIENT_AUTHORIZATION_DETAILS or RATE_LIMITED
+   */
+  readonly errorCode?: string;
+  /** Human-readable explanation of a denial */
+  readonly reason?: string;
+  /** Time taken to reach the decision, in milliseconds */
+  readonly latencyMs: number;
+}
+
+/**
+ * Receives auth events. Errors thrown or rejected by a listener are ignored, so a failing
+ * audit sink never changes an access decision.
+ */
+export type AuthEventListener = (event: AuthEvent) => void | Promise<void>;
+
+/**
+ * AuthEvent fields that may be redacted by a sink.
+ */
+export type RedactableAuthEventField = 'subject' | 'clientId' | 'issuer' | 'tokenHash' | 'reason';
+
+/**
+ * Options for the JSON-lines audit sink.
+ */
+export interface JsonLinesSinkOptions {
+  /** Writes one line, newline included (default: process.stdout.write) */
+  readonly write?: (line: string) => void;
+  /** Fields whose values are replaced with "[REDACTED]" (default: none) */
+  readonly redact?: readonly RedactableAuthEventField[];
+}
+
+/**
+ * Internal description of the verified caller behind an auth event.
+ */
+export interface AuthEventCaller {
+  readonly subject: string | undefined;
+  readonly clientId: string | undefined;
+  readonly issuer: string | undefined;
+  readonly presentScopes: readonly string[];
+}
+
+/**
+ * Internal input for building an auth event.
+ */
+export interface AuthEventInput {
+  readonly source: AuthEventSource;
+  readonly decision: AuthDecision;
+  /** Date.now() when the decision started */
+  readonly startedAt: number;
+  readonly token: string | undefined;
+  readonly toolName?: string | undefined;
+  /** The verified caller, when the token was verified */
+  readonly caller?: AuthEventCaller | undefined;
+  readonly requiredScopes: readonly string[];
+  readonly errorCode?: string | undefined;
+  readonly reason?: string | undefined;
+}
@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { toAsyncCache, createKeyValueCache } from './async-cache.js';
+import { createMemoryCache } from './memory-cache.js';
+import { createFakeKeyValueClient } from '../test/mocks.js';
+import type { KeyValueClient } from './types.js';
+
+/** Short TTL for testing expiration */
+const SHORT_TTL_MS = 100;
+
+describe('toAsyncCache', () => {
+  describe('given a synchronous cache', () => {
+    it('wraps every operation in a promise', async () => {
+      const cache = toAsyncCache(createMemoryCache<string>());
+
+      await cache.set('key', 'value');
+
+      expect(await cache.get('key')).toBe('value');
+      expect(await cache.delete('key')).toBe(true);
+      expect(await cache.get('key')).toBeUndefined();
+    });
+
+    it('shares state with the wrapped cache', async () => {
+      const memory = createMemoryCache<string>();
+      const cache = toAsyncCache(memory);
+
+      await cache.set('key', 'value');
+      await cache.clear();
+
+      expect(memory.get('key')).toBeUndefined();
+    });
+  });
+
+  describe('given an asynchronous cache', () => {
+    it('delegates to it', async () => {
+      const inner = createKeyValueCache<string>(createFakeKeyValueClient());
+      const cache = toAsyncCache(inner);
+
+      await cache.set('key', 'value');
+
+      expect(await inner.get('key')).toBe('value');
+    });
+  });
+});
+
+describe('createKeyValueCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('get/set', () => {
+    it('round-trips JSON values', async () => {
+      const cache = createKeyValueCache<{ readonly id: number }>(createFakeKeyValueClient());
+
+      await cache.set('key', { id: 1 });
+
+      expect(await cache.get('key')).toEqual({ id: 1 });
+    });
+
+    it('prefixes keys in the underlying store', async () => {
+      const client = createFakeKeyValueClient();
+      const cache = createKeyValueCache<string>(client, { keyPrefix: 'mcp:' });
+
+      await cache.set('key', 'value');
+
+      expect(client.data.has('mcp:key')).toBe(true);
+    });
+
+    it('passes TTL to the client', async () => {
+      const cache = createKeyValueCache<string>(createFakeKeyValueClient());
+
+      await cache.set('key', 'value', SHORT_TTL_MS);
+      vi.advanceTimersByTime(SHORT_TTL_MS + 1);
+
+      expect(await cache.get('key')).toBeUndefined();
+    });
+
+    it('uses the default TTL when none is given', async () => {
+      const cache = createKeyValueCache<string>(createFakeKeyValueClient(), {
+        defaultTtlMs: SHORT_TTL_MS,
+      });
+
+      await cache.set('key', 'value');
+      vi.advanceTimersByTime(SHORT_TTL_MS + 1);
+
+      expect(await cache.get('key')).toBeUndefined();
+    });
+  });
+
+  describe('delete', () => {
+    it('returns whether the key existed', async () => {
+      const cache = createKeyValueCache<string>(createFakeKeyValueClient());
+      await cache.set('key', 'value');
+
+      expect(await cache.delete('key')).toBe(true);
+      expect(await cache.delete('key')).toBe(false);
+    });
+  });
+
+  describe('clear', () => {
+    it('only removes keys under its prefix', async () => {
+      const client = createFakeKeyValueClient();
+      const cache = createKeyValueCache<string>(client, { keyPrefix: 'mcp:' });
+      await cache.set('key', 'value');
+      await client.set('other:key', '"value"', SHORT_TTL_MS);
+
+      await cache.clear();
+
+      expect(client.data.has('mcp:key')).toBe(false);
+      expect(client.data.has('other:key')).toBe(true);
+    });
+  });
+
+  describe('given the client fails', () => {
+    const failingClient: KeyValueClient = {
+      get: () => Promise.reject(new Error('connection refused')),
+      set: () => Promise.reject(new Error('connection refused')),
+      delete: () => Promise.reject(new Error('connection refused')),
+      deleteByPrefix: () => Promise.reject(new Error('connection refused')),
+    };
+
+    it('treats reads as misses and reports the error', async () => {
+      const onError = vi.fn();
+      const cache = createKeyValueCache<string>(failingClient, { onError });
+
+      const result = await cache.get('key');
+
+      expect(result).toBeUndefined();
+      expect(onError).toHaveBeenCalledWith(expect.any(Error));
+    });
+
+    it('does not reject on writes', async () => {
+      const cache = createKeyValueCache<string>(failingClient);
+
+      await expect(cache.set('key', 'value')).resolves.toBeUndefined();
+      await expect(cache.delete('key')).resolves.toBe(false);
+      await expect(cache.clear()).resolves.toBeUndefined();
+    });
+  });
+
+  describe('given a stored value that is not valid JSON', () => {
+    it('treats it as a miss', async () => {
+      const client = createFakeKeyValueClient();
+      const cache = createKeyValueCache<string>(client, { keyPrefix: '' });
+      await client.set('key', 'not-json', SHORT_TTL_MS);
+
+      expect(await cache.get('key')).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import type { AsyncCache, CacheLike, KeyValueCacheOptions, KeyValueClient } from './types.js';
+
+/** Default TTL: 5 minutes */
+const DEFAULT_TTL_MS = 5 * 60 * 1000;
+
+/** Default key prefix for key-value caches */
+const DEFAULT_KEY_PREFIX = 'aic:';
+
+/**
+ * Adapts a synchronous or asynchronous cache to the AsyncCache interface.
+ * Asynchronous caches pass through unchanged in behavior.
+ *
+ * @param cache - A Cache or AsyncCache instance
+ * @returns An AsyncCache instance
+ *
+ * @example
+ * ```typescript
+ * const cache = toAsyncCache(createMemoryCache<string>({ maxEntries: 1000 }));
+ * await cache.set('key', 'value');
+ * await cache.get('key'); // 'value'
+ * ```
+ */
+export const toAsyncCache = <T>(cache: CacheLike<T>): AsyncCache<T> => ({
+  get: async (key: string): Promise<T | undefined> => cache.get(key),
+  set: async (key: string, value: T, ttlMs?: number): Promise<void> => {
+    await cache.set(key, value, ttlMs);
+  },
+  delete: async (key: string): Promise<boolean> => cache.delete(key),
+  clear: async (): Promise<void> => {
+    await cache.clear();
+  },
+});
+
+/**
+ * Creates an AsyncCache backed by a string key-value store.
+ * Values are serialized as JSON, so cached values must be JSON-compatible.
+ *
+ * @param client - Key-value client adapter
+ * @param options - Optional cache configuration
+ * @returns An AsyncCache instance
+ *
+ * @example
+ * ```typescript
+ * import Redis from 'ioredis';
+ *
+ * const redis = new Redis();
+ * const cache = createKeyValueCache<OidcDiscoveryDocument>({
+ *   get: (key) => redis.get(key),
+ *   set: async (key, value, ttlMs) => {
+ *     await redis.set(key, value, 'PX', ttlMs);
+ *   },
+ *   delete: async (key) => (await redis.del(key)) > 0,
+ *   deleteByPrefix: async (prefix) => {
+ *     const keys = await redis.keys(`${prefix}*`);
+ *     if (keys.length > 0) await redis.del(...keys);
+ *   },
+ * }, { keyPrefix: 'mcp:discovery:' });
+ * ```
+ */
+export const createKeyValueCache = <T>(
+  client: KeyValueClient,
+  options: KeyValueCacheOptions = {}
+): AsyncCache<T> => {
+  const { keyPrefix = DEFAULT_KEY_PREFIX, defaultTtlMs = DEFAULT_TTL_MS, onError } = options;
+
+  const prefixed = (key: string): string => `${keyPrefix}${key}`;
+
+  const get = async (key: string): Promise<T | undefined> => {
+    try {
+      const raw = await client.get(prefixed(key));
+      if (raw === null || raw === undefined) {
+        return undefined;
+      }
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      onError?.(error);
+      return undefined;
+    }
+  };
+
+  const set = async (key: string, value: T, ttlMs?: number): Promise<void> => {
+    try {
+      await client.set(prefixed(key), JSON.stringify(value), ttlMs ?? defaultTtlMs);
+    } catch (error) {
+      onError?.(error);
+    }
+  };
+
+  const deleteKey = async (key: string): Promise<boolean> => {
+    try {
+      return await client.delete(prefixed(key));
+    } catch (error) {
+      onError?.(error);
+      return false;
+    }
+  };
+
+  const clear = async (): Promise<void> => {
+    try {
+      await client.deleteByPrefix(keyPrefix);
+    } catch (error) {
+      onError?.(error);
+    }
+  };
+
+  return {
+    get,
+    set,
+    delete: deleteKey,
+    clear,
+  };
+};
@@ -1,2 +1,11 @@
 export { createMemoryCache } from './memory-cache.js';
-export type { Cache, CacheEntry } from './types.js';
+export { toAsyncCache, createKeyValueCache } from './async-cache.js';
+export type {
+  Cache,
+  AsyncCache,
+  CacheLike,
+  CacheEntry,
+  MemoryCacheOptions,
+  KeyValueClient,
+  KeyValueCacheOptions,
+} from './types.js';
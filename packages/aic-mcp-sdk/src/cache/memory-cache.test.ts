@@ -175,6 +175,65 @@ describe('createMemoryCache', () => {
     });
   });
 
+  describe('options object', () => {
+    describe('given defaultTtlMs', () => {
+      it('uses it as the default TTL', () => {
+        const cache = createMemoryCache<string>({ defaultTtlMs: SHORT_TTL_MS });
+        cache.set('key', 'value');
+
+        vi.advanceTimersByTime(SHORT_TTL_MS + 1);
+
+        expect(cache.get('key')).toBeUndefined();
+      });
+    });
+
+    describe('given maxEntries below 1', () => {
+      it('throws a RangeError', () => {
+        expect(() => createMemoryCache<string>({ maxEntries: 0 })).toThrow(RangeError);
+      });
+    });
+  });
+
+  describe('LRU eviction', () => {
+    describe('given cache is at maxEntries', () => {
+      it('evicts the least recently written entry on set', () => {
+        const cache = createMemoryCache<string>({ maxEntries: 2 });
+        cache.set('key1', 'value1');
+        cache.set('key2', 'value2');
+
+        cache.set('key3', 'value3');
+
+        expect(cache.get('key1')).toBeUndefined();
+        expect(cache.get('key2')).toBe('value2');
+        expect(cache.get('key3')).toBe('value3');
+      });
+
+      it('keeps recently read entries resident', () => {
+        const cache = createMemoryCache<string>({ maxEntries: 2 });
+        cache.set('key1', 'value1');
+        cache.set('key2', 'value2');
+        cache.get('key1');
+
+        cache.set('key3', 'value3');
+
+        expect(cache.get('key1')).toBe('value1');
+        expect(cache.get('key2')).toBeUndefined();
+        expect(cache.get('key3')).toBe('value3');
+      });
+
+      it('does not evict when overwriting an existing key', () => {
+        const cache = createMemoryCache<string>({ maxEntries: 2 });
+        cache.set('key1', 'value1');
+        cache.set('key2', 'value2');
+
+        cache.set('key1', 'updated');
+
+        expect(cache.get('key1')).toBe('updated');
+        expect(cache.get('key2')).toBe('value2');
+      });
+    });
+  });
+
   describe('type safety', () => {
     it('stores and retrieves objects correctly', () => {
       interface TestData {
@@ -1,12 +1,18 @@
-import type { Cache, CacheEntry } from './types.js';
+import type { Cache, CacheEntry, MemoryCacheOptions } from './types.js';
 
 /** Default TTL: 5 minutes */
 const DEFAULT_TTL_MS = 5 * 60 * 1000;
 
 /**
- * Creates an in-memory cache with TTL support.
+ * Creates an in-memory cache with TTL support and optional LRU eviction.
  *
- * @param defaultTtlMs - Default TTL in milliseconds (default: 5 minutes)
+ * Entries are kept in recency order (least recently used first), so reads and
+ * writes move a key to the back and eviction removes from the front.
+ * Expired entries are removed on access and by a full sweep that runs once the
+ * number of writes since the last sweep reaches the cache size, which keeps the
+ * cost of expiry amortized O(1) per write.
+ *
+ * @param options - Default TTL in milliseconds, or cache options (default: 5 minutes, unbounded)
  * @returns A Cache instance
  *
  * @example
@@ -14,10 +20,48 @@ const DEFAULT_TTL_MS = 5 * 60 * 1000;
  * const cache = createMemoryCache<string>(60000); // 1 minute default TTL
  * cache.set('key', 'value');
  * cache.get('key'); // 'value'
+ *
+ * // Bounded cache holding at most 1000 entries
+ * const bounded = createMemoryCache<string>({ defaultTtlMs: 60000, maxEntries: 1000 });
  * ```
  */
-export const createMemoryCache = <T>(defaultTtlMs: number = DEFAULT_TTL_MS): Cache<T> => {
+export const createMemoryCache = <T>(
+  options: number | MemoryCacheOptions = DEFAULT_TTL_MS
+): Cache<T> => {
+  const { defaultTtlMs = DEFAULT_TTL_MS, maxEntries = Infinity } =
+    typeof options === 'number' ? { defaultTtlMs: options } : options;
+
+  if (maxEntries < 1) {
+    throw new RangeError('maxEntries must be at least 1');
+  }
+
+  // Map iteration order doubles as recency order (least recently used first)
   const store = new Map<string, CacheEntry<T>>();
+  let writesSinceSweep = 0;
+
+  /**
+   * Removes all expired entries.
+   */
+  const sweep = (now: number): void => {
+    for (const [k, entry] of store) {
+      if (now > entry.expiresAt) {
+        store.delete(k);
+      }
+    }
+    writesSinceSweep = 0;
+  };
+
+  /**
+   * Evicts least recently used entries until there is room for one more.
+   */
+  const evict = (): void => {
+    for (const k of store.keys()) {
+      if (store.size < maxEntries) {
+        return;
+      }
+      store.delete(k);
+    }
+  };
 
   const get = (key: string): T | undefined => {
     const entry = store.get(key);
@@ -30,17 +74,25 @@ export const createMemoryCache = <T>(defaultTtlMs: number = DEFAULT_TTL_MS): Cac
       return undefined;
     }
 
+    // Move to the most recently used position
+    store.delete(key);
+    store.set(key, entry);
+
     return entry.value;
   };
 
   const set = (key: string, value: T, ttlMs?: number): void => {
     const now = Date.now();
 
-    // Clean up expired entries to prevent unbounded memory growth
-    for (const [k, entry] of store.entries()) {
-      if (now > entry.expiresAt) {
-        store.delete(k);
-      }
+    // Sweep expired entries once enough writes have accumulated to pay for it
+    writesSinceSweep++;
+    if (writesSinceSweep >= store.size) {
+      sweep(now);
+    }
+
+    store.delete(key);
+    if (store.size >= maxEntries) {
+      evict();
     }
 
     const expiresAt = now + (ttlMs ?? defaultTtlMs);
@@ -53,6 +105,7 @@ export const createMemoryCache = <T>(defaultTtlMs: number = DEFAULT_TTL_MS): Cac
 
   const clear = (): void => {
     store.clear();
+    writesSinceSweep = 0;
   };
 
   return {
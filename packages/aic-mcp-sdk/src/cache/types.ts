@@ -30,6 +30,88 @@ export interface Cache<T> {
   readonly clear: () => void;
 }
 
+/**
+ * Asynchronous cache interface for stores shared between processes (e.g., Redis).
+ * Mirrors {@link Cache} with every operation returning a promise.
+ */
+export interface AsyncCache<T> {
+  /**
+   * Gets a value from the cache.
+   * @param key - The cache key
+   * @returns The cached value or undefined if not found/expired
+   */
+  readonly get: (key: string) => Promise<T | undefined>;
+
+  /**
+   * Sets a value in the cache.
+   * @param key - The cache key
+   * @param value - The value to cache
+   * @param ttlMs - Optional TTL in milliseconds (overrides default)
+   */
+  readonly set: (key: string, value: T, ttlMs?: number) => Promise<void>;
+
+  /**
+   * Deletes a value from the cache.
+   * @param key - The cache key
+   * @returns true if the key existed, false otherwise
+   */
+  readonly delete: (key: string) => Promise<boolean>;
+
+  /**
+   * Clears all values from the cache.
+   */
+  readonly clear: () => Promise<void>;
+}
+
+/**
+ * Either a synchronous or an asynchronous cache.
+ * Accepted anywhere the SDK stores values so that shared stores can be plugged in.
+ */
+export type CacheLike<T> = Cache<T> | AsyncCache<T>;
+
+/**
+ * Minimal string key-value client used by {@link createKeyValueCache}.
+ * Adapt your store's client (e.g., ioredis, node-redis, Memcached) to this shape.
+ */
+export interface KeyValueClient {
+  /**
+   * Gets a raw value.
+   * @returns The stored string, or null/undefined if the key does not exist
+   */
+  readonly get: (key: string) => Promise<string | null | undefined>;
+
+  /**
+   * Stores a raw value that expires after ttlMs milliseconds.
+   */
+  readonly set: (key: string, value: string, ttlMs: number) => Promise<void>;
+
+  /**
+   * Deletes a key.
+   * @returns true if the key existed, false otherwise
+   */
+  readonly delete: (key: string) => Promise<boolean>;
+
+  /**
+   * Deletes every key starting with the given prefix.
+   */
+  readonly deleteByPrefix: (prefix: string) => Promise<void>;
+}
+
+/**
+ * Options for creating a key-value backed cache.
+ */
+export interface KeyValueCacheOptions {
+  /** Prefix prepended to every key, used to namespace and clear entries (default: "aic:") */
+  readonly keyPrefix?: string;
+  /** Default TTL in milliseconds (default: 5 minutes) */
+  readonly defaultTtlMs?: number;
+  /**
+   * Called when the underlying client fails.
+   * Failed reads are treated as cache misses and failed writes are skipped.
+   */
+  readonly onError?: (error: unknown) => void;
+}
+
 /**
  * Internal cache entry with expiration timestamp.
  */
@@ -37,3 +119,16 @@ export interface CacheEntry<T> {
   readonly value: T;
   readonly expiresAt: number;
 }
+
+/**
+ * Options for creating an in-memory cache.
+ */
+export interface MemoryCacheOptions {
+  /** Default TTL in milliseconds (default: 5 minutes) */
+  readonly defaultTtlMs?: number;
+  /**
+   * Maximum number of entries to keep (default: unbounded).
+   * When the limit is reached, the least recently used entry is evicted.
+   */
+  readonly maxEntries?: number;
+}
@@ -0,0 +1,295 @@
+import { describe, it, expect } from 'vitest';
+import { exportPKCS8, exportSPKI, generateKeyPair, importSPKI, jwtVerify } from 'jose';
+import {
+  createClientSecretBasic,
+  createClientSecretPost,
+  createPrivateKeyJwt,
+  createTlsClientAuth,
+  negotiateClientAuthentication,
+  createClientAuthenticationResolver,
+  createClientAuthenticatedRequest,
+  ClientAuthenticationError,
+} from './client-authentication.js';
+import type { ClientAssertionKey } from './types.js';
+import {
+  TEST_CLIENT_ID,
+  TEST_CLIENT_SECRET,
+  TEST_TOKEN_ENDPOINT,
+  createDiscoveryDocument,
+} from '../test/fixtures.js';
+
+/**
+ * Creates an ES256 assertion key and the public key PEM to verify its assertions.
+ */
+const createAssertionKey = async (): Promise<{
+  readonly key: ClientAssertionKey;
+  readonly publicKeyPem: string;
+}> => {
+  const { privateKey, publicKey } = await generateKeyPair('ES256', { extractable: true });
+  return {
+    key: { pem: await exportPKCS8(privateKey), alg: 'ES256', kid: 'client-key-1' },
+    publicKeyPem: await exportSPKI(publicKey),
+  };
+};
+
+describe('createClientSecretBasic', () => {
+  it('sends the credentials in a Basic Authorization header', async () => {
+    const result = await createClientSecretBasic(TEST_CLIENT_ID, TEST_CLIENT_SECRET).authenticate();
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      const expected = Buffer.from(`${TEST_CLIENT_ID}:${TEST_CLIENT_SECRET}`).toString('base64');
+      expect(result.value.headers['Authorization']).toBe(`Basic ${expected}`);
+      expect(result.value.params).toEqual({});
+    }
+  });
+});
+
+describe('createClientSecretPost', () => {
+  it('sends the credentials as form parameters', async () => {
+    const result = await createClientSecretPost(TEST_CLIENT_ID, TEST_CLIENT_SECRET).authenticate();
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.headers).toEqual({});
+      expect(result.value.params).toEqual({
+        client_id: TEST_CLIENT_ID,
+        client_secret: TEST_CLIENT_SECRET,
+      });
+    }
+  });
+});
+
+describe('createTlsClientAuth', () => {
+  it('sends only the client ID', async () => {
+    const result = await createTlsClientAuth(TEST_CLIENT_ID).authenticate();
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.params).toEqual({ client_id: TEST_CLIENT_ID });
+    }
+  });
+});
+
+describe('createPrivateKeyJwt', () => {
+  describe('given a valid private key', () => {
+    it('sends a signed client assertion for the audience', async () => {
+      const { key, publicKeyPem } = await createAssertionKey();
+
+      const result = await createPrivateKeyJwt(
+        TEST_CLIENT_ID,
+        key,
+        TEST_TOKEN_ENDPOINT
+      ).authenticate();
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        const { params } = result.value;
+        expect(params['client_assertion_type']).toBe(
+          'urn:ietf:params:oauth:client-assertion-type:jwt-bearer'
+        );
+        const { payload, protectedHeader } = await jwtVerify(
+          params['client_assertion'] ?? '',
+          await importSPKI(publicKeyPem, 'ES256'),
+          { issuer: TEST_CLIENT_ID, subject: TEST_CLIENT_ID, audience: TEST_TOKEN_ENDPOINT }
+        );
+        expect(protectedHeader.kid).toBe('client-key-1');
+        expect(payload.jti).toBeDefined();
+        expect((payload.exp ?? 0) - (payload.iat ?? 0)).toBe(60);
+      }
+    });
+
+    it('signs a fresh assertion for every request', async () => {
+      const { key } = await createAssertionKey();
+      const clientAuth = createPrivateKeyJwt(TEST_CLIENT_ID, key, TEST_TOKEN_ENDPOINT);
+
+      const first = await clientAuth.authenticate();
+      const second = await clientAuth.authenticate();
+
+      expect(first.isOk() && second.isOk()).toBe(true);
+      if (first.isOk() && second.isOk()) {
+        expect(first.value.params['client_assertion']).not.toBe(
+          second.value.params['client_assertion']
+        );
+      }
+    });
+  });
+
+  describe('given an unusable private key', () => {
+    it('returns a ClientAuthenticationError', async () => {
+      const result = await createPrivateKeyJwt(
+        TEST_CLIENT_ID,
+        { pem: 'not a key', alg: 'RS256' },
+        TEST_TOKEN_ENDPOINT
+      ).authenticate();
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error).toBeInstanceOf(ClientAuthenticationError);
+        expect(result.error.message).toContain('Failed to sign client assertion');
+      }
+    });
+  });
+});
+
+describe('negotiateClientAuthentication', () => {
+  describe('given a client secret and AM supporting basic and post', () => {
+    it('selects client_secret_basic', () => {
+      const result = negotiateClientAuthentication(
+        TEST_CLIENT_ID,
+        TEST_CLIENT_SECRET,
+        {},
+        createDiscoveryDocument()
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.method).toBe('client_secret_basic');
+      }
+    });
+  });
+
+  describe('given AM supporting only client_secret_post', () => {
+    it('selects client_secret_post', () => {
+      const result = negotiateClientAuthentication(
+        TEST_CLIENT_ID,
+        TEST_CLIENT_SECRET,
+        {},
+        createDiscoveryDocument({ token_endpoint_auth_methods_supported: ['client_secret_post'] })
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.method).toBe('client_secret_post');
+      }
+    });
+  });
+
+  describe('given a private key and a client secret', () => {
+    it('prefers private_key_jwt when AM supports it', async () => {
+      const { key } = await createAssertionKey();
+
+      const result = negotiateClientAuthentication(
+        TEST_CLIENT_ID,
+        TEST_CLIENT_SECRET,
+        { privateKey: key },
+        createDiscoveryDocument({
+          token_endpoint_auth_methods_supported: ['client_secret_basic', 'private_key_jwt'],
+        })
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.method).toBe('private_key_jwt');
+      }
+    });
+  });
+
+  describe('given a discovery document without supported methods', () => {
+    it('only allows client_secret_basic', () => {
+      const result = negotiateClientAuthentication(
+        TEST_CLIENT_ID,
+        undefined,
+        { tlsClientCertificate: true },
+        createDiscoveryDocument({ token_endpoint_auth_methods_supported: undefined })
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.message).toContain('tls_client_auth');
+      }
+    });
+  });
+
+  describe('given a configured method', () => {
+    it('uses it without negotiating', () => {
+      const result = negotiateClientAuthentication(
+        TEST_CLIENT_ID,
+        undefined,
+        { method: 'tls_client_auth', tlsClientCertificate: true },
+        createDiscoveryDocument()
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value.method).toBe('tls_client_auth');
+      }
+    });
+
+    it('returns an error when its credentials are missing', () => {
+      const result = negotiateClientAuthentication(
+        TEST_CLIENT_ID,
+        TEST_CLIENT_SECRET,
+        { method: 'private_key_jwt' },
+        createDiscoveryDocument()
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.message).toContain('private_key_jwt');
+      }
+    });
+  });
+
+  describe('given no credentials', () => {
+    it('returns an error', () => {
+      const result = negotiateClientAuthentication(
+        TEST_CLIENT_ID,
+        undefined,
+        {},
+        createDiscoveryDocument()
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.message).toBe('No client credentials configured');
+      }
+    });
+  });
+});
+
+describe('createClientAuthenticationResolver', () => {
+  it('reuses the negotiated authentication for the same discovery document', () => {
+    const resolve = createClientAuthenticationResolver(TEST_CLIENT_ID, TEST_CLIENT_SECRET);
+    const discovery = createDiscoveryDocument();
+
+    const first = resolve(discovery);
+    const second = resolve({ ...discovery });
+
+    expect(second).toBe(first);
+  });
+
+  it('renegotiates when the advertised methods change', () => {
+    const resolve = createClientAuthenticationResolver(TEST_CLIENT_ID, TEST_CLIENT_SECRET);
+
+    resolve(createDiscoveryDocument());
+    const result = resolve(
+      createDiscoveryDocument({ token_endpoint_auth_methods_supported: ['client_secret_post'] })
+    );
+
+    expect(result.isOk()).toBe(true);
+    if (result.isOk()) {
+      expect(result.value.method).toBe('client_secret_post');
+    }
+  });
+});
+
+describe('createClientAuthenticatedRequest', () => {
+  it('adds credential headers and form parameters to the request', () => {
+    const request = createClientAuthenticatedRequest(
+      TEST_TOKEN_ENDPOINT,
+      new URLSearchParams({ token: 'abc' }),
+      { headers: { Authorization: 'Basic xyz' }, params: { client_id: TEST_CLIENT_ID } }
+    );
+
+    expect(request.method).toBe('POST');
+    expect(request.headers).toEqual({
+      Authorization: 'Basic xyz',
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    });
+    const body = new URLSearchParams(request.body);
+    expect(body.get('token')).toBe('abc');
+    expect(body.get('client_id')).toBe(TEST_CLIENT_ID);
+  });
+});
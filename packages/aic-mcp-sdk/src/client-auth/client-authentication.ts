@@ -0,0 +1,325 @@
+import { randomUUID } from 'node:crypto';
+import { ok, err, type Result } from 'neverthrow';
+import { importPKCS8, SignJWT, type KeyLike } from 'jose';
+import type { HttpRequest } from '../http/types.js';
+import type { OidcDiscoveryDocument } from '../validation/types.js';
+import type {
+  ClientAssertionKey,
+  ClientAuthentication,
+  ClientAuthenticationConfig,
+  ClientAuthenticationMethod,
+  ClientCredentials,
+} from './types.js';
+
+/** Client assertion type for private_key_jwt (RFC 7523 Section 2.2) */
+const JWT_BEARER_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+/** Default private_key_jwt assertion lifetime: 60 seconds */
+const DEFAULT_ASSERTION_LIFETIME_SECONDS = 60;
+
+/** Negotiation preference, strongest first */
+const METHOD_PREFERENCE: readonly ClientAuthenticationMethod[] = [
+  'private_key_jwt',
+  'tls_client_auth',
+  'client_secret_basic',
+  'client_secret_post',
+];
+
+/**
+ * Error raised when the client cannot authenticate: missing credentials, no method in common
+ * with AM, or an unusable private key.
+ */
+export class ClientAuthenticationError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'ClientAuthenticationError';
+  }
+}
+
+/**
+ * Creates client_secret_basic authentication.
+ *
+ * @param clientId - OAuth client ID
+ * @param clientSecret - OAuth client secret
+ * @returns A ClientAuthentication instance
+ */
+export const createClientSecretBasic = (
+  clientId: string,
+  clientSecret: string
+): ClientAuthentication => {
+  const credentials = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+  return {
+    method: 'client_secret_basic',
+    authenticate: () =>
+      Promise.resolve(ok({ headers: { Authorization: `Basic ${credentials}` }, params: {} })),
+  };
+};
+
+/**
+ * Creates client_secret_post authentication.
+ *
+ * @param clientId - OAuth client ID
+ * @param clientSecret - OAuth client secret
+ * @returns A ClientAuthentication instance
+ */
+export const createClientSecretPost = (
+  clientId: string,
+  clientSecret: string
+): ClientAuthentication => ({
+  method: 'client_secret_post',
+  authenticate: () =>
+    Promise.resolve(
+      ok({ headers: {}, params: { client_id: clientId, client_secret: clientSecret } })
+    ),
+});
+
+/**
+ * Creates tls_client_auth authentication. Only the client ID is sent; the HttpClient must
+ * present the TLS client certificate registered for the client.
+ *
+ * @param clientId - OAuth client ID
+ * @returns A ClientAuthentication instance
+ */
+export const createTlsClientAuth = (clientId: string): ClientAuthentication => ({
+  method: 'tls_client_auth',
+  authenticate: () => Promise.resolve(ok({ headers: {}, params: { client_id: clientId } })),
+});
+
+/**
+ * Creates private_key_jwt authentication (RFC 7523). Each request gets a freshly signed,
+ * short-lived assertion with a unique "jti".
+ *
+ * @param clientId - OAuth client ID, used as the assertion's "iss" and "sub"
+ * @param key - Private key the assertion is signed with
+ * @param audience - The assertion's "aud"; AM expects its token endpoint
+ * @param assertionLifetimeSeconds - Assertion lifetime (default: 60)
+ * @returns A ClientAuthentication instance
+ *
+ * @example
+ * ```typescript
+ * const clientAuth = createPrivateKeyJwt(
+ *   'mcp-server',
+ *   { pem: privateKeyPem, alg: 'RS256', kid: 'key-1' },
+ *   'https://auth.example.com/am/oauth2/realms/root/realms/alpha/access_token'
+ * );
+ * ```
+ */
+export const createPrivateKeyJwt = (
+  clientId: string,
+  key: ClientAssertionKey,
+  audience: string,
+  assertionLifetimeSeconds = DEFAULT_ASSERTION_LIFETIME_SECONDS
+): ClientAuthentication => {
+  // Imported once, on first use
+  let signingKey: Promise<KeyLike> | undefined;
+
+  const authenticate = async (): Promise<Result<ClientCredentials, Error>> => {
+    try {
+      signingKey ??= importPKCS8(key.pem, key.alg);
+      const now = Math.floor(Date.now() / 1000);
+      const assertion = await new SignJWT({})
+        .setProtectedHeader({
+          alg: key.alg,
+          typ: 'JWT',
+          ...(key.kid !== undefined ? { kid: key.kid } : {}),
+        })
+        .setIssuer(clientId)
+        .setSubject(clientId)
+        .setAudience(audience)
+        .setJti(randomUUID())
+        .setIssuedAt(now)
+        .setExpirationTime(now + assertionLifetimeSeconds)
+        .sign(await signingKey);
+
+      return ok({
+        headers: {},
+        params: {
+          client_id: clientId,
+          client_assertion_type: JWT_BEARER_ASSERTION_TYPE,
+          client_assertion: assertion,
+        },
+      });
+    } catch (error) {
+      signingKey = undefined;
+      const reason = error instanceof Error ? error.message : 'unknown error';
+      return err(
+        new ClientAuthenticationError(`Failed to sign client assertion: ${reason}`, error)
+      );
+    }
+  };
+
+  return { method: 'private_key_jwt', authenticate };
+};
+
+/**
+ * Lists the methods the configured credentials allow, in preference order.
+ */
+const getAvailableMethods = (
+  clientSecret: string | undefined,
+  config: ClientAuthenticationConfig
+): readonly ClientAuthenticationMethod[] =>
+  METHOD_PREFERENCE.filter((method) => {
+    switch (method) {
+      case 'private_key_jwt':
+        return config.privateKey !== undefined;
+      case 'tls_client_auth':
+        return config.tlsClientCertificate === true;
+      case 'client_secret_basic':
+      case 'client_secret_post':
+        return clientSecret !== undefined && clientSecret.length > 0;
+    }
+  });
+
+/**
+ * Checks whether any client credentials are configured.
+ *
+ * @param clientSecret - OAuth client secret, if any
+ * @param config - Client authentication settings
+ * @returns true if at least one method could be used
+ */
+export const hasClientCredentials = (
+  clientSecret: string | undefined,
+  config: ClientAuthenticationConfig
+): boolean => getAvailableMethods(clientSecret, config).length > 0;
+
+/**
+ * Selects and creates the client authentication for an authorization server.
+ * A configured method is used as-is if its credentials are present; otherwise the first
+ * available method in token_endpoint_auth_methods_supported is chosen. Discovery documents
+ * without that list only allow client_secret_basic (RFC 8414 Section 2).
+ *
+ * @param clientId - OAuth client ID
+ * @param clientSecret - OAuth client secret, if any
+ * @param config - Client authentication settings
+ * @param discovery - The authorization server's discovery document
+ * @returns Result with the client authentication or an error
+ *
+ * @example
+ * ```typescript
+ * const result = negotiateClientAuthentication('mcp-server', undefined, {
+ *   privateKey: { pem: privateKeyPem, alg: 'ES256' },
+ * }, discovery);
+ * ```
+ */
+export const negotiateClientAuthentication = (
+  clientId: string,
+  clientSecret: string | undefined,
+  config: ClientAuthenticationConfig,
+  discovery: Pick<OidcDiscoveryDocument, 'token_endpoint' | 'token_endpoint_auth_methods_supported'>
+): Result<ClientAuthentication, ClientAuthenticationError> => {
+  const available = getAvailableMethods(clientSecret, config);
+
+  let method: ClientAuthenticationMethod | undefined;
+  if (config.method !== undefined) {
+    if (!available.includes(config.method)) {
+      return err(
+        new ClientAuthenticationError(
+          `Client authentication method ${config.method} is configured without its credentials`
+        )
+      );
+    }
+    method = config.method;
+  } else {
+    const supported = discovery.token_endpoint_auth_methods_supported ?? ['client_secret_basic'];
+    method = available.find((candidate) => supported.includes(candidate));
+  }
+
+  if (method === undefined) {
+    return err(
+      new ClientAuthenticationError(
+        available.length === 0
+          ? 'No client credentials configured'
+          : `None of the configured client authentication methods (${available.join(', ')}) is supported by the authorization server`
+      )
+    );
+  }
+
+  switch (method) {
+    case 'client_secret_basic':
+      return ok(createClientSecretBasic(clientId, clientSecret ?? ''));
+    case 'client_secret_post':
+      return ok(createClientSecretPost(clientId, clientSecret ?? ''));
+    case 'tls_client_auth':
+      return ok(createTlsClientAuth(clientId));
+    case 'private_key_jwt':
+      // Checked by getAvailableMethods
+      return config.privateKey !== undefined
+        ? ok(
+            createPrivateKeyJwt(
+              clientId,
+              config.privateKey,
+              discovery.token_endpoint,
+              config.assertionLifetimeSeconds
+            )
+          )
+        : err(new ClientAuthenticationError('private_key_jwt requires a private key'));
+  }
+};
+
+/**
+ * Creates a resolver that negotiates client authentication per discovery document and reuses
+ * the result while the token endpoint and its advertised methods stay the same.
+ *
+ * @param clientId - OAuth client ID
+ * @param clientSecret - OAuth client secret, if any
+ * @param config - Client authentication settings
+ * @returns A function resolving the client authentication for a discovery document
+ */
+export const createClientAuthenticationResolver = (
+  clientId: string,
+  clientSecret: string | undefined,
+  config: ClientAuthenticationConfig = {}
+): ((
+  discovery: OidcDiscoveryDocument
+) => Result<ClientAuthentication, ClientAuthenticationError>) => {
+  let resolved:
+    | {
+        readonly key: string;
+        readonly result: Result<ClientAuthentication, ClientAuthenticationError>;
+      }
+    | undefined;
+
+  return (discovery) => {
+    const key = JSON.stringify([
+      discovery.token_endpoint,
+      discovery.token_endpoint_auth_methods_supported,
+    ]);
+    if (resolved?.key !== key) {
+      resolved = {
+        key,
+        result: negotiateClientAuthentication(clientId, clientSecret, config, discovery),
+      };
+    }
+    return resolved.result;
+  };
+};
+
+/**
+ * Builds a form-encoded POST request carrying client credentials.
+ *
+ * @param url - Endpoint URL
+ * @param params - Request form parameters
+ * @param credentials - Client credentials for the request
+ * @returns The HTTP request
+ */
+export const createClientAuthenticatedRequest = (
+  url: string,
+  params: URLSearchParams,
+  credentials: ClientCredentials
+): HttpRequest => {
+  const body = new URLSearchParams(params);
+  for (const [name, value] of Object.entries(credentials.params)) {
+    body.set(name, value);
+  }
+
+  return {
+    url,
+    method: 'POST',
+    headers: {
+      ...credentials.headers,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: body.toString(),
+  };
+};
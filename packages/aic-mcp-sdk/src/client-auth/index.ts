@@ -0,0 +1,21 @@
+// Client authentication methods
+export {
+  createClientSecretBasic,
+  createClientSecretPost,
+  createPrivateKeyJwt,
+  createTlsClientAuth,
+  negotiateClientAuthentication,
+  createClientAuthenticationResolver,
+  createClientAuthenticatedRequest,
+  hasClientCredentials,
+  ClientAuthenticationError,
+} from './client-authentication.js';
+
+// Types
+export type {
+  ClientAuthentication,
+  ClientAuthenticationConfig,
+  ClientAuthenticationMethod,
+  ClientAssertionKey,
+  ClientCredentials,
+} from './types.js';
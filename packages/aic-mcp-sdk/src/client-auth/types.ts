@@ -0,0 +1,66 @@
+import type { Result } from 'neverthrow';
+
+/**
+ * OAuth client authentication methods supported for back-channel requests
+ * (token exchange, introspection, revocation).
+ * - client_secret_basic: client ID and secret in an HTTP Basic Authorization header
+ * - client_secret_post: client ID and secret as form parameters
+ * - private_key_jwt: a signed JWT assertion (RFC 7523)
+ * - tls_client_auth: a registered TLS client certificate (RFC 8705); the HttpClient must
+ *   present the certificate
+ */
+export type ClientAuthenticationMethod =
+  | 'client_secret_basic'
+  | 'client_secret_post'
+  | 'private_key_jwt'
+  | 'tls_client_auth';
+
+/**
+ * Private key used to sign private_key_jwt client assertions.
+ */
+export interface ClientAssertionKey {
+  /** PKCS#8 PEM-encoded private key */
+  readonly pem: string;
+  /** JWS algorithm the key signs with (e.g., "RS256", "ES256") */
+  readonly alg: string;
+  /** Key ID registered with AM, sent as the assertion's "kid" header */
+  readonly kid?: string;
+}
+
+/**
+ * Client authentication settings. Without `method`, the SDK picks the first method it has
+ * credentials for that the discovery document's token_endpoint_auth_methods_supported allows,
+ * preferring private_key_jwt, then tls_client_auth, client_secret_basic and client_secret_post.
+ */
+export interface ClientAuthenticationConfig {
+  /** Use this method instead of negotiating one */
+  readonly method?: ClientAuthenticationMethod;
+  /** Private key for private_key_jwt */
+  readonly privateKey?: ClientAssertionKey;
+  /** Lifetime of private_key_jwt assertions in seconds (default: 60) */
+  readonly assertionLifetimeSeconds?: number;
+  /** The HttpClient presents a TLS client certificate registered for this client */
+  readonly tlsClientCertificate?: boolean;
+}
+
+/**
+ * Headers and form parameters that authenticate one back-channel request.
+ */
+export interface ClientCredentials {
+  /** Headers to add to the request */
+  readonly headers: Readonly<Record<string, string>>;
+  /** Form parameters to add to the request body */
+  readonly params: Readonly<Record<string, string>>;
+}
+
+/**
+ * Authenticates the client on back-channel requests to AM.
+ */
+export interface ClientAuthentication {
+  /** The method in use */
+  readonly method: ClientAuthenticationMethod;
+  /**
+   * Produces credentials for one request. private_key_jwt signs a fresh assertion per call.
+   */
+  readonly authenticate: () => Promise<Result<ClientCredentials, Error>>;
+}
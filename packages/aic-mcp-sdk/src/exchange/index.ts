@@ -0,0 +1,5 @@
+// Main factory
+export { createTokenExchanger, ACCESS_TOKEN_TYPE } from './token-exchanger.js';
+
+// Types
+export type { TokenExchanger, TokenExchangerConfig, TokenExchangeRequest } from './types.js';
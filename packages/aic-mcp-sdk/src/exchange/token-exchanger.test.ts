@@ -0,0 +1,343 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ok, err } from 'neverthrow';
+import { createTokenExchanger, ACCESS_TOKEN_TYPE } from './token-exchanger.js';
+import type { HttpClient, HttpError, HttpRequest } from '../http/types.js';
+import { createMemoryCache } from '../cache/memory-cache.js';
+import type { TokenExchangeSuccess } from '../types.js';
+import {
+  TEST_AM_URL,
+  TEST_CLIENT_ID,
+  TEST_CLIENT_SECRET,
+  TEST_TOKEN_ENDPOINT,
+  createDiscoveryDocument,
+} from '../test/fixtures.js';
+
+const SUBJECT_TOKEN = 'subject-token';
+const DOWNSTREAM_AUDIENCE = 'https://api.example.com';
+const EXCHANGED_TOKEN = 'exchanged-token';
+
+interface ExchangeHttpClient {
+  readonly httpClient: HttpClient;
+  readonly requests: HttpRequest[];
+}
+
+/**
+ * Creates an HTTP client serving the discovery document over json() and a token
+ * exchange response over text().
+ */
+const createExchangeHttpClient = (
+  response: { readonly body: unknown } | { readonly error: HttpError }
+): ExchangeHttpClient => {
+  const requests: HttpRequest[] = [];
+  const discovery = createDiscoveryDocument();
+
+  const json: HttpClient['json'] = () =>
+    Promise.resolve(ok({ status: 200, statusText: 'OK', headers: {}, body: discovery as never }));
+
+  const text: HttpClient['text'] = (request) => {
+    requests.push(request);
+    if ('error' in response) {
+      return Promise.resolve(err(response.error));
+    }
+    return Promise.resolve(
+      ok({ status: 200, statusText: 'OK', headers: {}, body: JSON.stringify(response.body) })
+    );
+  };
+
+  return { httpClient: { json, text }, requests };
+};
+
+const createExchanger = (httpClient: HttpClient): ReturnType<typeof createTokenExchanger> =>
+  createTokenExchanger(
+    { amUrl: TEST_AM_URL, clientId: TEST_CLIENT_ID, clientSecret: TEST_CLIENT_SECRET },
+    httpClient
+  );
+
+const successBody = {
+  access_token: EXCHANGED_TOKEN,
+  issued_token_type: ACCESS_TOKEN_TYPE,
+  token_type: 'Bearer',
+  expires_in: 300,
+  scope: 'todos:read',
+};
+
+describe('createTokenExchanger', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('exchange', () => {
+    describe('given an empty subject token', () => {
+      it('returns MISSING_TOKEN failure without calling the token endpoint', async () => {
+        const { httpClient, requests } = createExchangeHttpClient({ body: successBody });
+        const exchanger = createExchanger(httpClient);
+
+        const result = await exchanger.exchange({ subjectToken: '' });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error).toBe('MISSING_TOKEN');
+        }
+        expect(requests).toHaveLength(0);
+      });
+    });
+
+    describe('given client_secret_post is configured', () => {
+      it('sends the client credentials in the request body', async () => {
+        const { httpClient, requests } = createExchangeHttpClient({ body: successBody });
+        const exchanger = createTokenExchanger(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            clientSecret: TEST_CLIENT_SECRET,
+            clientAuthentication: { method: 'client_secret_post' },
+          },
+          httpClient
+        );
+
+        await exchanger.exchange({ subjectToken: SUBJECT_TOKEN });
+
+        expect(requests[0]?.headers?.['Authorization']).toBeUndefined();
+        const params = new URLSearchParams(requests[0]?.body);
+        expect(params.get('client_id')).toBe(TEST_CLIENT_ID);
+        expect(params.get('client_secret')).toBe(TEST_CLIENT_SECRET);
+      });
+    });
+
+    describe('given no client credentials', () => {
+      it('returns EXCHANGE_ERROR without calling the token endpoint', async () => {
+        const { httpClient, requests } = createExchangeHttpClient({ body: successBody });
+        const exchanger = createTokenExchanger(
+          { amUrl: TEST_AM_URL, clientId: TEST_CLIENT_ID },
+          httpClient
+        );
+
+        const result = await exchanger.exchange({ subjectToken: SUBJECT_TOKEN });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error).toBe('EXCHANGE_ERROR');
+          expect(result.message).toContain('No client credentials configured');
+        }
+        expect(requests).toHaveLength(0);
+      });
+    });
+
+    describe('given a successful exchange', () => {
+      it('posts an RFC 8693 request to the discovered token endpoint', async () => {
+        const { httpClient, requests } = createExchangeHttpClient({ body: successBody });
+        const exchanger = createExchanger(httpClient);
+
+        await exchanger.exchange({
+          subjectToken: SUBJECT_TOKEN,
+          actorToken: 'actor-token',
+          audience: [DOWNSTREAM_AUDIENCE, 'https://other.example.com'],
+          resource: 'https://api.example.com/todos',
+          scope: ['todos:read', 'todos:write'],
+        });
+
+        const request = requests[0];
+        expect(request?.url).toBe(TEST_TOKEN_ENDPOINT);
+        expect(request?.method).toBe('POST');
+        const expectedCredentials = Buffer.from(`${TEST_CLIENT_ID}:${TEST_CLIENT_SECRET}`).toString(
+          'base64'
+        );
+        expect(request?.headers?.['Authorization']).toBe(`Basic ${expectedCredentials}`);
+
+        const params = new URLSearchParams(request?.body);
+        expect(params.get('grant_type')).toBe('urn:ietf:params:oauth:grant-type:token-exchange');
+        expect(params.get('subject_token')).toBe(SUBJECT_TOKEN);
+        expect(params.get('subject_token_type')).toBe(ACCESS_TOKEN_TYPE);
+        expect(params.get('actor_token')).toBe('actor-token');
+        expect(params.get('actor_token_type')).toBe(ACCESS_TOKEN_TYPE);
+        expect(params.getAll('audience')).toEqual([
+          DOWNSTREAM_AUDIENCE,
+          'https://other.example.com',
+        ]);
+        expect(params.get('resource')).toBe('https://api.example.com/todos');
+        expect(params.get('scope')).toBe('todos:read todos:write');
+      });
+
+      it('returns the issued token with its expiry', async () => {
+        vi.setSystemTime(new Date('2025-01-01T00:00:00Z'));
+        const { httpClient } = createExchangeHttpClient({ body: successBody });
+        const exchanger = createExchanger(httpClient);
+
+        const result = await exchanger.exchange({
+          subjectToken: SUBJECT_TOKEN,
+          audience: DOWNSTREAM_AUDIENCE,
+        });
+
+        expect(result).toEqual({
+          success: true,
+          accessToken: EXCHANGED_TOKEN,
+          issuedTokenType: ACCESS_TOKEN_TYPE,
+          tokenType: 'Bearer',
+          expiresAt: Math.floor(Date.now() / 1000) + 300,
+          scope: 'todos:read',
+        });
+      });
+    });
+
+    describe('given the same subject and target are exchanged twice', () => {
+      it('serves the second exchange from cache', async () => {
+        const { httpClient, requests } = createExchangeHttpClient({ body: successBody });
+        const exchanger = createExchanger(httpClient);
+        const request = { subjectToken: SUBJECT_TOKEN, audience: DOWNSTREAM_AUDIENCE };
+
+        await exchanger.exchange(request);
+        const result = await exchanger.exchange(request);
+
+        expect(result.success).toBe(true);
+        expect(requests).toHaveLength(1);
+      });
+
+      it('exchanges again once the token is within the expiry skew', async () => {
+        const { httpClient, requests } = createExchangeHttpClient({ body: successBody });
+        const exchanger = createExchanger(httpClient);
+        const request = { subjectToken: SUBJECT_TOKEN, audience: DOWNSTREAM_AUDIENCE };
+
+        await exchanger.exchange(request);
+        // Default skew is 30s, so the cached entry lapses at 270s
+        vi.advanceTimersByTime(271 * 1000);
+        await exchanger.exchange(request);
+
+        expect(requests).toHaveLength(2);
+      });
+    });
+
+    describe('given a JWT subject token expiring before the issued token', () => {
+      it('exchanges again once the subject token is within the expiry skew', async () => {
+        const { httpClient, requests } = createExchangeHttpClient({ body: successBody });
+        const exchanger = createExchanger(httpClient);
+        const encode = (value: unknown): string =>
+          Buffer.from(JSON.stringify(value)).toString('base64url');
+        const exp = Math.floor(Date.now() / 1000) + 60;
+        const subjectToken = `${encode({ alg: 'RS256' })}.${encode({ sub: 'user', exp })}.sig`;
+        const request = { subjectToken, audience: DOWNSTREAM_AUDIENCE };
+
+        await exchanger.exchange(request);
+        vi.advanceTimersByTime(29 * 1000);
+        await exchanger.exchange(request);
+        // The subject expires at 60s, so with the 30s skew the entry lapses at 30s, not 270s
+        vi.advanceTimersByTime(2 * 1000);
+        await exchanger.exchange(request);
+
+        expect(requests).toHaveLength(2);
+      });
+    });
+
+    describe('given a different target audience', () => {
+      it('does not reuse the cached token', async () => {
+        const { httpClient, requests } = createExchangeHttpClient({ body: successBody });
+        const exchanger = createExchanger(httpClient);
+
+        await exchanger.exchange({ subjectToken: SUBJECT_TOKEN, audience: DOWNSTREAM_AUDIENCE });
+        await exchanger.exchange({
+          subjectToken: SUBJECT_TOKEN,
+          audience: 'https://other.example.com',
+        });
+
+        expect(requests).toHaveLength(2);
+      });
+    });
+
+    describe('given the response has no expires_in', () => {
+      it('does not cache the token', async () => {
+        const { expires_in: _expiresIn, ...body } = successBody;
+        const { httpClient, requests } = createExchangeHttpClient({ body });
+        const exchanger = createExchanger(httpClient);
+        const request = { subjectToken: SUBJECT_TOKEN };
+
+        await exchanger.exchange(request);
+        await exchanger.exchange(request);
+
+        expect(requests).toHaveLength(2);
+      });
+    });
+
+    describe('given a custom token cache', () => {
+      it('does not store raw tokens in cache keys', async () => {
+        const { httpClient } = createExchangeHttpClient({ body: successBody });
+        const tokenCache = createMemoryCache<TokenExchangeSuccess>();
+        const set = vi.spyOn(tokenCache, 'set');
+        const exchanger = createTokenExchanger(
+          { amUrl: TEST_AM_URL, clientId: TEST_CLIENT_ID, clientSecret: TEST_CLIENT_SECRET },
+          httpClient,
+          undefined,
+          tokenCache
+        );
+
+        await exchanger.exchange({ subjectToken: SUBJECT_TOKEN });
+
+        expect(set).toHaveBeenCalledOnce();
+        expect(set.mock.calls[0]?.[0]).not.toContain(SUBJECT_TOKEN);
+      });
+    });
+
+    describe('given the authorization server rejects the exchange', () => {
+      it('returns EXCHANGE_REJECTED failure', async () => {
+        const { httpClient } = createExchangeHttpClient({
+          error: { type: 'http', message: 'HTTP 400: Bad Request', status: 400 },
+        });
+        const exchanger = createExchanger(httpClient);
+
+        const result = await exchanger.exchange({ subjectToken: SUBJECT_TOKEN });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error).toBe('EXCHANGE_REJECTED');
+        }
+      });
+    });
+
+    describe('given a network error', () => {
+      it('returns EXCHANGE_ERROR failure', async () => {
+        const { httpClient } = createExchangeHttpClient({
+          error: { type: 'network', message: 'Network error' },
+        });
+        const exchanger = createExchanger(httpClient);
+
+        const result = await exchanger.exchange({ subjectToken: SUBJECT_TOKEN });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error).toBe('EXCHANGE_ERROR');
+        }
+      });
+    });
+
+    describe('given a response without access_token', () => {
+      it('returns EXCHANGE_ERROR failure', async () => {
+        const { httpClient } = createExchangeHttpClient({ body: { token_type: 'Bearer' } });
+        const exchanger = createExchanger(httpClient);
+
+        const result = await exchanger.exchange({ subjectToken: SUBJECT_TOKEN });
+
+        expect(result.success).toBe(false);
+        if (!result.success) {
+          expect(result.error).toBe('EXCHANGE_ERROR');
+          expect(result.message).toContain('access_token');
+        }
+      });
+    });
+  });
+
+  describe('clearCache', () => {
+    it('forces the next exchange to hit the token endpoint', async () => {
+      const { httpClient, requests } = createExchangeHttpClient({ body: successBody });
+      const exchanger = createExchanger(httpClient);
+      const request = { subjectToken: SUBJECT_TOKEN };
+
+      await exchanger.exchange(request);
+      await exchanger.clearCache();
+      await exchanger.exchange(request);
+
+      expect(requests).toHaveLength(2);
+    });
+  });
+});
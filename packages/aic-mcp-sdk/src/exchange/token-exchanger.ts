@@ -0,0 +1,324 @@
+import { decodeJwt } from 'jose';
+import type {
+  TokenExchangeError,
+  TokenExchangeFailure,
+  TokenExchangeResult,
+  TokenExchangeSuccess,
+} from '../types.js';
+import type { HttpClient } from '../http/types.js';
+import type { CacheLike } from '../cache/types.js';
+import type { OidcDiscoveryDocument } from '../validation/types.js';
+import type { TokenExchanger, TokenExchangerConfig, TokenExchangeRequest } from './types.js';
+import { createFetchClient } from '../http/fetch-client.js';
+import { createMemoryCache } from '../cache/memory-cache.js';
+import { toAsyncCache } from '../cache/async-cache.js';
+import { createCachedDiscoveryFetcher } from '../validation/discovery.js';
+import { hashToken } from '../validation/token-hash.js';
+import {
+  createClientAuthenticatedRequest,
+  createClientAuthenticationResolver,
+} from '../client-auth/client-authentication.js';
+
+/** RFC 8693 grant type */
+const TOKEN_EXCHANGE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:token-exchange';
+
+/** RFC 8693 token type identifier for access tokens */
+export const ACCESS_TOKEN_TYPE = 'urn:ietf:params:oauth:token-type:access_token';
+
+/** Default discovery cache TTL: 1 hour */
+const DEFAULT_DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/** Default realm path for AIC */
+const DEFAULT_REALM_PATH = '/am/oauth2/realms/root/realms/alpha';
+
+/** Default expiry skew: 30 seconds */
+const DEFAULT_EXPIRY_SKEW_SECONDS = 30;
+
+/** Default maximum number of cached exchanged tokens */
+const DEFAULT_TOKEN_CACHE_MAX_ENTRIES = 1000;
+
+/**
+ * RFC 8693 Section 2.2.1 token exchange response.
+ */
+interface TokenExchangeResponse {
+  readonly access_token?: unknown;
+  readonly issued_token_type?: unknown;
+  readonly token_type?: unknown;
+  readonly expires_in?: unknown;
+  readonly scope?: unknown;
+}
+
+/**
+ * Normalizes a single value or list into a list.
+ */
+const toList = (value: string | readonly string[] | undefined): readonly string[] => {
+  if (value === undefined) {
+    return [];
+  }
+  return typeof value === 'string' ? [value] : value;
+};
+
+/**
+ * Builds the token exchange request form parameters.
+ */
+const buildRequestParams = (request: TokenExchangeRequest): URLSearchParams => {
+  const params = new URLSearchParams({
+    grant_type: TOKEN_EXCHANGE_GRANT_TYPE,
+    subject_token: request.subjectToken,
+    subject_token_type: request.subjectTokenType ?? ACCESS_TOKEN_TYPE,
+  });
+
+  if (request.actorToken !== undefined) {
+    params.append('actor_token', request.actorToken);
+    params.append('actor_token_type', request.actorTokenType ?? ACCESS_TOKEN_TYPE);
+  }
+
+  // audience and resource may be repeated (RFC 8693 Section 2.1)
+  for (const audience of toList(request.audience)) {
+    params.append('audience', audience);
+  }
+  for (const resource of toList(request.resource)) {
+    params.append('resource', resource);
+  }
+
+  const scope = toList(request.scope);
+  if (scope.length > 0) {
+    params.append('scope', scope.join(' '));
+  }
+
+  if (request.requestedTokenType !== undefined) {
+    params.append('requested_token_type', request.requestedTokenType);
+  }
+
+  return params;
+};
+
+/**
+ * Builds the cache key for an exchange, without including any raw token.
+ */
+const buildCacheKey = (request: TokenExchangeRequest): string =>
+  hashToken(
+    JSON.stringify([
+      request.subjectToken,
+      request.subjectTokenType ?? ACCESS_TOKEN_TYPE,
+      request.actorToken ?? null,
+      toList(request.audience),
+      toList(request.resource),
+      toList(request.scope),
+      request.requestedTokenType ?? null,
+    ])
+  );
+
+const createExchangeFailure = (
+  error: TokenExchangeError,
+  message: string
+): TokenExchangeFailure => ({
+  success: false,
+  error,
+  message,
+});
+
+/**
+ * Parses and validates a token exchange response body.
+ */
+const parseExchangeResponse = (body: string): TokenExchangeResult => {
+  let response: TokenExchangeResponse;
+  try {
+    response = JSON.parse(body) as TokenExchangeResponse;
+  } catch {
+    return createExchangeFailure('EXCHANGE_ERROR', 'Failed to parse token exchange response');
+  }
+
+  if (typeof response.access_token !== 'string') {
+    return createExchangeFailure(
+      'EXCHANGE_ERROR',
+      'Invalid token exchange response: missing "access_token"'
+    );
+  }
+  if (typeof response.issued_token_type !== 'string') {
+    return createExchangeFailure(
+      'EXCHANGE_ERROR',
+      'Invalid token exchange response: missing "issued_token_type"'
+    );
+  }
+  if (typeof response.token_type !== 'string') {
+    return createExchangeFailure(
+      'EXCHANGE_ERROR',
+      'Invalid token exchange response: missing "token_type"'
+    );
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+
+  return {
+    success: true,
+    accessToken: response.access_token,
+    issuedTokenType: response.issued_token_type,
+    tokenType: response.token_type,
+    ...(typeof response.expires_in === 'number' ? { expiresAt: now + response.expires_in } : {}),
+    ...(typeof response.scope === 'string' ? { scope: response.scope } : {}),
+  };
+};
+
+/**
+ * Reads the "exp" claim (Unix seconds) of a JWT subject token; undefined for opaque tokens.
+ */
+const getSubjectTokenExpiry = (subjectToken: string): number | undefined => {
+  try {
+    const { exp } = decodeJwt(subjectToken);
+    return exp;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Creates an RFC 8693 token exchanger for calling downstream APIs on behalf of the caller.
+ *
+ * The token endpoint is resolved from the OIDC discovery document. Successful exchanges are
+ * cached per subject token and target (audience, resource, scope) until `expirySkewSeconds`
+ * before the issued token or, for a JWT subject token, the subject token expires, whichever
+ * comes first; tokens without `expires_in` are not cached.
+ *
+ * @param config - Exchanger configuration
+ * @param httpClient - Optional HTTP client (default: createFetchClient())
+ * @param discoveryCache - Optional cache for discovery document (default: createMemoryCache())
+ * @param tokenCache - Optional cache for exchanged tokens (default: bounded createMemoryCache())
+ * @returns A TokenExchanger instance
+ *
+ * @example
+ * ```typescript
+ * const exchanger = createTokenExchanger({
+ *   amUrl: 'https://auth.example.com',
+ *   clientId: 'mcp-server',
+ *   clientSecret: 'secret',
+ * });
+ *
+ * withAuth({ requiredScopes: ['todos:read'] }, async (args, extra) => {
+ *   const exchanged = await exchanger.exchange({
+ *     subjectToken: extra.authInfo.token,
+ *     audience: 'https://api.example.com',
+ *     scope: ['todos:read'],
+ *   });
+ *   if (!exchanged.success) {
+ *     throw new Error(exchanged.message);
+ *   }
+ *   return callBackend(exchanged.accessToken);
+ * });
+ * ```
+ */
+export const createTokenExchanger = (
+  config: TokenExchangerConfig,
+  httpClient: HttpClient = createFetchClient(),
+  discoveryCache: CacheLike<OidcDiscoveryDocument> = createMemoryCache(
+    DEFAULT_DISCOVERY_CACHE_TTL_MS
+  ),
+  tokenCache: CacheLike<TokenExchangeSuccess> = createMemoryCache({
+    maxEntries: DEFAULT_TOKEN_CACHE_MAX_ENTRIES,
+  })
+): TokenExchanger => {
+  const {
+    amUrl,
+    clientId,
+    clientSecret,
+    clientAuthentication,
+    realmPath = DEFAULT_REALM_PATH,
+    discoveryCacheTtlMs,
+    expirySkewSeconds = DEFAULT_EXPIRY_SKEW_SECONDS,
+  } = config;
+
+  const discoveryFetcher = createCachedDiscoveryFetcher(
+    httpClient,
+    discoveryCache,
+    amUrl,
+    realmPath,
+    discoveryCacheTtlMs ?? DEFAULT_DISCOVERY_CACHE_TTL_MS
+  );
+  const cache = toAsyncCache(tokenCache);
+  const resolveClientAuthentication = createClientAuthenticationResolver(
+    clientId,
+    clientSecret,
+    clientAuthentication
+  );
+
+  /**
+   * Calls the token endpoint for an exchange.
+   */
+  const requestExchange = async (
+    discovery: OidcDiscoveryDocument,
+    request: TokenExchangeRequest
+  ): Promise<TokenExchangeResult> => {
+    const clientAuthentication = resolveClientAuthentication(discovery);
+    const credentials = clientAuthentication.isOk()
+      ? await clientAuthentication.value.authenticate()
+      : clientAuthentication;
+    if (credentials.isErr()) {
+      return createExchangeFailure(
+        'EXCHANGE_ERROR',
+        `Client authentication failed: ${credentials.error.message}`
+      );
+    }
+
+    const result = await httpClient.text(
+      createClientAuthenticatedRequest(
+        discovery.token_endpoint,
+        buildRequestParams(request),
+        credentials.value
+      )
+    );
+
+    if (result.isErr()) {
+      const status = result.error.status;
+      const rejected = status === 400 || status === 401 || status === 403;
+      return createExchangeFailure(
+        rejected ? 'EXCHANGE_REJECTED' : 'EXCHANGE_ERROR',
+        `Token exchange request failed: ${result.error.message}`
+      );
+    }
+
+    return parseExchangeResponse(result.value.body);
+  };
+
+  const exchange = async (request: TokenExchangeRequest): Promise<TokenExchangeResult> => {
+    if (request.subjectToken.trim().length === 0) {
+      return createExchangeFailure('MISSING_TOKEN', 'No subject token provided');
+    }
+
+    const cacheKey = buildCacheKey(request);
+    const cached = await cache.get(cacheKey);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const discoveryResult = await discoveryFetcher.fetch();
+    if (discoveryResult.isErr()) {
+      return createExchangeFailure('EXCHANGE_ERROR', discoveryResult.error.message);
+    }
+
+    const result = await requestExchange(discoveryResult.value, request);
+
+    if (result.success && result.expiresAt !== undefined) {
+      // An exchanged token must not outlive the caller's own token in the cache
+      const subjectExpiresAt = getSubjectTokenExpiry(request.subjectToken);
+      const cacheUntil =
+        subjectExpiresAt !== undefined
+          ? Math.min(result.expiresAt, subjectExpiresAt)
+          : result.expiresAt;
+      const ttlMs = (cacheUntil - expirySkewSeconds) * 1000 - Date.now();
+      if (ttlMs > 0) {
+        await cache.set(cacheKey, result, ttlMs);
+      }
+    }
+
+    return result;
+  };
+
+  const clearCache = async (): Promise<void> => {
+    await cache.clear();
+  };
+
+  return {
+    exchange,
+    clearCache,
+  };
+};
@@ -0,0 +1,67 @@
+import type { TokenExchangeResult } from '../types.js';
+import type { ClientAuthenticationConfig } from '../client-auth/types.js';
+
+/**
+ * Parameters for a single token exchange (RFC 8693 Section 2.1).
+ */
+export interface TokenExchangeRequest {
+  /** The token representing the identity on whose behalf the request is made */
+  readonly subjectToken: string;
+  /** Type of the subject token (default: access token) */
+  readonly subjectTokenType?: string;
+  /** Token representing the acting party (delegation) */
+  readonly actorToken?: string;
+  /** Type of the actor token (default: access token) */
+  readonly actorTokenType?: string;
+  /** Logical name(s) of the target service */
+  readonly audience?: string | readonly string[];
+  /** URI(s) of the target resource */
+  readonly resource?: string | readonly string[];
+  /** Requested scopes for the issued token (narrower than the subject token's) */
+  readonly scope?: string | readonly string[];
+  /** Requested type of the issued token */
+  readonly requestedTokenType?: string;
+}
+
+/**
+ * Configuration for creating a token exchanger.
+ */
+export interface TokenExchangerConfig {
+  /** Base URL of the AM instance */
+  readonly amUrl: string;
+  /** OAuth client ID */
+  readonly clientId: string;
+  /** OAuth client secret, for client_secret_basic and client_secret_post */
+  readonly clientSecret?: string;
+  /**
+   * How the client authenticates to the token endpoint
+   * (default: negotiated from clientSecret against the discovery document)
+   */
+  readonly clientAuthentication?: ClientAuthenticationConfig;
+  /** OAuth realm path (default: "/am/oauth2/realms/root/realms/alpha") */
+  readonly realmPath?: string;
+  /** Discovery document cache TTL in ms (default: 3600000 = 1 hour) */
+  readonly discoveryCacheTtlMs?: number;
+  /**
+   * Exchanged tokens are evicted from the cache this many seconds before they, or a JWT
+   * subject token they were exchanged for, expire (default: 30).
+   */
+  readonly expirySkewSeconds?: number;
+}
+
+/**
+ * Token exchanger interface.
+ */
+export interface TokenExchanger {
+  /**
+   * Exchanges a token for one suited to a downstream service.
+   * Successful results are cached per subject token and target until shortly before expiry.
+   * @param request - Token exchange parameters
+   */
+  readonly exchange: (request: TokenExchangeRequest) => Promise<TokenExchangeResult>;
+
+  /**
+   * Removes all cached exchanged tokens.
+   */
+  readonly clearCache: () => Promise<void>;
+}
@@ -0,0 +1,323 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ok, err, type Result } from 'neverthrow';
+import { createCircuitBreakerClient } from './circuit-breaker.js';
+import type { HttpClient, HttpError, HttpRequest, HttpResponse } from './types.js';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const AM_URL = 'https://auth.example.com/am/oauth2/realms/root/realms/alpha';
+const OTHER_URL = 'https://other.example.com/jwks';
+
+const UNAVAILABLE: HttpError = { type: 'http', message: 'HTTP 503', status: 503 };
+
+/**
+ * Creates an HTTP client whose outcome can be switched between success and a given error.
+ */
+const createSwitchableClient = (): HttpClient & {
+  failWith: HttpError | undefined;
+  readonly requests: HttpRequest[];
+} => {
+  const respond = <T>(request: HttpRequest): Promise<Result<HttpResponse<T>, HttpError>> => {
+    client.requests.push(request);
+    return Promise.resolve(
+      client.failWith !== undefined
+        ? err(client.failWith)
+        : ok({ status: 200, statusText: 'OK', headers: {}, body: {} as T })
+    );
+  };
+  const client = {
+    failWith: undefined as HttpError | undefined,
+    requests: [] as HttpRequest[],
+    json: respond,
+    text: (request: HttpRequest) => respond<string>(request),
+  };
+  return client;
+};
+
+const get = (url: string): HttpRequest => ({ url, method: 'GET' });
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('createCircuitBreakerClient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('given consecutive failures below the threshold', () => {
+    it('keeps sending requests', async () => {
+      const inner = createSwitchableClient();
+      inner.failWith = UNAVAILABLE;
+      const client = createCircuitBreakerClient(inner, { failureThreshold: 3 });
+
+      await client.json(get(AM_URL));
+      await client.json(get(AM_URL));
+      const result = await client.json(get(AM_URL));
+
+      expect(inner.requests.length).toBe(3);
+      expect(result.isErr() && result.error.type).toBe('http');
+    });
+  });
+
+  describe('given the failure threshold is reached', () => {
+    it('fails fast with a circuit_open error', async () => {
+      const inner = createSwitchableClient();
+      inner.failWith = UNAVAILABLE;
+      const client = createCircuitBreakerClient(inner, { failureThreshold: 2 });
+      await client.json(get(AM_URL));
+      await client.json(get(AM_URL));
+
+      const result = await client.json(get(AM_URL));
+
+      expect(inner.requests.length).toBe(2);
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.type).toBe('circuit_open');
+      }
+    });
+
+    it('reports the time left before a probe is let through', async () => {
+      const inner = createSwitchableClient();
+      inner.failWith = UNAVAILABLE;
+      const client = createCircuitBreakerClient(inner, {
+        failureThreshold: 1,
+        resetTimeoutMs: 10_000,
+      });
+      await client.json(get(AM_URL));
+
+      vi.advanceTimersByTime(4000);
+      const result = await client.json(get(AM_URL));
+
+      expect(result.isErr() && result.error.retryAfterMs).toBe(6000);
+    });
+
+    it('notifies the state change', async () => {
+      const inner = createSwitchableClient();
+      inner.failWith = UNAVAILABLE;
+      const onStateChange = vi.fn();
+      const client = createCircuitBreakerClient(inner, { failureThreshold: 1, onStateChange });
+
+      await client.json(get(AM_URL));
+
+      expect(onStateChange).toHaveBeenCalledWith({
+        key: 'auth.example.com',
+        from: 'closed',
+        to: 'open',
+        error: UNAVAILABLE,
+      });
+    });
+  });
+
+  describe('given a success between failures', () => {
+    it('resets the consecutive failure count', async () => {
+      const inner = createSwitchableClient();
+      const client = createCircuitBreakerClient(inner, { failureThreshold: 2 });
+
+      inner.failWith = UNAVAILABLE;
+      await client.json(get(AM_URL));
+      inner.failWith = undefined;
+      await client.json(get(AM_URL));
+      inner.failWith = UNAVAILABLE;
+      await client.json(get(AM_URL));
+      const result = await client.json(get(AM_URL));
+
+      expect(result.isErr() && result.error.type).toBe('http');
+    });
+  });
+
+  describe('given non-failure errors', () => {
+    it('does not count 4xx responses', async () => {
+      const inner = createSwitchableClient();
+      inner.failWith = { type: 'http', message: 'HTTP 401', status: 401 };
+      const client = createCircuitBreakerClient(inner, { failureThreshold: 1 });
+
+      await client.json(get(AM_URL));
+      await client.json(get(AM_URL));
+
+      expect(inner.requests.length).toBe(2);
+    });
+  });
+
+  describe('half-open state', () => {
+    it('lets a probe through after the reset timeout and closes on success', async () => {
+      const inner = createSwitchableClient();
+      inner.failWith = UNAVAILABLE;
+      const onStateChange = vi.fn();
+      const client = createCircuitBreakerClient(inner, {
+        failureThreshold: 1,
+        resetTimeoutMs: 1000,
+        onStateChange,
+      });
+      await client.json(get(AM_URL));
+
+      vi.advanceTimersByTime(1000);
+      inner.failWith = undefined;
+      const result = await client.json(get(AM_URL));
+
+      expect(result.isOk()).toBe(true);
+      expect(onStateChange.mock.calls.map(([change]) => (change as { to: string }).to)).toEqual([
+        'open',
+        'half-open',
+        'closed',
+      ]);
+    });
+
+    it('reopens when the probe fails', async () => {
+      const inner = createSwitchableClient();
+      inner.failWith = UNAVAILABLE;
+      const client = createCircuitBreakerClient(inner, {
+        failureThreshold: 3,
+        resetTimeoutMs: 1000,
+      });
+      await client.json(get(AM_URL));
+      await client.json(get(AM_URL));
+      await client.json(get(AM_URL));
+
+      vi.advanceTimersByTime(1000);
+      await client.json(get(AM_URL));
+      const result = await client.json(get(AM_URL));
+
+      expect(inner.requests.length).toBe(4);
+      expect(result.isErr() && result.error.type).toBe('circuit_open');
+    });
+
+    it('limits concurrent probes', async () => {
+      const inner = createSwitchableClient();
+      inner.failWith = UNAVAILABLE;
+      const client = createCircuitBreakerClient(inner, {
+        failureThreshold: 1,
+        resetTimeoutMs: 1000,
+        halfOpenMaxRequests: 1,
+      });
+      await client.json(get(AM_URL));
+      vi.advanceTimersByTime(1000);
+      inner.failWith = undefined;
+
+      const [first, second] = await Promise.all([
+        client.json(get(AM_URL)),
+        client.json(get(AM_URL)),
+      ]);
+
+      expect(first.isOk()).toBe(true);
+      expect(second.isErr() && second.error.type).toBe('circuit_open');
+    });
+  });
+
+  describe('given the client rejects instead of returning an error', () => {
+    /**
+     * Creates a switchable client whose next request can be made to reject.
+     */
+    const createRejectingClient = (): ReturnType<typeof createSwitchableClient> & {
+      rejectNext: () => void;
+    } => {
+      const inner = createSwitchableClient();
+      const { json, text } = inner;
+      let rejectNext = false;
+      const maybeReject = <T>(
+        request: HttpRequest,
+        send: () => Promise<Result<HttpResponse<T>, HttpError>>
+      ): Promise<Result<HttpResponse<T>, HttpError>> => {
+        if (!rejectNext) {
+          return send();
+        }
+        rejectNext = false;
+        inner.requests.push(request);
+        return Promise.reject(new Error('socket hang up'));
+      };
+      return Object.assign(inner, {
+        json: <T>(request: HttpRequest) => maybeReject(request, () => json<T>(request)),
+        text: (request: HttpRequest) => maybeReject(request, () => text(request)),
+        rejectNext: () => {
+          rejectNext = true;
+        },
+      });
+    };
+
+    it('propagates the rejection and counts it as a failure', async () => {
+      const inner = createRejectingClient();
+      const onStateChange = vi.fn();
+      const client = createCircuitBreakerClient(inner, { failureThreshold: 1, onStateChange });
+
+      inner.rejectNext();
+      await expect(client.json(get(AM_URL))).rejects.toThrow('socket hang up');
+      const result = await client.json(get(AM_URL));
+
+      expect(result.isErr() && result.error.type).toBe('circuit_open');
+      const change = onStateChange.mock.calls[0]?.[0] as { to: string; error?: HttpError };
+      expect(change.to).toBe('open');
+      expect(change.error?.type).toBe('network');
+    });
+
+    it('releases the probe slot so a later probe can close the circuit', async () => {
+      const inner = createRejectingClient();
+      inner.failWith = UNAVAILABLE;
+      const client = createCircuitBreakerClient(inner, {
+        failureThreshold: 1,
+        resetTimeoutMs: 1000,
+        halfOpenMaxRequests: 1,
+      });
+      await client.json(get(AM_URL));
+
+      vi.advanceTimersByTime(1000);
+      inner.rejectNext();
+      await expect(client.json(get(AM_URL))).rejects.toThrow('socket hang up');
+
+      vi.advanceTimersByTime(1000);
+      inner.failWith = undefined;
+      const result = await client.json(get(AM_URL));
+
+      expect(result.isOk()).toBe(true);
+      expect(inner.requests.length).toBe(3);
+    });
+  });
+
+  describe('circuit keys', () => {
+    it('isolates circuits per host by default', async () => {
+      const inner = createSwitchableClient();
+      inner.failWith = UNAVAILABLE;
+      const client = createCircuitBreakerClient(inner, { failureThreshold: 1 });
+      await client.json(get(AM_URL));
+
+      inner.failWith = undefined;
+      const result = await client.json(get(OTHER_URL));
+
+      expect(result.isOk()).toBe(true);
+    });
+
+    it('isolates circuits per endpoint when keyBy is "endpoint"', async () => {
+      const inner = createSwitchableClient();
+      inner.failWith = UNAVAILABLE;
+      const client = createCircuitBreakerClient(inner, {
+        failureThreshold: 1,
+        keyBy: 'endpoint',
+      });
+      await client.text({ url: `${AM_URL}/introspect`, method: 'POST' });
+
+      inner.failWith = undefined;
+      const result = await client.json(get(`${AM_URL}/.well-known/openid-configuration`));
+
+      expect(result.isOk()).toBe(true);
+    });
+
+    it('supports a custom key function', async () => {
+      const inner = createSwitchableClient();
+      inner.failWith = UNAVAILABLE;
+      const client = createCircuitBreakerClient(inner, {
+        failureThreshold: 1,
+        keyBy: () => 'all',
+      });
+      await client.json(get(AM_URL));
+
+      const result = await client.json(get(OTHER_URL));
+
+      expect(result.isErr() && result.error.type).toBe('circuit_open');
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { err, type Result } from 'neverthrow';
+import type {
+  CircuitBreakerOptions,
+  CircuitState,
+  HttpClient,
+  HttpError,
+  HttpRequest,
+  HttpResponse,
+} from './types.js';
+
+/** Default consecutive failures before opening: 5 */
+const DEFAULT_FAILURE_THRESHOLD = 5;
+
+/** Default open duration: 30 seconds */
+const DEFAULT_RESET_TIMEOUT_MS = 30_000;
+
+/** Default concurrent probes while half-open: 1 */
+const DEFAULT_HALF_OPEN_MAX_REQUESTS = 1;
+
+/**
+ * Mutable per-key circuit bookkeeping.
+ */
+interface Circuit {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number;
+  probesInFlight: number;
+}
+
+/**
+ * Default failure classification: the endpoint is unreachable or erroring.
+ * 4xx responses mean the server is up and are not counted.
+ */
+const defaultIsFailure = (error: HttpError): boolean => {
+  switch (error.type) {
+    case 'network':
+    case 'timeout':
+      return true;
+    case 'http':
+      return error.status === undefined || error.status >= 500;
+    case 'parse':
+    case 'circuit_open':
+      return false;
+  }
+};
+
+/**
+ * Builds the circuit key for a request.
+ */
+const createKeyResolver = (
+  keyBy: NonNullable<CircuitBreakerOptions['keyBy']>
+): ((request: HttpRequest) => string) => {
+  if (typeof keyBy === 'function') {
+    return keyBy;
+  }
+
+  return (request: HttpRequest): string => {
+    try {
+      const url = new URL(request.url);
+      return keyBy === 'host' ? url.host : `${url.origin}${url.pathname}`;
+    } catch {
+      return request.url;
+    }
+  };
+};
+
+/**
+ * Wraps an HttpClient with a circuit breaker.
+ *
+ * After `failureThreshold` consecutive failures for a host (or endpoint), the circuit opens and
+ * requests fail immediately with a `circuit_open` error instead of waiting for the timeout.
+ * After `resetTimeoutMs`, a limited number of probe requests are let through; a success closes
+ * the circuit and a failure opens it again.
+ *
+ * @param client - The HTTP client to protect
+ * @param options - Optional circuit breaker configuration
+ * @returns An HttpClient instance
+ *
+ * @example
+ * ```typescript
+ * const httpClient = createCircuitBreakerClient(createFetchClient(), {
+ *   failureThreshold: 3,
+ *   resetTimeoutMs: 15_000,
+ *   onStateChange: ({ key, from, to }) => {
+ *     logger.warn(`AM circuit for ${key}: ${from} -> ${to}`);
+ *   },
+ * });
+ *
+ * const validator = createTokenValidator({ amUrl, clientId }, httpClient);
+ * ```
+ */
+export const createCircuitBreakerClient = (
+  client: HttpClient,
+  options: CircuitBreakerOptions = {}
+): HttpClient => {
+  const {
+    failureThreshold = DEFAULT_FAILURE_THRESHOLD,
+    resetTimeoutMs = DEFAULT_RESET_TIMEOUT_MS,
+    halfOpenMaxRequests = DEFAULT_HALF_OPEN_MAX_REQUESTS,
+    keyBy = 'host',
+    isFailure = defaultIsFailure,
+    onStateChange,
+  } = options;
+
+  const resolveKey = createKeyResolver(keyBy);
+  const circuits = new Map<string, Circuit>();
+
+  const getCircuit = (key: string): Circuit => {
+    let circuit = circuits.get(key);
+    if (circuit === undefined) {
+      circuit = { state: 'closed', consecutiveFailures: 0, openedAt: 0, probesInFlight: 0 };
+      circuits.set(key, circuit);
+    }
+    return circuit;
+  };
+
+  const transition = (key: string, circuit: Circuit, to: CircuitState, error?: HttpError): void => {
+    const from = circuit.state;
+    if (from === to) {
+      return;
+    }
+
+    circuit.state = to;
+    if (to === 'open') {
+      circuit.openedAt = Date.now();
+    }
+    if (to === 'closed') {
+      circuit.consecutiveFailures = 0;
+    }
+
+    onStateChange?.(error !== undefined ? { key, from, to, error } : { key, from, to });
+  };
+
+  /**
+   * Decides whether a request may be sent, moving open circuits to half-open when due.
+   */
+  const tryAcquire = (key: string, circuit: Circuit): boolean => {
+    if (circuit.state === 'open' && Date.now() - circuit.openedAt >= resetTimeoutMs) {
+      transition(key, circuit, 'half-open');
+    }
+
+    switch (circuit.state) {
+      case 'closed':
+        return true;
+      case 'open':
+        return false;
+      case 'half-open':
+        if (circuit.probesInFlight >= halfOpenMaxRequests) {
+          return false;
+        }
+        circuit.probesInFlight++;
+        return true;
+    }
+  };
+
+  const recordResult = (
+    key: string,
+    circuit: Circuit,
+    wasProbe: boolean,
+    error: HttpError | undefined
+  ): void => {
+    if (wasProbe) {
+      circuit.probesInFlight--;
+    }
+
+    if (error === undefined || !isFailure(error)) {
+      if (circuit.state !== 'open') {
+        transition(key, circuit, 'closed');
+      }
+      circuit.consecutiveFailures = 0;
+      return;
+    }
+
+    circuit.consecutiveFailures++;
+    if (circuit.state === 'half-open' || circuit.consecutiveFailures >= failureThreshold) {
+      transition(key, circuit, 'open', error);
+    }
+  };
+
+  const guard = async <T>(
+    request: HttpRequest,
+    execute: () => Promise<Result<HttpResponse<T>, HttpError>>
+  ): Promise<Result<HttpResponse<T>, HttpError>> => {
+    const key = resolveKey(request);
+    const circuit = getCircuit(key);
+
+    if (!tryAcquire(key, circuit)) {
+      return err({
+        type: 'circuit_open',
+        message: `Circuit open for ${key}; request not sent`,
+        // A half-open circuit has no known wait: it closes as soon as a probe succeeds
+        ...(circuit.state === 'open'
+          ? { retryAfterMs: Math.max(0, circuit.openedAt + resetTimeoutMs - Date.now()) }
+          : {}),
+      });
+    }
+
+    const wasProbe = circuit.state === 'half-open';
+    let outcome: HttpError | undefined;
+    try {
+      const result = await execute();
+      outcome = result.isErr() ? result.error : undefined;
+      return result;
+    } catch (cause) {
+      // A client that rejects instead of returning an error still counts as a failure, and
+      // the finally below releases its probe slot before the rejection propagates
+      outcome = { type: 'network', message: `Request to ${key} rejected`, cause };
+      throw cause;
+    } finally {
+      recordResult(key, circuit, wasProbe, outcome);
+    }
+  };
+
+  return {
+    json: <T>(request: HttpRequest) => guard<T>(request, () => client.json<T>(request)),
+    text: (request: HttpRequest) => guard(request, () => client.text(request)),
+  };
+};
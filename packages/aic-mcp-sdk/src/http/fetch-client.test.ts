@@ -0,0 +1,335 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createFetchClient } from './fetch-client.js';
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+const TEST_URL = 'https://auth.example.com/.well-known/openid-configuration';
+
+const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+const errorResponse = (status: number, headers: Record<string, string> = {}): Response =>
+  new Response('', { status, headers });
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('createFetchClient', () => {
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  describe('json', () => {
+    describe('given a successful response', () => {
+      it('returns the parsed body', async () => {
+        fetchMock.mockResolvedValueOnce(jsonResponse({ issuer: 'test' }));
+        const client = createFetchClient();
+
+        const result = await client.json<{ issuer: string }>({ url: TEST_URL, method: 'GET' });
+
+        expect(result.isOk()).toBe(true);
+        if (result.isOk()) {
+          expect(result.value.body.issuer).toBe('test');
+        }
+      });
+    });
+
+    describe('given an error status', () => {
+      it('returns an http error', async () => {
+        fetchMock.mockResolvedValueOnce(errorResponse(404));
+        const client = createFetchClient();
+
+        const result = await client.json({ url: TEST_URL, method: 'GET' });
+
+        expect(result.isErr()).toBe(true);
+        if (result.isErr()) {
+          expect(result.error.type).toBe('http');
+          expect(result.error.status).toBe(404);
+        }
+      });
+    });
+
+    describe('given a network failure', () => {
+      it('returns a network error', async () => {
+        fetchMock.mockRejectedValueOnce(new TypeError('fetch failed'));
+        const client = createFetchClient();
+
+        const result = await client.json({ url: TEST_URL, method: 'GET' });
+
+        expect(result.isErr()).toBe(true);
+        if (result.isErr()) {
+          expect(result.error.type).toBe('network');
+          expect(result.error.message).toBe('fetch failed');
+        }
+      });
+    });
+  });
+
+  describe('retry policy', () => {
+    describe('given no retry policy', () => {
+      it('makes a single attempt', async () => {
+        fetchMock.mockResolvedValue(errorResponse(503));
+        const client = createFetchClient();
+
+        const result = await client.json({ url: TEST_URL, method: 'GET' });
+
+        expect(result.isErr()).toBe(true);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('given a retryable status on GET', () => {
+      it('retries until success', async () => {
+        fetchMock
+          .mockResolvedValueOnce(errorResponse(502))
+          .mockResolvedValueOnce(errorResponse(503))
+          .mockResolvedValueOnce(jsonResponse({ ok: true }));
+        const client = createFetchClient({ retry: { baseDelayMs: 1, jitter: false } });
+
+        const result = await client.json({ url: TEST_URL, method: 'GET' });
+
+        expect(result.isOk()).toBe(true);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+      });
+
+      it('gives up after maxAttempts', async () => {
+        fetchMock.mockResolvedValue(errorResponse(503));
+        const client = createFetchClient({
+          retry: { maxAttempts: 2, baseDelayMs: 1, jitter: false },
+        });
+
+        const result = await client.json({ url: TEST_URL, method: 'GET' });
+
+        expect(result.isErr()).toBe(true);
+        if (result.isErr()) {
+          expect(result.error.status).toBe(503);
+        }
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe('given a network failure on GET', () => {
+      it('retries', async () => {
+        fetchMock
+          .mockRejectedValueOnce(new TypeError('fetch failed'))
+          .mockResolvedValueOnce(jsonResponse({ ok: true }));
+        const client = createFetchClient({ retry: { baseDelayMs: 1, jitter: false } });
+
+        const result = await client.json({ url: TEST_URL, method: 'GET' });
+
+        expect(result.isOk()).toBe(true);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe('given a non-retryable status', () => {
+      it('does not retry', async () => {
+        fetchMock.mockResolvedValue(errorResponse(401));
+        const client = createFetchClient({ retry: { baseDelayMs: 1 } });
+
+        await client.json({ url: TEST_URL, method: 'GET' });
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('given a POST request', () => {
+      it('does not retry by default', async () => {
+        fetchMock.mockResolvedValue(errorResponse(503));
+        const client = createFetchClient({ retry: { baseDelayMs: 1 } });
+
+        await client.text({ url: TEST_URL, method: 'POST', body: 'token=abc' });
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+      });
+
+      it('does not retry introspection by default, even when POST is enabled', async () => {
+        fetchMock.mockResolvedValue(errorResponse(503));
+        const client = createFetchClient({
+          retry: { baseDelayMs: 1, retryableMethods: ['GET', 'POST'] },
+        });
+
+        await client.text({
+          url: TEST_URL,
+          method: 'POST',
+          body: 'token=abc',
+          operation: 'introspection',
+        });
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+      });
+
+      it('retries introspection with a rebuilt request when retryIntrospection is set', async () => {
+        fetchMock
+          .mockResolvedValueOnce(errorResponse(503))
+          .mockResolvedValueOnce(new Response('{"active":true}'));
+        const client = createFetchClient({
+          retry: { baseDelayMs: 1, jitter: false, retryIntrospection: true },
+        });
+
+        const result = await client.text({
+          url: TEST_URL,
+          method: 'POST',
+          body: 'token=abc&client_assertion=first',
+          operation: 'introspection',
+          rebuild: () =>
+            Promise.resolve({
+              url: TEST_URL,
+              method: 'POST',
+              body: 'token=abc&client_assertion=second',
+            }),
+        });
+
+        expect(result.isOk()).toBe(true);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(fetchMock.mock.calls[1]?.[1]?.body).toBe('token=abc&client_assertion=second');
+      });
+
+      it('stops retrying when the request cannot be rebuilt', async () => {
+        fetchMock.mockResolvedValue(errorResponse(503));
+        const client = createFetchClient({
+          retry: { baseDelayMs: 1, jitter: false, retryIntrospection: true },
+        });
+
+        const result = await client.text({
+          url: TEST_URL,
+          method: 'POST',
+          body: 'token=abc',
+          operation: 'introspection',
+          rebuild: () => Promise.resolve(undefined),
+        });
+
+        expect(result.isErr() && result.error.status).toBe(503);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+      });
+
+      it('retries when POST is explicitly enabled', async () => {
+        fetchMock
+          .mockResolvedValueOnce(errorResponse(503))
+          .mockResolvedValueOnce(new Response('{"active":true}'));
+        const client = createFetchClient({
+          retry: { baseDelayMs: 1, jitter: false, retryableMethods: ['GET', 'POST'] },
+        });
+
+        const result = await client.text({ url: TEST_URL, method: 'POST', body: 'token=abc' });
+
+        expect(result.isOk()).toBe(true);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe('backoff', () => {
+      it('doubles the delay between attempts', async () => {
+        vi.useFakeTimers();
+        fetchMock.mockResolvedValue(errorResponse(503));
+        const client = createFetchClient({
+          retry: { maxAttempts: 3, baseDelayMs: 100, jitter: false },
+        });
+
+        const pending = client.json({ url: TEST_URL, method: 'GET' });
+        await vi.advanceTimersByTimeAsync(99);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(199);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+
+        await pending;
+      });
+
+      it('applies full jitter below the computed backoff', async () => {
+        vi.useFakeTimers();
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        fetchMock.mockResolvedValue(errorResponse(503));
+        const client = createFetchClient({ retry: { maxAttempts: 2, baseDelayMs: 100 } });
+
+        const pending = client.json({ url: TEST_URL, method: 'GET' });
+        await vi.advanceTimersByTimeAsync(50);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+
+        await pending;
+      });
+
+      it('caps delays at maxDelayMs', async () => {
+        vi.useFakeTimers();
+        fetchMock.mockResolvedValue(errorResponse(503));
+        const client = createFetchClient({
+          retry: { maxAttempts: 2, baseDelayMs: 10_000, maxDelayMs: 500, jitter: false },
+        });
+
+        const pending = client.json({ url: TEST_URL, method: 'GET' });
+        await vi.advanceTimersByTimeAsync(500);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+
+        await pending;
+      });
+    });
+
+    describe('given a Retry-After header', () => {
+      it('waits the number of seconds requested', async () => {
+        vi.useFakeTimers();
+        fetchMock
+          .mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '2' }))
+          .mockResolvedValueOnce(jsonResponse({ ok: true }));
+        const client = createFetchClient({
+          retry: { baseDelayMs: 1, maxDelayMs: 10_000, jitter: false },
+        });
+
+        const pending = client.json({ url: TEST_URL, method: 'GET' });
+        await vi.advanceTimersByTimeAsync(1_999);
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        await vi.advanceTimersByTimeAsync(1);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+
+        const result = await pending;
+        expect(result.isOk()).toBe(true);
+      });
+
+      it('ignores the header when respectRetryAfter is false', async () => {
+        vi.useFakeTimers();
+        fetchMock
+          .mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '2' }))
+          .mockResolvedValueOnce(jsonResponse({ ok: true }));
+        const client = createFetchClient({
+          retry: { baseDelayMs: 10, jitter: false, respectRetryAfter: false },
+        });
+
+        const pending = client.json({ url: TEST_URL, method: 'GET' });
+        await vi.advanceTimersByTimeAsync(10);
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+
+        await pending;
+      });
+
+      it('reports the requested delay on the final error', async () => {
+        fetchMock.mockResolvedValueOnce(errorResponse(503, { 'Retry-After': '7' }));
+        const client = createFetchClient();
+
+        const result = await client.json({ url: TEST_URL, method: 'GET' });
+
+        expect(result.isErr() && result.error.retryAfterMs).toBe(7000);
+      });
+    });
+  });
+});
@@ -6,11 +6,56 @@ import type {
   HttpRequest,
   HttpResponse,
   HttpError,
+  RetryPolicy,
 } from './types.js';
 
 /** Default request timeout: 10 seconds */
 const DEFAULT_TIMEOUT_MS = 10_000;
 
+/** Default retry policy values, applied when a retry policy is configured */
+const DEFAULT_RETRY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 100,
+  maxDelayMs: 5_000,
+  jitter: true,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  respectRetryAfter: true,
+  retryableMethods: ['GET'],
+  retryIntrospection: false,
+};
+
+/**
+ * A failed attempt, with the server's requested retry delay if it sent one.
+ */
+interface FailedAttempt {
+  readonly error: HttpError;
+  readonly retryAfterMs: number | undefined;
+}
+
+/**
+ * Parses a Retry-After header value (delay-seconds or HTTP-date) into milliseconds.
+ */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (value === null || value.trim().length === 0) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Waits for the given number of milliseconds.
+ */
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+
 /**
  * Extracts headers from a fetch Response into a plain object.
  */
@@ -25,12 +70,19 @@ const extractHeaders = (headers: Headers): Record<string, string> => {
 /**
  * Creates an HTTP client using the native fetch API.
  *
+ * When a retry policy is configured, network errors, timeouts and retryable status codes
+ * are retried with exponential backoff and jitter. Only GET requests are retried unless
+ * the policy lists other methods or enables introspection retries.
+ *
  * @param options - Optional client configuration
  * @returns An HttpClient instance
  *
  * @example
  * ```typescript
- * const client = createFetchClient({ timeoutMs: 5000 });
+ * const client = createFetchClient({
+ *   timeoutMs: 5000,
+ *   retry: { maxAttempts: 3, baseDelayMs: 200 },
+ * });
  * const result = await client.json<User>({ url: '/api/user', method: 'GET' });
  *
  * if (result.isOk()) {
@@ -43,10 +95,15 @@ const extractHeaders = (headers: Headers): Record<string, string> => {
 export const createFetchClient = (options: HttpClientOptions = {}): HttpClient => {
   const { timeoutMs = DEFAULT_TIMEOUT_MS, baseHeaders = {} } = options;
 
+  const retry: Required<RetryPolicy> =
+    options.retry !== undefined
+      ? { ...DEFAULT_RETRY, ...options.retry }
+      : { ...DEFAULT_RETRY, maxAttempts: 1 };
+
   /**
-   * Executes a fetch request with timeout and error handling.
+   * Executes a single fetch attempt with timeout and error handling.
    */
-  const executeFetch = async (request: HttpRequest): Promise<Result<Response, HttpError>> => {
+  const attemptFetch = async (request: HttpRequest): Promise<Result<Response, FailedAttempt>> => {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => {
       controller.abort();
@@ -72,10 +129,15 @@ export const createFetchClient = (options: HttpClientOptions = {}): HttpClient =
       clearTimeout(timeoutId);
 
       if (!response.ok) {
+        const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
         return err({
-          type: 'http',
-          message: `HTTP ${String(response.status)}: ${response.statusText}`,
-          status: response.status,
+          error: {
+            type: 'http',
+            message: `HTTP ${String(response.status)}: ${response.statusText}`,
+            status: response.status,
+            ...(retryAfterMs !== undefined ? { retryAfterMs } : {}),
+          },
+          retryAfterMs,
         });
       }
 
@@ -85,29 +147,106 @@ export const createFetchClient = (options: HttpClientOptions = {}): HttpClient =
 
       if (error instanceof Error && error.name === 'AbortError') {
         return err({
-          type: 'timeout',
-          message: `Request timed out after ${String(timeoutMs)}ms`,
-          cause: error,
+          error: {
+            type: 'timeout',
+            message: `Request timed out after ${String(timeoutMs)}ms`,
+            cause: error,
+          },
+          retryAfterMs: undefined,
         });
       }
 
       return err({
-        type: 'network',
-        message: error instanceof Error ? error.message : 'Network error',
-        cause: error,
+        error: {
+          type: 'network',
+          message: error instanceof Error ? error.message : 'Network error',
+          cause: error,
+        },
+        retryAfterMs: undefined,
       });
     }
   };
 
+  /**
+   * Determines whether a failed attempt may be retried under the policy.
+   */
+  const isRetryable = (request: HttpRequest, error: HttpError): boolean => {
+    const allowed =
+      request.operation === 'introspection'
+        ? retry.retryIntrospection
+        : retry.retryableMethods.includes(request.method);
+    if (!allowed) {
+      return false;
+    }
+
+    switch (error.type) {
+      case 'network':
+      case 'timeout':
+        return true;
+      case 'http':
+        return error.status !== undefined && retry.retryableStatusCodes.includes(error.status);
+      case 'parse':
+      case 'circuit_open':
+        return false;
+    }
+  };
+
+  /**
+   * Computes the delay before the next attempt.
+   */
+  const getRetryDelay = (attempt: number, retryAfterMs: number | undefined): number => {
+    if (retry.respectRetryAfter && retryAfterMs !== undefined) {
+      return Math.min(retryAfterMs, retry.maxDelayMs);
+    }
+
+    const backoff = Math.min(retry.baseDelayMs * 2 ** (attempt - 1), retry.maxDelayMs);
+    return retry.jitter ? Math.random() * backoff : backoff;
+  };
+
+  /**
+   * Executes a fetch request, retrying transient failures per the retry policy.
+   * Each retry uses the request's rebuild() result when it has one, passed through
+   * prepare() like the original.
+   */
+  const executeFetch = async (
+    request: HttpRequest,
+    prepare: (request: HttpRequest) => HttpRequest = (unchanged) => unchanged
+  ): Promise<Result<Response, HttpError>> => {
+    let current = prepare(request);
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await attemptFetch(current);
+
+      if (result.isOk()) {
+        return ok(result.value);
+      }
+
+      const { error, retryAfterMs } = result.error;
+      if (attempt >= retry.maxAttempts || !isRetryable(request, error)) {
+        return err(error);
+      }
+
+      await sleep(getRetryDelay(attempt, retryAfterMs));
+
+      if (request.rebuild !== undefined) {
+        const rebuilt = await request.rebuild();
+        if (rebuilt === undefined) {
+          return err(error);
+        }
+        current = prepare(rebuilt);
+      }
+    }
+  };
+
   const json = async <T>(request: HttpRequest): Promise<Result<HttpResponse<T>, HttpError>> => {
-    const fetchResult = await executeFetch({
-      ...request,
+    const fetchResult = await executeFetch(request, (attempt) => ({
+      ...attempt,
       headers: {
         Accept: 'application/json',
-        ...(request.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
-        ...request.headers,
+        ...(attempt.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...attempt.headers,
       },
-    });
+    }));
 
     if (fetchResult.isErr()) {
       return err(fetchResult.error);
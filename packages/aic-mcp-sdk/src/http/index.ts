@@ -1,8 +1,13 @@
 export { createFetchClient } from './fetch-client.js';
+export { createCircuitBreakerClient } from './circuit-breaker.js';
 export type {
   HttpClient,
   HttpClientOptions,
   HttpRequest,
   HttpResponse,
   HttpError,
+  RetryPolicy,
+  CircuitState,
+  CircuitStateChange,
+  CircuitBreakerOptions,
 } from './types.js';
@@ -8,6 +8,17 @@ export interface HttpRequest {
   readonly method: 'GET' | 'POST';
   readonly headers?: Readonly<Record<string, string>>;
   readonly body?: string;
+  /**
+   * SDK operation the request performs, for retry policies that opt operations in
+   * individually. Introspection requests are retried only with RetryPolicy.retryIntrospection.
+   */
+  readonly operation?: 'introspection';
+  /**
+   * Builds the request for a retry, e.g. with a freshly signed client assertion whose "jti"
+   * AM has not seen yet. Resolving to undefined stops retrying and returns the failed
+   * attempt's error. Without it, retries resend the original request.
+   */
+  readonly rebuild?: () => Promise<HttpRequest | undefined>;
 }
 
 /**
@@ -24,9 +35,18 @@ export interface HttpResponse<T> {
  * HTTP error with status and message.
  */
 export interface HttpError {
-  readonly type: 'network' | 'timeout' | 'parse' | 'http';
+  /**
+   * Error category. "circuit_open" means the request was rejected without being sent
+   * because a circuit breaker is open for its host or endpoint.
+   */
+  readonly type: 'network' | 'timeout' | 'parse' | 'http' | 'circuit_open';
   readonly message: string;
   readonly status?: number;
+  /**
+   * Milliseconds until the endpoint is expected to accept requests again: the response's
+   * Retry-After header, or the time left before an open circuit lets a probe through.
+   */
+  readonly retryAfterMs?: number;
   readonly cause?: unknown;
 }
 
@@ -50,12 +70,98 @@ export interface HttpClient {
   readonly text: (request: HttpRequest) => Promise<Result<HttpResponse<string>, HttpError>>;
 }
 
+/**
+ * Retry policy for transient HTTP failures.
+ * Delays grow exponentially: baseDelayMs * 2^(attempt - 1), capped at maxDelayMs.
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first (default: 3) */
+  readonly maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 100) */
+  readonly baseDelayMs?: number;
+  /** Upper bound for any single delay in milliseconds (default: 5000) */
+  readonly maxDelayMs?: number;
+  /**
+   * Randomize each delay between 0 and the computed backoff ("full jitter") to avoid
+   * synchronized retries across clients (default: true).
+   */
+  readonly jitter?: boolean;
+  /** HTTP status codes that are retried (default: [408, 429, 500, 502, 503, 504]) */
+  readonly retryableStatusCodes?: readonly number[];
+  /**
+   * Honor the Retry-After response header, capped at maxDelayMs (default: true).
+   */
+  readonly respectRetryAfter?: boolean;
+  /**
+   * HTTP methods retried (default: ["GET"]). Does not apply to introspection, which has its
+   * own switch. Listing "POST" retries token exchange, revocation and client credential
+   * requests, which are not safe to replay.
+   */
+  readonly retryableMethods?: readonly HttpRequest['method'][];
+  /**
+   * Retry token introspection POSTs (default: false). Introspection only reads token state;
+   * each retry is sent with fresh client credentials, so a private_key_jwt assertion is
+   * never replayed.
+   */
+  readonly retryIntrospection?: boolean;
+}
+
 /**
  * Options for creating an HTTP client.
  */
 export interface HttpClientOptions {
-  /** Request timeout in milliseconds (default: 10000) */
+  /** Request timeout in milliseconds, per attempt (default: 10000) */
   readonly timeoutMs?: number;
   /** Base headers to include in all requests */
   readonly baseHeaders?: Readonly<Record<string, string>>;
+  /** Retry policy for transient failures (default: no retries) */
+  readonly retry?: RetryPolicy;
+}
+
+/**
+ * Circuit breaker state.
+ * - closed: requests flow normally
+ * - open: requests fail fast with a "circuit_open" error
+ * - half-open: a limited number of probe requests test whether the endpoint recovered
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Notification of a circuit breaker state transition.
+ */
+export interface CircuitStateChange {
+  /** The circuit key (host or endpoint) */
+  readonly key: string;
+  /** Previous state */
+  readonly from: CircuitState;
+  /** New state */
+  readonly to: CircuitState;
+  /** The error that caused the transition, if any */
+  readonly error?: HttpError;
+}
+
+/**
+ * Options for creating a circuit breaker HTTP client.
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 5) */
+  readonly failureThreshold?: number;
+  /** How long the circuit stays open before allowing probe requests, in ms (default: 30000) */
+  readonly resetTimeoutMs?: number;
+  /** Concurrent probe requests allowed while half-open (default: 1) */
+  readonly halfOpenMaxRequests?: number;
+  /**
+   * How requests are grouped into circuits (default: "host").
+   * - "host": one circuit per URL host
+   * - "endpoint": one circuit per URL origin and path
+   * - function: custom key
+   */
+  readonly keyBy?: 'host' | 'endpoint' | ((request: HttpRequest) => string);
+  /**
+   * Decides whether an error counts as a failure.
+   * Default: network errors, timeouts and HTTP 5xx responses.
+   */
+  readonly isFailure?: (error: HttpError) => boolean;
+  /** Called whenever a circuit changes state */
+  readonly onStateChange?: (change: CircuitStateChange) => void;
 }
@@ -8,28 +8,128 @@
 export type * from './types.js';
 
 // Token validation
-export { createTokenValidator } from './validation/index.js';
+export { createTokenValidator, createMultiIssuerValidator } from './validation/index.js';
+export { revokeToken } from './validation/index.js';
+export { createKeyResolver, KeySourceError } from './validation/index.js';
 export { parseScopes, getMissingScopes } from './validation/index.js';
+export { parseAuthorizationDetails, getUnmetAuthorizationDetails } from './validation/index.js';
 export type {
   TokenValidator,
   TokenValidatorConfig,
   JwtValidatorConfig,
   ValidationOptions,
   OidcDiscoveryDocument,
+  DiscoveryFetcherOptions,
+  DpopRequestContext,
+  DpopOptions,
+  IntrospectionCacheOptions,
+  TrustedIssuerConfig,
+  MultiIssuerValidatorConfig,
+  MultiIssuerValidator,
+  KeySource,
+  PemKey,
+  KeyResolver,
+  WatchDirectory,
 } from './validation/index.js';
 
+// Client authentication for back-channel requests
+export {
+  createClientSecretBasic,
+  createClientSecretPost,
+  createPrivateKeyJwt,
+  createTlsClientAuth,
+  negotiateClientAuthentication,
+  ClientAuthenticationError,
+} from './client-auth/index.js';
+export type {
+  ClientAuthentication,
+  ClientAuthenticationConfig,
+  ClientAuthenticationMethod,
+  ClientAssertionKey,
+  ClientCredentials,
+} from './client-auth/index.js';
+
+// Policy-based authorization
+export {
+  scope,
+  claimEquals,
+  claimIn,
+  group,
+  role,
+  predicate,
+  allOf,
+  anyOf,
+  not,
+} from './policy/index.js';
+export type { Policy, PolicyContext, PolicyDecision } from './policy/index.js';
+
+// Audit events
+export { createJsonLinesSink } from './audit/index.js';
+export type {
+  AuthEvent,
+  AuthEventSource,
+  AuthDecision,
+  AuthEventListener,
+  JsonLinesSinkOptions,
+  RedactableAuthEventField,
+} from './audit/index.js';
+
+// OpenTelemetry instrumentation
+export { TELEMETRY_ATTRIBUTES, TELEMETRY_SPANS, TELEMETRY_METRICS } from './telemetry/index.js';
+export type {
+  TelemetryConfig,
+  TelemetryTracer,
+  TelemetrySpan,
+  TelemetryMeter,
+  TelemetryCounter,
+  TelemetryHistogram,
+  TelemetryInstrumentOptions,
+  TelemetryAttributes,
+  TelemetryAttributeValue,
+} from './telemetry/index.js';
+
+// Rate limiting
+export { createRateLimiter } from './rate-limit/index.js';
+export type {
+  RateLimiter,
+  RateLimiterConfig,
+  RateLimitKey,
+  RateLimitBucket,
+  RateLimitDecision,
+} from './rate-limit/index.js';
+
+// Token exchange (RFC 8693)
+export { createTokenExchanger, ACCESS_TOKEN_TYPE } from './exchange/index.js';
+export type {
+  TokenExchanger,
+  TokenExchangerConfig,
+  TokenExchangeRequest,
+} from './exchange/index.js';
+
 // Cache utilities (for custom cache implementations)
-export { createMemoryCache } from './cache/index.js';
-export type { Cache, CacheEntry } from './cache/index.js';
+export { createMemoryCache, toAsyncCache, createKeyValueCache } from './cache/index.js';
+export type {
+  Cache,
+  AsyncCache,
+  CacheLike,
+  CacheEntry,
+  MemoryCacheOptions,
+  KeyValueClient,
+  KeyValueCacheOptions,
+} from './cache/index.js';
 
 // HTTP utilities (for custom HTTP client implementations)
-export { createFetchClient } from './http/index.js';
+export { createFetchClient, createCircuitBreakerClient } from './http/index.js';
 export type {
   HttpClient,
   HttpClientOptions,
   HttpRequest,
   HttpResponse,
   HttpError,
+  RetryPolicy,
+  CircuitState,
+  CircuitStateChange,
+  CircuitBreakerOptions,
 } from './http/index.js';
 
 // MCP integration
@@ -37,25 +137,66 @@ export {
   createAmVerifier,
   createAmVerifierFromValidator,
   createWithAuth,
+  createAuthInfoResolver,
+  createClaimsMapper,
+  getAuthContext,
+  requireAuthContext,
+  runWithAuthContext,
+  createAuthRegistry,
+  AUTHORIZATION_META_KEY,
   AuthenticationError,
   AuthorizationError,
+  InsufficientUserAuthenticationError,
+  RateLimitError,
+  // HTTP middleware and Fetch API handler
+  createAuthMiddleware,
+  createFetchAuthHandler,
+  createAuthErrorResponse,
+  createRateLimitResponse,
+  parseAuthorizationHeader,
   // RFC 9728 Protected Resource Metadata (for MCP compliance)
   createProtectedResourceMetadata,
+  getProtectedResourceMetadataUrl,
   formatWwwAuthenticateHeader,
   parseWwwAuthenticateHeader,
+  createWwwAuthenticateChallenge,
 } from './mcp/index.js';
 export type {
   McpAuthInfo,
+  AuthContext,
   OAuthTokenVerifier,
   AmVerifierConfig,
   AmVerifierConfigWithSecret,
   WithAuthOptions,
+  ClaimsMapper,
+  ClaimsMapperConfig,
+  AuthRegistry,
+  AuthRegistryConfig,
+  AuthRegistryEntry,
+  AuthRequirementKind,
+  AccessDecision,
+  ListFilterMode,
+  ListEntry,
+  AuthorizationAnnotation,
+  AuthorizationFailureDetails,
   StdioTokenSource,
   TokenExtractorConfig,
   CreateWithAuthConfig,
   WithAuthFn,
+  AuthInfoResolver,
+  // HTTP middleware and Fetch API handler types
+  HttpAuthConfig,
+  AuthMiddleware,
+  AuthenticatedRequest,
+  FetchAuthHandler,
+  FetchAuthResult,
+  AuthErrorResponse,
+  AuthorizationCredentials,
+  RateLimitResponse,
   // RFC 9728 types
   ProtectedResourceMetadata,
   ProtectedResourceMetadataConfig,
   WwwAuthenticateChallenge,
+  WwwAuthenticateChallengeOptions,
+  WwwAuthenticateError,
 } from './mcp/index.js';
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import { getAuthContext, requireAuthContext, runWithAuthContext } from './auth-context.js';
+import { toMcpAuthInfo } from './auth-info.js';
+import { AuthenticationError } from './types.js';
+import type { AuthContext } from './types.js';
+import { TEST_SUBJECT, createValidClaims } from '../test/fixtures.js';
+
+const createContext = (sub = TEST_SUBJECT): AuthContext => {
+  const claims = createValidClaims({ sub });
+  return { authInfo: toMcpAuthInfo(`token-${sub}`, claims), claims };
+};
+
+describe('getAuthContext', () => {
+  describe('given no auth context in scope', () => {
+    it('returns undefined', () => {
+      expect(getAuthContext()).toBeUndefined();
+    });
+  });
+
+  describe('given code running inside runWithAuthContext', () => {
+    it('returns the context', () => {
+      const context = createContext();
+
+      const result = runWithAuthContext(context, () => getAuthContext());
+
+      expect(result).toBe(context);
+    });
+
+    it('returns the context after an await', async () => {
+      const context = createContext();
+
+      const result = await runWithAuthContext(context, async () => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+        return getAuthContext();
+      });
+
+      expect(result).toBe(context);
+    });
+
+    it('returns undefined once the scope has ended', () => {
+      runWithAuthContext(createContext(), () => undefined);
+
+      expect(getAuthContext()).toBeUndefined();
+    });
+  });
+
+  describe('given concurrent scopes', () => {
+    it('keeps each caller isolated', async () => {
+      const readSubjectLater = (sub: string, delayMs: number): Promise<unknown> =>
+        runWithAuthContext(createContext(sub), async () => {
+          await new Promise((resolve) => setTimeout(resolve, delayMs));
+          return getAuthContext()?.claims.sub;
+        });
+
+      const subjects = await Promise.all([
+        readSubjectLater('user-a', 5),
+        readSubjectLater('user-b', 1),
+      ]);
+
+      expect(subjects).toEqual(['user-a', 'user-b']);
+    });
+  });
+});
+
+describe('requireAuthContext', () => {
+  describe('given no auth context in scope', () => {
+    it('throws AuthenticationError with MISSING_TOKEN', () => {
+      try {
+        requireAuthContext();
+        expect.fail('Should have thrown');
+      } catch (error) {
+        expect(error).toBeInstanceOf(AuthenticationError);
+        expect((error as AuthenticationError).code).toBe('MISSING_TOKEN');
+      }
+    });
+  });
+
+  describe('given code running inside runWithAuthContext', () => {
+    it('returns the auth info and claims', () => {
+      const context = createContext();
+
+      const result = runWithAuthContext(context, () => requireAuthContext());
+
+      expect(result.authInfo.token).toBe(`token-${TEST_SUBJECT}`);
+      expect(result.claims.sub).toBe(TEST_SUBJECT);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { TokenClaims } from '../types.js';
+import type { AuthContext, McpAuthInfo } from './types.js';
+import { AuthenticationError } from './types.js';
+
+/** Holds the caller of the request being handled, across awaits and callbacks */
+const storage = new AsyncLocalStorage<AuthContext>();
+
+/**
+ * Every verified claim behind each auth info the claims mapper built, kept outside the
+ * projected `extra` for callers authenticated without an auth context, such as
+ * requireBearerAuth with the OAuthTokenVerifier adapter.
+ */
+const verifiedClaims = new WeakMap<McpAuthInfo, Readonly<Record<string, unknown>>>();
+
+/**
+ * Records the full verified claims behind an auth info, for getCallerClaims.
+ *
+ * @param authInfo - Auth info built from the claims
+ * @param claims - Every verified claim of the token
+ */
+export const rememberVerifiedClaims = (
+  authInfo: McpAuthInfo,
+  claims: Readonly<Record<string, unknown>>
+): void => {
+  verifiedClaims.set(authInfo, claims);
+};
+
+/**
+ * Runs a function with an auth context, making it available to getAuthContext and
+ * requireAuthContext anywhere below it in the async call graph.
+ *
+ * withAuth and the HTTP middleware do this for you; call it yourself when authenticating
+ * with the Fetch handler or the OAuthTokenVerifier adapter.
+ *
+ * @param context - The authenticated caller
+ * @param fn - Function to run inside the scope
+ * @returns The function's return value
+ */
+export const runWithAuthContext = <T>(context: AuthContext, fn: () => T): T =>
+  storage.run(context, fn);
+
+/**
+ * Returns the caller of the request being handled.
+ *
+ * @typeParam TClaims - Declared shape of the token's claims
+ * @returns The current auth context, or undefined outside an authenticated scope
+ *
+ * @example
+ * ```typescript
+ * const subject = getAuthContext()?.claims.sub;
+ * ```
+ */
+export const getAuthContext = <TClaims extends TokenClaims = TokenClaims>():
+  | AuthContext<TClaims>
+  | undefined => storage.getStore() as AuthContext<TClaims> | undefined;
+
+/**
+ * Returns the claims to check a caller's requirements against: every validated claim when
+ * the current auth context holds the same token or the claims mapper built this auth info,
+ * otherwise the claims exposed on authInfo.extra, which a claims allowlist may have narrowed.
+ *
+ * @param authInfo - The caller's auth info
+ * @returns The caller's claims
+ */
+export const getCallerClaims = (authInfo: McpAuthInfo): Readonly<Record<string, unknown>> => {
+  const context = getAuthContext();
+  if (context !== undefined && context.authInfo.token === authInfo.token) {
+    return context.claims;
+  }
+  return verifiedClaims.get(authInfo) ?? authInfo.extra ?? {};
+};
+
+/**
+ * Returns the caller of the request being handled, for code that must only run
+ * on behalf of an authenticated caller.
+ *
+ * @typeParam TClaims - Declared shape of the token's claims
+ * @returns The current auth context
+ * @throws AuthenticationError with code MISSING_TOKEN outside an authenticated scope
+ *
+ * @example
+ * ```typescript
+ * // Deep in a data access layer, without threading authInfo through
+ * const { authInfo } = requireAuthContext();
+ * await fetch(url, { headers: { Authorization: `Bearer ${authInfo.token}` } });
+ * ```
+ */
+export const requireAuthContext = <
+  TClaims extends TokenClaims = TokenClaims,
+>(): AuthContext<TClaims> => {
+  const context = getAuthContext<TClaims>();
+  if (context === undefined) {
+    throw new AuthenticationError({
+      valid: false,
+      error: 'MISSING_TOKEN',
+      message: 'No authenticated request in the current async context',
+    });
+  }
+  return context;
+};
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { createClaimsMapper, toMcpAuthInfo } from './auth-info.js';
+import { createTokenValidator } from '../validation/token-validator.js';
+import type { TokenClaims } from '../types.js';
+import type { OidcDiscoveryDocument } from '../validation/types.js';
+import {
+  SCOPE_READ,
+  SCOPE_WRITE,
+  TEST_AM_URL,
+  TEST_AUDIENCE,
+  TEST_CLIENT_ID,
+  TEST_ISSUER,
+  TEST_SUBJECT,
+  createDiscoveryDocument,
+  createSigningKey,
+  createValidClaims,
+} from '../test/fixtures.js';
+import { createMockCache, createSuccessHttpClient } from '../test/mocks.js';
+
+const TOKEN = 'access-token';
+
+const claims = createValidClaims({
+  groups: ['support'],
+  email: 'user@example.com',
+  act: { sub: 'agent-1' },
+  cnf: { jkt: 'thumbprint' },
+});
+
+describe('toMcpAuthInfo', () => {
+  it('maps the token, client, scopes and expiry', () => {
+    const authInfo = toMcpAuthInfo(TOKEN, claims);
+
+    expect(authInfo.token).toBe(TOKEN);
+    expect(authInfo.clientId).toBe(TEST_CLIENT_ID);
+    expect(authInfo.scopes).toEqual([SCOPE_READ, SCOPE_WRITE]);
+    expect(authInfo.expiresAt).toBe(claims.exp);
+  });
+
+  describe('given a signed JWT with custom claims', () => {
+    it('exposes every verified claim on extra', async () => {
+      const key = await createSigningKey();
+      const now = Math.floor(Date.now() / 1000);
+      const token = await key.sign({
+        sub: TEST_SUBJECT,
+        iss: TEST_ISSUER,
+        aud: TEST_CLIENT_ID,
+        iat: now,
+        exp: now + 300,
+        groups: ['support'],
+        email: 'user@example.com',
+        act: { sub: 'agent-1' },
+      });
+      const validator = createTokenValidator(
+        {
+          amUrl: TEST_AM_URL,
+          clientId: TEST_CLIENT_ID,
+          keySource: { type: 'jwks', jwks: key.jwks },
+        },
+        createSuccessHttpClient(createDiscoveryDocument()),
+        createMockCache<OidcDiscoveryDocument>()
+      );
+
+      const result = await validator.validate(token);
+      if (!result.valid) {
+        expect.fail(result.message);
+      }
+      const authInfo = toMcpAuthInfo(token, result.claims);
+
+      expect(authInfo.extra).toEqual({
+        sub: TEST_SUBJECT,
+        iss: TEST_ISSUER,
+        aud: TEST_CLIENT_ID,
+        iat: now,
+        exp: now + 300,
+        groups: ['support'],
+        email: 'user@example.com',
+        act: { sub: 'agent-1' },
+      });
+    });
+  });
+
+  describe('given a token without client_id', () => {
+    it('uses an empty client ID', () => {
+      const { client_id: _clientId, ...withoutClientId } = claims;
+
+      const authInfo = toMcpAuthInfo(TOKEN, withoutClientId as TokenClaims);
+
+      expect(authInfo.clientId).toBe('');
+    });
+  });
+});
+
+describe('createClaimsMapper', () => {
+  describe('given an allowlist', () => {
+    it('exposes only the listed claims plus sub, iss and aud', () => {
+      const mapper = createClaimsMapper({ include: ['groups', 'email'] });
+
+      const authInfo = mapper(TOKEN, claims);
+
+      expect(authInfo.extra).toEqual({
+        sub: TEST_SUBJECT,
+        iss: TEST_ISSUER,
+        aud: TEST_AUDIENCE,
+        groups: ['support'],
+        email: 'user@example.com',
+      });
+    });
+  });
+
+  describe('given exclusions', () => {
+    it('leaves out the excluded claims but never sub, iss or aud', () => {
+      const mapper = createClaimsMapper({ exclude: ['cnf', 'act', 'sub'] });
+
+      const authInfo = mapper(TOKEN, claims);
+
+      expect(authInfo.extra).not.toHaveProperty('cnf');
+      expect(authInfo.extra).not.toHaveProperty('act');
+      expect(authInfo.extra?.sub).toBe(TEST_SUBJECT);
+      expect(authInfo.extra?.email).toBe('user@example.com');
+    });
+  });
+
+  describe('given a declared claims type', () => {
+    it('types custom claims on extra', () => {
+      interface TodoClaims extends TokenClaims {
+        readonly groups?: readonly string[];
+      }
+      const mapper = createClaimsMapper<TodoClaims>();
+
+      const groups: readonly string[] | undefined = mapper(TOKEN, claims).extra?.groups;
+
+      expect(groups).toEqual(['support']);
+    });
+  });
+
+  describe('given authorization_details', () => {
+    it('exposes them as authorizationDetails regardless of projection', () => {
+      const details = [{ type: 'todo_access', actions: ['read'] }];
+      const mapper = createClaimsMapper({ include: [] });
+
+      const authInfo = mapper(TOKEN, { ...claims, authorization_details: details });
+
+      expect(authInfo.authorizationDetails).toEqual(details);
+      expect(authInfo.extra).not.toHaveProperty('authorization_details');
+    });
+  });
+});
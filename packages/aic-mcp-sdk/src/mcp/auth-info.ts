@@ -0,0 +1,65 @@
+import type { TokenClaims } from '../types.js';
+import type { ClaimsMapper, ClaimsMapperConfig, McpAuthInfo } from './types.js';
+import { parseScopes } from '../validation/scopes.js';
+import { rememberVerifiedClaims } from './auth-context.js';
+
+/** Claims identifying the caller, exposed regardless of projection */
+const ALWAYS_INCLUDED_CLAIMS: readonly string[] = ['sub', 'iss', 'aud'];
+
+/**
+ * Creates the mapper from validated tokens to the MCP SDK's AuthInfo, shared by withAuth,
+ * the HTTP middleware and the OAuthTokenVerifier adapter.
+ *
+ * The token's claims are exposed on `extra`, limited by the projection. The claims type is
+ * declared, not checked: validate custom claims before relying on their shape. Policies and
+ * step-up checks still see every claim of auth info built here, even without an auth context.
+ *
+ * @param config - Claims allowlist and exclusions
+ * @returns A ClaimsMapper
+ *
+ * @example
+ * ```typescript
+ * interface TodoClaims extends TokenClaims {
+ *   readonly groups?: readonly string[];
+ * }
+ *
+ * const toAuthInfo = createClaimsMapper<TodoClaims>({ include: ['groups', 'email'] });
+ * const authInfo = toAuthInfo(token, result.claims);
+ * authInfo.extra?.groups; // readonly string[] | undefined
+ * ```
+ */
+export const createClaimsMapper = <TClaims extends TokenClaims = TokenClaims>(
+  config: ClaimsMapperConfig = {}
+): ClaimsMapper<TClaims> => {
+  const { include, exclude = [] } = config;
+
+  const isExposed = (name: string): boolean =>
+    ALWAYS_INCLUDED_CLAIMS.includes(name) ||
+    ((include === undefined || include.includes(name)) && !exclude.includes(name));
+
+  return (token: string, claims: TokenClaims): McpAuthInfo<TClaims> => {
+    const authInfo: McpAuthInfo<TClaims> = {
+      token,
+      clientId: claims.client_id ?? '',
+      scopes: parseScopes(claims.scope),
+      expiresAt: claims.exp,
+      ...(claims.authorization_details !== undefined
+        ? { authorizationDetails: claims.authorization_details }
+        : {}),
+      extra: Object.fromEntries(
+        Object.entries(claims).filter(([name, value]) => value !== undefined && isExposed(name))
+      ) as Partial<TClaims>,
+    };
+    rememberVerifiedClaims(authInfo, claims);
+    return authInfo;
+  };
+};
+
+/**
+ * Builds the MCP SDK's AuthInfo from a validated token and its claims, exposing every claim.
+ *
+ * @param token - The validated access token
+ * @param claims - Claims from the successful validation
+ * @returns McpAuthInfo for tool handlers
+ */
+export const toMcpAuthInfo: ClaimsMapper = createClaimsMapper();
@@ -0,0 +1,358 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { createServer, IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import { Socket, type AddressInfo } from 'node:net';
+import { createAuthMiddleware } from './auth-middleware.js';
+import { getAuthContext } from './auth-context.js';
+import { createWithAuth } from './with-auth.js';
+import { group } from '../policy/policy.js';
+import { createRateLimiter } from '../rate-limit/rate-limiter.js';
+import type { HttpAuthConfig } from './http-auth.js';
+import type { McpAuthInfo } from './types.js';
+import type { TokenValidationResult } from '../types.js';
+import {
+  TEST_ISSUER,
+  TEST_SUBJECT,
+  SCOPE_READ,
+  SCOPE_WRITE,
+  createValidClaims,
+} from '../test/fixtures.js';
+import { createMockValidator } from '../test/mocks.js';
+
+const RESOURCE_URL = 'https://mcp.example.com/mcp';
+const METADATA_PATH = '/.well-known/oauth-protected-resource/mcp';
+const METADATA_URL = `https://mcp.example.com${METADATA_PATH}`;
+
+const successResult: TokenValidationResult = {
+  valid: true,
+  claims: createValidClaims(),
+  accessToken: 'token',
+};
+
+interface TestServer {
+  readonly baseUrl: string;
+  readonly server: Server;
+}
+
+let testServer: TestServer | undefined;
+
+/**
+ * Starts an HTTP server running the middleware. Authenticated requests are answered
+ * with the attached req.auth and the subject seen through getAuthContext, or with the
+ * result of `handle` when given; errors passed to next() or thrown by `handle` become
+ * 500 responses.
+ */
+const startServer = async (
+  config: HttpAuthConfig,
+  handle?: (auth: McpAuthInfo | undefined) => Promise<unknown>
+): Promise<string> => {
+  const middleware = createAuthMiddleware(config);
+  const server = createServer((req, res) => {
+    middleware(req, res, (error) => {
+      if (error !== undefined) {
+        res.writeHead(500).end(error instanceof Error ? error.message : 'unknown error');
+        return;
+      }
+      const { auth } = req as typeof req & { auth?: McpAuthInfo };
+      if (handle !== undefined) {
+        handle(auth).then(
+          (result) => res.writeHead(200).end(JSON.stringify(result)),
+          (handleError: unknown) =>
+            res
+              .writeHead(500)
+              .end(handleError instanceof Error ? handleError.name : 'unknown error')
+        );
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ auth, contextSubject: getAuthContext()?.claims.sub }));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  testServer = { baseUrl: `http://127.0.0.1:${String(port)}`, server };
+  return testServer.baseUrl;
+};
+
+describe('createAuthMiddleware', () => {
+  afterEach(async () => {
+    const current = testServer;
+    testServer = undefined;
+    if (current !== undefined) {
+      await new Promise((resolve) => current.server.close(resolve));
+    }
+  });
+
+  describe('given a GET to the protected resource metadata path', () => {
+    it('serves RFC 9728 metadata with the discovered issuer', async () => {
+      const baseUrl = await startServer({
+        validator: createMockValidator(successResult),
+        resourceUrl: RESOURCE_URL,
+        metadata: { scopesSupported: [SCOPE_READ] },
+      });
+
+      const response = await fetch(`${baseUrl}${METADATA_PATH}`);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({
+        resource: RESOURCE_URL,
+        authorization_servers: [TEST_ISSUER],
+        bearer_methods_supported: ['header'],
+        scopes_supported: [SCOPE_READ],
+      });
+    });
+
+    it('returns 503 when the issuer cannot be discovered', async () => {
+      const validator = createMockValidator(successResult);
+      validator.getAuthenticationInfo = (): Promise<undefined> => Promise.resolve(undefined);
+      const baseUrl = await startServer({ validator, resourceUrl: RESOURCE_URL });
+
+      const response = await fetch(`${baseUrl}${METADATA_PATH}`);
+
+      expect(response.status).toBe(503);
+    });
+  });
+
+  describe('given no Authorization header', () => {
+    it('returns 401 with a challenge pointing at the metadata', async () => {
+      const validator = createMockValidator(successResult);
+      const baseUrl = await startServer({ validator, resourceUrl: RESOURCE_URL });
+
+      const response = await fetch(`${baseUrl}/mcp`, { method: 'POST' });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toBe(
+        `Bearer resource_metadata="${METADATA_URL}"`
+      );
+      expect(validator.validate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('given a valid bearer token', () => {
+    it('attaches McpAuthInfo to req.auth and calls next', async () => {
+      const validator = createMockValidator(successResult);
+      const baseUrl = await startServer({
+        validator,
+        resourceUrl: RESOURCE_URL,
+        requiredScopes: [SCOPE_READ],
+      });
+
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer valid-token' },
+      });
+
+      expect(response.status).toBe(200);
+      const body = (await response.json()) as { auth: { token: string; scopes: string[] } };
+      expect(body.auth.token).toBe('valid-token');
+      expect(body.auth.scopes).toEqual([SCOPE_READ, SCOPE_WRITE]);
+      expect(validator.validate).toHaveBeenCalledWith('valid-token', {
+        requiredScopes: [SCOPE_READ],
+      });
+    });
+
+    it('calls next inside an auth context for the caller', async () => {
+      const validator = createMockValidator(successResult);
+      const baseUrl = await startServer({ validator, resourceUrl: RESOURCE_URL });
+
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer valid-token' },
+      });
+
+      const body = (await response.json()) as { contextSubject?: string };
+      expect(body.contextSubject).toBe(TEST_SUBJECT);
+    });
+  });
+
+  describe('given a claims allowlist that leaves out acr and groups', () => {
+    it('checks withAuth step-up and policy requirements against the full claims', async () => {
+      const mfaAcr = 'urn:example:acr:mfa';
+      const validator = createMockValidator({
+        ...successResult,
+        claims: createValidClaims({ acr: mfaAcr, groups: ['support'] }),
+      });
+      const withAuth = createWithAuth({ validator });
+      const tool = withAuth({ acrValues: [mfaAcr], policy: group('support') }, () => 'called');
+      const baseUrl = await startServer(
+        { validator, resourceUrl: RESOURCE_URL, claims: { include: [] } },
+        (auth) => Promise.resolve(tool({}, auth !== undefined ? { authInfo: auth } : {}))
+      );
+
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer valid-token' },
+      });
+
+      expect(await response.text()).toBe('"called"');
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('given a caller over the rate limit', () => {
+    it('returns 429 with Retry-After', async () => {
+      const validator = createMockValidator(successResult);
+      const baseUrl = await startServer({
+        validator,
+        resourceUrl: RESOURCE_URL,
+        rateLimit: createRateLimiter({ limit: 1, windowMs: 60_000 }),
+      });
+      const request = {
+        method: 'POST',
+        headers: { Authorization: 'Bearer valid-token' },
+      };
+      await fetch(`${baseUrl}/mcp`, request);
+
+      const response = await fetch(`${baseUrl}/mcp`, request);
+
+      expect(response.status).toBe(429);
+      expect(response.headers.get('retry-after')).toBe('60');
+      const body = (await response.json()) as { error: string };
+      expect(body.error).toBe('rate_limit_exceeded');
+    });
+  });
+
+  describe('given an invalid token', () => {
+    it('returns 401 invalid_token', async () => {
+      const baseUrl = await startServer({
+        validator: createMockValidator({
+          valid: false,
+          error: 'EXPIRED_TOKEN',
+          message: 'Token has expired',
+        }),
+        resourceUrl: RESOURCE_URL,
+      });
+
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer expired-token' },
+      });
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get('www-authenticate')).toBe(
+        `Bearer resource_metadata="${METADATA_URL}", error="invalid_token", error_description="Token has expired"`
+      );
+      expect(await response.json()).toEqual({
+        error: 'invalid_token',
+        error_description: 'Token has expired',
+      });
+    });
+  });
+
+  describe('given a token without the required scopes', () => {
+    it('returns 403 insufficient_scope', async () => {
+      const baseUrl = await startServer({
+        validator: createMockValidator({
+          valid: false,
+          error: 'INSUFFICIENT_SCOPE',
+          message: 'Missing required scopes: admin',
+        }),
+        resourceUrl: RESOURCE_URL,
+      });
+
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { Authorization: 'Bearer token' },
+      });
+
+      expect(response.status).toBe(403);
+      expect(response.headers.get('www-authenticate')).toContain('error="insufficient_scope"');
+    });
+  });
+
+  describe('given a DPoP-scheme token', () => {
+    it('passes the proof, method and request URL to the validator', async () => {
+      const validator = createMockValidator(successResult);
+      const baseUrl = await startServer({ validator, resourceUrl: RESOURCE_URL });
+
+      await fetch(`${baseUrl}/mcp?session=1`, {
+        method: 'POST',
+        headers: { Authorization: 'DPoP bound-token', DPoP: 'proof-jwt' },
+      });
+
+      expect(validator.validate).toHaveBeenCalledWith('bound-token', {
+        dpop: {
+          proof: 'proof-jwt',
+          method: 'POST',
+          url: 'https://mcp.example.com/mcp?session=1',
+        },
+      });
+    });
+
+    it('answers failures with a DPoP challenge', async () => {
+      const baseUrl = await startServer({
+        validator: createMockValidator({
+          valid: false,
+          error: 'INVALID_SIGNATURE',
+          message: 'Token signature verification failed',
+        }),
+        resourceUrl: RESOURCE_URL,
+        dpopAlgorithms: ['ES256'],
+      });
+
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { Authorization: 'DPoP bound-token', DPoP: 'proof-jwt' },
+      });
+
+      expect(response.headers.get('www-authenticate')).toMatch(/^DPoP .*algs="ES256"$/);
+    });
+  });
+
+  describe('given the validator throws', () => {
+    it('passes the error to next', async () => {
+      const validator = createMockValidator(successResult);
+      validator.validate = (): Promise<never> => Promise.reject(new Error('boom'));
+      const baseUrl = await startServer({ validator, resourceUrl: RESOURCE_URL });
+
+      const response = await fetch(`${baseUrl}/mcp`, {
+        headers: { Authorization: 'Bearer token' },
+      });
+
+      expect(response.status).toBe(500);
+      expect(await response.text()).toBe('boom');
+    });
+  });
+
+  describe('given a downstream handler that throws from next', () => {
+    it('calls next only once', async () => {
+      const middleware = createAuthMiddleware({
+        validator: createMockValidator(successResult),
+        resourceUrl: RESOURCE_URL,
+      });
+      const rejections: unknown[] = [];
+      const onRejection = (reason: unknown): void => {
+        rejections.push(reason);
+      };
+      const listeners = process.listeners('unhandledRejection');
+      process.removeAllListeners('unhandledRejection');
+      process.on('unhandledRejection', onRejection);
+      const calls: unknown[][] = [];
+      const next = (...args: unknown[]): void => {
+        calls.push(args);
+        throw new Error('downstream');
+      };
+
+      try {
+        middleware(
+          Object.assign(new IncomingMessage(new Socket()), {
+            method: 'POST',
+            url: '/mcp',
+            headers: { authorization: 'Bearer token' },
+          }),
+          {} as ServerResponse,
+          next
+        );
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      } finally {
+        process.off('unhandledRejection', onRejection);
+        for (const listener of listeners) {
+          process.on('unhandledRejection', listener);
+        }
+      }
+
+      expect(calls).toEqual([[]]);
+      expect(rejections).toEqual([new Error('downstream')]);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { McpAuthInfo } from './types.js';
+import { createHttpAuthenticator, type HttpAuthConfig, type HttpAuthOutcome } from './http-auth.js';
+import { runWithAuthContext } from './auth-context.js';
+
+/**
+ * Incoming request with the authenticated caller attached.
+ * Matches the `req.auth` property read by the MCP SDK's HTTP transports.
+ */
+export type AuthenticatedRequest = IncomingMessage & {
+  auth?: McpAuthInfo;
+  /** Set by Express when the middleware is mounted under a path */
+  readonly originalUrl?: string;
+};
+
+/**
+ * Express/Connect-compatible middleware signature.
+ */
+export type AuthMiddleware = (
+  req: AuthenticatedRequest,
+  res: ServerResponse,
+  next: (error?: unknown) => void
+) => void;
+
+/**
+ * Creates middleware that enforces bearer (or DPoP) authentication and serves
+ * RFC 9728 protected resource metadata.
+ *
+ * - GET requests to the resource's well-known metadata path are answered with the
+ *   metadata document, without authentication.
+ * - Other requests must carry `Authorization: Bearer <token>` or `Authorization: DPoP <token>`
+ *   with a `DPoP` proof header. Valid tokens are exposed as `req.auth`; failures are answered
+ *   with 401 or 403 and a `WWW-Authenticate` challenge pointing at the metadata.
+ * - With a `rateLimit`, callers over their limit are answered with 429 and `Retry-After`.
+ * - Downstream handlers run inside an auth context, so getAuthContext and
+ *   requireAuthContext return the caller.
+ *
+ * @param config - Validator, resource and challenge configuration
+ * @returns An Express/Connect-compatible middleware function
+ *
+ * @example
+ * ```typescript
+ * const validator = createTokenValidator({
+ *   amUrl: 'https://auth.example.com',
+ *   clientId: 'my-client',
+ * });
+ *
+ * app.use(
+ *   createAuthMiddleware({
+ *     validator,
+ *     resourceUrl: 'https://mcp.example.com/mcp',
+ *     metadata: { scopesSupported: ['mcp:tools'] },
+ *   })
+ * );
+ *
+ * app.post('/mcp', (req, res) => transport.handleRequest(req, res, req.body));
+ * ```
+ */
+export const createAuthMiddleware = (config: HttpAuthConfig): AuthMiddleware => {
+  const authenticate = createHttpAuthenticator(config);
+
+  /**
+   * Authenticates the request, answering it directly when it must not reach the next handler.
+   * Resolves to the authenticated outcome otherwise.
+   */
+  const handle = async (
+    req: AuthenticatedRequest,
+    res: ServerResponse
+  ): Promise<Extract<HttpAuthOutcome, { type: 'authenticated' }> | undefined> => {
+    const dpop = req.headers['dpop'];
+    const outcome = await authenticate({
+      method: req.method ?? 'GET',
+      url: req.originalUrl ?? req.url ?? '/',
+      authorization: req.headers.authorization,
+      dpop: typeof dpop === 'string' ? dpop : undefined,
+    });
+
+    if (outcome.type === 'response') {
+      res.writeHead(outcome.status, outcome.headers);
+      res.end(JSON.stringify(outcome.body));
+      return undefined;
+    }
+
+    return outcome;
+  };
+
+  return (req, res, next) => {
+    // next() runs in the fulfillment handler, outside the chain next() catches, so an error
+    // thrown by downstream handlers is never passed back to next() as an auth failure
+    void handle(req, res).then((outcome) => {
+      if (outcome === undefined) {
+        return;
+      }
+      req.auth = outcome.authInfo;
+      runWithAuthContext({ authInfo: outcome.authInfo, claims: outcome.claims }, () => {
+        next();
+      });
+    }, next);
+  };
+};
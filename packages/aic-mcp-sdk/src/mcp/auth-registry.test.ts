@@ -0,0 +1,312 @@
+import { describe, it, expect } from 'vitest';
+import { createAuthRegistry, AUTHORIZATION_META_KEY } from './auth-registry.js';
+import type { McpAuthInfo } from './types.js';
+import { createAmVerifierFromValidator } from './auth-verifier.js';
+import { allOf, anyOf, claimIn, not, scope } from '../policy/policy.js';
+import {
+  SCOPE_ADMIN,
+  SCOPE_READ,
+  SCOPE_WRITE,
+  TEST_SUBJECT,
+  createValidClaims,
+} from '../test/fixtures.js';
+import { createMockValidator } from '../test/mocks.js';
+
+const createAuthInfo = (
+  scopes: readonly string[],
+  extra: Readonly<Record<string, unknown>> = {}
+): McpAuthInfo => ({
+  token: 'test-token',
+  clientId: 'test-client',
+  scopes,
+  extra: { sub: TEST_SUBJECT, ...extra },
+});
+
+const TOOLS_RESULT = {
+  tools: [
+    { name: 'list_todos', description: 'List todos' },
+    { name: 'delete_todo', description: 'Delete a todo' },
+    { name: 'ping', description: 'Public health check' },
+  ],
+  nextCursor: 'cursor-1',
+};
+
+describe('createAuthRegistry', () => {
+  describe('register and get', () => {
+    it('records options per kind and name', () => {
+      const registry = createAuthRegistry();
+
+      registry.register('tool', 'todos', { requiredScopes: [SCOPE_READ] });
+      registry.register('prompt', 'todos', { requiredScopes: [SCOPE_WRITE] });
+
+      expect(registry.get('tool', 'todos')).toEqual({ requiredScopes: [SCOPE_READ] });
+      expect(registry.get('prompt', 'todos')).toEqual({ requiredScopes: [SCOPE_WRITE] });
+      expect(registry.get('resource', 'todos')).toBeUndefined();
+      expect(registry.entries()).toHaveLength(2);
+    });
+  });
+
+  describe('checkAccess', () => {
+    describe('given an unregistered entry', () => {
+      it('allows even unauthenticated callers', async () => {
+        const registry = createAuthRegistry();
+
+        const decision = await registry.checkAccess('tool', 'ping', undefined);
+
+        expect(decision.allowed).toBe(true);
+      });
+    });
+
+    describe('given a registered entry and no authInfo', () => {
+      it('denies', async () => {
+        const registry = createAuthRegistry();
+        registry.register('tool', 'list_todos', {});
+
+        const decision = await registry.checkAccess('tool', 'list_todos', undefined);
+
+        expect(decision).toEqual({ allowed: false, reason: 'Authentication required' });
+      });
+    });
+
+    describe('given a caller missing a required scope', () => {
+      it('denies with the missing scope', async () => {
+        const registry = createAuthRegistry();
+        registry.register('tool', 'delete_todo', { requiredScopes: [SCOPE_WRITE] });
+
+        const decision = await registry.checkAccess(
+          'tool',
+          'delete_todo',
+          createAuthInfo([SCOPE_READ])
+        );
+
+        expect(decision.allowed).toBe(false);
+        expect(decision.reason).toContain(SCOPE_WRITE);
+      });
+    });
+
+    describe('given a policy evaluated against authInfo extra', () => {
+      it('allows callers satisfying it', async () => {
+        const registry = createAuthRegistry();
+        registry.register('tool', 'support_tool', { policy: claimIn('groups', 'support') });
+
+        const allowed = await registry.checkAccess(
+          'tool',
+          'support_tool',
+          createAuthInfo([], { groups: ['support'] })
+        );
+        const denied = await registry.checkAccess('tool', 'support_tool', createAuthInfo([]));
+
+        expect(allowed.allowed).toBe(true);
+        expect(denied.allowed).toBe(false);
+      });
+    });
+
+    describe('given auth info from the token verifier with a claims allowlist', () => {
+      it('evaluates the policy against every verified claim, not the projected extra', async () => {
+        const verifier = createAmVerifierFromValidator(
+          createMockValidator({
+            valid: true,
+            claims: createValidClaims({ groups: ['banned'] }),
+            accessToken: 'test-token',
+          }),
+          { include: ['email'] }
+        );
+        const registry = createAuthRegistry();
+        registry.register('tool', 'support_tool', { policy: not(claimIn('groups', 'banned')) });
+
+        // As with requireBearerAuth: no auth context, only the verifier's auth info
+        const authInfo = await verifier.verifyAccessToken('test-token');
+        const decision = await registry.checkAccess('tool', 'support_tool', authInfo);
+
+        expect(authInfo.extra?.['groups']).toBeUndefined();
+        expect(decision.allowed).toBe(false);
+      });
+    });
+  });
+
+  describe('getScopesSupported', () => {
+    it('collects required and policy scopes without duplicates', () => {
+      const registry = createAuthRegistry();
+      registry.register('tool', 'list_todos', { requiredScopes: [SCOPE_READ] });
+      registry.register('tool', 'delete_todo', {
+        requiredScopes: [SCOPE_READ, SCOPE_WRITE],
+        policy: anyOf(scope(SCOPE_ADMIN), claimIn('groups', 'support')),
+      });
+      registry.register('resource', 'todos://archive', { requiredScopes: [SCOPE_ADMIN] });
+
+      expect(registry.getScopesSupported()).toEqual([SCOPE_READ, SCOPE_WRITE, SCOPE_ADMIN]);
+    });
+
+    it('returns an empty array for an empty registry', () => {
+      expect(createAuthRegistry().getScopesSupported()).toEqual([]);
+    });
+  });
+
+  describe('getChallengeScopes', () => {
+    it('returns the required scopes of the attempted tool only', () => {
+      const registry = createAuthRegistry();
+      registry.register('tool', 'list_todos', { requiredScopes: [SCOPE_READ] });
+      registry.register('tool', 'delete_todo', { requiredScopes: [SCOPE_READ, SCOPE_WRITE] });
+
+      expect(registry.getChallengeScopes('tool', 'delete_todo')).toEqual([SCOPE_READ, SCOPE_WRITE]);
+      expect(registry.getChallengeScopes('tool', 'unknown')).toEqual([]);
+    });
+
+    it('includes the smallest scope set satisfying the policy', () => {
+      const registry = createAuthRegistry();
+      registry.register('tool', 'archive', { policy: scope(SCOPE_ADMIN) });
+      registry.register('tool', 'triage', {
+        requiredScopes: [SCOPE_READ],
+        policy: anyOf(allOf(scope(SCOPE_WRITE), scope(SCOPE_ADMIN)), scope(SCOPE_WRITE)),
+      });
+      registry.register('tool', 'support', {
+        policy: allOf(claimIn('groups', 'support'), not(scope(SCOPE_ADMIN))),
+      });
+
+      expect(registry.getChallengeScopes('tool', 'archive')).toEqual([SCOPE_ADMIN]);
+      expect(registry.getChallengeScopes('tool', 'triage')).toEqual([SCOPE_READ, SCOPE_WRITE]);
+      expect(registry.getChallengeScopes('tool', 'support')).toEqual([]);
+    });
+  });
+
+  describe('createProtectedResourceMetadata', () => {
+    it('derives scopes_supported from the registry after the configured scopes', () => {
+      const registry = createAuthRegistry();
+      registry.register('tool', 'list_todos', { requiredScopes: ['openid', SCOPE_READ] });
+
+      const metadata = registry.createProtectedResourceMetadata({
+        resourceUrl: 'https://mcp.example.com',
+        authorizationServers: 'https://auth.example.com',
+        scopesSupported: ['openid'],
+        resourceName: 'Todos',
+      });
+
+      expect(metadata).toEqual({
+        resource: 'https://mcp.example.com',
+        authorization_servers: ['https://auth.example.com'],
+        bearer_methods_supported: ['header'],
+        scopes_supported: ['openid', SCOPE_READ],
+        resource_name: 'Todos',
+      });
+    });
+  });
+
+  describe('filterTools', () => {
+    const createTodoRegistry = (
+      config: Parameters<typeof createAuthRegistry>[0] = {}
+    ): ReturnType<typeof createAuthRegistry> => {
+      const registry = createAuthRegistry(config);
+      registry.register('tool', 'list_todos', { requiredScopes: [SCOPE_READ] });
+      registry.register('tool', 'delete_todo', { requiredScopes: [SCOPE_READ, SCOPE_ADMIN] });
+      return registry;
+    };
+
+    describe('given hide mode', () => {
+      it('removes tools the caller cannot call and keeps other fields', async () => {
+        const registry = createTodoRegistry();
+
+        const result = await registry.filterTools(TOOLS_RESULT, createAuthInfo([SCOPE_READ]));
+
+        expect(result.tools.map((tool) => tool.name)).toEqual(['list_todos', 'ping']);
+        expect(result.nextCursor).toBe('cursor-1');
+      });
+
+      it('only keeps unregistered tools for unauthenticated callers', async () => {
+        const registry = createTodoRegistry();
+
+        const result = await registry.filterTools(TOOLS_RESULT, undefined);
+
+        expect(result.tools.map((tool) => tool.name)).toEqual(['ping']);
+      });
+    });
+
+    describe('given annotate mode', () => {
+      it('keeps every tool and annotates the ones the caller cannot call', async () => {
+        const registry = createTodoRegistry({ listFilterMode: 'annotate' });
+
+        const result = await registry.filterTools(
+          {
+            tools: [
+              { name: 'list_todos' },
+              { name: 'delete_todo', _meta: { 'com.example/category': 'write' } },
+            ],
+          },
+          createAuthInfo([SCOPE_READ])
+        );
+
+        expect(result.tools[0]).toEqual({ name: 'list_todos' });
+        expect(result.tools[1]?._meta).toEqual({
+          'com.example/category': 'write',
+          [AUTHORIZATION_META_KEY]: {
+            allowed: false,
+            reason: `Insufficient scopes. Missing: ${SCOPE_ADMIN}`,
+            requiredScopes: [SCOPE_READ, SCOPE_ADMIN],
+          },
+        });
+      });
+
+      it('reports the scopes a policy-only tool needs', async () => {
+        const registry = createAuthRegistry({ listFilterMode: 'annotate' });
+        registry.register('tool', 'archive', { policy: scope(SCOPE_ADMIN) });
+
+        const result = await registry.filterTools(
+          { tools: [{ name: 'archive' }] },
+          createAuthInfo([SCOPE_READ])
+        );
+
+        expect(result.tools[0]?._meta).toEqual({
+          [AUTHORIZATION_META_KEY]: {
+            allowed: false,
+            reason: expect.any(String) as string,
+            requiredScopes: [SCOPE_ADMIN],
+          },
+        });
+      });
+
+      it('can be chosen per call', async () => {
+        const registry = createTodoRegistry();
+
+        const result = await registry.filterTools(
+          TOOLS_RESULT,
+          createAuthInfo([SCOPE_READ]),
+          'annotate'
+        );
+
+        expect(result.tools).toHaveLength(3);
+      });
+    });
+  });
+
+  describe('filterResources', () => {
+    it('matches resources by URI', async () => {
+      const registry = createAuthRegistry();
+      registry.register('resource', 'todos://private', { requiredScopes: [SCOPE_ADMIN] });
+
+      const result = await registry.filterResources(
+        {
+          resources: [
+            { uri: 'todos://public', name: 'Public todos' },
+            { uri: 'todos://private', name: 'Private todos' },
+          ],
+        },
+        createAuthInfo([SCOPE_READ])
+      );
+
+      expect(result.resources.map((resource) => resource.uri)).toEqual(['todos://public']);
+    });
+  });
+
+  describe('filterPrompts', () => {
+    it('matches prompts by name', async () => {
+      const registry = createAuthRegistry();
+      registry.register('prompt', 'triage', { requiredScopes: [SCOPE_WRITE] });
+
+      const result = await registry.filterPrompts(
+        { prompts: [{ name: 'triage' }, { name: 'summarize' }] },
+        createAuthInfo([SCOPE_WRITE])
+      );
+
+      expect(result.prompts.map((prompt) => prompt.name)).toEqual(['triage', 'summarize']);
+    });
+  });
+});
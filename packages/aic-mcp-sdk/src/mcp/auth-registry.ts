@@ -0,0 +1,182 @@
+import type {
+  AccessDecision,
+  AuthRegistry,
+  AuthRegistryConfig,
+  AuthRegistryEntry,
+  AuthRequirementKind,
+  AuthorizationAnnotation,
+  ListEntry,
+  ListFilterMode,
+  McpAuthInfo,
+  WithAuthOptions,
+} from './types.js';
+import { AuthenticationError, AuthorizationError } from './types.js';
+import { enforceAuthRequirements } from './auth-requirements.js';
+import { getCallerClaims } from './auth-context.js';
+import { createProtectedResourceMetadata } from './resource-metadata.js';
+
+/** `_meta` key under which annotate mode describes why an entry cannot be used */
+export const AUTHORIZATION_META_KEY = 'com.pingidentity/authorization';
+
+const toKey = (kind: AuthRequirementKind, name: string): string => `${kind}:${name}`;
+
+/**
+ * Returns the fewest scopes that meet a set of requirements: the required scopes plus the
+ * smallest scope set of any policy alternative that needs one (the first, on a tie).
+ */
+const getMinimalScopes = (options: WithAuthOptions | undefined): readonly string[] => {
+  const policyScopes = (options?.policy?.scopeAlternatives ?? [])
+    .filter((scopes) => scopes.length > 0)
+    .reduce<
+      readonly string[] | undefined
+    >((smallest, scopes) => (smallest === undefined || scopes.length < smallest.length ? scopes : smallest), undefined);
+  return [...new Set([...(options?.requiredScopes ?? []), ...(policyScopes ?? [])])];
+};
+
+/**
+ * Creates a registry of auth requirements for tools, resources and prompts.
+ *
+ * Pass it to createWithAuth to record the options of every withAuth call that names a
+ * `toolName`; register resources and prompts directly. Use the filter functions in list
+ * request handlers so clients only see what their token can use.
+ *
+ * @param config - Registry configuration
+ * @returns An AuthRegistry
+ *
+ * @example
+ * ```typescript
+ * const registry = createAuthRegistry();
+ * const authConfig = { validator, registry };
+ * const withAuth = createWithAuth(authConfig);
+ * const resolveAuthInfo = createAuthInfoResolver(authConfig);
+ *
+ * // With the low-level Server, which leaves tools/list to the application
+ * const deleteTodo = withAuth({ toolName: 'delete_todo', requiredScopes: ['todos:write'] }, handler);
+ *
+ * server.setRequestHandler(ListToolsRequestSchema, async (_request, extra) =>
+ *   registry.filterTools({ tools: [deleteTodoTool, listTodosTool] }, await resolveAuthInfo(extra))
+ * );
+ * ```
+ */
+export const createAuthRegistry = (config: AuthRegistryConfig = {}): AuthRegistry => {
+  const { listFilterMode = 'hide' } = config;
+  const registered = new Map<string, AuthRegistryEntry>();
+
+  const get = (kind: AuthRequirementKind, name: string): WithAuthOptions | undefined =>
+    registered.get(toKey(kind, name))?.options;
+
+  const checkAccess = async (
+    kind: AuthRequirementKind,
+    name: string,
+    authInfo: McpAuthInfo | undefined
+  ): Promise<AccessDecision> => {
+    const options = get(kind, name);
+    if (options === undefined) {
+      return { allowed: true };
+    }
+    if (authInfo === undefined) {
+      return { allowed: false, reason: 'Authentication required' };
+    }
+    try {
+      await enforceAuthRequirements(options, authInfo, getCallerClaims(authInfo));
+      return { allowed: true };
+    } catch (error) {
+      if (error instanceof AuthenticationError || error instanceof AuthorizationError) {
+        return { allowed: false, reason: error.message };
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Hides or annotates the entries the caller cannot use, preserving order.
+   */
+  const filterEntries = async <TEntry extends ListEntry>(
+    kind: AuthRequirementKind,
+    entries: readonly TEntry[],
+    nameOf: (entry: TEntry) => string,
+    authInfo: McpAuthInfo | undefined,
+    mode: ListFilterMode
+  ): Promise<TEntry[]> => {
+    const decisions = await Promise.all(
+      entries.map(async (entry) => ({
+        entry,
+        name: nameOf(entry),
+        decision: await checkAccess(kind, nameOf(entry), authInfo),
+      }))
+    );
+
+    return decisions.flatMap(({ entry, name, decision }) => {
+      if (decision.allowed) {
+        return [entry];
+      }
+      if (mode === 'hide') {
+        return [];
+      }
+      const annotation: AuthorizationAnnotation = {
+        allowed: false,
+        reason: decision.reason ?? 'Access denied',
+        requiredScopes: getMinimalScopes(get(kind, name)),
+      };
+      return [{ ...entry, _meta: { ...entry._meta, [AUTHORIZATION_META_KEY]: annotation } }];
+    });
+  };
+
+  const getScopesSupported = (): readonly string[] => [
+    ...new Set(
+      [...registered.values()].flatMap(({ options }) => [
+        ...(options.requiredScopes ?? []),
+        ...(options.policy?.scopes ?? []),
+      ])
+    ),
+  ];
+
+  return {
+    register: (kind, name, options) => {
+      registered.set(toKey(kind, name), { kind, name, options });
+    },
+
+    get,
+
+    entries: () => [...registered.values()],
+
+    getScopesSupported,
+
+    getChallengeScopes: (kind, name) => getMinimalScopes(get(kind, name)),
+
+    createProtectedResourceMetadata: (config) =>
+      createProtectedResourceMetadata({
+        ...config,
+        scopesSupported: [...new Set([...(config.scopesSupported ?? []), ...getScopesSupported()])],
+      }),
+
+    checkAccess,
+
+    filterTools: async (result, authInfo, mode = listFilterMode) => ({
+      ...result,
+      tools: await filterEntries('tool', result.tools, (tool) => tool.name, authInfo, mode),
+    }),
+
+    filterResources: async (result, authInfo, mode = listFilterMode) => ({
+      ...result,
+      resources: await filterEntries(
+        'resource',
+        result.resources,
+        (resource) => resource.uri,
+        authInfo,
+        mode
+      ),
+    }),
+
+    filterPrompts: async (result, authInfo, mode = listFilterMode) => ({
+      ...result,
+      prompts: await filterEntries(
+        'prompt',
+        result.prompts,
+        (prompt) => prompt.name,
+        authInfo,
+        mode
+      ),
+    }),
+  };
+};
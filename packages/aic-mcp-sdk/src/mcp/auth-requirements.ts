@@ -0,0 +1,129 @@
+import type { PolicyContext } from '../policy/types.js';
+import type { McpAuthInfo, WithAuthOptions } from './types.js';
+import { AuthorizationError, InsufficientUserAuthenticationError } from './types.js';
+import { getMissingScopes } from '../validation/scopes.js';
+import { getUnmetAuthorizationDetails } from '../validation/authorization-details.js';
+import { checkUserAuthentication } from '../validation/user-authentication.js';
+
+/**
+ * Validates that all required scopes are present.
+ * Throws AuthorizationError if any scopes are missing.
+ */
+const checkRequiredScopes = (
+  requiredScopes: readonly string[],
+  presentScopes: readonly string[]
+): void => {
+  const missing = getMissingScopes(requiredScopes, presentScopes);
+  if (missing.length > 0) {
+    throw new AuthorizationError(requiredScopes, presentScopes);
+  }
+};
+
+/**
+ * Validates that every required authorization detail is granted.
+ * Throws AuthorizationError if any requirement has no matching entry.
+ */
+const checkAuthorizationDetails = (options: WithAuthOptions, authInfo: McpAuthInfo): void => {
+  const { requiredAuthorizationDetails = [] } = options;
+  if (requiredAuthorizationDetails.length === 0) {
+    return;
+  }
+  const unmet = getUnmetAuthorizationDetails(
+    requiredAuthorizationDetails,
+    authInfo.authorizationDetails
+  );
+  if (unmet.length > 0) {
+    throw new AuthorizationError(options.requiredScopes ?? [], authInfo.scopes, {
+      unmetAuthorizationDetails: unmet,
+    });
+  }
+};
+
+/**
+ * Evaluates the tool's policy against the caller.
+ * Throws AuthorizationError carrying the denial reason if the policy denies.
+ */
+const checkPolicy = async (options: WithAuthOptions, context: PolicyContext): Promise<void> => {
+  if (options.policy === undefined) {
+    return;
+  }
+  const decision = await options.policy.evaluate(context);
+  if (!decision.allowed) {
+    throw new AuthorizationError(options.requiredScopes ?? [], context.scopes, {
+      policyFailure: decision.reason,
+    });
+  }
+};
+
+/**
+ * Validates the user's authentication context against step-up requirements.
+ * Throws InsufficientUserAuthenticationError if acr or auth_time fall short.
+ */
+const checkStepUpRequirements = (
+  options: WithAuthOptions,
+  claims: Readonly<Record<string, unknown>>
+): void => {
+  const result = checkUserAuthentication(claims, options);
+  if (result.isErr()) {
+    throw new InsufficientUserAuthenticationError(
+      { valid: false, error: 'INSUFFICIENT_USER_AUTHENTICATION', message: result.error.message },
+      options
+    );
+  }
+};
+
+/**
+ * Checks the requirements the token validator enforces itself: required scopes and
+ * step-up (acr/auth_time). Needed when the caller was authenticated elsewhere, such as by
+ * the HTTP middleware.
+ *
+ * @param options - The requirements declared for a tool, resource or prompt
+ * @param authInfo - The caller's auth info
+ * @param claims - The caller's token claims, checked for acr and auth_time
+ * @throws AuthorizationError or InsufficientUserAuthenticationError on the first unmet requirement
+ */
+export const checkTokenRequirements = (
+  options: WithAuthOptions,
+  authInfo: McpAuthInfo,
+  claims: Readonly<Record<string, unknown>>
+): void => {
+  if (options.requiredScopes !== undefined && options.requiredScopes.length > 0) {
+    checkRequiredScopes(options.requiredScopes, authInfo.scopes);
+  }
+  checkStepUpRequirements(options, claims);
+};
+
+/**
+ * Checks the requirements only withAuth enforces: authorization details and policy.
+ *
+ * @param options - The requirements declared for a tool, resource or prompt
+ * @param authInfo - The caller's auth info
+ * @param claims - The caller's token claims, evaluated by the policy
+ * @throws AuthorizationError on the first unmet requirement
+ */
+export const checkAccessRequirements = async (
+  options: WithAuthOptions,
+  authInfo: McpAuthInfo,
+  claims: Readonly<Record<string, unknown>>
+): Promise<void> => {
+  checkAuthorizationDetails(options, authInfo);
+  await checkPolicy(options, { scopes: authInfo.scopes, claims });
+};
+
+/**
+ * Checks an authenticated caller against every requirement in the options: required scopes,
+ * step-up, authorization details and policy, in that order.
+ *
+ * @param options - The requirements declared for a tool, resource or prompt
+ * @param authInfo - The caller's auth info
+ * @param claims - The caller's token claims, checked for step-up and evaluated by the policy
+ * @throws AuthorizationError or InsufficientUserAuthenticationError on the first unmet requirement
+ */
+export const enforceAuthRequirements = async (
+  options: WithAuthOptions,
+  authInfo: McpAuthInfo,
+  claims: Readonly<Record<string, unknown>>
+): Promise<void> => {
+  checkTokenRequirements(options, authInfo, claims);
+  await checkAccessRequirements(options, authInfo, claims);
+};
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createAuthErrorResponse,
+  createRateLimitResponse,
+  parseAuthorizationHeader,
+} from './auth-response.js';
+import { RateLimitError } from './types.js';
+
+const METADATA_URL = 'https://mcp.example.com/.well-known/oauth-protected-resource';
+
+describe('createAuthErrorResponse', () => {
+  describe('given INSUFFICIENT_SCOPE', () => {
+    it('returns 403', () => {
+      const response = createAuthErrorResponse(
+        { error: 'INSUFFICIENT_SCOPE', message: 'Missing required scopes: admin' },
+        METADATA_URL
+      );
+
+      expect(response.status).toBe(403);
+      expect(response.body).toEqual({
+        error: 'insufficient_scope',
+        error_description: 'Missing required scopes: admin',
+      });
+    });
+  });
+
+  describe('given MISSING_TOKEN', () => {
+    it('returns 401 with a challenge without an error code', () => {
+      const response = createAuthErrorResponse(
+        { error: 'MISSING_TOKEN', message: 'No access token provided' },
+        METADATA_URL
+      );
+
+      expect(response.status).toBe(401);
+      expect(response.headers['WWW-Authenticate']).toBe(
+        `Bearer resource_metadata="${METADATA_URL}"`
+      );
+      expect(response.body.error).toBe('invalid_token');
+    });
+  });
+
+  describe('given VALIDATION_ERROR', () => {
+    it('returns 503 temporarily_unavailable without a challenge', () => {
+      const response = createAuthErrorResponse(
+        { error: 'VALIDATION_ERROR', message: 'Failed to fetch discovery document' },
+        METADATA_URL
+      );
+
+      expect(response.status).toBe(503);
+      expect(response.headers['WWW-Authenticate']).toBeUndefined();
+      expect(response.headers['Retry-After']).toBeUndefined();
+      expect(response.body).toEqual({
+        error: 'temporarily_unavailable',
+        error_description: 'Failed to fetch discovery document',
+      });
+    });
+
+    it('sets Retry-After when the wait is known', () => {
+      const response = createAuthErrorResponse(
+        { error: 'VALIDATION_ERROR', message: 'Circuit open', retryAfter: 12 },
+        METADATA_URL
+      );
+
+      expect(response.status).toBe(503);
+      expect(response.headers['Retry-After']).toBe('12');
+    });
+  });
+});
+
+describe('createRateLimitResponse', () => {
+  it('returns 429 with Retry-After', () => {
+    const error = new RateLimitError({ allowed: false, retryAfter: 30 });
+
+    const response = createRateLimitResponse(error);
+
+    expect(response.status).toBe(429);
+    expect(response.headers['Retry-After']).toBe('30');
+    expect(response.body).toEqual({
+      error: 'rate_limit_exceeded',
+      error_description: 'Rate limit exceeded. Retry after 30 seconds',
+    });
+  });
+});
+
+describe('parseAuthorizationHeader', () => {
+  it('parses a Bearer token', () => {
+    expect(parseAuthorizationHeader('Bearer abc.def.ghi')).toEqual({
+      scheme: 'Bearer',
+      token: 'abc.def.ghi',
+    });
+  });
+
+  it('parses a DPoP token case-insensitively', () => {
+    expect(parseAuthorizationHeader('dpop abc')).toEqual({ scheme: 'DPoP', token: 'abc' });
+  });
+
+  it.each([undefined, '', 'Basic dXNlcjpwYXNz', 'Bearer', 'Bearer a b'])(
+    'returns undefined for %j',
+    (header) => {
+      expect(parseAuthorizationHeader(header)).toBeUndefined();
+    }
+  );
+});
@@ -0,0 +1,144 @@
+import type { TokenValidationFailure } from '../types.js';
+import type { WwwAuthenticateChallengeOptions } from './resource-metadata.js';
+import type { RateLimitError } from './types.js';
+import {
+  createWwwAuthenticateChallenge,
+  formatWwwAuthenticateHeader,
+} from './resource-metadata.js';
+
+/**
+ * HTTP response describing an authentication or authorization failure.
+ */
+export interface AuthErrorResponse {
+  /**
+   * 401 for authentication failures, 403 for insufficient scope, 503 when the token could
+   * not be checked because AM, its discovery document or its keys are unavailable
+   */
+  readonly status: 401 | 403 | 503;
+  /**
+   * Response headers: WWW-Authenticate for 401 and 403, Retry-After for 503 when the wait
+   * is known
+   */
+  readonly headers: Readonly<Record<string, string>>;
+  /** OAuth 2.0 error body */
+  readonly body: {
+    readonly error: string;
+    readonly error_description: string;
+  };
+}
+
+/**
+ * Builds the HTTP error response for a failed token validation.
+ * INSUFFICIENT_SCOPE maps to 403 and VALIDATION_ERROR to 503 temporarily_unavailable,
+ * without a challenge since the token itself was not found invalid; every other failure
+ * maps to 401.
+ *
+ * @param failure - The validation failure
+ * @param resourceMetadataUrl - URL of the protected resource metadata endpoint
+ * @param options - Challenge scheme, realm and DPoP algorithm settings
+ * @returns Status, headers and JSON body for the response
+ */
+export const createAuthErrorResponse = (
+  failure: Pick<TokenValidationFailure, 'error' | 'message' | 'retryAfter'>,
+  resourceMetadataUrl: string,
+  options: WwwAuthenticateChallengeOptions = {}
+): AuthErrorResponse => {
+  if (failure.error === 'VALIDATION_ERROR') {
+    return {
+      status: 503,
+      headers: {
+        ...(failure.retryAfter !== undefined ? { 'Retry-After': String(failure.retryAfter) } : {}),
+        'Content-Type': 'application/json',
+        'Cache-Control': 'no-store',
+      },
+      body: {
+        error: 'temporarily_unavailable',
+        error_description: failure.message,
+      },
+    };
+  }
+
+  const challenge = createWwwAuthenticateChallenge(failure, resourceMetadataUrl, options);
+
+  return {
+    status: failure.error === 'INSUFFICIENT_SCOPE' ? 403 : 401,
+    headers: {
+      'WWW-Authenticate': formatWwwAuthenticateHeader(challenge),
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    },
+    body: {
+      // RFC 6750 omits the error code for missing credentials; the body still needs one
+      error: challenge.error ?? 'invalid_token',
+      error_description: failure.message,
+    },
+  };
+};
+
+/**
+ * HTTP response telling a caller it has exceeded a rate limit.
+ */
+export interface RateLimitResponse {
+  readonly status: 429;
+  /** Response headers, including Retry-After */
+  readonly headers: Readonly<Record<string, string>>;
+  readonly body: {
+    readonly error: 'rate_limit_exceeded';
+    readonly error_description: string;
+  };
+}
+
+/**
+ * Builds the 429 response for a RateLimitError.
+ *
+ * @param error - The rate limit error
+ * @returns Status, headers (with Retry-After) and JSON body for the response
+ */
+export const createRateLimitResponse = (
+  error: Pick<RateLimitError, 'retryAfter' | 'message'>
+): RateLimitResponse => ({
+  status: 429,
+  headers: {
+    'Retry-After': String(error.retryAfter),
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+  },
+  body: {
+    error: 'rate_limit_exceeded',
+    error_description: error.message,
+  },
+});
+
+/**
+ * Authorization header credentials.
+ */
+export interface AuthorizationCredentials {
+  readonly scheme: 'Bearer' | 'DPoP';
+  readonly token: string;
+}
+
+/**
+ * Parses a "Bearer" or "DPoP" Authorization header value.
+ *
+ * @param header - The Authorization header value
+ * @returns The scheme and token, or undefined if absent or malformed
+ */
+export const parseAuthorizationHeader = (
+  header: string | undefined | null
+): AuthorizationCredentials | undefined => {
+  if (header === undefined || header === null) {
+    return undefined;
+  }
+
+  const match = /^(Bearer|DPoP)\s+(\S+)\s*$/i.exec(header);
+  const scheme = match?.[1];
+  const token = match?.[2];
+  if (scheme === undefined || token === undefined) {
+    return undefined;
+  }
+
+  return {
+    scheme: scheme.toLowerCase() === 'dpop' ? 'DPoP' : 'Bearer',
+    token,
+  };
+};
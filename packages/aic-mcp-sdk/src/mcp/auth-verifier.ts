@@ -2,11 +2,13 @@ import type { TokenValidator } from '../validation/types.js';
 import type {
   AmVerifierConfig,
   AmVerifierConfigWithSecret,
+  ClaimsMapperConfig,
   McpAuthInfo,
   OAuthTokenVerifier,
 } from './types.js';
 import { AuthenticationError } from './types.js';
 import { createTokenValidator } from '../validation/token-validator.js';
+import { createClaimsMapper } from './auth-info.js';
 
 /**
  * Creates an OAuthTokenVerifier that validates tokens against AM.
@@ -36,7 +38,7 @@ export const createAmVerifier = (
   config: AmVerifierConfig | AmVerifierConfigWithSecret
 ): OAuthTokenVerifier => {
   const validator = createTokenValidator(config);
-  return createAmVerifierFromValidator(validator);
+  return createAmVerifierFromValidator(validator, config.claims);
 };
 
 /**
@@ -46,6 +48,7 @@ export const createAmVerifier = (
  * or want to share a validator instance.
  *
  * @param validator - An existing TokenValidator instance
+ * @param claims - Which claims to expose on McpAuthInfo.extra (default: all)
  * @returns An OAuthTokenVerifier instance
  *
  * @example
@@ -61,7 +64,12 @@ export const createAmVerifier = (
  * const verifier = createAmVerifierFromValidator(validator);
  * ```
  */
-export const createAmVerifierFromValidator = (validator: TokenValidator): OAuthTokenVerifier => {
+export const createAmVerifierFromValidator = (
+  validator: TokenValidator,
+  claims: ClaimsMapperConfig = {}
+): OAuthTokenVerifier => {
+  const toMcpAuthInfo = createClaimsMapper(claims);
+
   const verifyAccessToken = async (token: string): Promise<McpAuthInfo> => {
     const result = await validator.validate(token);
 
@@ -69,19 +77,7 @@ export const createAmVerifierFromValidator = (validator: TokenValidator): OAuthT
       throw new AuthenticationError(result);
     }
 
-    const scopes = result.claims.scope?.split(' ').filter((s) => s.length > 0) ?? [];
-
-    return {
-      token,
-      clientId: result.claims.client_id ?? '',
-      scopes,
-      expiresAt: result.claims.exp,
-      extra: {
-        sub: result.claims.sub,
-        iss: result.claims.iss,
-        aud: result.claims.aud,
-      },
-    };
+    return toMcpAuthInfo(token, result.claims);
   };
 
   return { verifyAccessToken };
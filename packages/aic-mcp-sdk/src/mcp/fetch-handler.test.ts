@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import { createFetchAuthHandler } from './fetch-handler.js';
+import { createAuthRegistry } from './auth-registry.js';
+import type { TokenValidationResult } from '../types.js';
+import { TEST_ISSUER, SCOPE_READ, SCOPE_WRITE, createValidClaims } from '../test/fixtures.js';
+import { createMockValidator } from '../test/mocks.js';
+
+const RESOURCE_URL = 'https://mcp.example.com/mcp';
+const METADATA_URL = 'https://mcp.example.com/.well-known/oauth-protected-resource/mcp';
+
+const successResult: TokenValidationResult = {
+  valid: true,
+  claims: createValidClaims(),
+  accessToken: 'valid-token',
+};
+
+describe('createFetchAuthHandler', () => {
+  describe('given a GET to the protected resource metadata path', () => {
+    it('resolves to a Response with the metadata document', async () => {
+      const authenticate = createFetchAuthHandler({
+        validator: createMockValidator(successResult),
+        resourceUrl: RESOURCE_URL,
+      });
+
+      const result = await authenticate(new Request(METADATA_URL));
+
+      expect(result.authenticated).toBe(false);
+      if (!result.authenticated) {
+        expect(result.response.status).toBe(200);
+        expect(result.response.headers.get('content-type')).toBe('application/json');
+        expect(await result.response.json()).toMatchObject({
+          resource: RESOURCE_URL,
+          authorization_servers: [TEST_ISSUER],
+        });
+      }
+    });
+  });
+
+  describe('given a multi-issuer validator', () => {
+    it('lists every trusted issuer as an authorization server', async () => {
+      const authenticate = createFetchAuthHandler({
+        validator: {
+          ...createMockValidator(successResult),
+          issuers: [TEST_ISSUER, 'https://tenant-b.example.com/am/oauth2'],
+        },
+        resourceUrl: RESOURCE_URL,
+      });
+
+      const result = await authenticate(new Request(METADATA_URL));
+
+      expect(result.authenticated).toBe(false);
+      if (!result.authenticated) {
+        expect(await result.response.json()).toMatchObject({
+          authorization_servers: [TEST_ISSUER, 'https://tenant-b.example.com/am/oauth2'],
+        });
+      }
+    });
+  });
+
+  describe('given an auth registry', () => {
+    it('advertises the registered scopes as scopes_supported', async () => {
+      const registry = createAuthRegistry();
+      registry.register('tool', 'list_todos', { requiredScopes: [SCOPE_READ] });
+      registry.register('tool', 'add_todo', { requiredScopes: [SCOPE_READ, SCOPE_WRITE] });
+      const authenticate = createFetchAuthHandler({
+        validator: createMockValidator(successResult),
+        resourceUrl: RESOURCE_URL,
+        registry,
+      });
+
+      const result = await authenticate(new Request(METADATA_URL));
+
+      expect(result.authenticated).toBe(false);
+      if (!result.authenticated) {
+        expect(await result.response.json()).toMatchObject({
+          scopes_supported: [SCOPE_READ, SCOPE_WRITE],
+        });
+      }
+    });
+  });
+
+  describe('given a valid bearer token', () => {
+    it('resolves to the caller auth info', async () => {
+      const authenticate = createFetchAuthHandler({
+        validator: createMockValidator(successResult),
+        resourceUrl: RESOURCE_URL,
+      });
+
+      const result = await authenticate(
+        new Request(RESOURCE_URL, {
+          method: 'POST',
+          headers: { Authorization: 'Bearer valid-token' },
+        })
+      );
+
+      expect(result.authenticated).toBe(true);
+      if (result.authenticated) {
+        expect(result.authInfo.token).toBe('valid-token');
+        expect(result.authInfo.scopes).toEqual([SCOPE_READ, SCOPE_WRITE]);
+      }
+    });
+    it('resolves to every validated claim alongside the auth info', async () => {
+      const claims = createValidClaims({ department: 'finance', groups: ['admins'] });
+      const authenticate = createFetchAuthHandler({
+        validator: createMockValidator({ ...successResult, claims }),
+        resourceUrl: RESOURCE_URL,
+      });
+
+      const result = await authenticate(
+        new Request(RESOURCE_URL, {
+          method: 'POST',
+          headers: { Authorization: 'Bearer valid-token' },
+        })
+      );
+
+      expect(result.authenticated).toBe(true);
+      if (result.authenticated) {
+        expect(result.claims).toEqual(claims);
+      }
+    });
+  });
+
+  describe('given no Authorization header', () => {
+    it('resolves to a 401 Response with an RFC 9728 challenge', async () => {
+      const authenticate = createFetchAuthHandler({
+        validator: createMockValidator(successResult),
+        resourceUrl: RESOURCE_URL,
+      });
+
+      const result = await authenticate(new Request(RESOURCE_URL, { method: 'POST' }));
+
+      expect(result.authenticated).toBe(false);
+      if (!result.authenticated) {
+        expect(result.response.status).toBe(401);
+        expect(result.response.headers.get('www-authenticate')).toBe(
+          `Bearer resource_metadata="${METADATA_URL}"`
+        );
+      }
+    });
+  });
+
+  describe('given a token without the required scopes', () => {
+    it('resolves to a 403 Response', async () => {
+      const authenticate = createFetchAuthHandler({
+        validator: createMockValidator({
+          valid: false,
+          error: 'INSUFFICIENT_SCOPE',
+          message: 'Missing required scopes: admin',
+        }),
+        resourceUrl: RESOURCE_URL,
+      });
+
+      const result = await authenticate(
+        new Request(RESOURCE_URL, { method: 'POST', headers: { Authorization: 'Bearer token' } })
+      );
+
+      expect(result.authenticated).toBe(false);
+      if (!result.authenticated) {
+        expect(result.response.status).toBe(403);
+        expect(await result.response.json()).toEqual({
+          error: 'insufficient_scope',
+          error_description: 'Missing required scopes: admin',
+        });
+      }
+    });
+  });
+
+  describe('given a DPoP-scheme token behind a proxy', () => {
+    it('verifies the proof against the public resource URL', async () => {
+      const validator = createMockValidator(successResult);
+      const authenticate = createFetchAuthHandler({ validator, resourceUrl: RESOURCE_URL });
+
+      await authenticate(
+        new Request('http://10.0.0.5:8080/mcp', {
+          method: 'POST',
+          headers: { Authorization: 'DPoP bound-token', DPoP: 'proof-jwt' },
+        })
+      );
+
+      expect(validator.validate).toHaveBeenCalledWith('bound-token', {
+        dpop: { proof: 'proof-jwt', method: 'POST', url: RESOURCE_URL },
+      });
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import type { TokenClaims } from '../types.js';
+import type { McpAuthInfo } from './types.js';
+import { createHttpAuthenticator, type HttpAuthConfig } from './http-auth.js';
+
+/**
+ * Result of authenticating a Fetch API request.
+ * When `authenticated` is false, return `response` to the client as-is.
+ */
+export type FetchAuthResult =
+  | {
+      readonly authenticated: true;
+      readonly authInfo: McpAuthInfo;
+      /** Every validated claim, including those the claims mapper left off authInfo */
+      readonly claims: TokenClaims;
+    }
+  | { readonly authenticated: false; readonly response: Response };
+
+/**
+ * Fetch API auth handler: resolves a Request to auth info or a ready-made Response.
+ */
+export type FetchAuthHandler = (request: Request) => Promise<FetchAuthResult>;
+
+/**
+ * Creates an auth handler for servers built on WHATWG `Request`/`Response`
+ * (Hono, Bun, Deno, edge runtimes). Behaves like createAuthMiddleware:
+ *
+ * - GET requests to the resource's well-known metadata path resolve to a Response with the
+ *   RFC 9728 metadata document.
+ * - Requests with a valid `Bearer` or `DPoP` token resolve to the caller's McpAuthInfo.
+ * - Anything else resolves to a 401/403 Response with a `WWW-Authenticate` challenge.
+ *
+ * @param config - Validator, resource and challenge configuration
+ * @returns A FetchAuthHandler
+ *
+ * @example
+ * ```typescript
+ * const authenticate = createFetchAuthHandler({
+ *   validator,
+ *   resourceUrl: 'https://mcp.example.com/mcp',
+ * });
+ *
+ * export default {
+ *   async fetch(request: Request): Promise<Response> {
+ *     const auth = await authenticate(request);
+ *     if (!auth.authenticated) {
+ *       return auth.response;
+ *     }
+ *     return runWithAuthContext({ authInfo: auth.authInfo, claims: auth.claims }, () =>
+ *       handleMcpRequest(request, auth.authInfo)
+ *     );
+ *   },
+ * };
+ * ```
+ */
+export const createFetchAuthHandler = (config: HttpAuthConfig): FetchAuthHandler => {
+  const authenticate = createHttpAuthenticator(config);
+
+  return async (request: Request): Promise<FetchAuthResult> => {
+    const outcome = await authenticate({
+      method: request.method,
+      url: request.url,
+      authorization: request.headers.get('authorization') ?? undefined,
+      dpop: request.headers.get('dpop') ?? undefined,
+    });
+
+    if (outcome.type === 'authenticated') {
+      return { authenticated: true, authInfo: outcome.authInfo, claims: outcome.claims };
+    }
+
+    return {
+      authenticated: false,
+      response: new Response(JSON.stringify(outcome.body), {
+        status: outcome.status,
+        headers: outcome.headers,
+      }),
+    };
+  };
+};
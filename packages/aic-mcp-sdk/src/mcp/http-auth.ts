@@ -0,0 +1,201 @@
+import type {
+  MultiIssuerValidator,
+  TokenValidator,
+  ValidationOptions,
+} from '../validation/types.js';
+import type { TokenClaims } from '../types.js';
+import type { AuthRegistry, ClaimsMapperConfig, McpAuthInfo } from './types.js';
+import type {
+  ProtectedResourceMetadata,
+  ProtectedResourceMetadataConfig,
+} from './resource-metadata.js';
+import {
+  createProtectedResourceMetadata,
+  getProtectedResourceMetadataUrl,
+} from './resource-metadata.js';
+import {
+  createAuthErrorResponse,
+  createRateLimitResponse,
+  parseAuthorizationHeader,
+} from './auth-response.js';
+import { RateLimitError } from './types.js';
+import type { RateLimiter } from '../rate-limit/types.js';
+import { createClaimsMapper } from './auth-info.js';
+
+/**
+ * Configuration shared by the HTTP auth middleware and the Fetch API handler.
+ */
+export interface HttpAuthConfig {
+  /** The token validator instance */
+  readonly validator: TokenValidator | MultiIssuerValidator;
+  /** Public URL of this MCP server, used as the RFC 9728 resource identifier */
+  readonly resourceUrl: string;
+  /** Scopes every request must carry */
+  readonly requiredScopes?: readonly string[];
+  /**
+   * Authorization server issuer URL(s) (default: a multi-issuer validator's issuers,
+   * otherwise the issuer from the validator's discovery document)
+   */
+  readonly authorizationServers?: string | readonly string[];
+  /** Which claims to expose on McpAuthInfo.extra (default: all) */
+  readonly claims?: ClaimsMapperConfig;
+  /** Registry whose recorded scopes are advertised as scopes_supported in the metadata */
+  readonly registry?: AuthRegistry;
+  /** Additional RFC 9728 metadata fields */
+  readonly metadata?: Omit<ProtectedResourceMetadataConfig, 'resourceUrl' | 'authorizationServers'>;
+  /** Optional realm for WWW-Authenticate challenges */
+  readonly realm?: string;
+  /**
+   * DPoP signing algorithms accepted by this resource. Advertised in the metadata
+   * document and in "algs" on DPoP challenges.
+   */
+  readonly dpopAlgorithms?: readonly string[];
+  /** Limits how often each authenticated caller may make requests; excess requests get 429 */
+  readonly rateLimit?: RateLimiter;
+}
+
+/**
+ * The parts of an HTTP request needed to authenticate it.
+ */
+export interface HttpAuthRequest {
+  readonly method: string;
+  /** Request path and query, or an absolute URL; resolved against the resource origin */
+  readonly url: string;
+  readonly authorization: string | undefined;
+  readonly dpop: string | undefined;
+}
+
+/**
+ * Outcome of authenticating an HTTP request: either the caller's auth info,
+ * or a response to send instead of handling the request.
+ */
+export type HttpAuthOutcome =
+  | {
+      readonly type: 'authenticated';
+      readonly authInfo: McpAuthInfo;
+      /** Every validated claim, including those the claims mapper left off authInfo */
+      readonly claims: TokenClaims;
+    }
+  | {
+      readonly type: 'response';
+      readonly status: number;
+      readonly headers: Readonly<Record<string, string>>;
+      readonly body: unknown;
+    };
+
+/**
+ * Creates the framework-neutral request authenticator behind the HTTP adapters.
+ *
+ * @param config - Validator, resource and challenge configuration
+ * @returns A function resolving a request to an HttpAuthOutcome
+ */
+export const createHttpAuthenticator = (
+  config: HttpAuthConfig
+): ((request: HttpAuthRequest) => Promise<HttpAuthOutcome>) => {
+  const { validator, resourceUrl, requiredScopes = [], metadata = {}, dpopAlgorithms } = config;
+
+  const toMcpAuthInfo = createClaimsMapper(config.claims);
+  const resourceMetadataUrl = getProtectedResourceMetadataUrl(resourceUrl);
+  const metadataPath = new URL(resourceMetadataUrl).pathname;
+  const resourceOrigin = new URL(resourceUrl).origin;
+  const challengeOptions = {
+    ...(config.realm !== undefined ? { realm: config.realm } : {}),
+    ...(dpopAlgorithms !== undefined ? { dpopAlgorithms } : {}),
+  };
+
+  /**
+   * Builds the metadata document, resolving authorization servers from discovery if needed.
+   */
+  const getMetadata = async (): Promise<ProtectedResourceMetadata | undefined> => {
+    let authorizationServers =
+      config.authorizationServers ?? ('issuers' in validator ? validator.issuers : undefined);
+
+    if (authorizationServers === undefined) {
+      const authInfo = await validator.getAuthenticationInfo();
+      if (authInfo === undefined) {
+        return undefined;
+      }
+      authorizationServers = authInfo.issuer;
+    }
+
+    const documentConfig = { ...metadata, resourceUrl, authorizationServers };
+    const document =
+      config.registry !== undefined
+        ? config.registry.createProtectedResourceMetadata(documentConfig)
+        : createProtectedResourceMetadata(documentConfig);
+
+    return dpopAlgorithms !== undefined
+      ? { ...document, dpop_signing_alg_values_supported: dpopAlgorithms }
+      : document;
+  };
+
+  return async (request: HttpAuthRequest): Promise<HttpAuthOutcome> => {
+    // Resolve against the configured origin so proxies and mounts don't affect "htu" matching
+    const parsedUrl = new URL(request.url, resourceOrigin);
+    const requestUrl = new URL(`${parsedUrl.pathname}${parsedUrl.search}`, resourceOrigin);
+
+    if (request.method === 'GET' && requestUrl.pathname === metadataPath) {
+      const document = await getMetadata();
+      if (document === undefined) {
+        return {
+          type: 'response',
+          status: 503,
+          headers: { 'Content-Type': 'application/json' },
+          body: {
+            error: 'temporarily_unavailable',
+            error_description: 'Authorization server metadata is unavailable',
+          },
+        };
+      }
+      return {
+        type: 'response',
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+        body: document,
+      };
+    }
+
+    const credentials = parseAuthorizationHeader(request.authorization);
+
+    if (credentials === undefined) {
+      return {
+        type: 'response',
+        ...createAuthErrorResponse(
+          { error: 'MISSING_TOKEN', message: 'No access token provided' },
+          resourceMetadataUrl,
+          challengeOptions
+        ),
+      };
+    }
+
+    const options: ValidationOptions = {
+      ...(requiredScopes.length > 0 ? { requiredScopes } : {}),
+      ...(credentials.scheme === 'DPoP'
+        ? { dpop: { proof: request.dpop, method: request.method, url: requestUrl.href } }
+        : {}),
+    };
+
+    const result = await validator.validate(credentials.token, options);
+
+    if (!result.valid) {
+      return {
+        type: 'response',
+        ...createAuthErrorResponse(result, resourceMetadataUrl, {
+          ...challengeOptions,
+          scheme: credentials.scheme,
+        }),
+      };
+    }
+
+    const authInfo = toMcpAuthInfo(credentials.token, result.claims);
+
+    if (config.rateLimit !== undefined) {
+      const decision = await config.rateLimit.consume(authInfo, result.claims);
+      if (!decision.allowed) {
+        return { type: 'response', ...createRateLimitResponse(new RateLimitError(decision)) };
+      }
+    }
+
+    return { type: 'authenticated', authInfo, claims: result.claims };
+  };
+};
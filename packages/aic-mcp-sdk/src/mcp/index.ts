@@ -1,32 +1,79 @@
 // Auth verifier (for MCP SDK's requireBearerAuth middleware)
 export { createAmVerifier, createAmVerifierFromValidator } from './auth-verifier.js';
 
+// Shared mapper from validated tokens to McpAuthInfo
+export { createClaimsMapper } from './auth-info.js';
+
 // Tool wrapper (for per-tool authentication)
-export { createWithAuth } from './with-auth.js';
-export type { CreateWithAuthConfig, WithAuthFn } from './with-auth.js';
+export { createWithAuth, createAuthInfoResolver } from './with-auth.js';
+export type { AuthInfoResolver, CreateWithAuthConfig, WithAuthFn } from './with-auth.js';
+
+// Request-scoped access to the authenticated caller
+export { getAuthContext, requireAuthContext, runWithAuthContext } from './auth-context.js';
+
+// Auth requirements registry (for filtering list results)
+export { createAuthRegistry, AUTHORIZATION_META_KEY } from './auth-registry.js';
+
+// HTTP middleware (Express/Connect) and Fetch API handler
+export { createAuthMiddleware } from './auth-middleware.js';
+export type { AuthMiddleware, AuthenticatedRequest } from './auth-middleware.js';
+export { createFetchAuthHandler } from './fetch-handler.js';
+export type { FetchAuthHandler, FetchAuthResult } from './fetch-handler.js';
+export type { HttpAuthConfig } from './http-auth.js';
+export {
+  createAuthErrorResponse,
+  createRateLimitResponse,
+  parseAuthorizationHeader,
+} from './auth-response.js';
+export type {
+  AuthErrorResponse,
+  AuthorizationCredentials,
+  RateLimitResponse,
+} from './auth-response.js';
 
 // RFC 9728 Protected Resource Metadata (for MCP compliance)
 export {
   createProtectedResourceMetadata,
+  getProtectedResourceMetadataUrl,
   formatWwwAuthenticateHeader,
   parseWwwAuthenticateHeader,
+  createWwwAuthenticateChallenge,
 } from './resource-metadata.js';
 export type {
   ProtectedResourceMetadata,
   ProtectedResourceMetadataConfig,
   WwwAuthenticateChallenge,
+  WwwAuthenticateChallengeOptions,
+  WwwAuthenticateError,
 } from './resource-metadata.js';
 
 // Types
 export type {
   McpAuthInfo,
+  AuthContext,
   OAuthTokenVerifier,
   AmVerifierConfig,
   AmVerifierConfigWithSecret,
   WithAuthOptions,
+  ClaimsMapper,
+  ClaimsMapperConfig,
+  AuthRegistry,
+  AuthRegistryConfig,
+  AuthRegistryEntry,
+  AuthRequirementKind,
+  AccessDecision,
+  ListFilterMode,
+  ListEntry,
+  AuthorizationAnnotation,
+  AuthorizationFailureDetails,
   StdioTokenSource,
   TokenExtractorConfig,
 } from './types.js';
 
 // Errors
-export { AuthenticationError, AuthorizationError } from './types.js';
+export {
+  AuthenticationError,
+  AuthorizationError,
+  InsufficientUserAuthenticationError,
+  RateLimitError,
+} from './types.js';
@@ -3,8 +3,12 @@ import {
   createProtectedResourceMetadata,
   formatWwwAuthenticateHeader,
   parseWwwAuthenticateHeader,
+  createWwwAuthenticateChallenge,
+  getProtectedResourceMetadataUrl,
 } from './resource-metadata.js';
 
+const METADATA_URL = 'https://mcp.example.com/.well-known/oauth-protected-resource';
+
 describe('createProtectedResourceMetadata', () => {
   describe('given minimal required config', () => {
     it('returns metadata with resource and authorization_servers', () => {
@@ -155,6 +159,20 @@ describe('formatWwwAuthenticateHeader', () => {
     });
   });
 
+  describe('given an error description with quotes and backslashes', () => {
+    it('escapes them as a quoted-string', () => {
+      const result = formatWwwAuthenticateHeader({
+        resourceMetadataUrl: METADATA_URL,
+        error: 'invalid_token',
+        errorDescription: 'Token "typ" header must be "at+jwt", got "a\\b"',
+      });
+
+      expect(result).toContain(
+        'error_description="Token \\"typ\\" header must be \\"at+jwt\\", got \\"a\\\\b\\""'
+      );
+    });
+  });
+
   describe('given DPoP scheme', () => {
     it('uses DPoP instead of Bearer', () => {
       const result = formatWwwAuthenticateHeader({
@@ -164,6 +182,34 @@ describe('formatWwwAuthenticateHeader', () => {
 
       expect(result.startsWith('DPoP ')).toBe(true);
     });
+
+    it('includes accepted algorithms as algs', () => {
+      const result = formatWwwAuthenticateHeader({
+        scheme: 'DPoP',
+        resourceMetadataUrl: METADATA_URL,
+        error: 'invalid_dpop_proof',
+        algs: ['ES256', 'EdDSA'],
+      });
+
+      expect(result).toBe(
+        `DPoP resource_metadata="${METADATA_URL}", error="invalid_dpop_proof", algs="ES256 EdDSA"`
+      );
+    });
+  });
+
+  describe('given step-up requirements', () => {
+    it('includes acr_values and max_age', () => {
+      const result = formatWwwAuthenticateHeader({
+        resourceMetadataUrl: METADATA_URL,
+        error: 'insufficient_user_authentication',
+        acrValues: ['urn:example:acr:mfa', 'urn:example:acr:hwk'],
+        maxAge: 300,
+      });
+
+      expect(result).toBe(
+        `Bearer resource_metadata="${METADATA_URL}", error="insufficient_user_authentication", acr_values="urn:example:acr:mfa urn:example:acr:hwk", max_age="300"`
+      );
+    });
   });
 
   describe('given all parameters', () => {
@@ -248,6 +294,18 @@ describe('parseWwwAuthenticateHeader', () => {
     });
   });
 
+  describe('given step-up parameters', () => {
+    it('parses acr_values and max_age', () => {
+      const result = parseWwwAuthenticateHeader(
+        `Bearer resource_metadata="${METADATA_URL}", error="insufficient_user_authentication", acr_values="urn:example:acr:mfa", max_age="300"`
+      );
+
+      expect(result?.error).toBe('insufficient_user_authentication');
+      expect(result?.acrValues).toEqual(['urn:example:acr:mfa']);
+      expect(result?.maxAge).toBe(300);
+    });
+  });
+
   describe('given invalid scheme', () => {
     it('returns undefined', () => {
       const result = parseWwwAuthenticateHeader(
@@ -288,5 +346,146 @@ describe('parseWwwAuthenticateHeader', () => {
 
       expect(parsed).toEqual(original);
     });
+
+    it('round-trips a validator message containing quotes', () => {
+      const challenge = createWwwAuthenticateChallenge(
+        {
+          error: 'MALFORMED_TOKEN',
+          message: 'Token "typ" header must be "at+jwt", got "JWT"',
+        },
+        METADATA_URL,
+        { realm: 'mcp' }
+      );
+
+      const parsed = parseWwwAuthenticateHeader(formatWwwAuthenticateHeader(challenge));
+
+      expect(parsed?.errorDescription).toBe('Token "typ" header must be "at+jwt", got "JWT"');
+      expect(parsed?.realm).toBe('mcp');
+      expect(parsed?.resourceMetadataUrl).toBe(METADATA_URL);
+    });
+  });
+});
+
+describe('createWwwAuthenticateChallenge', () => {
+  describe('given MISSING_TOKEN', () => {
+    it('returns a Bearer challenge without an error code', () => {
+      const result = createWwwAuthenticateChallenge(
+        { error: 'MISSING_TOKEN', message: 'No access token provided' },
+        METADATA_URL
+      );
+
+      expect(result).toEqual({ scheme: 'Bearer', resourceMetadataUrl: METADATA_URL });
+    });
+  });
+
+  describe('given INSUFFICIENT_SCOPE', () => {
+    it('returns insufficient_scope', () => {
+      const result = createWwwAuthenticateChallenge(
+        { error: 'INSUFFICIENT_SCOPE', message: 'Missing required scopes: write' },
+        METADATA_URL
+      );
+
+      expect(result.error).toBe('insufficient_scope');
+      expect(result.errorDescription).toBe('Missing required scopes: write');
+    });
+  });
+
+  describe('given scopes', () => {
+    it('advertises them as a space-separated scope parameter', () => {
+      const result = createWwwAuthenticateChallenge(
+        { error: 'INSUFFICIENT_SCOPE', message: 'Missing required scopes: todos:write' },
+        METADATA_URL,
+        { scopes: ['todos:read', 'todos:write'] }
+      );
+
+      expect(result.scope).toBe('todos:read todos:write');
+    });
+
+    it('omits the scope parameter when empty', () => {
+      const result = createWwwAuthenticateChallenge(
+        { error: 'MISSING_TOKEN', message: 'No access token provided' },
+        METADATA_URL,
+        { scopes: [] }
+      );
+
+      expect(result.scope).toBeUndefined();
+    });
+  });
+
+  describe('given INSUFFICIENT_USER_AUTHENTICATION', () => {
+    it('returns insufficient_user_authentication with the step-up requirements', () => {
+      const result = createWwwAuthenticateChallenge(
+        { error: 'INSUFFICIENT_USER_AUTHENTICATION', message: 'Authentication is too old' },
+        METADATA_URL,
+        { acrValues: ['urn:example:acr:mfa'], maxAge: 300 }
+      );
+
+      expect(result.error).toBe('insufficient_user_authentication');
+      expect(result.acrValues).toEqual(['urn:example:acr:mfa']);
+      expect(result.maxAge).toBe(300);
+    });
+  });
+
+  describe('given EXPIRED_TOKEN presented with the DPoP scheme', () => {
+    it('returns a DPoP invalid_token challenge with algs', () => {
+      const result = createWwwAuthenticateChallenge(
+        { error: 'EXPIRED_TOKEN', message: 'Token has expired' },
+        METADATA_URL,
+        { scheme: 'DPoP', dpopAlgorithms: ['ES256'] }
+      );
+
+      expect(result).toMatchObject({ scheme: 'DPoP', error: 'invalid_token', algs: ['ES256'] });
+    });
+  });
+
+  describe('given a DPoP proof failure', () => {
+    it.each(['INVALID_DPOP_PROOF', 'DPOP_PROOF_REPLAYED'] as const)(
+      'returns a DPoP invalid_dpop_proof challenge for %s',
+      (error) => {
+        const result = createWwwAuthenticateChallenge(
+          { error, message: 'DPoP proof is invalid' },
+          METADATA_URL
+        );
+
+        expect(result.scheme).toBe('DPoP');
+        expect(result.error).toBe('invalid_dpop_proof');
+      }
+    );
+  });
+
+  describe('given DPOP_BINDING_MISMATCH', () => {
+    it('returns a DPoP invalid_token challenge', () => {
+      const result = createWwwAuthenticateChallenge(
+        { error: 'DPOP_BINDING_MISMATCH', message: 'Token is not DPoP-bound' },
+        METADATA_URL
+      );
+
+      expect(result.scheme).toBe('DPoP');
+      expect(result.error).toBe('invalid_token');
+    });
+  });
+
+  describe('given a Bearer challenge with dpopAlgorithms', () => {
+    it('omits algs', () => {
+      const result = createWwwAuthenticateChallenge(
+        { error: 'INVALID_SIGNATURE', message: 'Token signature verification failed' },
+        METADATA_URL,
+        { dpopAlgorithms: ['ES256'] }
+      );
+
+      expect(result.algs).toBeUndefined();
+    });
+  });
+});
+
+describe('getProtectedResourceMetadataUrl', () => {
+  it('returns the well-known URL for a resource at the origin root', () => {
+    expect(getProtectedResourceMetadataUrl('https://mcp.example.com')).toBe(METADATA_URL);
+  });
+
+  it('appends the resource path to the well-known prefix', () => {
+    expect(getProtectedResourceMetadataUrl('https://mcp.example.com/mcp/')).toBe(
+      `${METADATA_URL}/mcp`
+    );
   });
 });
@@ -6,6 +6,8 @@
  * @see https://modelcontextprotocol.io/specification/2025-03-26/basic/authorization
  */
 
+import type { TokenValidationFailure } from '../types.js';
+
 /**
  * OAuth 2.0 Protected Resource Metadata per RFC 9728.
  * This is the response format for the /.well-known/oauth-protected-resource endpoint.
@@ -171,6 +173,24 @@ export const createProtectedResourceMetadata = (
   return metadata;
 };
 
+/** RFC 9728 well-known path prefix */
+const WELL_KNOWN_PREFIX = '/.well-known/oauth-protected-resource';
+
+/**
+ * Returns the RFC 9728 metadata URL for a resource identifier.
+ * Any path component of the resource is appended to the well-known prefix
+ * (RFC 9728 Section 3.1), so "https://mcp.example.com/mcp" maps to
+ * "https://mcp.example.com/.well-known/oauth-protected-resource/mcp".
+ *
+ * @param resourceUrl - The protected resource's identifier URL
+ * @returns Absolute URL of the metadata document
+ */
+export const getProtectedResourceMetadataUrl = (resourceUrl: string): string => {
+  const url = new URL(resourceUrl);
+  const path = url.pathname === '/' ? '' : url.pathname.replace(/\/$/, '');
+  return `${url.origin}${WELL_KNOWN_PREFIX}${path}`;
+};
+
 /**
  * WWW-Authenticate challenge parameters for 401 responses.
  */
@@ -200,15 +220,53 @@ export interface WwwAuthenticateChallenge {
 
   /**
    * Optional error code (e.g., "invalid_token", "insufficient_scope").
+   * "invalid_dpop_proof" is defined by RFC 9449 for the DPoP scheme.
    */
-  readonly error?: 'invalid_token' | 'insufficient_scope' | 'invalid_request';
+  readonly error?: WwwAuthenticateError;
 
   /**
    * Optional human-readable error description.
    */
   readonly errorDescription?: string;
+
+  /**
+   * DPoP signing algorithms accepted by the resource (RFC 9449 Section 7.1).
+   * Only meaningful with the "DPoP" scheme.
+   */
+  readonly algs?: readonly string[];
+
+  /**
+   * Authentication context classes the client should request (RFC 9470 Section 3).
+   * Sent with the "insufficient_user_authentication" error.
+   */
+  readonly acrValues?: readonly string[];
+
+  /**
+   * Maximum seconds since the user authenticated (RFC 9470 Section 3).
+   * Sent with the "insufficient_user_authentication" error.
+   */
+  readonly maxAge?: number;
 }
 
+/**
+ * Error codes allowed in a WWW-Authenticate challenge.
+ * "invalid_dpop_proof" is defined by RFC 9449, "insufficient_user_authentication" by RFC 9470.
+ */
+export type WwwAuthenticateError =
+  | 'invalid_token'
+  | 'insufficient_scope'
+  | 'insufficient_user_authentication'
+  | 'invalid_request'
+  | 'invalid_dpop_proof';
+
+/**
+ * Formats a header parameter value as an RFC 7230 quoted-string: `"` and `\` are escaped, and
+ * control characters, which a quoted-string cannot hold, are replaced with spaces.
+ */
+const quoteParam = (value: string): string =>
+  // eslint-disable-next-line no-control-regex
+  `"${value.replace(/[\x00-\x08\x0a-\x1f\x7f]/g, ' ').replace(/["\\]/g, '\\$&')}"`;
+
 /**
  * Formats a WWW-Authenticate header value per RFC 6750 and RFC 9728.
  * This header tells clients where to find authentication information.
@@ -235,22 +293,34 @@ export const formatWwwAuthenticateHeader = (challenge: WwwAuthenticateChallenge)
   const params: string[] = [];
 
   if (challenge.realm !== undefined) {
-    params.push(`realm="${challenge.realm}"`);
+    params.push(`realm=${quoteParam(challenge.realm)}`);
   }
 
   // resource_metadata is the RFC 9728 parameter
-  params.push(`resource_metadata="${challenge.resourceMetadataUrl}"`);
+  params.push(`resource_metadata=${quoteParam(challenge.resourceMetadataUrl)}`);
 
   if (challenge.scope !== undefined) {
-    params.push(`scope="${challenge.scope}"`);
+    params.push(`scope=${quoteParam(challenge.scope)}`);
   }
 
   if (challenge.error !== undefined) {
-    params.push(`error="${challenge.error}"`);
+    params.push(`error=${quoteParam(challenge.error)}`);
   }
 
   if (challenge.errorDescription !== undefined) {
-    params.push(`error_description="${challenge.errorDescription}"`);
+    params.push(`error_description=${quoteParam(challenge.errorDescription)}`);
+  }
+
+  if (challenge.algs !== undefined && challenge.algs.length > 0) {
+    params.push(`algs=${quoteParam(challenge.algs.join(' '))}`);
+  }
+
+  if (challenge.acrValues !== undefined && challenge.acrValues.length > 0) {
+    params.push(`acr_values=${quoteParam(challenge.acrValues.join(' '))}`);
+  }
+
+  if (challenge.maxAge !== undefined) {
+    params.push(`max_age=${quoteParam(String(challenge.maxAge))}`);
   }
 
   return params.length > 0 ? `${scheme} ${params.join(', ')}` : scheme;
@@ -282,8 +352,8 @@ export const parseWwwAuthenticateHeader = (
   const scheme = schemeMatch[1] as 'Bearer' | 'DPoP';
   const paramsString = header.slice(schemeMatch[0].length);
 
-  // Parse key="value" pairs
-  const paramRegex = /(\w+)="([^"]*)"/g;
+  // Parse key="value" pairs; values are quoted-strings with backslash escapes
+  const paramRegex = /(\w+)="((?:[^"\\]|\\.)*)"/g;
   const params: Record<string, string> = {};
   let match: RegExpExecArray | null;
 
@@ -291,7 +361,7 @@ export const parseWwwAuthenticateHeader = (
     const key = match[1];
     const value = match[2];
     if (key !== undefined && value !== undefined) {
-      params[key] = value;
+      params[key] = value.replace(/\\(.)/g, '$1');
     }
   }
 
@@ -305,11 +375,116 @@ export const parseWwwAuthenticateHeader = (
     resourceMetadataUrl,
     ...(params['realm'] !== undefined ? { realm: params['realm'] } : {}),
     ...(params['scope'] !== undefined ? { scope: params['scope'] } : {}),
-    ...(params['error'] !== undefined
-      ? { error: params['error'] as 'invalid_token' | 'insufficient_scope' | 'invalid_request' }
-      : {}),
+    ...(params['error'] !== undefined ? { error: params['error'] as WwwAuthenticateError } : {}),
     ...(params['error_description'] !== undefined
       ? { errorDescription: params['error_description'] }
       : {}),
+    ...(params['algs'] !== undefined
+      ? { algs: params['algs'].split(' ').filter((alg) => alg.length > 0) }
+      : {}),
+    ...(params['acr_values'] !== undefined
+      ? { acrValues: params['acr_values'].split(' ').filter((acr) => acr.length > 0) }
+      : {}),
+    ...(params['max_age'] !== undefined && /^\d+$/.test(params['max_age'])
+      ? { maxAge: Number(params['max_age']) }
+      : {}),
   };
 };
+
+/**
+ * Options for building a challenge from a validation failure.
+ */
+export interface WwwAuthenticateChallengeOptions {
+  /**
+   * Scheme the client used to present the token (default: "Bearer").
+   * DPoP proof failures always use the "DPoP" scheme.
+   */
+  readonly scheme?: 'Bearer' | 'DPoP';
+  /** Accepted DPoP signing algorithms, advertised as "algs" on DPoP challenges */
+  readonly dpopAlgorithms?: readonly string[];
+  /** Optional realm parameter */
+  readonly realm?: string;
+  /** Step-up acr values, advertised on insufficient_user_authentication challenges */
+  readonly acrValues?: readonly string[];
+  /** Step-up max age in seconds, advertised on insufficient_user_authentication challenges */
+  readonly maxAge?: number;
+  /** Scopes needed for the attempted request, advertised as "scope" */
+  readonly scopes?: readonly string[];
+}
+
+/**
+ * Builds the WWW-Authenticate challenge for a failed token validation.
+ *
+ * - MISSING_TOKEN: challenge without an error code (RFC 6750 Section 3.1)
+ * - INSUFFICIENT_SCOPE: "insufficient_scope"
+ * - INVALID_DPOP_PROOF, DPOP_PROOF_REPLAYED: DPoP scheme with "invalid_dpop_proof"
+ * - DPOP_BINDING_MISMATCH: DPoP scheme with "invalid_token"
+ * - anything else: "invalid_token"
+ *
+ * @param failure - The validation failure
+ * @param resourceMetadataUrl - URL of the protected resource metadata endpoint
+ * @param options - Scheme, realm, scope and DPoP algorithm settings
+ * @returns Challenge parameters for formatWwwAuthenticateHeader
+ *
+ * @example
+ * ```typescript
+ * const result = await validator.validate(token, { dpop: { proof, method, url } });
+ * if (!result.valid) {
+ *   const challenge = createWwwAuthenticateChallenge(result, metadataUrl, { scheme: 'DPoP' });
+ *   res.status(401).header('WWW-Authenticate', formatWwwAuthenticateHeader(challenge)).send();
+ * }
+ * ```
+ */
+export const createWwwAuthenticateChallenge = (
+  failure: Pick<TokenValidationFailure, 'error' | 'message'>,
+  resourceMetadataUrl: string,
+  options: WwwAuthenticateChallengeOptions = {}
+): WwwAuthenticateChallenge => {
+  const toChallenge = (
+    scheme: 'Bearer' | 'DPoP',
+    error: WwwAuthenticateError | undefined
+  ): WwwAuthenticateChallenge => ({
+    scheme,
+    resourceMetadataUrl,
+    ...(options.realm !== undefined ? { realm: options.realm } : {}),
+    ...(options.scopes !== undefined && options.scopes.length > 0
+      ? { scope: options.scopes.join(' ') }
+      : {}),
+    ...(error !== undefined ? { error, errorDescription: failure.message } : {}),
+    ...(scheme === 'DPoP' && options.dpopAlgorithms !== undefined
+      ? { algs: options.dpopAlgorithms }
+      : {}),
+  });
+
+  const scheme = options.scheme ?? 'Bearer';
+
+  switch (failure.error) {
+    case 'MISSING_TOKEN':
+      return toChallenge(scheme, undefined);
+    case 'INSUFFICIENT_SCOPE':
+      return toChallenge(scheme, 'insufficient_scope');
+    case 'INSUFFICIENT_USER_AUTHENTICATION':
+      return {
+        ...toChallenge(scheme, 'insufficient_user_authentication'),
+        ...(options.acrValues !== undefined ? { acrValues: options.acrValues } : {}),
+        ...(options.maxAge !== undefined ? { maxAge: options.maxAge } : {}),
+      };
+    case 'INVALID_DPOP_PROOF':
+    case 'DPOP_PROOF_REPLAYED':
+      return toChallenge('DPoP', 'invalid_dpop_proof');
+    case 'DPOP_BINDING_MISMATCH':
+      return toChallenge('DPoP', 'invalid_token');
+    case 'MALFORMED_TOKEN':
+    case 'EXPIRED_TOKEN':
+    case 'INVALID_SIGNATURE':
+    case 'INVALID_ISSUER':
+    case 'INVALID_AUDIENCE':
+    case 'REVOKED_TOKEN':
+    case 'ALGORITHM_NOT_ALLOWED':
+    case 'INVALID_TOKEN_TYPE':
+    case 'MISSING_CLIENT_ID':
+    case 'ID_TOKEN_REJECTED':
+    case 'VALIDATION_ERROR':
+      return toChallenge(scheme, 'invalid_token');
+  }
+};
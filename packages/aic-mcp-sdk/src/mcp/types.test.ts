@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { AuthenticationError, AuthorizationError } from './types.js';
+import { AuthenticationError, AuthorizationError, RateLimitError } from './types.js';
 import {
   createAuthenticationInfo,
   SCOPE_READ,
@@ -81,6 +81,35 @@ describe('AuthorizationError', () => {
     });
   });
 
+  describe('given unmet authorization details and no missing scopes', () => {
+    it('describes the unmet authorization details in the message', () => {
+      const unmet = [
+        { type: 'todo_access', actions: ['write'], locations: ['https://todos.example.com'] },
+      ];
+
+      const error = new AuthorizationError([SCOPE_READ], [SCOPE_READ], {
+        unmetAuthorizationDetails: unmet,
+      });
+
+      expect(error.message).toBe(
+        'Insufficient authorization details. Missing: todo_access(actions: write; locations: https://todos.example.com)'
+      );
+      expect(error.unmetAuthorizationDetails).toEqual(unmet);
+      expect(error.missingScopes).toEqual([]);
+    });
+  });
+
+  describe('given a policy failure and no missing scopes', () => {
+    it('reports the failed condition in the message', () => {
+      const error = new AuthorizationError([], [SCOPE_READ], {
+        policyFailure: 'missing scope "todos:admin"',
+      });
+
+      expect(error.message).toBe('Policy denied access: missing scope "todos:admin"');
+      expect(error.policyFailure).toBe('missing scope "todos:admin"');
+    });
+  });
+
   it('stores required and present scopes', () => {
     const requiredScopes = [SCOPE_READ, SCOPE_WRITE];
     const presentScopes = [SCOPE_READ];
@@ -112,3 +141,15 @@ describe('AuthorizationError', () => {
     expect(error).toBeInstanceOf(Error);
   });
 });
+
+describe('RateLimitError', () => {
+  it('carries retryAfter and has httpStatusCode of 429', () => {
+    const error = new RateLimitError({ allowed: false, retryAfter: 12 });
+
+    expect(error.name).toBe('RateLimitError');
+    expect(error.retryAfter).toBe(12);
+    expect(error.httpStatusCode).toBe(429);
+    expect(error.message).toBe('Rate limit exceeded. Retry after 12 seconds');
+    expect(error).toBeInstanceOf(Error);
+  });
+});
@@ -1,10 +1,24 @@
-import type { TokenValidationResult, AuthenticationInfo } from '../types.js';
+import type {
+  TokenClaims,
+  TokenValidationResult,
+  AuthenticationInfo,
+  AuthorizationDetail,
+  AuthorizationDetailRequirement,
+} from '../types.js';
+import type { Policy } from '../policy/types.js';
+import type { RateLimitDecision, RateLimiter } from '../rate-limit/types.js';
+import type {
+  ProtectedResourceMetadata,
+  ProtectedResourceMetadataConfig,
+} from './resource-metadata.js';
 
 /**
  * MCP SDK's AuthInfo interface.
  * We define our own to avoid requiring @modelcontextprotocol/sdk as a hard dependency.
+ *
+ * @typeParam TClaims - Declared shape of the token's claims, including custom AM claims
  */
-export interface McpAuthInfo {
+export interface McpAuthInfo<TClaims extends TokenClaims = TokenClaims> {
   /** The access token */
   readonly token: string;
   /** Associated client ID */
@@ -13,10 +27,45 @@ export interface McpAuthInfo {
   readonly scopes: readonly string[];
   /** Expiration timestamp (seconds since epoch) */
   readonly expiresAt?: number;
-  /** Custom data storage */
-  readonly extra?: Readonly<Record<string, unknown>>;
+  /** Rich Authorization Requests details granted to the token (RFC 9396) */
+  readonly authorizationDetails?: readonly AuthorizationDetail[];
+  /** The token's verified claims, limited by the claims mapper's projection */
+  readonly extra?: Readonly<Partial<TClaims>>;
+}
+
+/**
+ * The authenticated caller of the request being handled, available through
+ * getAuthContext and requireAuthContext.
+ */
+export interface AuthContext<TClaims extends TokenClaims = TokenClaims> {
+  /** The caller's auth info, as passed to tool handlers */
+  readonly authInfo: McpAuthInfo<TClaims>;
+  /**
+   * The validated claims: every claim when the token was validated in scope,
+   * otherwise the claims exposed on authInfo.extra
+   */
+  readonly claims: Readonly<Partial<TClaims>>;
 }
 
+/**
+ * Controls which verified claims reach tool handlers through McpAuthInfo.extra.
+ * "sub", "iss" and "aud" are always included.
+ */
+export interface ClaimsMapperConfig {
+  /** Allowlist of claims to include (default: all claims) */
+  readonly include?: readonly string[];
+  /** Claims to leave out, applied after `include` */
+  readonly exclude?: readonly string[];
+}
+
+/**
+ * Builds McpAuthInfo from a validated token and its claims.
+ */
+export type ClaimsMapper<TClaims extends TokenClaims = TokenClaims> = (
+  token: string,
+  claims: TokenClaims
+) => McpAuthInfo<TClaims>;
+
 /**
  * MCP SDK's OAuthTokenVerifier interface.
  */
@@ -40,6 +89,8 @@ export interface AmVerifierConfig {
   readonly clientId: string;
   /** OAuth realm path (default: "/am/oauth2/realms/root/realms/alpha") */
   readonly realmPath?: string;
+  /** Which claims to expose on McpAuthInfo.extra (default: all) */
+  readonly claims?: ClaimsMapperConfig;
 }
 
 /**
@@ -55,8 +106,142 @@ export interface AmVerifierConfigWithSecret extends AmVerifierConfig {
  * Options for the withAuth tool wrapper.
  */
 export interface WithAuthOptions {
+  /** Tool name under which these requirements are recorded in createWithAuth's registry */
+  readonly toolName?: string;
   /** Required scopes for this tool */
   readonly requiredScopes?: readonly string[];
+  /** Accepted authentication context classes; the token's "acr" must be one of them */
+  readonly acrValues?: readonly string[];
+  /** Maximum seconds since the user authenticated, checked against "auth_time" */
+  readonly maxAge?: number;
+  /** Authorization details (RFC 9396) the token must grant; each needs one matching entry */
+  readonly requiredAuthorizationDetails?: readonly AuthorizationDetailRequirement[];
+  /** Policy the caller must satisfy, evaluated after the checks above */
+  readonly policy?: Policy;
+  /** Limits how often each caller may call the tool, checked once access is granted */
+  readonly rateLimit?: RateLimiter;
+}
+
+/**
+ * The kinds of MCP capabilities whose auth requirements an AuthRegistry records.
+ */
+export type AuthRequirementKind = 'tool' | 'resource' | 'prompt';
+
+/**
+ * Auth requirements recorded for one tool, resource or prompt.
+ */
+export interface AuthRegistryEntry {
+  readonly kind: AuthRequirementKind;
+  /** Tool or prompt name, or resource URI */
+  readonly name: string;
+  readonly options: WithAuthOptions;
+}
+
+/**
+ * Whether a caller can use a tool, resource or prompt.
+ */
+export interface AccessDecision {
+  readonly allowed: boolean;
+  /** Why access is denied */
+  readonly reason?: string;
+}
+
+/**
+ * How list responses treat entries the caller cannot use.
+ * - hide: remove them
+ * - annotate: keep them, with an AuthorizationAnnotation under `_meta`
+ */
+export type ListFilterMode = 'hide' | 'annotate';
+
+/**
+ * Added under `_meta[AUTHORIZATION_META_KEY]` to list entries the caller cannot use
+ * when filtering in annotate mode.
+ */
+export interface AuthorizationAnnotation {
+  readonly allowed: false;
+  /** Why the caller cannot use the entry */
+  readonly reason: string;
+  /** Scopes the entry requires: its requiredScopes plus the smallest set its policy accepts */
+  readonly requiredScopes: readonly string[];
+}
+
+/**
+ * Minimal shape of an entry in a tools/list, resources/list or prompts/list result.
+ */
+export interface ListEntry {
+  readonly _meta?: Readonly<Record<string, unknown>> | undefined;
+}
+
+/**
+ * Records the auth requirements declared for tools, resources and prompts, and filters
+ * MCP list results down to what a caller can use.
+ */
+export interface AuthRegistry {
+  /** Records (or replaces) the requirements for a tool, resource or prompt */
+  readonly register: (kind: AuthRequirementKind, name: string, options: WithAuthOptions) => void;
+  /** Returns the requirements recorded for a tool, resource or prompt */
+  readonly get: (kind: AuthRequirementKind, name: string) => WithAuthOptions | undefined;
+  /** Returns every recorded entry */
+  readonly entries: () => readonly AuthRegistryEntry[];
+  /**
+   * Returns every scope referenced by recorded requiredScopes and policies, in
+   * registration order and without duplicates.
+   */
+  readonly getScopesSupported: () => readonly string[];
+  /**
+   * Returns the scopes a client needs for one tool, resource or prompt: its requiredScopes
+   * plus the smallest scope set that satisfies its policy. Pass them as `scopes` to
+   * createWwwAuthenticateChallenge.
+   */
+  readonly getChallengeScopes: (kind: AuthRequirementKind, name: string) => readonly string[];
+  /**
+   * Creates the RFC 9728 metadata document with scopes_supported derived from the registry.
+   * Scopes in `config.scopesSupported` (e.g., "openid") are listed first.
+   */
+  readonly createProtectedResourceMetadata: (
+    config: ProtectedResourceMetadataConfig
+  ) => ProtectedResourceMetadata;
+  /**
+   * Checks whether a caller meets the recorded requirements. Unregistered entries are
+   * allowed; registered entries require authentication.
+   */
+  readonly checkAccess: (
+    kind: AuthRequirementKind,
+    name: string,
+    authInfo: McpAuthInfo | undefined
+  ) => Promise<AccessDecision>;
+  /** Filters a tools/list result */
+  readonly filterTools: <
+    T extends { readonly tools: readonly (ListEntry & { readonly name: string })[] },
+  >(
+    result: T,
+    authInfo: McpAuthInfo | undefined,
+    mode?: ListFilterMode
+  ) => Promise<T>;
+  /** Filters a resources/list result */
+  readonly filterResources: <
+    T extends { readonly resources: readonly (ListEntry & { readonly uri: string })[] },
+  >(
+    result: T,
+    authInfo: McpAuthInfo | undefined,
+    mode?: ListFilterMode
+  ) => Promise<T>;
+  /** Filters a prompts/list result */
+  readonly filterPrompts: <
+    T extends { readonly prompts: readonly (ListEntry & { readonly name: string })[] },
+  >(
+    result: T,
+    authInfo: McpAuthInfo | undefined,
+    mode?: ListFilterMode
+  ) => Promise<T>;
+}
+
+/**
+ * Configuration for createAuthRegistry.
+ */
+export interface AuthRegistryConfig {
+  /** How list results treat entries the caller cannot use (default: "hide") */
+  readonly listFilterMode?: ListFilterMode;
 }
 
 /**
@@ -113,7 +298,10 @@ export class AuthenticationError extends Error {
   /**
    * Error code describing the authentication failure.
    * One of: MISSING_TOKEN, MALFORMED_TOKEN, EXPIRED_TOKEN, INVALID_SIGNATURE,
-   * INVALID_ISSUER, INVALID_AUDIENCE, REVOKED_TOKEN, VALIDATION_ERROR
+   * INVALID_ISSUER, INVALID_AUDIENCE, REVOKED_TOKEN, INSUFFICIENT_USER_AUTHENTICATION,
+   * ALGORITHM_NOT_ALLOWED,
+   * INVALID_TOKEN_TYPE, MISSING_CLIENT_ID, ID_TOKEN_REJECTED, INVALID_DPOP_PROOF,
+   * DPOP_PROOF_REPLAYED, DPOP_BINDING_MISMATCH, VALIDATION_ERROR
    */
   readonly code: string;
 
@@ -137,7 +325,81 @@ export class AuthenticationError extends Error {
 }
 
 /**
- * Error thrown when authorization fails due to insufficient scopes (HTTP 403).
+ * Error thrown when the user's authentication is too weak or too old for a tool (HTTP 401),
+ * asking the client to step up (RFC 9470).
+ *
+ * Render it as a challenge with error="insufficient_user_authentication" so the client
+ * re-authenticates the user with the required acr values or max age.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await protectedHandler(args, extra);
+ * } catch (error) {
+ *   if (error instanceof InsufficientUserAuthenticationError) {
+ *     const wwwAuth = formatWwwAuthenticateHeader({
+ *       resourceMetadataUrl: 'https://server.com/.well-known/oauth-protected-resource',
+ *       error: 'insufficient_user_authentication',
+ *       errorDescription: error.message,
+ *       acrValues: error.acrValues,
+ *       maxAge: error.maxAge,
+ *     });
+ *     res.status(401).header('WWW-Authenticate', wwwAuth).send();
+ *   }
+ * }
+ * ```
+ */
+export class InsufficientUserAuthenticationError extends AuthenticationError {
+  /**
+   * Authentication context classes the tool accepts.
+   */
+  readonly acrValues: readonly string[] | undefined;
+
+  /**
+   * Maximum seconds since the user authenticated that the tool accepts.
+   */
+  readonly maxAge: number | undefined;
+
+  constructor(
+    result: TokenValidationResult & { valid: false },
+    requirements: { readonly acrValues?: readonly string[]; readonly maxAge?: number }
+  ) {
+    super(result);
+    this.name = 'InsufficientUserAuthenticationError';
+    this.acrValues = requirements.acrValues;
+    this.maxAge = requirements.maxAge;
+  }
+}
+
+/**
+ * Formats an authorization details requirement for error messages,
+ * e.g. "todo_access(actions: read, write; locations: https://api.example.com)".
+ */
+const formatRequirement = (requirement: AuthorizationDetailRequirement): string => {
+  const parts = [
+    ...(requirement.actions !== undefined && requirement.actions.length > 0
+      ? [`actions: ${requirement.actions.join(', ')}`]
+      : []),
+    ...(requirement.locations !== undefined && requirement.locations.length > 0
+      ? [`locations: ${requirement.locations.join(', ')}`]
+      : []),
+  ];
+  return parts.length > 0 ? `${requirement.type}(${parts.join('; ')})` : requirement.type;
+};
+
+/**
+ * Non-scope reasons an AuthorizationError was raised.
+ */
+export interface AuthorizationFailureDetails {
+  /** Required authorization details (RFC 9396) the token did not grant */
+  readonly unmetAuthorizationDetails?: readonly AuthorizationDetailRequirement[];
+  /** Why the tool's policy denied the request */
+  readonly policyFailure?: string;
+}
+
+/**
+ * Error thrown when authorization fails due to insufficient scopes,
+ * authorization details or a denying policy (HTTP 403).
  * This indicates the token is valid but lacks required permissions.
  *
  * Per MCP spec, 403 responses should be used for scope failures,
@@ -174,17 +436,75 @@ export class AuthorizationError extends Error {
    */
   readonly missingScopes: readonly string[];
 
+  /**
+   * Required authorization details (RFC 9396) that the token did not grant.
+   */
+  readonly unmetAuthorizationDetails: readonly AuthorizationDetailRequirement[];
+
+  /**
+   * Why the tool's policy denied the request, naming the condition that failed.
+   */
+  readonly policyFailure: string | undefined;
+
   /**
    * HTTP status code for this error (always 403).
    */
   readonly httpStatusCode = 403 as const;
 
-  constructor(requiredScopes: readonly string[], presentScopes: readonly string[]) {
+  constructor(
+    requiredScopes: readonly string[],
+    presentScopes: readonly string[],
+    details: AuthorizationFailureDetails = {}
+  ) {
+    const { unmetAuthorizationDetails = [], policyFailure } = details;
     const missing = requiredScopes.filter((s) => !presentScopes.includes(s));
-    super(`Insufficient scopes. Missing: ${missing.join(', ')}`);
+    super(
+      missing.length > 0
+        ? `Insufficient scopes. Missing: ${missing.join(', ')}`
+        : policyFailure !== undefined
+          ? `Policy denied access: ${policyFailure}`
+          : unmetAuthorizationDetails.length > 0
+            ? `Insufficient authorization details. Missing: ${unmetAuthorizationDetails.map(formatRequirement).join(', ')}`
+            : 'Insufficient scopes. Missing: '
+    );
     this.name = 'AuthorizationError';
     this.requiredScopes = requiredScopes;
     this.presentScopes = presentScopes;
     this.missingScopes = missing;
+    this.unmetAuthorizationDetails = unmetAuthorizationDetails;
+    this.policyFailure = policyFailure;
+  }
+}
+
+/**
+ * Error thrown when a caller has exceeded a tool's rate limit (HTTP 429).
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await protectedHandler(args, extra);
+ * } catch (error) {
+ *   if (error instanceof RateLimitError) {
+ *     const { status, headers, body } = createRateLimitResponse(error);
+ *     res.status(status).set(headers).json(body);
+ *   }
+ * }
+ * ```
+ */
+export class RateLimitError extends Error {
+  /**
+   * Seconds until the caller may try again, suitable for a Retry-After header.
+   */
+  readonly retryAfter: number;
+
+  /**
+   * HTTP status code for this error (always 429).
+   */
+  readonly httpStatusCode = 429 as const;
+
+  constructor(decision: RateLimitDecision & { allowed: false }) {
+    super(`Rate limit exceeded. Retry after ${String(decision.retryAfter)} seconds`);
+    this.name = 'RateLimitError';
+    this.retryAfter = decision.retryAfter;
   }
 }
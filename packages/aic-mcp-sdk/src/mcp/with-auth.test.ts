@@ -1,8 +1,19 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { createWithAuth } from './with-auth.js';
-import { AuthenticationError, AuthorizationError } from './types.js';
-import type { TokenValidator } from '../validation/types.js';
+import { createAuthInfoResolver, createWithAuth } from './with-auth.js';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  InsufficientUserAuthenticationError,
+  RateLimitError,
+} from './types.js';
+import { allOf, anyOf, claimIn, scope } from '../policy/policy.js';
+import { createAuthRegistry } from './auth-registry.js';
+import { getAuthContext, requireAuthContext } from './auth-context.js';
+import { hashToken } from '../validation/token-hash.js';
+import { createRateLimiter } from '../rate-limit/rate-limiter.js';
+import { createTokenValidator } from '../validation/token-validator.js';
 import type { TokenValidationResult, TokenClaims } from '../types.js';
+import type { OidcDiscoveryDocument } from '../validation/types.js';
 import {
   TEST_SUBJECT,
   TEST_ISSUER,
@@ -14,22 +25,17 @@ import {
   SCOPES_READ_WRITE,
   FIXED_TIMESTAMP_SECONDS,
   ONE_HOUR_MS,
+  TEST_AM_URL,
   createAuthenticationInfo,
+  createDiscoveryDocument,
+  createSigningKey,
 } from '../test/fixtures.js';
+import { createMockCache, createMockValidator, createSuccessHttpClient } from '../test/mocks.js';
 
 // ============================================================================
 // Test Helpers
 // ============================================================================
 
-const createMockValidator = (
-  validateResult: TokenValidationResult,
-  authInfo = createAuthenticationInfo()
-): TokenValidator => ({
-  validate: vi.fn().mockResolvedValue(validateResult),
-  getAuthenticationInfo: vi.fn().mockResolvedValue(authInfo),
-  refreshCache: vi.fn().mockResolvedValue(undefined),
-});
-
 const createSuccessResult = (claims: Partial<TokenClaims> = {}): TokenValidationResult => ({
   valid: true,
   claims: {
@@ -361,4 +367,586 @@ describe('createWithAuth', () => {
       });
     });
   });
+
+  describe('authorization details', () => {
+    const TODO_ACCESS = {
+      type: 'todo_access',
+      actions: ['read'],
+      locations: ['https://todos.example.com'],
+    };
+
+    describe('given the validated token grants the required authorization details', () => {
+      it('calls the handler with authorizationDetails on authInfo', async () => {
+        vi.stubEnv(ENV_VAR_NAME, 'env-token');
+        const validator = createMockValidator(
+          createSuccessResult({ authorization_details: [TODO_ACCESS] })
+        );
+        const withAuth = createWithAuth({ validator });
+        const handler = vi.fn().mockResolvedValue({ result: 'success' });
+        const wrappedHandler = withAuth(
+          { requiredAuthorizationDetails: [{ type: 'todo_access', actions: ['read'] }] },
+          handler
+        );
+
+        await wrappedHandler({}, {});
+
+        expect(handler).toHaveBeenCalledWith(
+          {},
+          expect.objectContaining({
+            authInfo: expect.objectContaining({ authorizationDetails: [TODO_ACCESS] }) as unknown,
+          })
+        );
+      });
+    });
+
+    describe('given the validated token lacks a required action', () => {
+      it('throws AuthorizationError with the unmet requirement', async () => {
+        vi.stubEnv(ENV_VAR_NAME, 'env-token');
+        const validator = createMockValidator(
+          createSuccessResult({ authorization_details: [TODO_ACCESS] })
+        );
+        const withAuth = createWithAuth({ validator });
+        const handler = vi.fn();
+        const requirement = { type: 'todo_access', actions: ['write'] };
+        const wrappedHandler = withAuth({ requiredAuthorizationDetails: [requirement] }, handler);
+
+        try {
+          await wrappedHandler({}, {});
+          expect.fail('Should have thrown');
+        } catch (error) {
+          expect(error).toBeInstanceOf(AuthorizationError);
+          expect((error as AuthorizationError).unmetAuthorizationDetails).toEqual([requirement]);
+        }
+        expect(handler).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('given existing authInfo without authorization details', () => {
+      it('throws AuthorizationError', async () => {
+        const validator = createMockValidator(createSuccessResult());
+        const withAuth = createWithAuth({ validator });
+        const handler = vi.fn();
+        const wrappedHandler = withAuth(
+          { requiredAuthorizationDetails: [{ type: 'todo_access' }] },
+          handler
+        );
+        const existingAuthInfo = {
+          token: 'existing-token',
+          clientId: 'existing-client',
+          scopes: [SCOPE_READ],
+        };
+
+        await expect(wrappedHandler({}, { authInfo: existingAuthInfo })).rejects.toThrow(
+          AuthorizationError
+        );
+        expect(handler).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('claims', () => {
+    describe('given a signed JWT with custom claims', () => {
+      it('exposes them on authInfo.extra', async () => {
+        const key = await createSigningKey();
+        const now = Math.floor(Date.now() / 1000);
+        vi.stubEnv(
+          ENV_VAR_NAME,
+          await key.sign({
+            sub: TEST_SUBJECT,
+            iss: TEST_ISSUER,
+            aud: TEST_CLIENT_ID,
+            iat: now,
+            exp: now + 300,
+            groups: ['support'],
+          })
+        );
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            keySource: { type: 'jwks', jwks: key.jwks },
+          },
+          createSuccessHttpClient(createDiscoveryDocument()),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+        const withAuth = createWithAuth<TokenClaims & { readonly groups?: readonly string[] }>({
+          validator,
+        });
+        let groups: readonly string[] | undefined;
+        const wrappedHandler = withAuth({}, (_args, extra) => {
+          groups = extra.authInfo?.extra?.groups;
+          return { result: 'success' };
+        });
+
+        await wrappedHandler({}, {});
+
+        expect(groups).toEqual(['support']);
+      });
+    });
+
+    describe('given a claims allowlist', () => {
+      it('only exposes the listed claims', async () => {
+        vi.stubEnv(ENV_VAR_NAME, 'env-token');
+        const validator = createMockValidator(
+          createSuccessResult({ groups: ['support'], email: 'user@example.com' })
+        );
+        const withAuth = createWithAuth({ validator, claims: { include: ['groups'] } });
+        const handler = vi.fn().mockResolvedValue({ result: 'success' });
+        const wrappedHandler = withAuth({}, handler);
+
+        await wrappedHandler({}, {});
+
+        expect(handler).toHaveBeenCalledWith(
+          {},
+          expect.objectContaining({
+            authInfo: expect.objectContaining({
+              extra: {
+                sub: TEST_SUBJECT,
+                iss: TEST_ISSUER,
+                aud: TEST_AUDIENCE,
+                groups: ['support'],
+              },
+            }) as unknown,
+          })
+        );
+      });
+    });
+  });
+
+  describe('auth context', () => {
+    describe('given a validated token', () => {
+      it('runs the handler inside an auth context with every validated claim', async () => {
+        vi.stubEnv(ENV_VAR_NAME, 'env-token');
+        const validator = createMockValidator(createSuccessResult({ email: 'user@example.com' }));
+        const withAuth = createWithAuth({ validator, claims: { include: [] } });
+        const wrappedHandler = withAuth({}, () => {
+          const { authInfo, claims } = requireAuthContext();
+          return { token: authInfo.token, email: claims['email'] };
+        });
+
+        const result = await wrappedHandler({}, {});
+
+        expect(result).toEqual({ token: 'env-token', email: 'user@example.com' });
+        expect(getAuthContext()).toBeUndefined();
+      });
+    });
+
+    describe('given existing authInfo', () => {
+      it('exposes it with its claims from authInfo.extra', async () => {
+        const validator = createMockValidator(createSuccessResult());
+        const withAuth = createWithAuth({ validator });
+        const authInfo = {
+          token: 'http-token',
+          clientId: TEST_CLIENT_ID,
+          scopes: [SCOPE_READ],
+          extra: { sub: TEST_SUBJECT },
+        };
+        const wrappedHandler = withAuth({}, () => getAuthContext());
+
+        const context = await wrappedHandler({}, { authInfo });
+
+        expect(context?.authInfo).toBe(authInfo);
+        expect(context?.claims.sub).toBe(TEST_SUBJECT);
+      });
+    });
+  });
+
+  describe('audit events', () => {
+    describe('given an authorized call', () => {
+      it('emits an allow event for the tool', async () => {
+        vi.stubEnv(ENV_VAR_NAME, 'env-token');
+        const onAuthEvent = vi.fn();
+        const withAuth = createWithAuth({
+          validator: createMockValidator(createSuccessResult()),
+          onAuthEvent,
+        });
+        const wrappedHandler = withAuth(
+          { toolName: 'list_todos', requiredScopes: [SCOPE_READ] },
+          () => ({ result: 'success' })
+        );
+
+        await wrappedHandler({}, {});
+
+        expect(onAuthEvent).toHaveBeenCalledOnce();
+        expect(onAuthEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            source: 'withAuth',
+            decision: 'allow',
+            toolName: 'list_todos',
+            subject: TEST_SUBJECT,
+            clientId: TEST_CLIENT_ID,
+            issuer: TEST_ISSUER,
+            tokenHash: hashToken('env-token'),
+            requiredScopes: [SCOPE_READ],
+            presentScopes: [SCOPE_READ, SCOPE_WRITE],
+          })
+        );
+      });
+    });
+
+    describe('given no token', () => {
+      it('emits a deny event with MISSING_TOKEN', async () => {
+        const onAuthEvent = vi.fn();
+        const withAuth = createWithAuth({
+          validator: createMockValidator(createSuccessResult()),
+          onAuthEvent,
+        });
+        const wrappedHandler = withAuth({ toolName: 'list_todos' }, () => ({ result: 'success' }));
+
+        await expect(wrappedHandler({}, {})).rejects.toThrow(AuthenticationError);
+
+        expect(onAuthEvent).toHaveBeenCalledWith(
+          expect.objectContaining({ decision: 'deny', errorCode: 'MISSING_TOKEN' })
+        );
+      });
+    });
+
+    describe('given existing authInfo without the required scopes', () => {
+      it('emits a deny event with INSUFFICIENT_SCOPE and the present scopes', async () => {
+        const onAuthEvent = vi.fn();
+        const withAuth = createWithAuth({
+          validator: createMockValidator(createSuccessResult()),
+          onAuthEvent,
+        });
+        const wrappedHandler = withAuth({ requiredScopes: [SCOPE_ADMIN] }, () => ({
+          result: 'success',
+        }));
+        const authInfo = { token: 'http-token', clientId: TEST_CLIENT_ID, scopes: [SCOPE_READ] };
+
+        await expect(wrappedHandler({}, { authInfo })).rejects.toThrow(AuthorizationError);
+
+        expect(onAuthEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            decision: 'deny',
+            errorCode: 'INSUFFICIENT_SCOPE',
+            tokenHash: hashToken('http-token'),
+            requiredScopes: [SCOPE_ADMIN],
+            presentScopes: [SCOPE_READ],
+          })
+        );
+      });
+    });
+
+    describe('given a listener that throws', () => {
+      it('still calls the handler', async () => {
+        vi.stubEnv(ENV_VAR_NAME, 'env-token');
+        const withAuth = createWithAuth({
+          validator: createMockValidator(createSuccessResult()),
+          onAuthEvent: () => {
+            throw new Error('audit sink down');
+          },
+        });
+        const wrappedHandler = withAuth({}, () => ({ result: 'success' }));
+
+        const result = await wrappedHandler({}, {});
+
+        expect(result).toEqual({ result: 'success' });
+      });
+    });
+  });
+
+  describe('rate limiting', () => {
+    describe('given a caller over the limit', () => {
+      it('throws RateLimitError with retryAfter without calling the handler', async () => {
+        vi.stubEnv(ENV_VAR_NAME, 'env-token');
+        const withAuth = createWithAuth({
+          validator: createMockValidator(createSuccessResult()),
+        });
+        const handler = vi.fn().mockResolvedValue({ result: 'success' });
+        const wrappedHandler = withAuth(
+          { rateLimit: createRateLimiter({ limit: 1, windowMs: 60_000 }) },
+          handler
+        );
+        await wrappedHandler({}, {});
+
+        try {
+          await wrappedHandler({}, {});
+          expect.fail('Should have thrown');
+        } catch (error) {
+          expect(error).toBeInstanceOf(RateLimitError);
+          expect((error as RateLimitError).retryAfter).toBe(60);
+        }
+        expect(handler).toHaveBeenCalledOnce();
+      });
+
+      it('emits a deny event with RATE_LIMITED', async () => {
+        vi.stubEnv(ENV_VAR_NAME, 'env-token');
+        const onAuthEvent = vi.fn();
+        const withAuth = createWithAuth({
+          validator: createMockValidator(createSuccessResult()),
+          onAuthEvent,
+        });
+        const wrappedHandler = withAuth(
+          { rateLimit: createRateLimiter({ limit: 1, windowMs: 60_000 }) },
+          () => ({ result: 'success' })
+        );
+        await wrappedHandler({}, {});
+
+        await expect(wrappedHandler({}, {})).rejects.toThrow(RateLimitError);
+
+        expect(onAuthEvent).toHaveBeenLastCalledWith(
+          expect.objectContaining({ decision: 'deny', errorCode: 'RATE_LIMITED' })
+        );
+      });
+    });
+
+    describe('given a caller denied access', () => {
+      it('does not consume their allowance', async () => {
+        const rateLimit = createRateLimiter({ limit: 1, windowMs: 60_000 });
+        const withAuth = createWithAuth({
+          validator: createMockValidator(createSuccessResult()),
+        });
+        const authInfo = { token: 'http-token', clientId: TEST_CLIENT_ID, scopes: [SCOPE_READ] };
+
+        await expect(
+          withAuth({ requiredScopes: [SCOPE_ADMIN], rateLimit }, () => ({}))({}, { authInfo })
+        ).rejects.toThrow(AuthorizationError);
+
+        await expect(withAuth({ rateLimit }, () => ({}))({}, { authInfo })).resolves.toEqual({});
+      });
+    });
+  });
+
+  describe('registry', () => {
+    describe('given a registry and a toolName', () => {
+      it('records the options when the handler is wrapped', () => {
+        const registry = createAuthRegistry();
+        const withAuth = createWithAuth({
+          validator: createMockValidator(createSuccessResult()),
+          registry,
+        });
+        const options = { toolName: 'list_todos', requiredScopes: [SCOPE_READ] };
+
+        withAuth(options, vi.fn());
+
+        expect(registry.get('tool', 'list_todos')).toBe(options);
+      });
+    });
+
+    describe('given options without a toolName', () => {
+      it('records nothing', () => {
+        const registry = createAuthRegistry();
+        const withAuth = createWithAuth({
+          validator: createMockValidator(createSuccessResult()),
+          registry,
+        });
+
+        withAuth({ requiredScopes: [SCOPE_READ] }, vi.fn());
+
+        expect(registry.entries()).toEqual([]);
+      });
+    });
+  });
+
+  describe('policy', () => {
+    const policy = anyOf(
+      scope('todos:admin'),
+      allOf(scope(SCOPE_READ), claimIn('groups', 'support'))
+    );
+
+    describe('given a validated token satisfying the policy through its claims', () => {
+      it('calls the handler', async () => {
+        vi.stubEnv(ENV_VAR_NAME, 'env-token');
+        const validator = createMockValidator(
+          createSuccessResult({ scope: SCOPE_READ, groups: ['support'] })
+        );
+        const withAuth = createWithAuth({ validator });
+        const handler = vi.fn().mockResolvedValue({ result: 'success' });
+        const wrappedHandler = withAuth({ policy }, handler);
+
+        await wrappedHandler({}, {});
+
+        expect(handler).toHaveBeenCalled();
+      });
+    });
+
+    describe('given a validated token the policy denies', () => {
+      it('throws AuthorizationError reporting the failed branches', async () => {
+        vi.stubEnv(ENV_VAR_NAME, 'env-token');
+        const validator = createMockValidator(
+          createSuccessResult({ scope: SCOPE_READ, groups: ['sales'] })
+        );
+        const withAuth = createWithAuth({ validator });
+        const handler = vi.fn();
+        const wrappedHandler = withAuth({ policy }, handler);
+
+        try {
+          await wrappedHandler({}, {});
+          expect.fail('Should have thrown');
+        } catch (error) {
+          expect(error).toBeInstanceOf(AuthorizationError);
+          expect((error as AuthorizationError).policyFailure).toBe(
+            'none of the alternatives hold: (missing scope "todos:admin") or (claim "groups" does not include any of "support")'
+          );
+        }
+        expect(handler).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('given existing authInfo', () => {
+      it('evaluates the policy against its scopes and extra claims', async () => {
+        const validator = createMockValidator(createSuccessResult());
+        const withAuth = createWithAuth({ validator });
+        const handler = vi.fn().mockResolvedValue({ result: 'success' });
+        const wrappedHandler = withAuth({ policy }, handler);
+        const existingAuthInfo = {
+          token: 'existing-token',
+          clientId: 'existing-client',
+          scopes: [SCOPE_READ],
+          extra: { sub: TEST_SUBJECT, groups: ['support'] },
+        };
+
+        await wrappedHandler({}, { authInfo: existingAuthInfo });
+
+        expect(handler).toHaveBeenCalled();
+        expect(validator.validate).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('step-up authentication', () => {
+    const MFA_ACR = 'urn:example:acr:mfa';
+
+    describe('given acrValues and maxAge', () => {
+      it('passes them to the validator', async () => {
+        vi.stubEnv(ENV_VAR_NAME, 'env-token');
+        const validator = createMockValidator(createSuccessResult());
+        const withAuth = createWithAuth({ validator });
+        const wrappedHandler = withAuth({ acrValues: [MFA_ACR], maxAge: 300 }, vi.fn());
+
+        await wrappedHandler({}, {});
+
+        expect(validator.validate).toHaveBeenCalledWith('env-token', {
+          acrValues: [MFA_ACR],
+          maxAge: 300,
+        });
+      });
+    });
+
+    describe('given the validator reports insufficient user authentication', () => {
+      it('throws InsufficientUserAuthenticationError with the requirements', async () => {
+        vi.stubEnv(ENV_VAR_NAME, 'env-token');
+        const validator = createMockValidator({
+          valid: false,
+          error: 'INSUFFICIENT_USER_AUTHENTICATION',
+          message: 'Authentication is older than the maximum age of 300 seconds',
+        });
+        const withAuth = createWithAuth({ validator });
+        const handler = vi.fn();
+        const wrappedHandler = withAuth({ acrValues: [MFA_ACR], maxAge: 300 }, handler);
+
+        try {
+          await wrappedHandler({}, {});
+          expect.fail('Should have thrown');
+        } catch (error) {
+          expect(error).toBeInstanceOf(InsufficientUserAuthenticationError);
+          expect(error).toBeInstanceOf(AuthenticationError);
+          const stepUpError = error as InsufficientUserAuthenticationError;
+          expect(stepUpError.code).toBe('INSUFFICIENT_USER_AUTHENTICATION');
+          expect(stepUpError.acrValues).toEqual([MFA_ACR]);
+          expect(stepUpError.maxAge).toBe(300);
+          expect(stepUpError.httpStatusCode).toBe(401);
+        }
+        expect(handler).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('given existing authInfo with a weaker acr', () => {
+      it('throws InsufficientUserAuthenticationError', async () => {
+        const validator = createMockValidator(createSuccessResult());
+        const withAuth = createWithAuth({ validator });
+        const handler = vi.fn();
+        const wrappedHandler = withAuth({ acrValues: [MFA_ACR] }, handler);
+        const existingAuthInfo = {
+          token: 'existing-token',
+          clientId: 'existing-client',
+          scopes: [SCOPE_READ],
+          extra: { sub: TEST_SUBJECT, acr: 'urn:example:acr:password' },
+        };
+
+        await expect(wrappedHandler({}, { authInfo: existingAuthInfo })).rejects.toThrow(
+          InsufficientUserAuthenticationError
+        );
+        expect(handler).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('given existing authInfo meeting the requirements', () => {
+      it('calls the handler', async () => {
+        const validator = createMockValidator(createSuccessResult());
+        const withAuth = createWithAuth({ validator });
+        const handler = vi.fn().mockResolvedValue({ result: 'success' });
+        const wrappedHandler = withAuth({ acrValues: [MFA_ACR], maxAge: 300 }, handler);
+        const existingAuthInfo = {
+          token: 'existing-token',
+          clientId: 'existing-client',
+          scopes: [SCOPE_READ],
+          extra: { acr: MFA_ACR, auth_time: Math.floor(Date.now() / 1000) - 60 },
+        };
+
+        await wrappedHandler({}, { authInfo: existingAuthInfo });
+
+        expect(handler).toHaveBeenCalled();
+      });
+    });
+  });
+});
+
+describe('createAuthInfoResolver', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('given authInfo from the transport', () => {
+    it('returns it without validating', async () => {
+      const validator = createMockValidator(createSuccessResult());
+      const resolveAuthInfo = createAuthInfoResolver({ validator });
+      const authInfo = { token: 'http-token', clientId: TEST_CLIENT_ID, scopes: [SCOPE_READ] };
+
+      expect(await resolveAuthInfo({ authInfo })).toBe(authInfo);
+      expect(validator.validate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('given a stdio token', () => {
+    it('validates it through the configured token extractor', async () => {
+      vi.stubEnv('CUSTOM_TOKEN', 'env-token');
+      const validator = createMockValidator(createSuccessResult({ groups: ['support'] }));
+      const resolveAuthInfo = createAuthInfoResolver({
+        validator,
+        tokenExtractor: { envVar: 'CUSTOM_TOKEN', stdioTokenSource: 'env' },
+        claims: { include: [] },
+      });
+
+      const authInfo = await resolveAuthInfo({});
+
+      expect(validator.validate).toHaveBeenCalledWith('env-token');
+      expect(authInfo?.token).toBe('env-token');
+      expect(authInfo?.scopes).toEqual([SCOPE_READ, SCOPE_WRITE]);
+      expect(authInfo?.extra?.['groups']).toEqual(['support']);
+    });
+  });
+
+  describe('given an invalid stdio token', () => {
+    it('returns undefined', async () => {
+      vi.stubEnv(ENV_VAR_NAME, 'bad-token');
+      const validator = createMockValidator(
+        createFailureResult('INVALID_SIGNATURE', 'Invalid signature')
+      );
+      const resolveAuthInfo = createAuthInfoResolver({ validator });
+
+      expect(await resolveAuthInfo({})).toBeUndefined();
+    });
+  });
+
+  describe('given no token', () => {
+    it('returns undefined without validating', async () => {
+      vi.stubEnv(ENV_VAR_NAME, undefined);
+      const validator = createMockValidator(createSuccessResult());
+      const resolveAuthInfo = createAuthInfoResolver({ validator });
+
+      expect(await resolveAuthInfo({})).toBeUndefined();
+      expect(validator.validate).not.toHaveBeenCalled();
+    });
+  });
 });
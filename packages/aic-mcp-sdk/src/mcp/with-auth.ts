@@ -1,7 +1,23 @@
+import type { TokenClaims } from '../types.js';
 import type { TokenValidator } from '../validation/types.js';
-import type { McpAuthInfo, WithAuthOptions, TokenExtractorConfig } from './types.js';
-import { AuthenticationError, AuthorizationError } from './types.js';
-import { getMissingScopes, parseScopes } from '../validation/scopes.js';
+import type {
+  AuthRegistry,
+  ClaimsMapperConfig,
+  McpAuthInfo,
+  WithAuthOptions,
+  TokenExtractorConfig,
+} from './types.js';
+import type { AuthEventCaller, AuthEventListener } from '../audit/types.js';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  InsufficientUserAuthenticationError,
+  RateLimitError,
+} from './types.js';
+import { createClaimsMapper, toMcpAuthInfo as toFullMcpAuthInfo } from './auth-info.js';
+import { getCallerClaims, runWithAuthContext } from './auth-context.js';
+import { checkAccessRequirements, checkTokenRequirements } from './auth-requirements.js';
+import { createAuthEvent, emitAuthEvent } from '../audit/audit.js';
 
 /** Default environment variable for access token */
 const DEFAULT_ENV_VAR = 'AM_ACCESS_TOKEN';
@@ -18,8 +34,8 @@ type RequestMeta = Readonly<Record<string, unknown>>;
  * The extra context passed to MCP tool handlers.
  * We define a minimal interface to avoid tight coupling with MCP SDK.
  */
-interface ToolHandlerExtra {
-  readonly authInfo?: McpAuthInfo;
+interface ToolHandlerExtra<TClaims extends TokenClaims = TokenClaims> {
+  readonly authInfo?: McpAuthInfo<TClaims>;
   readonly _meta?: RequestMeta;
   readonly [key: string]: unknown;
 }
@@ -27,9 +43,9 @@ interface ToolHandlerExtra {
 /**
  * Generic tool callback type compatible with MCP SDK.
  */
-type ToolCallback<TArgs, TResult> = (
+type ToolCallback<TArgs, TResult, TClaims extends TokenClaims = TokenClaims> = (
   args: TArgs,
-  extra: ToolHandlerExtra
+  extra: ToolHandlerExtra<TClaims>
 ) => TResult | Promise<TResult>;
 
 /**
@@ -83,17 +99,40 @@ const createTokenExtractor = (
 };
 
 /**
- * Validates that all required scopes are present.
- * Throws AuthorizationError if any scopes are missing.
+ * Describes the caller behind an McpAuthInfo for auth events.
  */
-const checkRequiredScopes = (
-  requiredScopes: readonly string[],
-  presentScopes: readonly string[]
-): void => {
-  const missing = getMissingScopes(requiredScopes, presentScopes);
-  if (missing.length > 0) {
-    throw new AuthorizationError(requiredScopes, presentScopes);
+const toAuthEventCaller = (authInfo: McpAuthInfo): AuthEventCaller => ({
+  subject: authInfo.extra?.sub,
+  clientId: authInfo.clientId,
+  issuer: authInfo.extra?.iss,
+  presentScopes: authInfo.scopes,
+});
+
+/**
+ * Maps the error that denied a tool call to an auth event error code and reason.
+ */
+const describeDenial = (
+  error: unknown
+): { readonly errorCode: string; readonly reason: string | undefined } => {
+  if (error instanceof AuthenticationError) {
+    return { errorCode: error.code, reason: error.message };
+  }
+  if (error instanceof RateLimitError) {
+    return { errorCode: 'RATE_LIMITED', reason: error.message };
   }
+  if (error instanceof AuthorizationError) {
+    const errorCode =
+      error.missingScopes.length > 0
+        ? 'INSUFFICIENT_SCOPE'
+        : error.policyFailure !== undefined
+          ? 'POLICY_DENIED'
+          : 'INSUFFICIENT_AUTHORIZATION_DETAILS';
+    return { errorCode, reason: error.message };
+  }
+  return {
+    errorCode: 'VALIDATION_ERROR',
+    reason: error instanceof Error ? error.message : undefined,
+  };
 };
 
 /**
@@ -104,6 +143,12 @@ export interface CreateWithAuthConfig {
   readonly validator: TokenValidator;
   /** Token extraction configuration */
   readonly tokenExtractor?: TokenExtractorConfig;
+  /** Registry recording the options of every withAuth call that names a toolName */
+  readonly registry?: AuthRegistry;
+  /** Which claims to expose on McpAuthInfo.extra for tokens validated by withAuth */
+  readonly claims?: ClaimsMapperConfig;
+  /** Receives an audit event for every tool call's allow or deny decision */
+  readonly onAuthEvent?: AuthEventListener;
 }
 
 /**
@@ -112,6 +157,7 @@ export interface CreateWithAuthConfig {
  * This is the recommended approach for protecting multiple tools with
  * the same validator configuration.
  *
+ * @typeParam TClaims - Declared shape of the token's claims, as seen on extra.authInfo.extra
  * @param config - Validator and token extraction configuration
  * @returns A withAuth function for wrapping tool handlers
  *
@@ -136,9 +182,12 @@ export interface CreateWithAuthConfig {
  * );
  * ```
  */
-export const createWithAuth = (config: CreateWithAuthConfig): WithAuthFn => {
-  const { validator, tokenExtractor: extractorConfig = {} } = config;
+export const createWithAuth = <TClaims extends TokenClaims = TokenClaims>(
+  config: CreateWithAuthConfig
+): WithAuthFn<TClaims> => {
+  const { validator, tokenExtractor: extractorConfig = {}, registry, onAuthEvent } = config;
   const extractToken = createTokenExtractor(extractorConfig);
+  const toMcpAuthInfo = createClaimsMapper<TClaims>(config.claims);
 
   /**
    * Wraps a tool handler with authentication and optional scope validation.
@@ -149,81 +198,172 @@ export const createWithAuth = (config: CreateWithAuthConfig): WithAuthFn => {
    */
   const withAuth = <TArgs, TResult>(
     options: WithAuthOptions,
-    handler: ToolCallback<TArgs, TResult>
-  ): ToolCallback<TArgs, TResult> => {
-    return async (args: TArgs, extra: ToolHandlerExtra): Promise<TResult> => {
-      // If authInfo already exists (e.g., from HTTP middleware), use it
+    handler: ToolCallback<TArgs, TResult, TClaims>
+  ): ToolCallback<TArgs, TResult, TClaims> => {
+    if (registry !== undefined && options.toolName !== undefined) {
+      registry.register('tool', options.toolName, options);
+    }
+
+    return async (args: TArgs, extra: ToolHandlerExtra<TClaims>): Promise<TResult> => {
+      // If authInfo already exists (e.g., from HTTP middleware), use it with the full claims
+      // the middleware put in the auth context
       let authInfo = extra.authInfo;
+      let claims: Readonly<Record<string, unknown>> =
+        authInfo !== undefined ? getCallerClaims(authInfo) : {};
+      let token = authInfo?.token;
+      const startedAt = Date.now();
 
-      if (authInfo === undefined) {
-        // Extract and validate token (stdio path)
-        const token = extractToken(extra);
-
-        if (token === undefined) {
-          const authenticationInfo = await validator.getAuthenticationInfo();
-          const failure =
-            authenticationInfo !== undefined
-              ? {
-                  valid: false as const,
-                  error: 'MISSING_TOKEN' as const,
-                  message: 'No access token provided',
-                  authenticationInfo,
-                }
-              : {
-                  valid: false as const,
-                  error: 'MISSING_TOKEN' as const,
-                  message: 'No access token provided',
-                };
-          throw new AuthenticationError(failure);
-        }
+      try {
+        if (authInfo === undefined) {
+          // Extract and validate token (stdio path)
+          token = extractToken(extra);
+
+          if (token === undefined) {
+            const authenticationInfo = await validator.getAuthenticationInfo();
+            const failure =
+              authenticationInfo !== undefined
+                ? {
+                    valid: false as const,
+                    error: 'MISSING_TOKEN' as const,
+                    message: 'No access token provided',
+                    authenticationInfo,
+                  }
+                : {
+                    valid: false as const,
+                    error: 'MISSING_TOKEN' as const,
+                    message: 'No access token provided',
+                  };
+            throw new AuthenticationError(failure);
+          }
+
+          const validationOptions = {
+            ...(options.requiredScopes !== undefined && options.requiredScopes.length > 0
+              ? { requiredScopes: [...options.requiredScopes] }
+              : {}),
+            ...(options.acrValues !== undefined ? { acrValues: options.acrValues } : {}),
+            ...(options.maxAge !== undefined ? { maxAge: options.maxAge } : {}),
+          };
+
+          const result = await validator.validate(token, validationOptions);
+
+          if (!result.valid) {
+            if (result.error === 'INSUFFICIENT_USER_AUTHENTICATION') {
+              throw new InsufficientUserAuthenticationError(result, options);
+            }
+            throw new AuthenticationError(result);
+          }
 
-        const validationOptions =
-          options.requiredScopes !== undefined && options.requiredScopes.length > 0
-            ? { requiredScopes: [...options.requiredScopes] }
-            : {};
+          // Build authInfo from validation result
+          authInfo = toMcpAuthInfo(token, result.claims);
+          claims = result.claims;
+        } else {
+          // authInfo exists but we need to validate scopes and step-up requirements
+          checkTokenRequirements(options, authInfo, claims);
+        }
 
-        const result = await validator.validate(token, validationOptions);
+        await checkAccessRequirements(options, authInfo, claims);
 
-        if (!result.valid) {
-          throw new AuthenticationError(result);
+        if (options.rateLimit !== undefined) {
+          const decision = await options.rateLimit.consume(authInfo, claims);
+          if (!decision.allowed) {
+            throw new RateLimitError(decision);
+          }
+        }
+      } catch (error) {
+        if (onAuthEvent !== undefined) {
+          emitAuthEvent(
+            onAuthEvent,
+            createAuthEvent({
+              source: 'withAuth',
+              decision: 'deny',
+              startedAt,
+              token,
+              toolName: options.toolName,
+              caller: authInfo !== undefined ? toAuthEventCaller(authInfo) : undefined,
+              requiredScopes: options.requiredScopes ?? [],
+              ...describeDenial(error),
+            })
+          );
         }
+        throw error;
+      }
 
-        // Build authInfo from validation result
-        const scopes = parseScopes(result.claims.scope);
-
-        authInfo = {
-          token,
-          clientId: result.claims.client_id ?? '',
-          scopes,
-          expiresAt: result.claims.exp,
-          extra: {
-            sub: result.claims.sub,
-            iss: result.claims.iss,
-            aud: result.claims.aud,
-          },
-        };
-      } else if (options.requiredScopes !== undefined && options.requiredScopes.length > 0) {
-        // authInfo exists but we need to validate scopes
-        checkRequiredScopes(options.requiredScopes, authInfo.scopes);
+      if (onAuthEvent !== undefined) {
+        emitAuthEvent(
+          onAuthEvent,
+          createAuthEvent({
+            source: 'withAuth',
+            decision: 'allow',
+            startedAt,
+            token,
+            toolName: options.toolName,
+            caller: toAuthEventCaller(authInfo),
+            requiredScopes: options.requiredScopes ?? [],
+          })
+        );
       }
 
       // Call the handler with authInfo guaranteed
-      const extraWithAuth: ToolHandlerExtra = {
+      const extraWithAuth: ToolHandlerExtra<TClaims> = {
         ...extra,
         authInfo,
       };
 
-      return handler(args, extraWithAuth);
+      return runWithAuthContext({ authInfo, claims }, () => handler(args, extraWithAuth));
     };
   };
 
   return withAuth;
 };
 
+/**
+ * Resolves the caller of an MCP request that withAuth does not wrap, such as tools/list.
+ */
+export type AuthInfoResolver = (extra: {
+  readonly authInfo?: McpAuthInfo;
+  readonly _meta?: RequestMeta;
+}) => Promise<McpAuthInfo | undefined>;
+
+/**
+ * Creates a function resolving the caller of a list request the way withAuth resolves the
+ * caller of a tool call: the transport's authInfo when present (HTTP), otherwise the token
+ * from the configured tokenExtractor (stdio), validated without per-tool requirements.
+ *
+ * Tokens it validates itself are mapped with every claim, so registry checks see the same
+ * claims withAuth does. Use the result for access decisions, not as a handler's authInfo.
+ *
+ * @param config - The configuration passed to createWithAuth
+ * @returns An AuthInfoResolver; resolves to undefined when there is no valid token
+ *
+ * @example
+ * ```typescript
+ * const withAuth = createWithAuth({ validator, registry });
+ * const resolveAuthInfo = createAuthInfoResolver({ validator });
+ *
+ * const tools = await registry.filterTools(result, await resolveAuthInfo(extra));
+ * ```
+ */
+export const createAuthInfoResolver = (config: CreateWithAuthConfig): AuthInfoResolver => {
+  const { validator, tokenExtractor: extractorConfig = {} } = config;
+  const extractToken = createTokenExtractor(extractorConfig);
+
+  return async (extra) => {
+    if (extra.authInfo !== undefined) {
+      return extra.authInfo;
+    }
+    const token = extractToken(extra);
+    if (token === undefined) {
+      return undefined;
+    }
+    const result = await validator.validate(token);
+    return result.valid ? toFullMcpAuthInfo(token, result.claims) : undefined;
+  };
+};
+
 /**
  * Type for the withAuth function returned by createWithAuth.
  */
-export type WithAuthFn = <TArgs, TResult>(
+export type WithAuthFn<TClaims extends TokenClaims = TokenClaims> = <TArgs, TResult>(
   options: WithAuthOptions,
-  handler: ToolCallback<TArgs, TResult>
-) => ToolCallback<TArgs, TResult>;
+  handler: ToolCallback<TArgs, TResult, TClaims>
+) => ToolCallback<TArgs, TResult, TClaims>;
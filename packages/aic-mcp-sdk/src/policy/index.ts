@@ -0,0 +1,15 @@
+// Policy builders
+export {
+  scope,
+  claimEquals,
+  claimIn,
+  group,
+  role,
+  predicate,
+  allOf,
+  anyOf,
+  not,
+} from './policy.js';
+
+// Types
+export type { Policy, PolicyContext, PolicyDecision } from './types.js';
@@ -0,0 +1,310 @@
+import { describe, it, expect } from 'vitest';
+import {
+  scope,
+  claimEquals,
+  claimIn,
+  group,
+  role,
+  predicate,
+  allOf,
+  anyOf,
+  not,
+} from './policy.js';
+import type { PolicyContext } from './types.js';
+import { TEST_SUBJECT } from '../test/fixtures.js';
+
+const createContext = (
+  scopes: readonly string[] = [],
+  claims: Readonly<Record<string, unknown>> = {}
+): PolicyContext => ({ scopes, claims: { sub: TEST_SUBJECT, ...claims } });
+
+describe('scope', () => {
+  describe('given the scope is granted', () => {
+    it('allows', async () => {
+      const decision = await scope('todos:read').evaluate(createContext(['todos:read']));
+
+      expect(decision.allowed).toBe(true);
+    });
+  });
+
+  describe('given the scope is not granted', () => {
+    it('denies naming the missing scope', async () => {
+      const decision = await scope('todos:write').evaluate(createContext(['todos:read']));
+
+      expect(decision).toEqual({ allowed: false, reason: 'missing scope "todos:write"' });
+    });
+  });
+});
+
+describe('claimEquals', () => {
+  it('allows when the claim equals the value', async () => {
+    const decision = await claimEquals('tenant', 'acme').evaluate(
+      createContext([], { tenant: 'acme' })
+    );
+
+    expect(decision.allowed).toBe(true);
+  });
+
+  it('denies when the claim differs or is missing', async () => {
+    const policy = claimEquals('tenant', 'acme');
+
+    const differs = await policy.evaluate(createContext([], { tenant: 'globex' }));
+    const missing = await policy.evaluate(createContext());
+
+    expect(differs).toEqual({ allowed: false, reason: 'claim "tenant" does not equal "acme"' });
+    expect(missing.allowed).toBe(false);
+  });
+});
+
+describe('claimIn', () => {
+  describe('given an array claim', () => {
+    it('allows when any element is accepted', async () => {
+      const decision = await claimIn('groups', 'support', 'engineering').evaluate(
+        createContext([], { groups: ['sales', 'support'] })
+      );
+
+      expect(decision.allowed).toBe(true);
+    });
+
+    it('denies when no element is accepted', async () => {
+      const decision = await claimIn('groups', 'support').evaluate(
+        createContext([], { groups: ['sales'] })
+      );
+
+      expect(decision).toEqual({
+        allowed: false,
+        reason: 'claim "groups" does not include any of "support"',
+      });
+    });
+  });
+
+  describe('given a scalar claim', () => {
+    it('allows when the value is accepted', async () => {
+      const decision = await claimIn('department', 'support', 'sales').evaluate(
+        createContext([], { department: 'sales' })
+      );
+
+      expect(decision.allowed).toBe(true);
+    });
+  });
+});
+
+describe('group and role', () => {
+  it('read the groups and roles claims by default', async () => {
+    const context = createContext([], { groups: ['support'], roles: ['admin'] });
+
+    expect((await group('support').evaluate(context)).allowed).toBe(true);
+    expect((await role('admin').evaluate(context)).allowed).toBe(true);
+    expect((await role('support').evaluate(context)).allowed).toBe(false);
+  });
+
+  it('accept a custom claim name', async () => {
+    const context = createContext([], { memberOf: ['support'] });
+
+    const decision = await group('support', 'memberOf').evaluate(context);
+
+    expect(decision.allowed).toBe(true);
+  });
+});
+
+describe('predicate', () => {
+  describe('given an async check that passes', () => {
+    it('allows and receives the context', async () => {
+      const context = createContext(['todos:read']);
+      let received: PolicyContext | undefined;
+
+      const decision = await predicate('is the owner', (ctx) => {
+        received = ctx;
+        return Promise.resolve(true);
+      }).evaluate(context);
+
+      expect(decision.allowed).toBe(true);
+      expect(received).toBe(context);
+    });
+  });
+
+  describe('given a check that fails', () => {
+    it('denies with its description', async () => {
+      const decision = await predicate('is the owner', () => false).evaluate(createContext());
+
+      expect(decision).toEqual({ allowed: false, reason: 'is the owner does not hold' });
+    });
+  });
+
+  describe('given a check that throws', () => {
+    it('denies with the error message and marks the decision errored', async () => {
+      const decision = await predicate('is the owner', () => {
+        throw new Error('database unavailable');
+      }).evaluate(createContext());
+
+      expect(decision).toEqual({
+        allowed: false,
+        reason: 'is the owner failed: database unavailable',
+        errored: true,
+      });
+    });
+  });
+
+  describe('given a check that rejects', () => {
+    it('denies with an errored decision', async () => {
+      const decision = await predicate('is the owner', () =>
+        Promise.reject(new Error('timeout'))
+      ).evaluate(createContext());
+
+      expect(decision).toEqual({
+        allowed: false,
+        reason: 'is the owner failed: timeout',
+        errored: true,
+      });
+    });
+  });
+});
+
+describe('allOf', () => {
+  it('allows when every policy allows', async () => {
+    const decision = await allOf(scope('todos:read'), group('support')).evaluate(
+      createContext(['todos:read'], { groups: ['support'] })
+    );
+
+    expect(decision.allowed).toBe(true);
+  });
+
+  it('reports the first failing policy and stops evaluating', async () => {
+    let evaluated = false;
+    const policy = allOf(
+      scope('todos:read'),
+      predicate('never reached', () => {
+        evaluated = true;
+        return true;
+      })
+    );
+
+    const decision = await policy.evaluate(createContext());
+
+    expect(decision).toEqual({ allowed: false, reason: 'missing scope "todos:read"' });
+    expect(evaluated).toBe(false);
+  });
+});
+
+describe('anyOf', () => {
+  const policy = anyOf(
+    scope('todos:admin'),
+    allOf(scope('todos:read'), claimIn('groups', 'support'))
+  );
+
+  it('allows when any alternative allows', async () => {
+    const decision = await policy.evaluate(createContext(['todos:read'], { groups: ['support'] }));
+
+    expect(decision.allowed).toBe(true);
+  });
+
+  it('reports why every alternative failed', async () => {
+    const decision = await policy.evaluate(createContext(['todos:read'], { groups: ['sales'] }));
+
+    expect(decision).toEqual({
+      allowed: false,
+      reason:
+        'none of the alternatives hold: (missing scope "todos:admin") or (claim "groups" does not include any of "support")',
+    });
+  });
+
+  describe('given an alternative that errors and none that allow', () => {
+    it('denies with an errored decision', async () => {
+      const failing = predicate('is the owner', () => {
+        throw new Error('database unavailable');
+      });
+
+      const decision = await anyOf(scope('todos:admin'), failing).evaluate(createContext());
+
+      expect(decision.allowed).toBe(false);
+      expect(decision.errored).toBe(true);
+    });
+  });
+});
+
+describe('not', () => {
+  it('denies when the inner policy allows', async () => {
+    const decision = await not(group('contractors')).evaluate(
+      createContext([], { groups: ['contractors'] })
+    );
+
+    expect(decision).toEqual({
+      allowed: false,
+      reason: 'claimIn("groups", "contractors") must not hold',
+    });
+  });
+
+  it('allows when the inner policy denies', async () => {
+    const decision = await not(group('contractors')).evaluate(createContext());
+
+    expect(decision.allowed).toBe(true);
+  });
+
+  describe('given a predicate that throws', () => {
+    it('keeps the request denied', async () => {
+      const decision = await not(
+        predicate('is a contractor', () => {
+          throw new Error('directory unavailable');
+        })
+      ).evaluate(createContext());
+
+      expect(decision).toEqual({
+        allowed: false,
+        reason: 'is a contractor failed: directory unavailable',
+        errored: true,
+      });
+    });
+  });
+
+  describe('given an errored anyOf', () => {
+    it('keeps the request denied', async () => {
+      const failing = predicate('is a contractor', () => Promise.reject(new Error('timeout')));
+
+      const decision = await not(anyOf(group('contractors'), failing)).evaluate(createContext());
+
+      expect(decision.allowed).toBe(false);
+    });
+  });
+});
+
+describe('scopes', () => {
+  it('collects the scopes referenced anywhere in the tree', () => {
+    const policy = anyOf(
+      scope('todos:admin'),
+      allOf(scope('todos:read'), not(scope('todos:admin')))
+    );
+
+    expect(policy.scopes).toEqual(['todos:admin', 'todos:read']);
+    expect(group('support').scopes).toBeUndefined();
+  });
+
+  it('reports no scopes for a negated policy', () => {
+    const policy = allOf(scope('todos:read'), not(scope('todos:admin')));
+
+    expect(not(scope('todos:admin')).scopes).toBeUndefined();
+    expect(policy.scopes).toEqual(['todos:read']);
+    expect(policy.scopeAlternatives).toEqual([['todos:read']]);
+  });
+
+  it('keeps each anyOf alternative as its own scope set', () => {
+    const policy = anyOf(scope('todos:admin'), allOf(scope('todos:read'), scope('todos:write')));
+
+    expect(policy.scopeAlternatives).toEqual([['todos:admin'], ['todos:read', 'todos:write']]);
+  });
+
+  it('combines the alternatives of every allOf policy', () => {
+    const policy = allOf(scope('todos:read'), anyOf(scope('todos:write'), group('support')));
+
+    expect(policy.scopeAlternatives).toEqual([['todos:read', 'todos:write'], ['todos:read']]);
+  });
+});
+
+describe('description', () => {
+  it('renders the policy tree', () => {
+    const policy = anyOf(scope('todos:admin'), allOf(scope('todos:read'), not(role('guest'))));
+
+    expect(policy.description).toBe(
+      'anyOf(scope("todos:admin"), allOf(scope("todos:read"), not(claimIn("roles", "guest"))))'
+    );
+  });
+});
@@ -0,0 +1,226 @@
+import type { Policy, PolicyContext, PolicyDecision } from './types.js';
+
+const allow = (reason: string): PolicyDecision => ({ allowed: true, reason });
+
+const deny = (reason: string): PolicyDecision => ({ allowed: false, reason });
+
+const fail = (reason: string): PolicyDecision => ({ allowed: false, reason, errored: true });
+
+/** A policy without scope conditions is satisfied by the empty scope set */
+const alternativesOf = (policy: Policy): readonly (readonly string[])[] =>
+  policy.scopeAlternatives ?? [[]];
+
+/**
+ * Builds the scope fields of a combined policy from its alternatives, leaving them out
+ * when no alternative needs a scope.
+ */
+const withScopeAlternatives = (
+  alternatives: readonly (readonly string[])[]
+): Pick<Policy, 'scopes' | 'scopeAlternatives'> => {
+  const scopes = [...new Set(alternatives.flat())];
+  return scopes.length > 0 ? { scopes, scopeAlternatives: alternatives } : {};
+};
+
+const formatValue = (value: unknown): string =>
+  typeof value === 'string' ? JSON.stringify(value) : String(value);
+
+/**
+ * Requires a scope to be granted.
+ *
+ * @param name - The required scope
+ * @returns A policy allowing callers whose token has the scope
+ *
+ * @example
+ * ```typescript
+ * withAuth({ policy: scope('todos:read') }, handler);
+ * ```
+ */
+export const scope = (name: string): Policy => ({
+  description: `scope(${formatValue(name)})`,
+  scopes: [name],
+  scopeAlternatives: [[name]],
+  evaluate: (context) =>
+    Promise.resolve(
+      context.scopes.includes(name)
+        ? allow(`scope "${name}" is granted`)
+        : deny(`missing scope "${name}"`)
+    ),
+});
+
+/**
+ * Requires a claim to equal a value (compared with `===`).
+ *
+ * @param claim - Claim name
+ * @param value - Expected value
+ * @returns A policy allowing callers whose claim equals the value
+ *
+ * @example
+ * ```typescript
+ * claimEquals('tenant', 'acme');
+ * ```
+ */
+export const claimEquals = (claim: string, value: unknown): Policy => ({
+  description: `claimEquals(${formatValue(claim)}, ${formatValue(value)})`,
+  evaluate: (context) =>
+    Promise.resolve(
+      context.claims[claim] === value
+        ? allow(`claim "${claim}" equals ${formatValue(value)}`)
+        : deny(`claim "${claim}" does not equal ${formatValue(value)}`)
+    ),
+});
+
+/**
+ * Requires a claim to contain at least one of the given values. Array claims (such as
+ * "groups") match when any element is listed; scalar claims match when they are listed.
+ *
+ * @param claim - Claim name
+ * @param values - Accepted values
+ * @returns A policy allowing callers whose claim contains one of the values
+ *
+ * @example
+ * ```typescript
+ * claimIn('groups', 'support', 'engineering');
+ * ```
+ */
+export const claimIn = (claim: string, ...values: readonly unknown[]): Policy => ({
+  description: `claimIn(${[claim, ...values].map(formatValue).join(', ')})`,
+  evaluate: (context) => {
+    const claimValue = context.claims[claim];
+    const present: readonly unknown[] = Array.isArray(claimValue) ? claimValue : [claimValue];
+    const expected = values.map(formatValue).join(', ');
+    return Promise.resolve(
+      present.some((item) => values.includes(item))
+        ? allow(`claim "${claim}" includes one of ${expected}`)
+        : deny(`claim "${claim}" does not include any of ${expected}`)
+    );
+  },
+});
+
+/**
+ * Requires membership of a group, read from the "groups" claim by default.
+ *
+ * @param name - Group name
+ * @param claim - Claim holding the caller's groups (default: "groups")
+ * @returns A policy allowing members of the group
+ */
+export const group = (name: string, claim = 'groups'): Policy => claimIn(claim, name);
+
+/**
+ * Requires a role, read from the "roles" claim by default.
+ *
+ * @param name - Role name
+ * @param claim - Claim holding the caller's roles (default: "roles")
+ * @returns A policy allowing callers with the role
+ */
+export const role = (name: string, claim = 'roles'): Policy => claimIn(claim, name);
+
+/**
+ * Wraps a custom, possibly async, check. A predicate that throws or rejects denies the
+ * request with an errored decision, which `not` and `anyOf` never turn into an allow.
+ *
+ * @param description - Name used in descriptions and denial reasons
+ * @param check - Returns true to allow the request
+ * @returns A policy delegating to the check
+ *
+ * @example
+ * ```typescript
+ * predicate('has an active account', async ({ claims }) => accounts.isActive(claims['sub']));
+ * ```
+ */
+export const predicate = (
+  description: string,
+  check: (context: PolicyContext) => boolean | Promise<boolean>
+): Policy => ({
+  description,
+  evaluate: async (context) => {
+    try {
+      return (await check(context))
+        ? allow(`${description} holds`)
+        : deny(`${description} does not hold`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return fail(`${description} failed: ${message}`);
+    }
+  },
+});
+
+/**
+ * Requires every policy to allow the request. Evaluation stops at the first denial,
+ * whose reason is reported.
+ *
+ * @param policies - Policies that must all allow
+ * @returns The combined policy
+ */
+export const allOf = (...policies: readonly Policy[]): Policy => ({
+  description: `allOf(${policies.map((policy) => policy.description).join(', ')})`,
+  // Every combination of one alternative per policy
+  ...withScopeAlternatives(
+    policies.reduce<readonly (readonly string[])[]>(
+      (combined, policy) =>
+        combined.flatMap((scopes) =>
+          alternativesOf(policy).map((more) => [...new Set([...scopes, ...more])])
+        ),
+      [[]]
+    )
+  ),
+  evaluate: async (context) => {
+    for (const policy of policies) {
+      const decision = await policy.evaluate(context);
+      if (!decision.allowed) {
+        return decision;
+      }
+    }
+    return allow(`all of ${String(policies.length)} conditions hold`);
+  },
+});
+
+/**
+ * Requires at least one policy to allow the request. Evaluation stops at the first policy
+ * that allows; a denial reports why each alternative failed, and is errored when any
+ * alternative errored. Its `scopes` are the union of every alternative's, while
+ * `scopeAlternatives` keeps each alternative's own scope set.
+ *
+ * @param policies - Alternative policies
+ * @returns The combined policy
+ */
+export const anyOf = (...policies: readonly Policy[]): Policy => ({
+  description: `anyOf(${policies.map((policy) => policy.description).join(', ')})`,
+  ...withScopeAlternatives(policies.flatMap(alternativesOf)),
+  evaluate: async (context) => {
+    const reasons: string[] = [];
+    let errored = false;
+    for (const policy of policies) {
+      const decision = await policy.evaluate(context);
+      if (decision.allowed) {
+        return decision;
+      }
+      reasons.push(`(${decision.reason})`);
+      errored ||= decision.errored === true;
+    }
+    const reason = `none of the alternatives hold: ${reasons.join(' or ')}`;
+    return errored ? fail(reason) : deny(reason);
+  },
+});
+
+/**
+ * Inverts a policy. Errored decisions are passed through as denials, so a failing check
+ * never grants access. Negated scopes are forbidden, so the result reports no scopes.
+ *
+ * @param policy - Policy that must not allow the request
+ * @returns The inverted policy
+ *
+ * @example
+ * ```typescript
+ * allOf(scope('todos:write'), not(group('contractors')));
+ * ```
+ */
+export const not = (policy: Policy): Policy => ({
+  description: `not(${policy.description})`,
+  evaluate: async (context) => {
+    const decision = await policy.evaluate(context);
+    if (decision.errored === true) {
+      return decision;
+    }
+    return decision.allowed ? deny(`${policy.description} must not hold`) : allow(decision.reason);
+  },
+});
@@ -0,0 +1,44 @@
+/**
+ * What a policy is evaluated against: the caller's granted scopes and token claims.
+ */
+export interface PolicyContext {
+  /** Scopes granted to the token */
+  readonly scopes: readonly string[];
+  /** Claims of the token (e.g., "sub", "groups", "roles") */
+  readonly claims: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Outcome of evaluating a policy.
+ */
+export interface PolicyDecision {
+  /** Whether the policy allows the request */
+  readonly allowed: boolean;
+  /** Human-readable explanation; for denials, names the condition that failed */
+  readonly reason: string;
+  /** Set when the policy could not be evaluated, e.g. a predicate threw; always a denial */
+  readonly errored?: boolean;
+}
+
+/**
+ * A composable authorization rule, built with `scope`, `claimEquals`, `claimIn`, `group`,
+ * `role`, `predicate`, `allOf`, `anyOf` and `not`.
+ */
+export interface Policy {
+  /** Human-readable form of the policy, e.g. `allOf(scope("todos:read"), group("support"))` */
+  readonly description: string;
+  /**
+   * Scopes that can grant access under the policy, advertised in scopes_supported by an
+   * AuthRegistry. Scopes under `not` are left out. For `anyOf` this is the union of every
+   * alternative's scopes, which no single alternative needs; see scopeAlternatives.
+   */
+  readonly scopes?: readonly string[];
+  /**
+   * The scope sets that satisfy the policy's scope conditions, one per alternative; a caller
+   * needs every scope of one set. An empty set marks an alternative that needs no scope.
+   * Absent when the policy requires no scope.
+   */
+  readonly scopeAlternatives?: readonly (readonly string[])[];
+  /** Evaluates the policy against a caller */
+  readonly evaluate: (context: PolicyContext) => Promise<PolicyDecision>;
+}
@@ -0,0 +1,11 @@
+// Rate limiter
+export { createRateLimiter } from './rate-limiter.js';
+
+// Types
+export type {
+  RateLimiter,
+  RateLimiterConfig,
+  RateLimitKey,
+  RateLimitBucket,
+  RateLimitDecision,
+} from './types.js';
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRateLimiter } from './rate-limiter.js';
+import type { RateLimitBucket } from './types.js';
+import type { McpAuthInfo } from '../mcp/types.js';
+import { createKeyValueCache } from '../cache/async-cache.js';
+import { createFakeKeyValueClient } from '../test/mocks.js';
+import { TEST_CLIENT_ID, TEST_SUBJECT } from '../test/fixtures.js';
+
+const WINDOW_MS = 60_000;
+
+const createAuthInfo = (sub = TEST_SUBJECT, clientId = TEST_CLIENT_ID): McpAuthInfo => ({
+  token: `token-${sub}`,
+  clientId,
+  scopes: [],
+  extra: { sub },
+});
+
+describe('createRateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('given requests within the limit', () => {
+    it('allows them and reports the remaining allowance', async () => {
+      const limiter = createRateLimiter({ limit: 3, windowMs: WINDOW_MS });
+
+      const decisions = [
+        await limiter.consume(createAuthInfo()),
+        await limiter.consume(createAuthInfo()),
+        await limiter.consume(createAuthInfo()),
+      ];
+
+      expect(decisions).toEqual([
+        { allowed: true, remaining: 2 },
+        { allowed: true, remaining: 1 },
+        { allowed: true, remaining: 0 },
+      ]);
+    });
+  });
+
+  describe('given the limit is exhausted', () => {
+    it('denies with the seconds until one request is replenished', async () => {
+      const limiter = createRateLimiter({ limit: 2, windowMs: WINDOW_MS });
+      await limiter.consume(createAuthInfo());
+      await limiter.consume(createAuthInfo());
+
+      const decision = await limiter.consume(createAuthInfo());
+
+      expect(decision).toEqual({ allowed: false, retryAfter: 30 });
+    });
+
+    it('allows again once the allowance refills', async () => {
+      const limiter = createRateLimiter({ limit: 2, windowMs: WINDOW_MS });
+      await limiter.consume(createAuthInfo());
+      await limiter.consume(createAuthInfo());
+
+      vi.advanceTimersByTime(WINDOW_MS / 2);
+
+      expect((await limiter.consume(createAuthInfo())).allowed).toBe(true);
+      expect((await limiter.consume(createAuthInfo())).allowed).toBe(false);
+    });
+  });
+
+  describe('key', () => {
+    it('limits each subject separately by default', async () => {
+      const limiter = createRateLimiter({ limit: 1, windowMs: WINDOW_MS });
+      await limiter.consume(createAuthInfo('user-a'));
+
+      const decision = await limiter.consume(createAuthInfo('user-b'));
+
+      expect(decision.allowed).toBe(true);
+    });
+
+    it('limits all subjects of a client together when keyed by client_id', async () => {
+      const limiter = createRateLimiter({ limit: 1, windowMs: WINDOW_MS, key: 'client_id' });
+      await limiter.consume(createAuthInfo('user-a'));
+
+      const decision = await limiter.consume(createAuthInfo('user-b'));
+
+      expect(decision.allowed).toBe(false);
+    });
+
+    it('limits tokens without a client_id separately instead of in one shared bucket', async () => {
+      const limiter = createRateLimiter({ limit: 1, windowMs: WINDOW_MS, key: 'client_id' });
+      await limiter.consume(createAuthInfo('user-a', ''));
+
+      const other = await limiter.consume(createAuthInfo('user-b', ''));
+      const same = await limiter.consume(createAuthInfo('user-a', ''));
+
+      expect(other.allowed).toBe(true);
+      expect(same.allowed).toBe(false);
+    });
+
+    it('uses a custom key function', async () => {
+      const limiter = createRateLimiter({
+        limit: 1,
+        windowMs: WINDOW_MS,
+        key: () => 'everyone',
+      });
+      await limiter.consume(createAuthInfo('user-a', 'client-a'));
+
+      const decision = await limiter.consume(createAuthInfo('user-b', 'client-b'));
+
+      expect(decision.allowed).toBe(false);
+    });
+
+    it('passes the validated claims to a custom key function', async () => {
+      const limiter = createRateLimiter({
+        limit: 1,
+        windowMs: WINDOW_MS,
+        key: (_authInfo, claims) => String(claims['tenant']),
+      });
+      await limiter.consume(createAuthInfo('user-a'), { tenant: 'acme' });
+
+      const decision = await limiter.consume(createAuthInfo('user-b'), { tenant: 'acme' });
+
+      expect(decision.allowed).toBe(false);
+    });
+  });
+
+  describe('given a shared cache', () => {
+    it('enforces one limit across limiter instances', async () => {
+      const cache = createKeyValueCache<RateLimitBucket>(createFakeKeyValueClient());
+      const first = createRateLimiter({ limit: 1, windowMs: WINDOW_MS }, cache);
+      const second = createRateLimiter({ limit: 1, windowMs: WINDOW_MS }, cache);
+      await first.consume(createAuthInfo());
+
+      const decision = await second.consume(createAuthInfo());
+
+      expect(decision.allowed).toBe(false);
+    });
+  });
+
+  describe('given an invalid configuration', () => {
+    it('throws a RangeError for a limit below 1', () => {
+      expect(() => createRateLimiter({ limit: 0, windowMs: WINDOW_MS })).toThrow(RangeError);
+    });
+
+    it('throws a RangeError for a non-positive window', () => {
+      expect(() => createRateLimiter({ limit: 1, windowMs: 0 })).toThrow(RangeError);
+    });
+  });
+});
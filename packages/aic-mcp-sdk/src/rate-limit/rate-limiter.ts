@@ -0,0 +1,107 @@
+import type { CacheLike } from '../cache/types.js';
+import type { McpAuthInfo } from '../mcp/types.js';
+import type {
+  RateLimitBucket,
+  RateLimitDecision,
+  RateLimitKey,
+  RateLimiter,
+  RateLimiterConfig,
+} from './types.js';
+import { createMemoryCache } from '../cache/memory-cache.js';
+import { toAsyncCache } from '../cache/async-cache.js';
+import { hashToken } from '../validation/token-hash.js';
+
+/** Default prefix of rate limit cache keys */
+const DEFAULT_KEY_PREFIX = 'rate-limit:';
+
+/** Default maximum number of tracked callers */
+const DEFAULT_MAX_TRACKED_CALLERS = 10000;
+
+/**
+ * Creates the function deriving a caller's rate limit key.
+ */
+const createKeyResolver = (
+  key: RateLimitKey
+): ((authInfo: McpAuthInfo, claims: Readonly<Record<string, unknown>>) => string) => {
+  if (typeof key === 'function') {
+    return key;
+  }
+  if (key === 'client_id') {
+    return (authInfo) => authInfo.clientId;
+  }
+  return (authInfo, claims) =>
+    typeof claims['sub'] === 'string' ? claims['sub'] : authInfo.clientId;
+};
+
+/**
+ * Creates a token bucket rate limiter.
+ *
+ * Each caller starts with `limit` requests, replenished continuously at `limit` per `windowMs`.
+ * Buckets live in the given cache; pass a shared cache (e.g. createKeyValueCache over Redis)
+ * to enforce limits across server instances. Concurrent requests against a shared cache may
+ * briefly exceed the limit, since reads and writes are not atomic.
+ *
+ * @param config - Limit, window and key
+ * @param cache - Optional sync or async cache for buckets
+ *   (default: bounded createMemoryCache())
+ * @returns A RateLimiter
+ * @throws RangeError if limit is below 1 or windowMs is not positive
+ *
+ * @example
+ * ```typescript
+ * const perUser = createRateLimiter({ limit: 60, windowMs: 60_000, key: 'sub' });
+ *
+ * server.registerTool('search', { ... },
+ *   withAuth({ requiredScopes: ['search'], rateLimit: perUser }, handler)
+ * );
+ * ```
+ */
+export const createRateLimiter = (
+  config: RateLimiterConfig,
+  cache: CacheLike<RateLimitBucket> = createMemoryCache({
+    maxEntries: DEFAULT_MAX_TRACKED_CALLERS,
+  })
+): RateLimiter => {
+  const { limit, windowMs, key = 'sub', keyPrefix = DEFAULT_KEY_PREFIX } = config;
+
+  if (limit < 1) {
+    throw new RangeError(`limit must be at least 1, got ${String(limit)}`);
+  }
+  if (windowMs <= 0) {
+    throw new RangeError(`windowMs must be positive, got ${String(windowMs)}`);
+  }
+
+  const store = toAsyncCache(cache);
+  const resolveKey = createKeyResolver(key);
+  const refillPerMs = limit / windowMs;
+
+  const consume = async (
+    authInfo: McpAuthInfo,
+    claims: Readonly<Record<string, unknown>> = authInfo.extra ?? {}
+  ): Promise<RateLimitDecision> => {
+    // A token without the keyed claim (e.g. no client_id) must not share one bucket with
+    // every other such token, so it is limited on its own
+    const callerKey = resolveKey(authInfo, claims) || `token:${hashToken(authInfo.token)}`;
+    const cacheKey = `${keyPrefix}${callerKey}`;
+    const now = Date.now();
+
+    const bucket = await store.get(cacheKey);
+    const available =
+      bucket === undefined
+        ? limit
+        : Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+
+    if (available < 1) {
+      const retryAfterMs = (1 - available) / refillPerMs;
+      return { allowed: false, retryAfter: Math.max(1, Math.ceil(retryAfterMs / 1000)) };
+    }
+
+    const tokens = available - 1;
+    // An untouched bucket is full again after one window, so it can expire then
+    await store.set(cacheKey, { tokens, updatedAt: now }, windowMs);
+
+    return { allowed: true, remaining: Math.floor(tokens) };
+  };
+
+  return { consume };
+};
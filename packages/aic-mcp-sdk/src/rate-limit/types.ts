@@ -0,0 +1,71 @@
+import type { McpAuthInfo } from '../mcp/types.js';
+
+/**
+ * What a rate limit is keyed by:
+ * - "sub": the token's subject, falling back to its client when there is none
+ * - "client_id": the client the token was issued to
+ * - function: custom key derived from the caller and their validated claims
+ *
+ * A caller whose key comes out empty, such as a token without a client_id, is limited per
+ * token instead.
+ */
+export type RateLimitKey =
+  | 'sub'
+  | 'client_id'
+  | ((authInfo: McpAuthInfo, claims: Readonly<Record<string, unknown>>) => string);
+
+/**
+ * Configuration for a token bucket rate limiter.
+ */
+export interface RateLimiterConfig {
+  /** Requests allowed per window; also the largest burst (must be at least 1) */
+  readonly limit: number;
+  /** Window in milliseconds over which `limit` requests are replenished */
+  readonly windowMs: number;
+  /** What the limit is keyed by (default: "sub") */
+  readonly key?: RateLimitKey;
+  /** Prefix of cache keys, to tell apart limiters sharing one cache (default: "rate-limit:") */
+  readonly keyPrefix?: string;
+}
+
+/**
+ * Token bucket state stored in the limiter's cache.
+ */
+export interface RateLimitBucket {
+  /** Requests left, fractional while refilling */
+  readonly tokens: number;
+  /** When tokens was last computed (ms since epoch) */
+  readonly updatedAt: number;
+}
+
+/**
+ * Outcome of taking one request from a caller's allowance.
+ */
+export type RateLimitDecision =
+  | {
+      readonly allowed: true;
+      /** Whole requests left in the current allowance */
+      readonly remaining: number;
+    }
+  | {
+      readonly allowed: false;
+      /** Seconds until the next request is allowed */
+      readonly retryAfter: number;
+    };
+
+/**
+ * Limits how often a caller may make requests.
+ */
+export interface RateLimiter {
+  /**
+   * Takes one request from the caller's allowance.
+   *
+   * @param authInfo - The authenticated caller
+   * @param claims - The caller's validated claims (default: authInfo.extra)
+   * @returns Whether the request is allowed
+   */
+  readonly consume: (
+    authInfo: McpAuthInfo,
+    claims?: Readonly<Record<string, unknown>>
+  ) => Promise<RateLimitDecision>;
+}
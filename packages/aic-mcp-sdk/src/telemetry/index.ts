@@ -0,0 +1,15 @@
+// Span, metric and attribute names
+export { TELEMETRY_ATTRIBUTES, TELEMETRY_SPANS, TELEMETRY_METRICS } from './telemetry.js';
+
+// Types
+export type {
+  TelemetryConfig,
+  TelemetryTracer,
+  TelemetrySpan,
+  TelemetryMeter,
+  TelemetryCounter,
+  TelemetryHistogram,
+  TelemetryInstrumentOptions,
+  TelemetryAttributes,
+  TelemetryAttributeValue,
+} from './types.js';
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { createTelemetry, noopTelemetry } from './telemetry.js';
+import { createInMemoryTelemetry } from '../test/mocks.js';
+
+describe('createTelemetry', () => {
+  describe('given no tracer or meter', () => {
+    it('runs spans without recording anything', async () => {
+      const result = await noopTelemetry.span('aic.validate', (span) => {
+        span.setAttribute('aic.token.type', 'jwt');
+        return Promise.resolve('done');
+      });
+
+      expect(result).toBe('done');
+      expect(() => {
+        noopTelemetry.recordValidation(5, { 'aic.validation.outcome': 'valid' });
+        noopTelemetry.recordBackChannel('jwks', 5);
+      }).not.toThrow();
+    });
+  });
+
+  describe('span', () => {
+    it('ends the span with its attributes once fn settles', async () => {
+      const inMemory = createInMemoryTelemetry();
+      const telemetry = createTelemetry(inMemory);
+
+      await telemetry.span('aic.validate', (span) => {
+        span.setAttribute('aic.token.type', 'opaque');
+        return Promise.resolve();
+      });
+
+      expect(inMemory.spans).toEqual([
+        {
+          name: 'aic.validate',
+          parent: undefined,
+          attributes: { 'aic.token.type': 'opaque' },
+          status: undefined,
+        },
+      ]);
+    });
+
+    it('records nested spans under the active span', async () => {
+      const inMemory = createInMemoryTelemetry();
+      const telemetry = createTelemetry(inMemory);
+
+      await telemetry.span('aic.validate', () =>
+        telemetry.span('aic.discovery', () => Promise.resolve())
+      );
+
+      expect(inMemory.spansNamed('aic.discovery')[0]?.parent).toBe('aic.validate');
+    });
+
+    describe('given fn throws', () => {
+      it('marks the span as failed, ends it and rethrows', async () => {
+        const inMemory = createInMemoryTelemetry();
+        const telemetry = createTelemetry(inMemory);
+
+        try {
+          await telemetry.span('aic.jwks', () => Promise.reject(new Error('boom')));
+          expect.fail('Should have thrown');
+        } catch (error) {
+          expect((error as Error).message).toBe('boom');
+        }
+
+        expect(inMemory.spans[0]?.status).toEqual({ code: 2, message: 'boom' });
+      });
+    });
+  });
+
+  describe('fail', () => {
+    it('sets the error code attribute and error status', async () => {
+      const inMemory = createInMemoryTelemetry();
+      const telemetry = createTelemetry(inMemory);
+
+      await telemetry.span('aic.introspection', (span) => {
+        telemetry.fail(span, 'INTROSPECTION_ERROR', 'Introspection failed');
+        return Promise.resolve();
+      });
+
+      expect(inMemory.spans[0]).toMatchObject({
+        attributes: { 'aic.error.code': 'INTROSPECTION_ERROR' },
+        status: { code: 2, message: 'Introspection failed' },
+      });
+    });
+  });
+
+  describe('metrics', () => {
+    it('counts validations and records their duration', () => {
+      const inMemory = createInMemoryTelemetry();
+      const telemetry = createTelemetry(inMemory);
+      const attributes = { 'aic.token.type': 'jwt', 'aic.validation.outcome': 'valid' };
+
+      telemetry.recordValidation(12, attributes);
+
+      expect(inMemory.measurements).toEqual([
+        { instrument: 'aic.validation.count', value: 1, attributes },
+        { instrument: 'aic.validation.duration', value: 12, attributes },
+      ]);
+    });
+
+    it('records back-channel latency by operation', () => {
+      const inMemory = createInMemoryTelemetry();
+      const telemetry = createTelemetry(inMemory);
+
+      telemetry.recordBackChannel('introspection', 40, 'NETWORK_ERROR');
+
+      expect(inMemory.measurementsOf('aic.backchannel.duration')).toEqual([
+        {
+          instrument: 'aic.backchannel.duration',
+          value: 40,
+          attributes: { 'aic.operation': 'introspection', 'aic.error.code': 'NETWORK_ERROR' },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import type {
+  BackChannelOperation,
+  Telemetry,
+  TelemetryAttributes,
+  TelemetryConfig,
+  TelemetrySpan,
+} from './types.js';
+
+/** OpenTelemetry SpanStatusCode.ERROR */
+const SPAN_STATUS_ERROR = 2;
+
+/** Span and metric attribute names */
+export const TELEMETRY_ATTRIBUTES = {
+  /** "jwt", "opaque" or "none" */
+  tokenType: 'aic.token.type',
+  /** Whether a cached discovery document, JWKS or introspection result was used */
+  cacheHit: 'aic.cache.hit',
+  /** Validation or back-channel error code */
+  errorCode: 'aic.error.code',
+  /** "valid" or "invalid" */
+  outcome: 'aic.validation.outcome',
+  /** "discovery", "jwks" or "introspection" */
+  operation: 'aic.operation',
+} as const;
+
+/** Span names */
+export const TELEMETRY_SPANS = {
+  validate: 'aic.validate',
+  discovery: 'aic.discovery',
+  jwks: 'aic.jwks',
+  introspection: 'aic.introspection',
+} as const;
+
+/** Metric names */
+export const TELEMETRY_METRICS = {
+  validations: 'aic.validation.count',
+  validationDuration: 'aic.validation.duration',
+  backChannelDuration: 'aic.backchannel.duration',
+} as const;
+
+const noopSpan: TelemetrySpan = {
+  setAttribute: () => noopSpan,
+  setStatus: () => noopSpan,
+  end: () => undefined,
+};
+
+/**
+ * Creates the instrumentation handle for a validator. Missing tracer or meter
+ * make the corresponding calls no-ops.
+ *
+ * @param config - Tracer and meter, typically from `@opentelemetry/api`
+ * @returns A Telemetry handle
+ */
+export const createTelemetry = (config: TelemetryConfig = {}): Telemetry => {
+  const { tracer, meter } = config;
+
+  const validations = meter?.createCounter(TELEMETRY_METRICS.validations, {
+    description: 'Token validations by outcome',
+  });
+  const validationDuration = meter?.createHistogram(TELEMETRY_METRICS.validationDuration, {
+    description: 'Duration of token validations',
+    unit: 'ms',
+  });
+  const backChannelDuration = meter?.createHistogram(TELEMETRY_METRICS.backChannelDuration, {
+    description: 'Duration of network calls to the authorization server',
+    unit: 'ms',
+  });
+
+  const fail = (span: TelemetrySpan, code: string, message: string): void => {
+    span.setAttribute(TELEMETRY_ATTRIBUTES.errorCode, code);
+    span.setStatus({ code: SPAN_STATUS_ERROR, message });
+  };
+
+  const span = <T>(name: string, fn: (span: TelemetrySpan) => Promise<T>): Promise<T> => {
+    if (tracer === undefined) {
+      return fn(noopSpan);
+    }
+    return tracer.startActiveSpan(name, async (active: TelemetrySpan) => {
+      try {
+        return await fn(active);
+      } catch (error) {
+        active.setStatus({
+          code: SPAN_STATUS_ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      } finally {
+        active.end();
+      }
+    });
+  };
+
+  const recordValidation = (durationMs: number, attributes: TelemetryAttributes): void => {
+    validations?.add(1, attributes);
+    validationDuration?.record(durationMs, attributes);
+  };
+
+  const recordBackChannel = (
+    operation: BackChannelOperation,
+    durationMs: number,
+    errorCode?: string
+  ): void => {
+    backChannelDuration?.record(durationMs, {
+      [TELEMETRY_ATTRIBUTES.operation]: operation,
+      ...(errorCode !== undefined ? { [TELEMETRY_ATTRIBUTES.errorCode]: errorCode } : {}),
+    });
+  };
+
+  return { span, fail, recordValidation, recordBackChannel };
+};
+
+/** Telemetry handle that records nothing */
+export const noopTelemetry: Telemetry = createTelemetry();
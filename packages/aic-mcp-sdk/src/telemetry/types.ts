@@ -0,0 +1,95 @@
+/**
+ * Structural subset of the OpenTelemetry API used for instrumentation.
+ * Tracers and meters from `@opentelemetry/api` satisfy these interfaces, so the SDK
+ * does not depend on the OpenTelemetry packages.
+ */
+
+/**
+ * Value of a span or metric attribute.
+ */
+export type TelemetryAttributeValue = string | number | boolean;
+
+/**
+ * Span or metric attributes.
+ */
+export type TelemetryAttributes = Readonly<Record<string, TelemetryAttributeValue>>;
+
+/**
+ * A span, as created by an OpenTelemetry Tracer.
+ */
+export interface TelemetrySpan {
+  setAttribute(key: string, value: TelemetryAttributeValue): unknown;
+  /** Status codes follow OpenTelemetry's SpanStatusCode: 0 unset, 1 ok, 2 error */
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/**
+ * Creates spans; satisfied by `trace.getTracer(name)` from `@opentelemetry/api`.
+ */
+export interface TelemetryTracer {
+  startActiveSpan<F extends (span: TelemetrySpan) => unknown>(name: string, fn: F): ReturnType<F>;
+}
+
+/**
+ * A monotonic counter.
+ */
+export interface TelemetryCounter {
+  add(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * A histogram of recorded values.
+ */
+export interface TelemetryHistogram {
+  record(value: number, attributes?: TelemetryAttributes): void;
+}
+
+/**
+ * Options for a metric instrument.
+ */
+export interface TelemetryInstrumentOptions {
+  description?: string;
+  unit?: string;
+}
+
+/**
+ * Creates metric instruments; satisfied by `metrics.getMeter(name)` from `@opentelemetry/api`.
+ */
+export interface TelemetryMeter {
+  createCounter(name: string, options?: TelemetryInstrumentOptions): TelemetryCounter;
+  createHistogram(name: string, options?: TelemetryInstrumentOptions): TelemetryHistogram;
+}
+
+/**
+ * OpenTelemetry instrumentation settings. Without a tracer or meter, nothing is recorded.
+ */
+export interface TelemetryConfig {
+  /** Tracer for validation, discovery, JWKS and introspection spans */
+  readonly tracer?: TelemetryTracer;
+  /** Meter for validation outcome counts and latency histograms */
+  readonly meter?: TelemetryMeter;
+}
+
+/**
+ * Back-channel calls to AM that are timed.
+ */
+export type BackChannelOperation = 'discovery' | 'jwks' | 'introspection';
+
+/**
+ * Internal instrumentation handle shared by the validator's components.
+ */
+export interface Telemetry {
+  /** Runs fn inside a span, ending it when fn settles */
+  readonly span: <T>(name: string, fn: (span: TelemetrySpan) => Promise<T>) => Promise<T>;
+  /** Marks a span as failed with an error code */
+  readonly fail: (span: TelemetrySpan, code: string, message: string) => void;
+  /** Counts a validate() outcome and records its duration */
+  readonly recordValidation: (durationMs: number, attributes: TelemetryAttributes) => void;
+  /** Records the latency of a network call to AM */
+  readonly recordBackChannel: (
+    operation: BackChannelOperation,
+    durationMs: number,
+    errorCode?: string
+  ) => void;
+}
@@ -3,8 +3,18 @@
  * Provides meaningful, reusable test data following DRY principles.
  */
 
+import {
+  SignJWT,
+  exportJWK,
+  exportSPKI,
+  generateKeyPair,
+  calculateJwkThumbprint,
+  type JWK,
+  type JSONWebKeySet,
+} from 'jose';
 import type { OidcDiscoveryDocument } from '../validation/types.js';
-import type { AuthenticationInfo } from '../types.js';
+import type { AuthenticationInfo, TokenClaims } from '../types.js';
+import { hashToken } from '../validation/token-hash.js';
 
 // ============================================================================
 // Time Constants
@@ -30,6 +40,7 @@ export const TEST_JWKS_URI = `${TEST_ISSUER}/connect/jwks`;
 export const TEST_AUTHORIZATION_ENDPOINT = `${TEST_ISSUER}/authorize`;
 export const TEST_TOKEN_ENDPOINT = `${TEST_ISSUER}/access_token`;
 export const TEST_INTROSPECTION_ENDPOINT = `${TEST_ISSUER}/introspect`;
+export const TEST_REVOCATION_ENDPOINT = `${TEST_ISSUER}/token/revoke`;
 
 // ============================================================================
 // Client Configuration
@@ -103,6 +114,7 @@ export const createDiscoveryDocument = (
   token_endpoint: TEST_TOKEN_ENDPOINT,
   jwks_uri: TEST_JWKS_URI,
   introspection_endpoint: TEST_INTROSPECTION_ENDPOINT,
+  revocation_endpoint: TEST_REVOCATION_ENDPOINT,
   response_types_supported: ['code', 'token'],
   grant_types_supported: ['authorization_code', 'client_credentials', 'refresh_token'],
   scopes_supported: [...ALL_SCOPES],
@@ -153,6 +165,92 @@ export const createExpiredClaims = (overrides: Record<string, unknown> = {}): To
     ...overrides,
   });
 
+// ============================================================================
+// Signing Key Fixtures
+// ============================================================================
+
+export const TEST_KEY_ID = 'test-key-1';
+
+/**
+ * An RS256 key pair for issuing real JWTs in tests.
+ */
+export interface SigningKey {
+  /** Public JWKS containing the key */
+  readonly jwks: JSONWebKeySet;
+  /** Public key in SPKI PEM format */
+  readonly spkiPem: string;
+  /** Signs claims as a JWT; header overrides replace the default header fields */
+  readonly sign: (
+    claims: Record<string, unknown>,
+    header?: Record<string, unknown>
+  ) => Promise<string>;
+}
+
+/**
+ * Generates an RS256 signing key with kid TEST_KEY_ID.
+ */
+export const createSigningKey = async (kid = TEST_KEY_ID): Promise<SigningKey> => {
+  const { publicKey, privateKey } = await generateKeyPair('RS256', { extractable: true });
+  const jwk = await exportJWK(publicKey);
+  const spkiPem = await exportSPKI(publicKey);
+
+  const sign: SigningKey['sign'] = (claims, header = {}) =>
+    new SignJWT(claims)
+      .setProtectedHeader({ alg: 'RS256', typ: 'JWT', kid, ...header })
+      .sign(privateKey);
+
+  return { jwks: { keys: [{ ...jwk, kid, alg: 'RS256', use: 'sig' }] }, spkiPem, sign };
+};
+
+// ============================================================================
+// DPoP Fixtures
+// ============================================================================
+
+export const TEST_DPOP_METHOD = 'POST';
+export const TEST_DPOP_URL = 'https://mcp.example.com/mcp';
+
+/**
+ * A DPoP key pair with a proof factory bound to it.
+ */
+export interface DpopKey {
+  /** RFC 7638 thumbprint, i.e. the token's expected cnf.jkt */
+  readonly jkt: string;
+  /** Signs a proof for the given access token; overrides replace header or payload fields */
+  readonly createProof: (
+    accessToken: string,
+    overrides?: {
+      readonly payload?: Record<string, unknown>;
+      readonly header?: Record<string, unknown>;
+    }
+  ) => Promise<string>;
+}
+
+/**
+ * Generates an ES256 DPoP key and a proof factory for TEST_DPOP_METHOD and TEST_DPOP_URL.
+ */
+export const createDpopKey = async (): Promise<DpopKey> => {
+  const { publicKey, privateKey } = await generateKeyPair('ES256');
+  const jwk: JWK = await exportJWK(publicKey);
+  const jkt = await calculateJwkThumbprint(jwk, 'sha256');
+  let counter = 0;
+
+  const createProof: DpopKey['createProof'] = (accessToken, overrides = {}) => {
+    counter += 1;
+    return new SignJWT({
+      jti: `proof-${String(counter)}`,
+      htm: TEST_DPOP_METHOD,
+      htu: TEST_DPOP_URL,
+      ath: hashToken(accessToken),
+      iat: Math.floor(Date.now() / 1000),
+      ...overrides.payload,
+    })
+      .setProtectedHeader({ alg: 'ES256', typ: 'dpop+jwt', jwk, ...overrides.header })
+      .sign(privateKey);
+  };
+
+  return { jkt, createProof };
+};
+
 // ============================================================================
 // Error Messages
 // ============================================================================
@@ -3,9 +3,21 @@
  * Provides configurable mock implementations of interfaces.
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { vi } from 'vitest';
 import { ok, err, type Result } from 'neverthrow';
 import type { HttpClient, HttpError, HttpResponse, HttpRequest } from '../http/types.js';
-import type { Cache } from '../cache/types.js';
+import type { Cache, KeyValueClient } from '../cache/types.js';
+import type { TokenValidator } from '../validation/types.js';
+import type { TokenValidationResult } from '../types.js';
+import type {
+  TelemetryAttributeValue,
+  TelemetryAttributes,
+  TelemetryMeter,
+  TelemetrySpan,
+  TelemetryTracer,
+} from '../telemetry/types.js';
+import { createAuthenticationInfo } from './fixtures.js';
 
 // ============================================================================
 // HTTP Client Mocks
@@ -163,6 +175,45 @@ export const createMockCache = <T>(
   };
 };
 
+/**
+ * Creates an in-process fake key-value client for testing shared cache adapters.
+ * Stores raw strings with absolute expiry based on Date.now().
+ */
+export const createFakeKeyValueClient = (): KeyValueClient & {
+  readonly data: Map<string, { readonly value: string; readonly expiresAt: number }>;
+} => {
+  const data = new Map<string, { readonly value: string; readonly expiresAt: number }>();
+
+  return {
+    data,
+
+    get: (key: string): Promise<string | null> => {
+      const entry = data.get(key);
+      if (entry === undefined || Date.now() > entry.expiresAt) {
+        data.delete(key);
+        return Promise.resolve(null);
+      }
+      return Promise.resolve(entry.value);
+    },
+
+    set: (key: string, value: string, ttlMs: number): Promise<void> => {
+      data.set(key, { value, expiresAt: Date.now() + ttlMs });
+      return Promise.resolve();
+    },
+
+    delete: (key: string): Promise<boolean> => Promise.resolve(data.delete(key)),
+
+    deleteByPrefix: (prefix: string): Promise<void> => {
+      for (const key of [...data.keys()]) {
+        if (key.startsWith(prefix)) {
+          data.delete(key);
+        }
+      }
+      return Promise.resolve();
+    },
+  };
+};
+
 // ============================================================================
 // Timer Mocks
 // ============================================================================
@@ -192,3 +243,122 @@ export const createFakeTimer = (initialTime = Date.now()): FakeTimer => {
     },
   };
 };
+
+// ============================================================================
+// Validator Mocks
+// ============================================================================
+
+/**
+ * Creates a mock token validator that resolves every validation to the given result.
+ */
+export const createMockValidator = (
+  validateResult: TokenValidationResult,
+  authInfo = createAuthenticationInfo()
+): TokenValidator => ({
+  validate: vi.fn().mockResolvedValue(validateResult),
+  getAuthenticationInfo: vi.fn().mockResolvedValue(authInfo),
+  refreshCache: vi.fn().mockResolvedValue(undefined),
+  revoke: vi.fn().mockResolvedValue({ revoked: true }),
+  invalidateToken: vi.fn().mockResolvedValue(undefined),
+  close: vi.fn(),
+});
+
+// ============================================================================
+// Telemetry Mocks
+// ============================================================================
+
+/**
+ * A span finished by the in-memory tracer.
+ */
+export interface RecordedSpan {
+  readonly name: string;
+  /** Name of the span that was active when this one started */
+  readonly parent: string | undefined;
+  readonly attributes: Record<string, TelemetryAttributeValue>;
+  status: { readonly code: number; readonly message?: string } | undefined;
+}
+
+/**
+ * A value added to a counter or recorded in a histogram.
+ */
+export interface RecordedMeasurement {
+  readonly instrument: string;
+  readonly value: number;
+  readonly attributes: TelemetryAttributes;
+}
+
+/**
+ * In-memory stand-in for an OpenTelemetry tracer and meter with an in-memory exporter.
+ */
+export interface InMemoryTelemetry {
+  readonly tracer: TelemetryTracer;
+  readonly meter: TelemetryMeter;
+  /** Finished spans, in the order they ended */
+  readonly spans: RecordedSpan[];
+  readonly measurements: RecordedMeasurement[];
+  /** Finished spans with the given name */
+  readonly spansNamed: (name: string) => readonly RecordedSpan[];
+  /** Measurements recorded by the given instrument */
+  readonly measurementsOf: (instrument: string) => readonly RecordedMeasurement[];
+}
+
+/**
+ * Creates an in-memory tracer and meter that record spans and measurements for assertions.
+ * Active spans are tracked across awaits, so nested spans record their parent.
+ */
+export const createInMemoryTelemetry = (): InMemoryTelemetry => {
+  const spans: RecordedSpan[] = [];
+  const measurements: RecordedMeasurement[] = [];
+  const activeSpan = new AsyncLocalStorage<RecordedSpan>();
+
+  const tracer: TelemetryTracer = {
+    startActiveSpan: <F extends (span: TelemetrySpan) => unknown>(
+      name: string,
+      fn: F
+    ): ReturnType<F> => {
+      const recorded: RecordedSpan = {
+        name,
+        parent: activeSpan.getStore()?.name,
+        attributes: {},
+        status: undefined,
+      };
+      const span: TelemetrySpan = {
+        setAttribute: (key, value) => {
+          recorded.attributes[key] = value;
+          return span;
+        },
+        setStatus: (status) => {
+          recorded.status = status;
+          return span;
+        },
+        end: () => {
+          spans.push(recorded);
+        },
+      };
+      return activeSpan.run(recorded, () => fn(span)) as ReturnType<F>;
+    },
+  };
+
+  const meter: TelemetryMeter = {
+    createCounter: (instrument) => ({
+      add: (value, attributes = {}) => {
+        measurements.push({ instrument, value, attributes });
+      },
+    }),
+    createHistogram: (instrument) => ({
+      record: (value, attributes = {}) => {
+        measurements.push({ instrument, value, attributes });
+      },
+    }),
+  };
+
+  return {
+    tracer,
+    meter,
+    spans,
+    measurements,
+    spansNamed: (name) => spans.filter((span) => span.name === name),
+    measurementsOf: (instrument) =>
+      measurements.filter((measurement) => measurement.instrument === instrument),
+  };
+};
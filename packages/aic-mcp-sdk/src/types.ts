@@ -32,6 +32,11 @@ export interface TokenValidationFailure {
   readonly message: string;
   /** Information about where to authenticate */
   readonly authenticationInfo?: AuthenticationInfo;
+  /**
+   * Seconds until AM is expected to be reachable again, when a VALIDATION_ERROR was caused
+   * by an unavailable endpoint that said so (Retry-After) or by an open circuit breaker
+   */
+  readonly retryAfter?: number;
 }
 
 /**
@@ -59,12 +64,70 @@ export interface TokenClaims {
   readonly scope?: string;
   /** Client ID that requested the token */
   readonly client_id?: string;
+  /** Confirmation claim for sender-constrained tokens (RFC 9449 Section 6) */
+  readonly cnf?: TokenConfirmation;
+  /** Authentication context class reference */
+  readonly acr?: string;
+  /** Time the user authenticated (Unix timestamp) */
+  readonly auth_time?: number;
+  /** Fine-grained permissions granted via Rich Authorization Requests (RFC 9396) */
+  readonly authorization_details?: readonly AuthorizationDetail[];
   /** Additional custom claims */
   readonly [key: string]: unknown;
 }
 
+/**
+ * Confirmation claim binding a token to a proof-of-possession key.
+ */
+export interface TokenConfirmation {
+  /** Base64url SHA-256 JWK thumbprint of the DPoP key (RFC 7638) */
+  readonly jkt?: string;
+}
+
+/**
+ * An entry of the "authorization_details" claim (RFC 9396 Section 2).
+ */
+export interface AuthorizationDetail {
+  /** Authorization details type (e.g., "todo_access") */
+  readonly type: string;
+  /** Actions permitted on the resource (e.g., "read", "write") */
+  readonly actions?: readonly string[];
+  /** Locations (URIs) of the resource */
+  readonly locations?: readonly string[];
+  /** Kinds of data being requested */
+  readonly datatypes?: readonly string[];
+  /** Identifier of a specific resource */
+  readonly identifier?: string;
+  /** Privilege levels being requested */
+  readonly privileges?: readonly string[];
+  /** Additional type-specific fields */
+  readonly [key: string]: unknown;
+}
+
+/**
+ * Authorization details an operation requires. A token satisfies the requirement when one of
+ * its authorization details has the same type and lists every required action and location.
+ */
+export interface AuthorizationDetailRequirement {
+  /** Required authorization details type */
+  readonly type: string;
+  /** Actions that must all be granted */
+  readonly actions?: readonly string[];
+  /** Locations that must all be granted */
+  readonly locations?: readonly string[];
+}
+
 /**
  * Error codes for token validation failures.
+ * - INSUFFICIENT_USER_AUTHENTICATION: the token's acr or auth_time does not meet step-up
+ *   requirements (RFC 9470)
+ * - ALGORITHM_NOT_ALLOWED: the JWT is signed with an algorithm outside the allowlist
+ * - INVALID_TOKEN_TYPE: strict RFC 9068 mode and the JWT "typ" header is not "at+jwt"
+ * - MISSING_CLIENT_ID: strict RFC 9068 mode and the JWT has no client_id claim
+ * - ID_TOKEN_REJECTED: strict RFC 9068 mode and an ID token was presented as an access token
+ * - INVALID_DPOP_PROOF: the DPoP proof is missing, malformed, or does not match the request
+ * - DPOP_PROOF_REPLAYED: the DPoP proof's jti has already been used
+ * - DPOP_BINDING_MISMATCH: the proof key does not match the token's cnf.jkt
  */
 export type TokenValidationError =
   | 'MISSING_TOKEN'
@@ -75,6 +138,14 @@ export type TokenValidationError =
   | 'INVALID_AUDIENCE'
   | 'REVOKED_TOKEN'
   | 'INSUFFICIENT_SCOPE'
+  | 'INSUFFICIENT_USER_AUTHENTICATION'
+  | 'ALGORITHM_NOT_ALLOWED'
+  | 'INVALID_TOKEN_TYPE'
+  | 'MISSING_CLIENT_ID'
+  | 'ID_TOKEN_REJECTED'
+  | 'INVALID_DPOP_PROOF'
+  | 'DPOP_PROOF_REPLAYED'
+  | 'DPOP_BINDING_MISMATCH'
   | 'VALIDATION_ERROR';
 
 /**
@@ -90,3 +161,79 @@ export interface AuthenticationInfo {
   /** Supported scopes */
   readonly supportedScopes?: readonly string[];
 }
+
+/**
+ * Hint passed to the revocation endpoint about the kind of token being revoked (RFC 7009).
+ */
+export type TokenTypeHint = 'access_token' | 'refresh_token';
+
+/**
+ * Result of a successful RFC 7009 token revocation.
+ */
+export interface TokenRevocationSuccess {
+  readonly revoked: true;
+}
+
+/**
+ * Result of a failed RFC 7009 token revocation.
+ */
+export interface TokenRevocationFailure {
+  readonly revoked: false;
+  /** Error code describing the failure */
+  readonly error: TokenRevocationError;
+  /** Human-readable error message */
+  readonly message: string;
+}
+
+/**
+ * Discriminated union of token revocation results.
+ */
+export type TokenRevocationResult = TokenRevocationSuccess | TokenRevocationFailure;
+
+/**
+ * Error codes for token revocation failures.
+ * - MISSING_TOKEN: no token was provided
+ * - REVOCATION_ERROR: revocation is not configured, or the request failed or was refused
+ */
+export type TokenRevocationError = 'MISSING_TOKEN' | 'REVOCATION_ERROR';
+
+/**
+ * Result of a successful RFC 8693 token exchange.
+ */
+export interface TokenExchangeSuccess {
+  readonly success: true;
+  /** The issued token */
+  readonly accessToken: string;
+  /** Type of the issued token (e.g., "urn:ietf:params:oauth:token-type:access_token") */
+  readonly issuedTokenType: string;
+  /** How the token is used (e.g., "Bearer") */
+  readonly tokenType: string;
+  /** Expiration time (Unix timestamp), if the server reported expires_in */
+  readonly expiresAt?: number;
+  /** Scopes granted to the issued token, if different from those requested */
+  readonly scope?: string;
+}
+
+/**
+ * Result of a failed RFC 8693 token exchange.
+ */
+export interface TokenExchangeFailure {
+  readonly success: false;
+  /** Error code describing the failure */
+  readonly error: TokenExchangeError;
+  /** Human-readable error message */
+  readonly message: string;
+}
+
+/**
+ * Discriminated union of token exchange results.
+ */
+export type TokenExchangeResult = TokenExchangeSuccess | TokenExchangeFailure;
+
+/**
+ * Error codes for token exchange failures.
+ * - MISSING_TOKEN: no subject token was provided
+ * - EXCHANGE_REJECTED: the authorization server refused the exchange (HTTP 400/401/403)
+ * - EXCHANGE_ERROR: discovery, network or response parsing failed
+ */
+export type TokenExchangeError = 'MISSING_TOKEN' | 'EXCHANGE_REJECTED' | 'EXCHANGE_ERROR';
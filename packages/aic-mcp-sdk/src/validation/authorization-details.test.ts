@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseAuthorizationDetails,
+  getUnmetAuthorizationDetails,
+} from './authorization-details.js';
+
+const TODO_LOCATION = 'https://todos.example.com';
+
+describe('parseAuthorizationDetails', () => {
+  describe('given a value that is not an array', () => {
+    it('returns undefined', () => {
+      expect(parseAuthorizationDetails(undefined)).toBeUndefined();
+      expect(parseAuthorizationDetails('todo_access')).toBeUndefined();
+      expect(parseAuthorizationDetails({ type: 'todo_access' })).toBeUndefined();
+    });
+  });
+
+  describe('given well-formed entries', () => {
+    it('returns them unchanged, including type-specific fields', () => {
+      const details = [
+        { type: 'todo_access', actions: ['read'], locations: [TODO_LOCATION], listId: 'inbox' },
+        { type: 'payment_initiation', identifier: 'pay-123' },
+      ];
+
+      const result = parseAuthorizationDetails(details);
+
+      expect(result).toEqual(details);
+    });
+  });
+
+  describe('given malformed entries', () => {
+    it('drops entries without a string type or with malformed common fields', () => {
+      const result = parseAuthorizationDetails([
+        { actions: ['read'] },
+        { type: 42 },
+        { type: 'todo_access', actions: 'read' },
+        { type: 'todo_access', locations: [1] },
+        { type: 'todo_access', identifier: 7 },
+        null,
+        'todo_access',
+        { type: 'todo_access', actions: ['read'] },
+      ]);
+
+      expect(result).toEqual([{ type: 'todo_access', actions: ['read'] }]);
+    });
+  });
+});
+
+describe('getUnmetAuthorizationDetails', () => {
+  const granted = [
+    { type: 'todo_access', actions: ['read', 'write'], locations: [TODO_LOCATION] },
+    { type: 'calendar_access', actions: ['read'] },
+  ];
+
+  describe('given requirements satisfied by a single entry', () => {
+    it('returns an empty array', () => {
+      const result = getUnmetAuthorizationDetails(
+        [
+          { type: 'todo_access', actions: ['write'], locations: [TODO_LOCATION] },
+          { type: 'calendar_access' },
+        ],
+        granted
+      );
+
+      expect(result).toEqual([]);
+    });
+  });
+
+  describe('given a requirement for an action that is not granted', () => {
+    it('returns the requirement', () => {
+      const requirement = { type: 'calendar_access', actions: ['write'] };
+
+      const result = getUnmetAuthorizationDetails([requirement], granted);
+
+      expect(result).toEqual([requirement]);
+    });
+  });
+
+  describe('given a requirement for a location the entry does not list', () => {
+    it('returns the requirement', () => {
+      const requirement = { type: 'calendar_access', locations: ['https://calendar.example.com'] };
+
+      const result = getUnmetAuthorizationDetails([requirement], granted);
+
+      expect(result).toEqual([requirement]);
+    });
+  });
+
+  describe('given a requirement only satisfied across two entries', () => {
+    it('returns the requirement', () => {
+      const requirement = { type: 'todo_access', actions: ['read', 'delete'] };
+
+      const result = getUnmetAuthorizationDetails(
+        [requirement],
+        [
+          { type: 'todo_access', actions: ['read'] },
+          { type: 'todo_access', actions: ['delete'] },
+        ]
+      );
+
+      expect(result).toEqual([requirement]);
+    });
+  });
+
+  describe('given no authorization details on the token', () => {
+    it('returns every requirement', () => {
+      const requirements = [{ type: 'todo_access' }];
+
+      const result = getUnmetAuthorizationDetails(requirements, undefined);
+
+      expect(result).toEqual(requirements);
+    });
+  });
+});
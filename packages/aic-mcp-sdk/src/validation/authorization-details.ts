@@ -0,0 +1,80 @@
+import type { AuthorizationDetail, AuthorizationDetailRequirement } from '../types.js';
+
+/** Common RFC 9396 fields that hold arrays of strings */
+const STRING_ARRAY_FIELDS = ['actions', 'locations', 'datatypes', 'privileges'] as const;
+
+const isStringArray = (value: unknown): value is readonly string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isAuthorizationDetail = (value: unknown): value is AuthorizationDetail => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return false;
+  }
+  const record = value as Record<string, unknown>;
+  if (typeof record['type'] !== 'string') {
+    return false;
+  }
+  if (record['identifier'] !== undefined && typeof record['identifier'] !== 'string') {
+    return false;
+  }
+  return STRING_ARRAY_FIELDS.every(
+    (field) => record[field] === undefined || isStringArray(record[field])
+  );
+};
+
+/**
+ * Parses an "authorization_details" claim (RFC 9396).
+ * Entries without a string "type", or whose common fields have the wrong shape, are dropped.
+ *
+ * @param value - Raw claim value from a JWT or introspection response
+ * @returns Well-formed authorization details, or undefined if the claim is not an array
+ */
+export const parseAuthorizationDetails = (
+  value: unknown
+): readonly AuthorizationDetail[] | undefined => {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+  return value.filter(isAuthorizationDetail);
+};
+
+const includesAll = (
+  present: readonly string[] | undefined,
+  required: readonly string[] = []
+): boolean => required.every((value) => present?.includes(value) === true);
+
+/**
+ * Checks whether a single authorization detail grants everything a requirement asks for:
+ * the same type, and every required action and location listed explicitly.
+ */
+const satisfiesRequirement = (
+  detail: AuthorizationDetail,
+  requirement: AuthorizationDetailRequirement
+): boolean =>
+  detail.type === requirement.type &&
+  includesAll(detail.actions, requirement.actions) &&
+  includesAll(detail.locations, requirement.locations);
+
+/**
+ * Returns the requirements from `requirements` that no single entry in `details` satisfies.
+ *
+ * @param requirements - Authorization details the operation needs
+ * @param details - Authorization details granted to the token
+ * @returns Array of unmet requirements (empty if all are satisfied)
+ *
+ * @example
+ * ```typescript
+ * const unmet = getUnmetAuthorizationDetails(
+ *   [{ type: 'todo_access', actions: ['write'] }],
+ *   [{ type: 'todo_access', actions: ['read'] }]
+ * );
+ * // [{ type: 'todo_access', actions: ['write'] }]
+ * ```
+ */
+export const getUnmetAuthorizationDetails = (
+  requirements: readonly AuthorizationDetailRequirement[],
+  details: readonly AuthorizationDetail[] = []
+): readonly AuthorizationDetailRequirement[] =>
+  requirements.filter(
+    (requirement) => !details.some((detail) => satisfiesRequirement(detail, requirement))
+  );
@@ -1,11 +1,24 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ok, err } from 'neverthrow';
 import {
   buildDiscoveryUrl,
   fetchDiscoveryDocument,
   createCachedDiscoveryFetcher,
   toAuthenticationInfo,
 } from './discovery.js';
-import { createSuccessHttpClient, createErrorHttpClient, createMockCache } from '../test/mocks.js';
+import {
+  createSuccessHttpClient,
+  createErrorHttpClient,
+  createMockCache,
+  createTrackingHttpClient,
+  createFakeKeyValueClient,
+  createInMemoryTelemetry,
+} from '../test/mocks.js';
+import { createTelemetry } from '../telemetry/telemetry.js';
+import { createKeyValueCache } from '../cache/async-cache.js';
+import { createMemoryCache } from '../cache/memory-cache.js';
+import type { HttpClient } from '../http/types.js';
+import type { OidcDiscoveryDocument } from './types.js';
 import {
   TEST_AM_URL,
   TEST_REALM_PATH,
@@ -242,6 +255,176 @@ describe('createCachedDiscoveryFetcher', () => {
     });
   });
 
+  describe('given async cache', () => {
+    it('stores and reuses the document through the shared store', async () => {
+      const discoveryDoc = createDiscoveryDocument();
+      const requests: { url: string; method: string }[] = [];
+      const httpClient = createTrackingHttpClient(discoveryDoc, requests);
+      const cache = createKeyValueCache<OidcDiscoveryDocument>(createFakeKeyValueClient());
+
+      const fetcher = createCachedDiscoveryFetcher(
+        httpClient,
+        cache,
+        TEST_AM_URL,
+        TEST_REALM_PATH,
+        ONE_HOUR_MS
+      );
+
+      await fetcher.fetch();
+      const result = await fetcher.fetch();
+
+      expect(result.isOk()).toBe(true);
+      expect(requests.length).toBe(1);
+      expect(await cache.get('oidc-discovery')).toEqual(discoveryDoc);
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    /** Max-stale window used in these tests */
+    const MAX_STALE_MS = 10 * 60 * 1000;
+
+    /**
+     * Creates an HTTP client whose availability can be toggled and whose calls are counted.
+     */
+    const createToggleHttpClient = (
+      discoveryDoc: OidcDiscoveryDocument
+    ): HttpClient & { available: boolean; calls: number } => {
+      const json: HttpClient['json'] = () => {
+        client.calls++;
+        return Promise.resolve(
+          client.available
+            ? ok({ status: 200, statusText: 'OK', headers: {}, body: discoveryDoc as never })
+            : err({ type: 'http' as const, message: 'HTTP 503: Service Unavailable', status: 503 })
+        );
+      };
+      const client = {
+        available: true,
+        calls: 0,
+        json,
+        text: () => Promise.resolve(ok({ status: 200, statusText: 'OK', headers: {}, body: '' })),
+      };
+      return client;
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    describe('given the cached document has expired', () => {
+      it('serves the stale document and refreshes in the background', async () => {
+        const discoveryDoc = createDiscoveryDocument();
+        const httpClient = createToggleHttpClient(discoveryDoc);
+        const fetcher = createCachedDiscoveryFetcher(
+          httpClient,
+          createMemoryCache(),
+          TEST_AM_URL,
+          TEST_REALM_PATH,
+          ONE_HOUR_MS,
+          { staleWhileRevalidate: true, maxStaleMs: MAX_STALE_MS }
+        );
+        await fetcher.fetch();
+        vi.advanceTimersByTime(ONE_HOUR_MS + 1);
+
+        const result = await fetcher.fetch();
+
+        expect(result.isOk()).toBe(true);
+        expect(httpClient.calls).toBe(2);
+      });
+
+      it('keeps serving the stale document when the refresh fails', async () => {
+        const discoveryDoc = createDiscoveryDocument();
+        const httpClient = createToggleHttpClient(discoveryDoc);
+        const fetcher = createCachedDiscoveryFetcher(
+          httpClient,
+          createMemoryCache(),
+          TEST_AM_URL,
+          TEST_REALM_PATH,
+          ONE_HOUR_MS,
+          { staleWhileRevalidate: true, maxStaleMs: MAX_STALE_MS }
+        );
+        await fetcher.fetch();
+        httpClient.available = false;
+        vi.advanceTimersByTime(ONE_HOUR_MS + 1);
+
+        const result = await fetcher.fetch();
+
+        expect(result.isOk()).toBe(true);
+        if (result.isOk()) {
+          expect(result.value).toEqual(discoveryDoc);
+        }
+      });
+    });
+
+    describe('given the max-stale window has passed', () => {
+      it('fails closed when AM is unreachable', async () => {
+        const httpClient = createToggleHttpClient(createDiscoveryDocument());
+        const fetcher = createCachedDiscoveryFetcher(
+          httpClient,
+          createMemoryCache(),
+          TEST_AM_URL,
+          TEST_REALM_PATH,
+          ONE_HOUR_MS,
+          { staleWhileRevalidate: true, maxStaleMs: MAX_STALE_MS }
+        );
+        await fetcher.fetch();
+        httpClient.available = false;
+        vi.advanceTimersByTime(ONE_HOUR_MS + MAX_STALE_MS + 1);
+
+        const result = await fetcher.fetch();
+
+        expect(result.isErr()).toBe(true);
+        if (result.isErr()) {
+          expect(result.error.code).toBe('DISCOVERY_ERROR');
+        }
+      });
+    });
+
+    describe('given stale-while-revalidate is disabled', () => {
+      it('fails when the document has expired and AM is unreachable', async () => {
+        const httpClient = createToggleHttpClient(createDiscoveryDocument());
+        const fetcher = createCachedDiscoveryFetcher(
+          httpClient,
+          createMemoryCache(),
+          TEST_AM_URL,
+          TEST_REALM_PATH,
+          ONE_HOUR_MS
+        );
+        await fetcher.fetch();
+        httpClient.available = false;
+        vi.advanceTimersByTime(ONE_HOUR_MS + 1);
+
+        const result = await fetcher.fetch();
+
+        expect(result.isErr()).toBe(true);
+      });
+    });
+
+    describe('refresh', () => {
+      it('fetches synchronously instead of serving the stale document', async () => {
+        const httpClient = createToggleHttpClient(createDiscoveryDocument());
+        const fetcher = createCachedDiscoveryFetcher(
+          httpClient,
+          createMemoryCache(),
+          TEST_AM_URL,
+          TEST_REALM_PATH,
+          ONE_HOUR_MS,
+          { staleWhileRevalidate: true, maxStaleMs: MAX_STALE_MS }
+        );
+        await fetcher.fetch();
+        httpClient.available = false;
+
+        const result = await fetcher.refresh();
+
+        expect(result.isErr()).toBe(true);
+        expect(httpClient.calls).toBe(2);
+      });
+    });
+  });
+
   describe('clear', () => {
     it('removes cached discovery document', async () => {
       const discoveryDoc = createDiscoveryDocument();
@@ -257,11 +440,61 @@ describe('createCachedDiscoveryFetcher', () => {
       );
 
       await fetcher.fetch();
-      fetcher.clear();
+      await fetcher.clear();
 
       expect(cache.deleteCalls).toContain('oidc-discovery');
     });
   });
+
+  describe('telemetry', () => {
+    it('records a discovery span with cache miss, then hit', async () => {
+      const telemetry = createInMemoryTelemetry();
+      const fetcher = createCachedDiscoveryFetcher(
+        createSuccessHttpClient(createDiscoveryDocument()),
+        createMemoryCache<OidcDiscoveryDocument>(),
+        TEST_AM_URL,
+        TEST_REALM_PATH,
+        ONE_HOUR_MS,
+        {},
+        createTelemetry(telemetry)
+      );
+
+      await fetcher.fetch();
+      await fetcher.fetch();
+
+      expect(
+        telemetry.spansNamed('aic.discovery').map((span) => span.attributes['aic.cache.hit'])
+      ).toEqual([false, true]);
+      expect(telemetry.measurementsOf('aic.backchannel.duration')).toEqual([
+        expect.objectContaining({ attributes: { 'aic.operation': 'discovery' } }),
+      ]);
+    });
+
+    describe('given the discovery request fails', () => {
+      it('marks the span as failed with the error code', async () => {
+        const telemetry = createInMemoryTelemetry();
+        const fetcher = createCachedDiscoveryFetcher(
+          createErrorHttpClient('Service unavailable'),
+          createMemoryCache<OidcDiscoveryDocument>(),
+          TEST_AM_URL,
+          TEST_REALM_PATH,
+          ONE_HOUR_MS,
+          {},
+          createTelemetry(telemetry)
+        );
+
+        await fetcher.fetch();
+
+        const [span] = telemetry.spansNamed('aic.discovery');
+        expect(span?.attributes['aic.error.code']).toBe('DISCOVERY_ERROR');
+        expect(span?.status?.code).toBe(2);
+        expect(telemetry.measurementsOf('aic.backchannel.duration')[0]?.attributes).toEqual({
+          'aic.operation': 'discovery',
+          'aic.error.code': 'DISCOVERY_ERROR',
+        });
+      });
+    });
+  });
 });
 
 // ============================================================================
@@ -1,32 +1,45 @@
 import { ok, err, type Result } from 'neverthrow';
 import type { HttpClient } from '../http/types.js';
-import type { Cache } from '../cache/types.js';
+import type { CacheLike } from '../cache/types.js';
+import { toAsyncCache } from '../cache/async-cache.js';
 import type { AuthenticationInfo } from '../types.js';
-import type { OidcDiscoveryDocument, ValidationError } from './types.js';
+import type { DiscoveryFetcherOptions, OidcDiscoveryDocument, ValidationError } from './types.js';
 import { createDiscoveryError } from './errors.js';
+import type { Telemetry } from '../telemetry/types.js';
+import { noopTelemetry, TELEMETRY_ATTRIBUTES, TELEMETRY_SPANS } from '../telemetry/telemetry.js';
 
 /** Default AM realm path */
 const DEFAULT_REALM_PATH = '/am/oauth2/realms/root/realms/alpha';
 
+/** Default max-stale window for stale-while-revalidate: 1 hour */
+const DEFAULT_MAX_STALE_MS = 60 * 60 * 1000;
+
 /** Discovery document cache key */
 const DISCOVERY_CACHE_KEY = 'oidc-discovery';
 
 /**
- * Builds the OIDC discovery URL for an AM instance.
+ * Builds the issuer URL AM uses for a realm.
  *
  * @param amUrl - Base URL of the AM instance
  * @param realmPath - OAuth realm path (default: /am/oauth2/realms/root/realms/alpha)
- * @returns The well-known configuration URL
+ * @returns The realm's issuer URL
  */
-export const buildDiscoveryUrl = (
-  amUrl: string,
-  realmPath: string = DEFAULT_REALM_PATH
-): string => {
+export const buildIssuerUrl = (amUrl: string, realmPath: string = DEFAULT_REALM_PATH): string => {
   const baseUrl = amUrl.endsWith('/') ? amUrl.slice(0, -1) : amUrl;
   const path = realmPath.startsWith('/') ? realmPath : `/${realmPath}`;
-  return `${baseUrl}${path}/.well-known/openid-configuration`;
+  return `${baseUrl}${path}`;
 };
 
+/**
+ * Builds the OIDC discovery URL for an AM instance.
+ *
+ * @param amUrl - Base URL of the AM instance
+ * @param realmPath - OAuth realm path (default: /am/oauth2/realms/root/realms/alpha)
+ * @returns The well-known configuration URL
+ */
+export const buildDiscoveryUrl = (amUrl: string, realmPath: string = DEFAULT_REALM_PATH): string =>
+  `${buildIssuerUrl(amUrl, realmPath)}/.well-known/openid-configuration`;
+
 /**
  * Validates that a discovery document has required fields.
  *
@@ -96,45 +109,74 @@ export const fetchDiscoveryDocument = async (
 /**
  * Creates a cached discovery document fetcher.
  *
+ * With stale-while-revalidate enabled, the last successfully fetched document keeps being
+ * served after the cache entry expires while a background refresh runs. Once the document is
+ * older than the TTL plus `maxStaleMs`, fetches block on the network again and fail if it is
+ * unavailable.
+ *
  * @param httpClient - HTTP client to use for requests
- * @param cache - Cache instance for storing discovery document
+ * @param cache - Cache instance for storing discovery document (sync or async)
  * @param amUrl - Base URL of the AM instance
  * @param realmPath - OAuth realm path
  * @param cacheTtlMs - Cache TTL in milliseconds
+ * @param options - Optional stale-while-revalidate settings
+ * @param telemetry - Instrumentation for discovery spans and back-channel latency
  * @returns Function that fetches (or returns cached) discovery document
  */
 export const createCachedDiscoveryFetcher = (
   httpClient: HttpClient,
-  cache: Cache<OidcDiscoveryDocument>,
+  cache: CacheLike<OidcDiscoveryDocument>,
   amUrl: string,
   realmPath = DEFAULT_REALM_PATH,
-  cacheTtlMs = 3600000 // 1 hour default
+  cacheTtlMs = 3600000, // 1 hour default
+  options: DiscoveryFetcherOptions = {},
+  telemetry: Telemetry = noopTelemetry
 ): {
   readonly fetch: () => Promise<Result<OidcDiscoveryDocument, ValidationError>>;
-  readonly clear: () => void;
+  readonly refresh: () => Promise<Result<OidcDiscoveryDocument, ValidationError>>;
+  readonly clear: () => Promise<void>;
 } => {
+  const { staleWhileRevalidate = false, maxStaleMs = DEFAULT_MAX_STALE_MS } = options;
+  const store = toAsyncCache(cache);
+
   // Track in-flight fetch to deduplicate concurrent requests
   let inFlightFetch: Promise<Result<OidcDiscoveryDocument, ValidationError>> | undefined;
 
-  const fetch = async (): Promise<Result<OidcDiscoveryDocument, ValidationError>> => {
-    // Check cache first
-    const cached = cache.get(DISCOVERY_CACHE_KEY);
-    if (cached !== undefined) {
-      return ok(cached);
-    }
+  // Last document seen as fresh, kept for stale-while-revalidate
+  let lastKnown:
+    | { readonly document: OidcDiscoveryDocument; readonly staleUntil: number }
+    | undefined;
+
+  /**
+   * Records a document known to be fresh until the given time.
+   */
+  const remember = (document: OidcDiscoveryDocument, freshUntil: number): void => {
+    const staleUntil = freshUntil + maxStaleMs;
+    lastKnown = { document, staleUntil: Math.max(staleUntil, lastKnown?.staleUntil ?? 0) };
+  };
 
+  const fetchFromNetwork = (): Promise<Result<OidcDiscoveryDocument, ValidationError>> => {
     // Return existing in-flight request if one exists
     if (inFlightFetch !== undefined) {
       return inFlightFetch;
     }
 
     // Create new fetch and track it
-    inFlightFetch = fetchDiscoveryDocument(httpClient, amUrl, realmPath).then((result) => {
-      // Clear in-flight tracker
-      inFlightFetch = undefined;
-
-      if (result.isOk()) {
-        cache.set(DISCOVERY_CACHE_KEY, result.value, cacheTtlMs);
+    const startedAt = Date.now();
+    inFlightFetch = fetchDiscoveryDocument(httpClient, amUrl, realmPath).then(async (result) => {
+      telemetry.recordBackChannel(
+        'discovery',
+        Date.now() - startedAt,
+        result.isErr() ? result.error.code : undefined
+      );
+      try {
+        if (result.isOk()) {
+          remember(result.value, Date.now() + cacheTtlMs);
+          await store.set(DISCOVERY_CACHE_KEY, result.value, cacheTtlMs);
+        }
+      } finally {
+        // Clear in-flight tracker
+        inFlightFetch = undefined;
       }
 
       return result;
@@ -143,11 +185,52 @@ export const createCachedDiscoveryFetcher = (
     return inFlightFetch;
   };
 
-  const clear = (): void => {
-    cache.delete(DISCOVERY_CACHE_KEY);
+  const revalidateInBackground = async (): Promise<void> => {
+    try {
+      await fetchFromNetwork();
+    } catch {
+      // Keep serving the stale document; the next fetch will retry
+    }
+  };
+
+  const fetch = (): Promise<Result<OidcDiscoveryDocument, ValidationError>> =>
+    telemetry.span(TELEMETRY_SPANS.discovery, async (span) => {
+      // Check cache first
+      const cached = await store.get(DISCOVERY_CACHE_KEY);
+      if (cached !== undefined) {
+        if (staleWhileRevalidate) {
+          remember(cached, Date.now());
+        }
+        span.setAttribute(TELEMETRY_ATTRIBUTES.cacheHit, true);
+        return ok(cached);
+      }
+
+      // Serve the stale document while refreshing, until the max-stale window has passed
+      if (staleWhileRevalidate && lastKnown !== undefined && Date.now() <= lastKnown.staleUntil) {
+        void revalidateInBackground();
+        span.setAttribute(TELEMETRY_ATTRIBUTES.cacheHit, true);
+        return ok(lastKnown.document);
+      }
+
+      span.setAttribute(TELEMETRY_ATTRIBUTES.cacheHit, false);
+      const result = await fetchFromNetwork();
+      if (result.isErr()) {
+        telemetry.fail(span, result.error.code, result.error.message);
+      }
+      return result;
+    });
+
+  const refresh = async (): Promise<Result<OidcDiscoveryDocument, ValidationError>> => {
+    await store.delete(DISCOVERY_CACHE_KEY);
+    return fetchFromNetwork();
+  };
+
+  const clear = async (): Promise<void> => {
+    lastKnown = undefined;
+    await store.delete(DISCOVERY_CACHE_KEY);
   };
 
-  return { fetch, clear };
+  return { fetch, refresh, clear };
 };
 
 /**
@@ -0,0 +1,202 @@
+import { describe, it, expect } from 'vitest';
+import { verifyDpopProof, DEFAULT_DPOP_ALGORITHMS, type DpopVerificationOptions } from './dpop.js';
+import { createMemoryCache } from '../cache/memory-cache.js';
+import { toAsyncCache } from '../cache/async-cache.js';
+import type { AsyncCache } from '../cache/types.js';
+import {
+  TEST_DPOP_METHOD,
+  TEST_DPOP_URL,
+  VALID_FORMAT_JWT,
+  createDpopKey,
+} from '../test/fixtures.js';
+
+const ACCESS_TOKEN = VALID_FORMAT_JWT;
+
+const OPTIONS: DpopVerificationOptions = {
+  algorithms: DEFAULT_DPOP_ALGORITHMS,
+  maxProofAgeSeconds: 60,
+  clockToleranceSeconds: 0,
+};
+
+const createReplayCache = (): AsyncCache<boolean> => toAsyncCache(createMemoryCache<boolean>());
+
+const request = (proof: string): { proof: string; method: string; url: string } => ({
+  proof,
+  method: TEST_DPOP_METHOD,
+  url: TEST_DPOP_URL,
+});
+
+describe('verifyDpopProof', () => {
+  describe('given a valid proof bound to the token key', () => {
+    it('returns the key thumbprint', async () => {
+      const key = await createDpopKey();
+      const proof = await key.createProof(ACCESS_TOKEN);
+
+      const result = await verifyDpopProof(
+        ACCESS_TOKEN,
+        key.jkt,
+        request(proof),
+        createReplayCache(),
+        OPTIONS
+      );
+
+      expect(result.isOk()).toBe(true);
+      if (result.isOk()) {
+        expect(result.value).toBe(key.jkt);
+      }
+    });
+
+    it('ignores query and fragment when matching htu', async () => {
+      const key = await createDpopKey();
+      const proof = await key.createProof(ACCESS_TOKEN);
+
+      const result = await verifyDpopProof(
+        ACCESS_TOKEN,
+        key.jkt,
+        { proof, method: 'post', url: `${TEST_DPOP_URL}?session=1#top` },
+        createReplayCache(),
+        OPTIONS
+      );
+
+      expect(result.isOk()).toBe(true);
+    });
+  });
+
+  describe('given the same proof is presented twice', () => {
+    it('returns DPOP_PROOF_REPLAYED on the second use', async () => {
+      const key = await createDpopKey();
+      const proof = await key.createProof(ACCESS_TOKEN);
+      const replayCache = createReplayCache();
+
+      await verifyDpopProof(ACCESS_TOKEN, key.jkt, request(proof), replayCache, OPTIONS);
+      const result = await verifyDpopProof(
+        ACCESS_TOKEN,
+        key.jkt,
+        request(proof),
+        replayCache,
+        OPTIONS
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe('DPOP_PROOF_REPLAYED');
+      }
+    });
+  });
+
+  describe('given a proof signed by a different key than the token binding', () => {
+    it('returns DPOP_BINDING_MISMATCH', async () => {
+      const key = await createDpopKey();
+      const otherKey = await createDpopKey();
+      const proof = await otherKey.createProof(ACCESS_TOKEN);
+
+      const result = await verifyDpopProof(
+        ACCESS_TOKEN,
+        key.jkt,
+        request(proof),
+        createReplayCache(),
+        OPTIONS
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe('DPOP_BINDING_MISMATCH');
+      }
+    });
+  });
+
+  describe('given an invalid proof', () => {
+    const cases: readonly {
+      readonly name: string;
+      readonly payload?: Record<string, unknown>;
+      readonly header?: Record<string, unknown>;
+      readonly message: string;
+    }[] = [
+      { name: 'wrong htm', payload: { htm: 'GET' }, message: '"htm"' },
+      { name: 'wrong htu', payload: { htu: 'https://other.example.com/mcp' }, message: '"htu"' },
+      { name: 'wrong ath', payload: { ath: 'not-the-token-hash' }, message: '"ath"' },
+      { name: 'missing jti', payload: { jti: undefined }, message: '"jti"' },
+      { name: 'stale iat', payload: { iat: Math.floor(Date.now() / 1000) - 600 }, message: 'iat' },
+      { name: 'wrong typ', header: { typ: 'JWT' }, message: 'typ' },
+    ];
+
+    for (const testCase of cases) {
+      it(`returns INVALID_DPOP_PROOF for ${testCase.name}`, async () => {
+        const key = await createDpopKey();
+        const proof = await key.createProof(ACCESS_TOKEN, {
+          ...(testCase.payload !== undefined ? { payload: testCase.payload } : {}),
+          ...(testCase.header !== undefined ? { header: testCase.header } : {}),
+        });
+
+        const result = await verifyDpopProof(
+          ACCESS_TOKEN,
+          key.jkt,
+          request(proof),
+          createReplayCache(),
+          OPTIONS
+        );
+
+        expect(result.isErr()).toBe(true);
+        if (result.isErr()) {
+          expect(result.error.code).toBe('INVALID_DPOP_PROOF');
+          expect(result.error.message).toContain(testCase.message);
+        }
+      });
+    }
+
+    it('returns INVALID_DPOP_PROOF when the algorithm is not accepted', async () => {
+      const key = await createDpopKey();
+      const proof = await key.createProof(ACCESS_TOKEN);
+
+      const result = await verifyDpopProof(
+        ACCESS_TOKEN,
+        key.jkt,
+        request(proof),
+        createReplayCache(),
+        { ...OPTIONS, algorithms: ['RS256'] }
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe('INVALID_DPOP_PROOF');
+      }
+    });
+
+    it('returns INVALID_DPOP_PROOF for a value that is not a JWT', async () => {
+      const key = await createDpopKey();
+
+      const result = await verifyDpopProof(
+        ACCESS_TOKEN,
+        key.jkt,
+        request('not-a-jwt'),
+        createReplayCache(),
+        OPTIONS
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe('INVALID_DPOP_PROOF');
+      }
+    });
+
+    it('does not record the jti of a rejected proof', async () => {
+      const key = await createDpopKey();
+      const replayCache = createReplayCache();
+      const badProof = await key.createProof(ACCESS_TOKEN, {
+        payload: { jti: 'shared', htm: 'GET' },
+      });
+      const goodProof = await key.createProof(ACCESS_TOKEN, { payload: { jti: 'shared' } });
+
+      await verifyDpopProof(ACCESS_TOKEN, key.jkt, request(badProof), replayCache, OPTIONS);
+      const result = await verifyDpopProof(
+        ACCESS_TOKEN,
+        key.jkt,
+        request(goodProof),
+        replayCache,
+        OPTIONS
+      );
+
+      expect(result.isOk()).toBe(true);
+    });
+  });
+});
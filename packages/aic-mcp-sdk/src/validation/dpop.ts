@@ -0,0 +1,135 @@
+import { ok, err, type Result } from 'neverthrow';
+import { jwtVerify, EmbeddedJWK, calculateJwkThumbprint, type JWK } from 'jose';
+import type { AsyncCache } from '../cache/types.js';
+import type { DpopRequestContext, ValidationError } from './types.js';
+import { hashToken } from './token-hash.js';
+
+/** Default accepted DPoP proof signing algorithms (asymmetric only, per RFC 9449) */
+export const DEFAULT_DPOP_ALGORITHMS: readonly string[] = [
+  'ES256',
+  'ES384',
+  'ES512',
+  'RS256',
+  'PS256',
+  'EdDSA',
+];
+
+/** Default maximum DPoP proof age: 60 seconds */
+export const DEFAULT_DPOP_MAX_PROOF_AGE_SECONDS = 60;
+
+/**
+ * Settings for verifying a single DPoP proof.
+ */
+export interface DpopVerificationOptions {
+  /** Accepted proof signing algorithms */
+  readonly algorithms: readonly string[];
+  /** Maximum proof age in seconds */
+  readonly maxProofAgeSeconds: number;
+  /** Clock tolerance in seconds for the "iat" check */
+  readonly clockToleranceSeconds: number;
+}
+
+const invalidProof = (message: string, cause?: unknown): ValidationError => ({
+  code: 'INVALID_DPOP_PROOF',
+  message,
+  cause,
+});
+
+/**
+ * Normalizes a URL for "htu" comparison: query and fragment are dropped (RFC 9449 Section 4.3).
+ * Returns undefined for values that are not absolute URLs.
+ */
+const normalizeHtu = (value: string): string | undefined => {
+  try {
+    const url = new URL(value);
+    return `${url.origin}${url.pathname}`;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Verifies a DPoP proof against the request it accompanies and the access token it is bound to.
+ *
+ * Checks, in order: the proof's signature using its embedded public key, "typ", "alg", and "iat"
+ * freshness; the "htm", "htu" and "ath" claims; that the key's RFC 7638 thumbprint equals the
+ * token's cnf.jkt; and finally that the proof's "jti" has not been seen before. The jti is only
+ * recorded once every other check has passed.
+ *
+ * @param accessToken - The access token presented with the proof
+ * @param expectedJkt - The token's cnf.jkt confirmation claim
+ * @param request - The proof and the HTTP method and URL it must be bound to
+ * @param replayCache - Cache of seen proof identifiers
+ * @param options - Accepted algorithms and timing settings
+ * @returns Result with the proof key thumbprint or validation error
+ */
+export const verifyDpopProof = async (
+  accessToken: string,
+  expectedJkt: string,
+  request: DpopRequestContext & { readonly proof: string },
+  replayCache: AsyncCache<boolean>,
+  options: DpopVerificationOptions
+): Promise<Result<string, ValidationError>> => {
+  let payload: Awaited<ReturnType<typeof jwtVerify>>['payload'];
+  let jwk: JWK | undefined;
+
+  try {
+    // EmbeddedJWK verifies with the header's jwk and rejects private keys
+    const result = await jwtVerify(request.proof, EmbeddedJWK, {
+      typ: 'dpop+jwt',
+      algorithms: [...options.algorithms],
+      maxTokenAge: options.maxProofAgeSeconds,
+      clockTolerance: options.clockToleranceSeconds,
+    });
+    payload = result.payload;
+    jwk = result.protectedHeader.jwk;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'unknown error';
+    return err(invalidProof(`DPoP proof verification failed: ${reason}`, error));
+  }
+
+  if (jwk === undefined) {
+    return err(invalidProof('DPoP proof is missing the "jwk" header'));
+  }
+
+  if (typeof payload.jti !== 'string' || payload.jti.length === 0) {
+    return err(invalidProof('DPoP proof is missing the "jti" claim'));
+  }
+
+  if (payload['htm'] !== request.method.toUpperCase()) {
+    return err(invalidProof('DPoP proof "htm" does not match the request method'));
+  }
+
+  const htu = payload['htu'];
+  const expectedHtu = normalizeHtu(request.url);
+  if (typeof htu !== 'string' || expectedHtu === undefined || normalizeHtu(htu) !== expectedHtu) {
+    return err(invalidProof('DPoP proof "htu" does not match the request URL'));
+  }
+
+  if (payload['ath'] !== hashToken(accessToken)) {
+    return err(invalidProof('DPoP proof "ath" does not match the access token'));
+  }
+
+  const thumbprint = await calculateJwkThumbprint(jwk, 'sha256');
+  if (thumbprint !== expectedJkt) {
+    return err({
+      code: 'DPOP_BINDING_MISMATCH',
+      message: 'DPoP proof key does not match the token "cnf.jkt" binding',
+    });
+  }
+
+  // jti values are unique per key, so scope replay entries by thumbprint
+  const replayKey = `${thumbprint}:${payload.jti}`;
+  if ((await replayCache.get(replayKey)) !== undefined) {
+    return err({
+      code: 'DPOP_PROOF_REPLAYED',
+      message: 'DPoP proof has already been used',
+    });
+  }
+
+  // Remember the jti for as long as the proof could still pass the "iat" check
+  const replayTtlMs = (options.maxProofAgeSeconds + options.clockToleranceSeconds * 2) * 1000;
+  await replayCache.set(replayKey, true, replayTtlMs);
+
+  return ok(thumbprint);
+};
@@ -8,6 +8,7 @@ import {
   createDiscoveryError,
   createJwksError,
   createIntrospectionError,
+  createRevocationError,
 } from './errors.js';
 import type { ValidationError } from './types.js';
 import {
@@ -62,6 +63,18 @@ describe('createValidationFailure', () => {
       expect(result.error).toBe('VALIDATION_ERROR');
     });
 
+    it('carries the retry delay of an HTTP error cause in seconds', () => {
+      const validationError: ValidationError = {
+        code: 'DISCOVERY_ERROR',
+        message: 'Failed to fetch discovery',
+        cause: { type: 'http', message: 'HTTP 503', status: 503, retryAfterMs: 1500 },
+      };
+
+      const result = createValidationFailure(validationError);
+
+      expect(result.retryAfter).toBe(2);
+    });
+
     it('maps JWKS_ERROR to VALIDATION_ERROR', () => {
       const validationError: ValidationError = {
         code: 'JWKS_ERROR',
@@ -216,6 +229,18 @@ describe('mapJoseError', () => {
     });
   });
 
+  describe('given JOSEAlgNotAllowed error', () => {
+    it('maps to ALGORITHM_NOT_ALLOWED', () => {
+      const joseError = new Error('"alg" (Algorithm) Header Parameter value not allowed');
+      joseError.name = 'JOSEAlgNotAllowed';
+
+      const result = mapJoseError(joseError);
+
+      expect(result.code).toBe('ALGORITHM_NOT_ALLOWED');
+      expect(result.message).toBe('Token signing algorithm is not allowed');
+    });
+  });
+
   describe('given JWSInvalid error', () => {
     it('maps to MALFORMED_TOKEN', () => {
       const joseError = new Error('Invalid JWS');
@@ -313,4 +338,16 @@ describe('error factory functions', () => {
       expect(result.cause).toBe(cause);
     });
   });
+
+  describe('createRevocationError', () => {
+    it('creates REVOCATION_ERROR with message and cause', () => {
+      const cause = new Error('503 Service Unavailable');
+
+      const result = createRevocationError('Token revocation request failed', cause);
+
+      expect(result.code).toBe('REVOCATION_ERROR');
+      expect(result.message).toBe('Token revocation request failed');
+      expect(result.cause).toBe(cause);
+    });
+  });
 });
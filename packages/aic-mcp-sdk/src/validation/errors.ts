@@ -13,9 +13,18 @@ const errorCodeMapping: Record<ValidationError['code'], TokenValidationError> =
   INVALID_AUDIENCE: 'INVALID_AUDIENCE',
   REVOKED_TOKEN: 'REVOKED_TOKEN',
   INSUFFICIENT_SCOPE: 'INSUFFICIENT_SCOPE',
+  INSUFFICIENT_USER_AUTHENTICATION: 'INSUFFICIENT_USER_AUTHENTICATION',
+  ALGORITHM_NOT_ALLOWED: 'ALGORITHM_NOT_ALLOWED',
+  INVALID_TOKEN_TYPE: 'INVALID_TOKEN_TYPE',
+  MISSING_CLIENT_ID: 'MISSING_CLIENT_ID',
+  ID_TOKEN_REJECTED: 'ID_TOKEN_REJECTED',
+  INVALID_DPOP_PROOF: 'INVALID_DPOP_PROOF',
+  DPOP_PROOF_REPLAYED: 'DPOP_PROOF_REPLAYED',
+  DPOP_BINDING_MISMATCH: 'DPOP_BINDING_MISMATCH',
   DISCOVERY_ERROR: 'VALIDATION_ERROR',
   JWKS_ERROR: 'VALIDATION_ERROR',
   INTROSPECTION_ERROR: 'VALIDATION_ERROR',
+  REVOCATION_ERROR: 'VALIDATION_ERROR',
   NETWORK_ERROR: 'VALIDATION_ERROR',
 };
 
@@ -31,9 +40,28 @@ const defaultMessages: Record<TokenValidationError, string> = {
   INVALID_AUDIENCE: 'Token audience does not match',
   REVOKED_TOKEN: 'Token has been revoked',
   INSUFFICIENT_SCOPE: 'Token does not have required scopes',
+  INSUFFICIENT_USER_AUTHENTICATION: 'User authentication does not meet the requirements',
+  ALGORITHM_NOT_ALLOWED: 'Token signing algorithm is not allowed',
+  INVALID_TOKEN_TYPE: 'Token is not a JWT access token',
+  MISSING_CLIENT_ID: 'Token is missing required "client_id" claim',
+  ID_TOKEN_REJECTED: 'ID tokens are not accepted as access tokens',
+  INVALID_DPOP_PROOF: 'DPoP proof is invalid',
+  DPOP_PROOF_REPLAYED: 'DPoP proof has already been used',
+  DPOP_BINDING_MISMATCH: 'DPoP proof key does not match the token binding',
   VALIDATION_ERROR: 'Token validation failed',
 };
 
+/**
+ * Reads the retry delay, in whole seconds, carried by an HttpError cause.
+ */
+const getRetryAfterSeconds = (cause: unknown): number | undefined => {
+  if (typeof cause !== 'object' || cause === null || !('retryAfterMs' in cause)) {
+    return undefined;
+  }
+  const { retryAfterMs } = cause;
+  return typeof retryAfterMs === 'number' ? Math.ceil(retryAfterMs / 1000) : undefined;
+};
+
 /**
  * Creates a TokenValidationFailure from a ValidationError.
  *
@@ -46,10 +74,13 @@ export const createValidationFailure = (
   authInfo?: AuthenticationInfo
 ): TokenValidationFailure => {
   const publicCode = errorCodeMapping[error.code];
+  const retryAfter =
+    publicCode === 'VALIDATION_ERROR' ? getRetryAfterSeconds(error.cause) : undefined;
   const base = {
     valid: false as const,
     error: publicCode,
     message: error.message || defaultMessages[publicCode],
+    ...(retryAfter !== undefined ? { retryAfter } : {}),
   };
 
   if (authInfo !== undefined) {
@@ -146,6 +177,14 @@ export const mapJoseError = (error: unknown): ValidationError => {
     case 'JWSInvalid':
     case 'JWTInvalid':
       return { code: 'MALFORMED_TOKEN', message: 'Token format is invalid', cause: error };
+    case 'JOSEAlgNotAllowed':
+      return {
+        code: 'ALGORITHM_NOT_ALLOWED',
+        message: 'Token signing algorithm is not allowed',
+        cause: error,
+      };
+    case 'KeySourceError':
+      return { code: 'JWKS_ERROR', message, cause: error };
     default:
       return {
         code: 'MALFORMED_TOKEN',
@@ -206,3 +245,16 @@ export const createIntrospectionError = (message: string, cause?: unknown): Vali
   message,
   cause,
 });
+
+/**
+ * Creates a ValidationError for revocation failures.
+ *
+ * @param message - Error message
+ * @param cause - Original error
+ * @returns A ValidationError object
+ */
+export const createRevocationError = (message: string, cause?: unknown): ValidationError => ({
+  code: 'REVOCATION_ERROR',
+  message,
+  cause,
+});
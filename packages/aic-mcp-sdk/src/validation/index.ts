@@ -1,9 +1,20 @@
 // Main factory
 export { createTokenValidator, introspectToken, revokeToken } from './token-validator.js';
+export { createMultiIssuerValidator } from './multi-issuer-validator.js';
+
+// Key sources
+export { createKeyResolver, KeySourceError } from './key-source.js';
+export type { KeyResolver, WatchDirectory } from './key-source.js';
 
 // Scope utilities
 export { parseScopes, getMissingScopes } from './scopes.js';
 
+// Rich Authorization Requests (RFC 9396)
+export {
+  parseAuthorizationDetails,
+  getUnmetAuthorizationDetails,
+} from './authorization-details.js';
+
 // Types
 export type {
   TokenValidator,
@@ -11,4 +22,13 @@ export type {
   JwtValidatorConfig,
   ValidationOptions,
   OidcDiscoveryDocument,
+  DiscoveryFetcherOptions,
+  DpopRequestContext,
+  DpopOptions,
+  IntrospectionCacheOptions,
+  TrustedIssuerConfig,
+  MultiIssuerValidatorConfig,
+  MultiIssuerValidator,
+  KeySource,
+  PemKey,
 } from './types.js';
@@ -1,9 +1,16 @@
 import { ok, err, type Result } from 'neverthrow';
-import { jwtVerify, createRemoteJWKSet, type JWTVerifyResult } from 'jose';
+import { jwtVerify, createRemoteJWKSet, type JWTVerifyGetKey, type JWTVerifyResult } from 'jose';
 import type { TokenClaims } from '../types.js';
-import type { ValidationError, ValidatedJwtClaims, ValidationOptions } from './types.js';
+import type {
+  ValidationError,
+  ValidatedJwtClaims,
+  ValidationOptions,
+  VerifyJwtOptions,
+} from './types.js';
 import { mapJoseError } from './errors.js';
 import { parseScopes, getMissingScopes } from './scopes.js';
+import { checkUserAuthentication } from './user-authentication.js';
+import { parseAuthorizationDetails } from './authorization-details.js';
 
 /**
  * Checks if a string appears to be a JWT (3 base64url-encoded parts separated by dots).
@@ -32,24 +39,75 @@ export const createJwks = (jwksUri: string): ReturnType<typeof createRemoteJWKSe
   return createRemoteJWKSet(new URL(jwksUri));
 };
 
+/**
+ * Normalizes a "typ" header value: case-insensitive, "application/" prefix optional
+ * (RFC 8725 Section 3.11).
+ */
+const normalizeTyp = (typ: string | undefined): string | undefined =>
+  typ?.toLowerCase().replace(/^application\//, '');
+
+/**
+ * Checks the RFC 9068 JWT access token profile: ID tokens are rejected, "typ" must be
+ * "at+jwt", and client_id must be present.
+ */
+const checkAccessTokenProfile = (
+  typ: string | undefined,
+  payload: JWTVerifyResult['payload']
+): Result<void, ValidationError> => {
+  const normalizedTyp = normalizeTyp(typ);
+
+  // Checked before typ so ID tokens get their own error code. AM marks token kinds with
+  // "tokenName"; otherwise ID-token-only claims give them away.
+  const looksLikeIdToken =
+    payload['tokenName'] === 'id_token' ||
+    (normalizedTyp !== 'at+jwt' &&
+      (payload['nonce'] !== undefined ||
+        payload['at_hash'] !== undefined ||
+        payload['c_hash'] !== undefined));
+  if (looksLikeIdToken) {
+    return err({
+      code: 'ID_TOKEN_REJECTED',
+      message: 'ID tokens are not accepted as access tokens',
+    });
+  }
+
+  if (normalizedTyp !== 'at+jwt') {
+    return err({
+      code: 'INVALID_TOKEN_TYPE',
+      message: `Token "typ" header must be "at+jwt", got "${typ ?? 'none'}"`,
+    });
+  }
+
+  if (typeof payload['client_id'] !== 'string') {
+    return err({
+      code: 'MISSING_CLIENT_ID',
+      message: 'Token is missing required "client_id" claim',
+    });
+  }
+
+  return ok(undefined);
+};
+
 /**
  * Verifies a JWT signature and decodes the payload.
  *
  * @param token - The JWT to verify
- * @param jwks - The JWKS key set from createRemoteJWKSet
+ * @param jwks - Key lookup function, e.g. from createRemoteJWKSet or createKeyResolver
  * @param issuer - Expected issuer
  * @param audience - Expected audience (optional)
  * @param clockToleranceSeconds - Clock tolerance for time validation (default: 15s).
  *   Configurable to accommodate clock skew in distributed systems.
  *   Recommended range is 5-30 seconds.
+ * @param verifyOptions - Algorithm allowlist and RFC 9068 profile enforcement
  * @returns Result with verified claims or validation error
  */
 export const verifyJwt = async (
   token: string,
-  jwks: ReturnType<typeof createRemoteJWKSet>,
+  jwks: JWTVerifyGetKey,
   issuer: string,
   audience?: string | readonly string[],
-  clockToleranceSeconds = 15
+  clockToleranceSeconds = 15,
+  verifyOptions: VerifyJwtOptions = {}
 ): Promise<Result<ValidatedJwtClaims, ValidationError>> => {
   try {
     // Build options conditionally for exactOptionalPropertyTypes
@@ -62,10 +120,22 @@ export const verifyJwt = async (
       options.audience = audience as string | string[];
     }
 
+    if (verifyOptions.algorithms !== undefined) {
+      // "none" is never acceptable, whatever the allowlist says
+      options.algorithms = verifyOptions.algorithms.filter((alg) => alg !== 'none');
+    }
+
     const result: JWTVerifyResult = await jwtVerify(token, jwks, options);
 
     const payload = result.payload;
 
+    if (verifyOptions.strictAccessTokenProfile === true) {
+      const profileResult = checkAccessTokenProfile(result.protectedHeader.typ, payload);
+      if (profileResult.isErr()) {
+        return err(profileResult.error);
+      }
+    }
+
     // Validate required claims are present
     if (typeof payload.sub !== 'string') {
       return err({
@@ -103,32 +173,22 @@ export const verifyJwt = async (
       ? [...payload.aud]
       : payload.aud;
 
+    // Keep every verified claim so custom AM claims reach the claims mapper
+    const { authorization_details: rawAuthorizationDetails, ...verifiedClaims } = payload;
+    const authorizationDetails = parseAuthorizationDetails(rawAuthorizationDetails);
+
     const validatedClaims: ValidatedJwtClaims = {
+      ...verifiedClaims,
       sub: payload.sub,
       iss: payload.iss,
       aud: normalizedAud,
       exp: payload.exp,
       iat: payload.iat,
+      ...(authorizationDetails !== undefined
+        ? { authorization_details: authorizationDetails }
+        : {}),
     };
 
-    // Copy optional standard claims
-    if (payload.jti !== undefined) {
-      (validatedClaims as Record<string, unknown>)['jti'] = payload.jti;
-    }
-    if (payload.nbf !== undefined) {
-      (validatedClaims as Record<string, unknown>)['nbf'] = payload.nbf;
-    }
-
-    // Copy scope and client_id if present (access via index signature)
-    const scope = payload['scope'];
-    if (scope !== undefined) {
-      (validatedClaims as Record<string, unknown>)['scope'] = scope;
-    }
-    const clientId = payload['client_id'];
-    if (clientId !== undefined) {
-      (validatedClaims as Record<string, unknown>)['client_id'] = clientId;
-    }
-
     return ok(validatedClaims);
   } catch (error) {
     return err(mapJoseError(error));
@@ -212,5 +272,10 @@ export const validateJwtClaims = (
     }
   }
 
+  const userAuthResult = checkUserAuthentication(claims, options);
+  if (userAuthResult.isErr()) {
+    return err(userAuthResult.error);
+  }
+
   return ok(toTokenClaims(claims));
 };
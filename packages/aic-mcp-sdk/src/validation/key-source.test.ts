@@ -0,0 +1,264 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'node:events';
+import type { FSWatcher } from 'node:fs';
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { jwtVerify } from 'jose';
+import { createKeyResolver, KeySourceError, type WatchDirectory } from './key-source.js';
+import { createSigningKey, TEST_KEY_ID, TEST_SUBJECT } from '../test/fixtures.js';
+
+/**
+ * A directory watcher that only reports what the test emits.
+ */
+const createFakeWatcher = (): {
+  readonly watcher: EventEmitter;
+  readonly close: ReturnType<typeof vi.fn>;
+  readonly watchFn: WatchDirectory;
+} => {
+  const close = vi.fn();
+  const watcher = Object.assign(new EventEmitter(), { close, unref: vi.fn() });
+  return { watcher, close, watchFn: () => watcher as unknown as FSWatcher };
+};
+
+describe('createKeyResolver', () => {
+  describe('given an inline JWKS', () => {
+    it('verifies tokens signed by a key in the set', async () => {
+      const key = await createSigningKey();
+      const resolver = createKeyResolver({ type: 'jwks', jwks: key.jwks });
+      const token = await key.sign({ sub: TEST_SUBJECT });
+
+      const { payload } = await jwtVerify(token, resolver.getKey);
+
+      expect(payload.sub).toBe(TEST_SUBJECT);
+    });
+
+    it('rejects tokens signed by another key', async () => {
+      const key = await createSigningKey();
+      const otherKey = await createSigningKey();
+      const resolver = createKeyResolver({ type: 'jwks', jwks: key.jwks });
+      const token = await otherKey.sign({ sub: TEST_SUBJECT });
+
+      await expect(jwtVerify(token, resolver.getKey)).rejects.toThrow();
+    });
+  });
+
+  describe('given PEM public keys', () => {
+    it('verifies tokens whose kid matches', async () => {
+      const key = await createSigningKey();
+      const resolver = createKeyResolver({
+        type: 'pem',
+        keys: [{ pem: key.spkiPem, alg: 'RS256', kid: TEST_KEY_ID }],
+      });
+      const token = await key.sign({ sub: TEST_SUBJECT });
+
+      const { payload } = await jwtVerify(token, resolver.getKey);
+
+      expect(payload.sub).toBe(TEST_SUBJECT);
+    });
+
+    it('retries a failed import on the next lookup', async () => {
+      const key = await createSigningKey();
+      const keys = [{ pem: 'not a pem', alg: 'RS256', kid: TEST_KEY_ID }];
+      const resolver = createKeyResolver({ type: 'pem', keys });
+      const token = await key.sign({ sub: TEST_SUBJECT });
+      await expect(jwtVerify(token, resolver.getKey)).rejects.toThrow();
+
+      keys[0] = { pem: key.spkiPem, alg: 'RS256', kid: TEST_KEY_ID };
+      const { payload } = await jwtVerify(token, resolver.getKey);
+
+      expect(payload.sub).toBe(TEST_SUBJECT);
+    });
+  });
+
+  describe('given a JWKS file', () => {
+    let directory: string | undefined;
+
+    afterEach(async () => {
+      if (directory !== undefined) {
+        await rm(directory, { recursive: true, force: true });
+        directory = undefined;
+      }
+    });
+
+    const writeJwksFile = async (contents: unknown): Promise<string> => {
+      directory ??= await mkdtemp(join(tmpdir(), 'aic-jwks-'));
+      const path = join(directory, 'jwks.json');
+      await writeFile(path, JSON.stringify(contents));
+      return path;
+    };
+
+    it('verifies tokens with keys read from the file', async () => {
+      const key = await createSigningKey();
+      const path = await writeJwksFile(key.jwks);
+      const resolver = createKeyResolver({ type: 'file', path, watch: false });
+      const token = await key.sign({ sub: TEST_SUBJECT });
+
+      const { payload } = await jwtVerify(token, resolver.getKey);
+
+      expect(payload.sub).toBe(TEST_SUBJECT);
+    });
+
+    it('picks up rotated keys after reload', async () => {
+      const oldKey = await createSigningKey();
+      const newKey = await createSigningKey();
+      const path = await writeJwksFile(oldKey.jwks);
+      const resolver = createKeyResolver({ type: 'file', path, watch: false });
+      await jwtVerify(await oldKey.sign({ sub: TEST_SUBJECT }), resolver.getKey);
+
+      await writeJwksFile(newKey.jwks);
+      resolver.reload();
+      const { payload } = await jwtVerify(
+        await newKey.sign({ sub: TEST_SUBJECT }),
+        resolver.getKey
+      );
+
+      expect(payload.sub).toBe(TEST_SUBJECT);
+    });
+
+    it('reloads keys when the watched file changes', async () => {
+      const oldKey = await createSigningKey();
+      const newKey = await createSigningKey();
+      const path = await writeJwksFile(oldKey.jwks);
+      const resolver = createKeyResolver({ type: 'file', path });
+      await jwtVerify(await oldKey.sign({ sub: TEST_SUBJECT }), resolver.getKey);
+
+      await writeJwksFile(newKey.jwks);
+      const token = await newKey.sign({ sub: TEST_SUBJECT });
+
+      try {
+        await expect
+          .poll(
+            () =>
+              jwtVerify(token, resolver.getKey).then(
+                () => true,
+                () => false
+              ),
+            {
+              timeout: 2000,
+            }
+          )
+          .toBe(true);
+      } finally {
+        resolver.close();
+      }
+    });
+
+    it('keeps the last good keys when a reload fails', async () => {
+      const key = await createSigningKey();
+      const path = await writeJwksFile(key.jwks);
+      const resolver = createKeyResolver({ type: 'file', path, watch: false });
+      const token = await key.sign({ sub: TEST_SUBJECT });
+      await jwtVerify(token, resolver.getKey);
+
+      await writeJwksFile({ not: 'a jwks' });
+      resolver.reload();
+      const { payload } = await jwtVerify(token, resolver.getKey);
+
+      expect(payload.sub).toBe(TEST_SUBJECT);
+    });
+
+    it('throws KeySourceError when the file does not contain a JWKS', async () => {
+      const key = await createSigningKey();
+      const path = await writeJwksFile({ not: 'a jwks' });
+      const resolver = createKeyResolver({ type: 'file', path, watch: false });
+
+      await expect(
+        jwtVerify(await key.sign({ sub: TEST_SUBJECT }), resolver.getKey)
+      ).rejects.toBeInstanceOf(KeySourceError);
+    });
+
+    it('throws KeySourceError when the file cannot be read', async () => {
+      const key = await createSigningKey();
+      const resolver = createKeyResolver({
+        type: 'file',
+        path: join(tmpdir(), 'aic-missing-jwks.json'),
+        watch: false,
+      });
+
+      await expect(
+        jwtVerify(await key.sign({ sub: TEST_SUBJECT }), resolver.getKey)
+      ).rejects.toBeInstanceOf(KeySourceError);
+    });
+
+    describe('given the directory does not exist yet', () => {
+      it('does not throw and loads the keys once the file appears', async () => {
+        const key = await createSigningKey();
+        directory = await mkdtemp(join(tmpdir(), 'aic-jwks-'));
+        const missingDirectory = join(directory, 'keys');
+        const path = join(missingDirectory, 'jwks.json');
+        const resolver = createKeyResolver({ type: 'file', path });
+        const token = await key.sign({ sub: TEST_SUBJECT });
+
+        await expect(jwtVerify(token, resolver.getKey)).rejects.toBeInstanceOf(KeySourceError);
+
+        await mkdir(missingDirectory);
+        await writeFile(path, JSON.stringify(key.jwks));
+        const { payload } = await jwtVerify(token, resolver.getKey);
+        resolver.close();
+
+        expect(payload.sub).toBe(TEST_SUBJECT);
+      });
+    });
+
+    describe('given the watcher emits an error', () => {
+      it('closes it and re-reads the file on next use', async () => {
+        const oldKey = await createSigningKey();
+        const newKey = await createSigningKey();
+        const path = await writeJwksFile(oldKey.jwks);
+        const { watcher, close, watchFn } = createFakeWatcher();
+        const resolver = createKeyResolver({ type: 'file', path }, watchFn);
+        await jwtVerify(await oldKey.sign({ sub: TEST_SUBJECT }), resolver.getKey);
+
+        await writeJwksFile(newKey.jwks);
+        watcher.emit('error', new Error('EPERM'));
+        const { payload } = await jwtVerify(
+          await newKey.sign({ sub: TEST_SUBJECT }),
+          resolver.getKey
+        );
+
+        expect(close).toHaveBeenCalled();
+        expect(payload.sub).toBe(TEST_SUBJECT);
+      });
+    });
+
+    describe('given close is called', () => {
+      it('releases the watcher and keeps resolving keys', async () => {
+        const key = await createSigningKey();
+        const path = await writeJwksFile(key.jwks);
+        const { close, watchFn } = createFakeWatcher();
+        const resolver = createKeyResolver({ type: 'file', path }, watchFn);
+
+        resolver.close();
+        const { payload } = await jwtVerify(await key.sign({ sub: TEST_SUBJECT }), resolver.getKey);
+
+        expect(close).toHaveBeenCalled();
+        expect(payload.sub).toBe(TEST_SUBJECT);
+      });
+
+      it('re-reads the file only once the loaded keys are a minute old', async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        try {
+          const oldKey = await createSigningKey();
+          const newKey = await createSigningKey();
+          const path = await writeJwksFile(oldKey.jwks);
+          const { watchFn } = createFakeWatcher();
+          const resolver = createKeyResolver({ type: 'file', path }, watchFn);
+          resolver.close();
+          await jwtVerify(await oldKey.sign({ sub: TEST_SUBJECT }), resolver.getKey);
+          const token = await newKey.sign({ sub: TEST_SUBJECT });
+
+          await writeJwksFile(newKey.jwks);
+          vi.advanceTimersByTime(59_000);
+          await expect(jwtVerify(token, resolver.getKey)).rejects.toThrow();
+          vi.advanceTimersByTime(1000);
+          const { payload } = await jwtVerify(token, resolver.getKey);
+
+          expect(payload.sub).toBe(TEST_SUBJECT);
+        } finally {
+          vi.useRealTimers();
+        }
+      });
+    });
+  });
+});
@@ -0,0 +1,282 @@
+import { readFile } from 'node:fs/promises';
+import { watch, type FSWatcher } from 'node:fs';
+import { basename, dirname } from 'node:path';
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  exportJWK,
+  importSPKI,
+  importX509,
+  type JSONWebKeySet,
+  type JWK,
+  type JWTVerifyGetKey,
+} from 'jose';
+import type { KeySource, PemKey } from './types.js';
+
+/**
+ * Resolves JWT signing keys from a KeySource.
+ */
+export interface KeyResolver {
+  /** Key lookup function for jose's jwtVerify */
+  readonly getKey: JWTVerifyGetKey;
+  /** Drops loaded keys so the next lookup reloads them from the source */
+  readonly reload: () => void;
+  /** Releases resources held for the source, such as a file watcher */
+  readonly close: () => void;
+}
+
+/**
+ * Watches a directory, calling the listener with the name of each changed entry.
+ * Matches the signature of node:fs `watch`.
+ */
+export type WatchDirectory = (
+  path: string,
+  listener: (event: string, fileName: string | null) => void
+) => FSWatcher;
+
+const watchDirectory: WatchDirectory = (path, listener) => watch(path, listener);
+
+/**
+ * Error raised when keys cannot be loaded from a key source.
+ * Mapped to JWKS_ERROR by mapJoseError.
+ */
+export class KeySourceError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'KeySourceError';
+  }
+}
+
+/**
+ * Converts PEM keys to a JWKS so they share jose's kid/alg key selection.
+ */
+const pemKeysToJwks = async (keys: readonly PemKey[]): Promise<JSONWebKeySet> => {
+  const jwks = await Promise.all(
+    keys.map(async (key): Promise<JWK> => {
+      const pem = key.pem.trim();
+      const keyLike = pem.startsWith('-----BEGIN CERTIFICATE-----')
+        ? await importX509(pem, key.alg, { extractable: true })
+        : await importSPKI(pem, key.alg, { extractable: true });
+      const jwk = await exportJWK(keyLike);
+      return { ...jwk, alg: key.alg, ...(key.kid !== undefined ? { kid: key.kid } : {}) };
+    })
+  );
+  return { keys: jwks };
+};
+
+/**
+ * Reads and parses a JWKS file.
+ */
+const readJwksFile = async (path: string): Promise<JSONWebKeySet> => {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf8');
+  } catch (error) {
+    throw new KeySourceError(`Failed to read JWKS file "${path}"`, error);
+  }
+
+  try {
+    const jwks = JSON.parse(content) as Partial<JSONWebKeySet>;
+    if (!Array.isArray(jwks.keys)) {
+      throw new KeySourceError(`JWKS file "${path}" is missing the "keys" array`);
+    }
+    return { keys: jwks.keys };
+  } catch (error) {
+    if (error instanceof KeySourceError) {
+      throw error;
+    }
+    throw new KeySourceError(`Failed to parse JWKS file "${path}"`, error);
+  }
+};
+
+/** How often an unwatched JWKS file is re-read: 1 minute */
+const UNWATCHED_FILE_MAX_AGE_MS = 60_000;
+
+/**
+ * A loaded key set and when it was last (re)loaded or found unchanged by a failed load.
+ */
+interface LoadedKeySet {
+  readonly getKey: ReturnType<typeof createLocalJWKSet>;
+  readonly loadedAt: number;
+}
+
+/**
+ * Creates a resolver whose keys are loaded lazily and cached until reload() or until they
+ * are older than maxAgeMs().
+ *
+ * A failed load never stays cached: without keys, the next lookup loads again. When a
+ * reload fails after keys were loaded, the last good keys keep being served until they are
+ * due again, so a file caught mid-write does not break validation.
+ */
+const createLazyResolver = (
+  load: () => Promise<JSONWebKeySet>,
+  maxAgeMs: () => number = () => Number.POSITIVE_INFINITY
+): KeyResolver => {
+  let loaded: LoadedKeySet | undefined;
+  let pending: Promise<LoadedKeySet> | undefined;
+  // Bumped by reload() so a load started before it cannot overwrite newer keys
+  let generation = 0;
+
+  const refresh = (): Promise<LoadedKeySet> => {
+    const started = generation;
+    const request = load().then(
+      (jwks): LoadedKeySet => {
+        const keySet = { getKey: createLocalJWKSet(jwks), loadedAt: Date.now() };
+        if (started === generation) {
+          loaded = keySet;
+        }
+        return keySet;
+      },
+      (error: unknown): LoadedKeySet => {
+        if (loaded === undefined) {
+          throw error;
+        }
+        loaded = { ...loaded, loadedAt: Date.now() };
+        return loaded;
+      }
+    );
+    pending = request;
+    const clear = (): void => {
+      if (pending === request) {
+        pending = undefined;
+      }
+    };
+    void request.then(clear, clear);
+    return request;
+  };
+
+  const getKey: JWTVerifyGetKey = async (protectedHeader, token) => {
+    const current =
+      loaded !== undefined && Date.now() - loaded.loadedAt < maxAgeMs()
+        ? loaded
+        : await (pending ?? refresh());
+    return current.getKey(protectedHeader, token);
+  };
+
+  return {
+    getKey,
+    reload: () => {
+      generation++;
+      pending = undefined;
+      if (loaded !== undefined) {
+        loaded = { ...loaded, loadedAt: Number.NEGATIVE_INFINITY };
+      }
+    },
+    close: () => undefined,
+  };
+};
+
+/**
+ * Creates a resolver for a JWKS file that reloads when the file changes.
+ *
+ * The containing directory is watched so that files replaced by rename are picked up. While
+ * no watcher is running (the directory is missing, the watcher failed, or close() was
+ * called), the file is re-read once its keys are a minute old; a lost watcher is
+ * re-established on the next lookup until close() is called.
+ */
+const createWatchedFileResolver = (path: string, watchFn: WatchDirectory): KeyResolver => {
+  let watcher: FSWatcher | undefined;
+  let closed = false;
+  const resolver = createLazyResolver(
+    () => readJwksFile(path),
+    () => (watcher === undefined ? UNWATCHED_FILE_MAX_AGE_MS : Number.POSITIVE_INFINITY)
+  );
+  const directory = dirname(path);
+  const fileName = basename(path);
+  const directoryName = basename(directory);
+
+  const stopWatching = (): void => {
+    watcher?.close();
+    watcher = undefined;
+  };
+
+  // The directory was deleted, unmounted or can no longer be watched: re-read on next use
+  const loseWatcher = (): void => {
+    stopWatching();
+    resolver.reload();
+  };
+
+  const startWatching = (): boolean => {
+    try {
+      watcher = watchFn(directory, (_event, changed) => {
+        if (changed === directoryName) {
+          // Linux reports the deletion of the watched directory itself this way
+          loseWatcher();
+        } else if (changed === null || changed === fileName) {
+          resolver.reload();
+        }
+      });
+    } catch {
+      return false;
+    }
+    watcher.on('error', loseWatcher);
+    watcher.unref();
+    return true;
+  };
+
+  startWatching();
+
+  return {
+    getKey: (protectedHeader, token) => {
+      // Changes made while unwatched were missed, so a new watcher starts from a fresh read
+      if (watcher === undefined && !closed && startWatching()) {
+        resolver.reload();
+      }
+      return resolver.getKey(protectedHeader, token);
+    },
+    reload: resolver.reload,
+    close: () => {
+      closed = true;
+      stopWatching();
+    },
+  };
+};
+
+/**
+ * Creates a key resolver for a key source.
+ *
+ * File sources are watched by default. The containing directory is watched so that files
+ * replaced by rename (as editors and config management tools do) are picked up; the watcher
+ * does not keep the process alive, and close() releases it.
+ * Keys from inline, file and PEM sources are selected by the JWT's "kid" and "alg"
+ * headers, the same way as keys from a remote JWKS.
+ *
+ * @param source - The key source
+ * @param watchFn - Directory watcher for file sources (default: node:fs watch)
+ * @returns A KeyResolver for jose's jwtVerify
+ *
+ * @example
+ * ```typescript
+ * const resolver = createKeyResolver({ type: 'file', path: '/etc/mcp/jwks.json' });
+ * const { payload } = await jwtVerify(token, resolver.getKey);
+ * ```
+ */
+export const createKeyResolver = (
+  source: KeySource,
+  watchFn: WatchDirectory = watchDirectory
+): KeyResolver => {
+  switch (source.type) {
+    case 'remote': {
+      const uri = new URL(source.uri);
+      let remote = createRemoteJWKSet(uri);
+      return {
+        getKey: (protectedHeader, token) => remote(protectedHeader, token),
+        reload: () => {
+          remote = createRemoteJWKSet(uri);
+        },
+        close: () => undefined,
+      };
+    }
+    case 'jwks': {
+      // Inline keys never change; reload is a no-op
+      const getKey = createLocalJWKSet(source.jwks);
+      return { getKey, reload: () => undefined, close: () => undefined };
+    }
+    case 'pem':
+      return createLazyResolver(() => pemKeysToJwks(source.keys));
+    case 'file':
+      return (source.watch ?? true)
+        ? createWatchedFileResolver(source.path, watchFn)
+        : createLazyResolver(() => readJwksFile(source.path));
+  }
+};
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createMultiIssuerValidator } from './multi-issuer-validator.js';
+import { createMockCache, createMockHttpClient } from '../test/mocks.js';
+import type { OidcDiscoveryDocument } from './types.js';
+import { TEST_AM_URL, TEST_CLIENT_ID, TEST_ISSUER } from '../test/fixtures.js';
+
+const BRAVO_REALM_PATH = '/am/oauth2/realms/root/realms/bravo';
+const BRAVO_ISSUER = `${TEST_AM_URL}${BRAVO_REALM_PATH}`;
+const SECOND_TENANT_ISSUER = 'https://tenant-b.example.com/am/oauth2/realms/root/realms/alpha';
+
+/**
+ * Builds an unsigned JWT-format token with the given payload.
+ */
+const createUnsignedJwt = (payload: Record<string, unknown>): string => {
+  const encode = (value: unknown): string =>
+    Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode(payload)}.c2lnbmF0dXJl`;
+};
+
+const issuers = [
+  { amUrl: TEST_AM_URL, clientId: TEST_CLIENT_ID },
+  { amUrl: TEST_AM_URL, realmPath: BRAVO_REALM_PATH, clientId: TEST_CLIENT_ID },
+  { amUrl: 'https://tenant-b.example.com', clientId: TEST_CLIENT_ID },
+];
+
+describe('createMultiIssuerValidator', () => {
+  describe('issuers', () => {
+    it('lists trusted issuers derived from amUrl and realmPath, primary first', () => {
+      const validator = createMultiIssuerValidator({ issuers });
+
+      expect(validator.issuers).toEqual([TEST_ISSUER, BRAVO_ISSUER, SECOND_TENANT_ISSUER]);
+    });
+
+    it('ignores a trailing slash on amUrl', () => {
+      const validator = createMultiIssuerValidator({
+        issuers: [{ amUrl: `${TEST_AM_URL}/`, clientId: TEST_CLIENT_ID }],
+      });
+
+      expect(validator.issuers).toEqual([TEST_ISSUER]);
+    });
+
+    it('uses an explicit issuer when configured', () => {
+      const validator = createMultiIssuerValidator({
+        issuers: [{ amUrl: TEST_AM_URL, clientId: TEST_CLIENT_ID, issuer: 'https://custom' }],
+      });
+
+      expect(validator.issuers).toEqual(['https://custom']);
+    });
+  });
+
+  describe('given no issuers', () => {
+    it('throws', () => {
+      expect(() => createMultiIssuerValidator({ issuers: [] })).toThrow(
+        'At least one trusted issuer is required'
+      );
+    });
+  });
+
+  describe('given the same issuer twice', () => {
+    it('throws', () => {
+      expect(() =>
+        createMultiIssuerValidator({
+          issuers: [
+            { amUrl: TEST_AM_URL, clientId: TEST_CLIENT_ID },
+            { amUrl: TEST_AM_URL, clientId: 'other-client' },
+          ],
+        })
+      ).toThrow('Duplicate trusted issuer');
+    });
+  });
+
+  describe('validate', () => {
+    describe('given a token from an unknown issuer', () => {
+      it('returns INVALID_ISSUER without any network call', async () => {
+        const onRequest = vi.fn();
+        const validator = createMultiIssuerValidator(
+          { issuers },
+          createMockHttpClient({ onRequest })
+        );
+
+        const result = await validator.validate(
+          createUnsignedJwt({ iss: 'https://attacker.example.com', sub: 'user' })
+        );
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('INVALID_ISSUER');
+          expect(result.message).toContain('https://attacker.example.com');
+        }
+        expect(onRequest).not.toHaveBeenCalled();
+      });
+
+      it('emits a deny event to the onAuthEvent listener', async () => {
+        const onAuthEvent = vi.fn();
+        const validator = createMultiIssuerValidator({ issuers, onAuthEvent });
+
+        await validator.validate(createUnsignedJwt({ iss: 'https://attacker.example.com' }));
+
+        expect(onAuthEvent).toHaveBeenCalledWith(
+          expect.objectContaining({ decision: 'deny', errorCode: 'INVALID_ISSUER' })
+        );
+      });
+    });
+
+    describe('given a JWT without an iss claim', () => {
+      it('returns MALFORMED_TOKEN', async () => {
+        const validator = createMultiIssuerValidator({ issuers });
+
+        const result = await validator.validate(createUnsignedJwt({ sub: 'user' }));
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('MALFORMED_TOKEN');
+        }
+      });
+    });
+
+    describe('given a token from a trusted issuer', () => {
+      it("uses that issuer's discovery document", async () => {
+        const requests: string[] = [];
+        const httpClient = createMockHttpClient({
+          error: { type: 'http', message: 'Service unavailable', status: 503 },
+          onRequest: (url) => requests.push(url),
+        });
+        const validator = createMultiIssuerValidator({ issuers }, httpClient);
+
+        await validator.validate(createUnsignedJwt({ iss: BRAVO_ISSUER, sub: 'user' }));
+
+        expect(requests).toEqual([`${BRAVO_ISSUER}/.well-known/openid-configuration`]);
+      });
+    });
+
+    describe('given an opaque token', () => {
+      it('is handled by the primary issuer', async () => {
+        const requests: string[] = [];
+        const validator = createMultiIssuerValidator(
+          { issuers },
+          createMockHttpClient({ onRequest: (url) => requests.push(url) })
+        );
+
+        await validator.validate('opaque-token');
+
+        expect(requests[0]).toBe(`${TEST_ISSUER}/.well-known/openid-configuration`);
+      });
+    });
+  });
+
+  describe('discovery caches', () => {
+    it('creates a separate cache per issuer', () => {
+      const createDiscoveryCache = vi.fn(() => createMockCache<OidcDiscoveryDocument>());
+
+      createMultiIssuerValidator({ issuers }, createMockHttpClient(), createDiscoveryCache);
+
+      expect(createDiscoveryCache.mock.calls).toEqual([
+        [TEST_ISSUER],
+        [BRAVO_ISSUER],
+        [SECOND_TENANT_ISSUER],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import { decodeJwt } from 'jose';
+import type {
+  TokenValidationResult,
+  AuthenticationInfo,
+  TokenRevocationResult,
+  TokenTypeHint,
+} from '../types.js';
+import type { HttpClient } from '../http/types.js';
+import type { CacheLike } from '../cache/types.js';
+import type {
+  MultiIssuerValidator,
+  MultiIssuerValidatorConfig,
+  OidcDiscoveryDocument,
+  IntrospectionResponse,
+  TokenValidator,
+  ValidationOptions,
+} from './types.js';
+import { createFetchClient } from '../http/fetch-client.js';
+import { createMemoryCache } from '../cache/memory-cache.js';
+import { createTokenValidator } from './token-validator.js';
+import { isJwtFormat } from './jwt-validation.js';
+import { buildIssuerUrl } from './discovery.js';
+import { createValidationFailure } from './errors.js';
+import { auditValidation } from '../audit/audit.js';
+
+/** Default discovery cache TTL: 1 hour */
+const DEFAULT_DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000;
+
+/** Default maximum number of cached introspection results */
+const DEFAULT_INTROSPECTION_CACHE_MAX_ENTRIES = 10000;
+
+/** Default maximum number of remembered DPoP proof identifiers */
+const DEFAULT_DPOP_REPLAY_CACHE_MAX_ENTRIES = 10000;
+
+/**
+ * Reads the unverified "iss" claim of a JWT.
+ * Only used to pick a validator; the chosen validator verifies the signature and issuer.
+ */
+const readUnverifiedIssuer = (token: string): string | undefined => {
+  try {
+    const { iss } = decodeJwt(token);
+    return iss;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Creates a token validator that accepts tokens from several issuers, e.g. multiple realms
+ * of one tenant or several tenants during a migration.
+ *
+ * JWTs are routed by their unverified "iss" claim to that issuer's validator, which has its own
+ * discovery cache and JWKS. Tokens from unknown issuers are rejected with INVALID_ISSUER before
+ * any network call. Opaque tokens are introspected by the primary (first) issuer.
+ *
+ * @param config - Trusted issuers, primary first
+ * @param httpClient - Optional HTTP client shared by all issuers (default: createFetchClient())
+ * @param createDiscoveryCache - Optional factory for each issuer's discovery cache
+ *   (default: a new createMemoryCache() per issuer)
+ * @param dpopReplayCache - Optional DPoP replay cache shared by all issuers
+ * @param introspectionResultCache - Optional introspection result cache shared by all issuers
+ * @returns A MultiIssuerValidator instance
+ *
+ * @example
+ * ```typescript
+ * const validator = createMultiIssuerValidator({
+ *   issuers: [
+ *     { amUrl: 'https://auth.example.com', clientId: 'mcp-server' },
+ *     { amUrl: 'https://auth.example.com', realmPath: '/am/oauth2/realms/root/realms/bravo', clientId: 'mcp-server' },
+ *   ],
+ * });
+ *
+ * const metadata = createProtectedResourceMetadata({
+ *   resourceUrl: 'https://mcp.example.com',
+ *   authorizationServers: validator.issuers,
+ * });
+ * ```
+ */
+export const createMultiIssuerValidator = (
+  config: MultiIssuerValidatorConfig,
+  httpClient: HttpClient = createFetchClient(),
+  createDiscoveryCache: (issuer: string) => CacheLike<OidcDiscoveryDocument> = () =>
+    createMemoryCache(DEFAULT_DISCOVERY_CACHE_TTL_MS),
+  dpopReplayCache: CacheLike<boolean> = createMemoryCache({
+    maxEntries: DEFAULT_DPOP_REPLAY_CACHE_MAX_ENTRIES,
+  }),
+  introspectionResultCache: CacheLike<IntrospectionResponse> = createMemoryCache({
+    maxEntries: DEFAULT_INTROSPECTION_CACHE_MAX_ENTRIES,
+  })
+): MultiIssuerValidator => {
+  const validators = new Map<string, TokenValidator>();
+
+  for (const issuerConfig of config.issuers) {
+    const issuer =
+      issuerConfig.issuer ?? buildIssuerUrl(issuerConfig.amUrl, issuerConfig.realmPath);
+
+    if (validators.has(issuer)) {
+      throw new Error(`Duplicate trusted issuer: ${issuer}`);
+    }
+
+    validators.set(
+      issuer,
+      createTokenValidator(
+        issuerConfig,
+        httpClient,
+        createDiscoveryCache(issuer),
+        dpopReplayCache,
+        introspectionResultCache
+      )
+    );
+  }
+
+  const issuers = [...validators.keys()];
+  const primaryIssuer = issuers[0];
+  const primary = primaryIssuer !== undefined ? validators.get(primaryIssuer) : undefined;
+
+  if (primary === undefined) {
+    throw new Error('At least one trusted issuer is required');
+  }
+
+  const validate = async (
+    token: string | undefined,
+    options: ValidationOptions = {}
+  ): Promise<TokenValidationResult> => {
+    // Missing and opaque tokens carry no issuer; the primary issuer handles them
+    if (!token || token.trim().length === 0 || !isJwtFormat(token)) {
+      return primary.validate(token, options);
+    }
+
+    const issuer = readUnverifiedIssuer(token);
+    if (issuer === undefined) {
+      return createValidationFailure({
+        code: 'MALFORMED_TOKEN',
+        message: 'Token is missing required "iss" claim',
+      });
+    }
+
+    const validator = validators.get(issuer);
+    if (validator === undefined) {
+      return createValidationFailure({
+        code: 'INVALID_ISSUER',
+        message: `Token issuer "${issuer}" is not trusted`,
+      });
+    }
+
+    return validator.validate(token, options);
+  };
+
+  const getAuthenticationInfo = (): Promise<AuthenticationInfo | undefined> =>
+    primary.getAuthenticationInfo();
+
+  const refreshCache = async (): Promise<void> => {
+    await Promise.all([...validators.values()].map((validator) => validator.refreshCache()));
+  };
+
+  const invalidateToken = async (token: string): Promise<void> => {
+    await Promise.all(
+      [...validators.values()].map((validator) => validator.invalidateToken(token))
+    );
+  };
+
+  const close = (): void => {
+    for (const validator of validators.values()) {
+      validator.close();
+    }
+  };
+
+  const revoke = async (
+    token: string,
+    tokenTypeHint?: TokenTypeHint
+  ): Promise<TokenRevocationResult> => {
+    // JWTs go to their issuer; opaque tokens and unknown issuers to the primary issuer
+    const issuer = isJwtFormat(token) ? readUnverifiedIssuer(token) : undefined;
+    const validator = (issuer !== undefined ? validators.get(issuer) : undefined) ?? primary;
+
+    const result = await validator.revoke(token, tokenTypeHint);
+    if (result.revoked) {
+      await invalidateToken(token);
+    }
+    return result;
+  };
+
+  return {
+    issuers,
+    validate:
+      config.onAuthEvent !== undefined ? auditValidation(validate, config.onAuthEvent) : validate,
+    getAuthenticationInfo,
+    refreshCache,
+    revoke,
+    invalidateToken,
+    close,
+  };
+};
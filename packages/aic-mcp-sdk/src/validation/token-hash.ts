@@ -0,0 +1,11 @@
+import { createHash } from 'node:crypto';
+
+/**
+ * Computes a stable, non-reversible identifier for a token.
+ * Used wherever a token must be referenced (cache keys, logs) without storing the raw value.
+ *
+ * @param token - The raw token
+ * @returns Base64url-encoded SHA-256 digest of the token
+ */
+export const hashToken = (token: string): string =>
+  createHash('sha256').update(token).digest('base64url');
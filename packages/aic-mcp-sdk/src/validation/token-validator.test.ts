@@ -1,16 +1,65 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { ok } from 'neverthrow';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  SignJWT,
+  decodeJwt,
+  exportPKCS8,
+  generateKeyPair,
+  type JSONWebKeySet,
+  type JWTPayload,
+} from 'jose';
 import { createTokenValidator } from './token-validator.js';
-import type { OidcDiscoveryDocument } from './types.js';
-import type { HttpClient } from '../http/types.js';
-import { createSuccessHttpClient, createErrorHttpClient, createMockCache } from '../test/mocks.js';
+import { hashToken } from './token-hash.js';
+import type {
+  IntrospectionCacheOptions,
+  IntrospectionResponse,
+  OidcDiscoveryDocument,
+  TokenValidator,
+  TokenValidatorConfig,
+} from './types.js';
+import type { HttpClient, HttpRequest } from '../http/types.js';
+import {
+  createSuccessHttpClient,
+  createErrorHttpClient,
+  createMockCache,
+  createInMemoryTelemetry,
+} from '../test/mocks.js';
 import {
   TEST_AM_URL,
   TEST_CLIENT_ID,
+  TEST_CLIENT_SECRET,
+  TEST_SUBJECT,
+  TEST_DPOP_METHOD,
+  TEST_DPOP_URL,
+  TEST_REVOCATION_ENDPOINT,
   VALID_FORMAT_JWT,
   createDiscoveryDocument,
+  createDpopKey,
+  createSigningKey,
+  TEST_ISSUER,
+  TEST_KEY_ID,
 } from '../test/fixtures.js';
 
+const OPAQUE_TOKEN = 'opaque-access-token-12345';
+
+/**
+ * Creates an HTTP client that serves discovery over json() and the given
+ * introspection response over text().
+ */
+const createIntrospectionHttpClient = (introspection: Record<string, unknown>): HttpClient => ({
+  json: () =>
+    Promise.resolve(
+      ok({ status: 200, statusText: 'OK', headers: {}, body: createDiscoveryDocument() as never })
+    ),
+  text: () =>
+    Promise.resolve(
+      ok({ status: 200, statusText: 'OK', headers: {}, body: JSON.stringify(introspection) })
+    ),
+});
+
 describe('createTokenValidator', () => {
   describe('validate', () => {
     describe('given undefined token', () => {
@@ -271,4 +320,1126 @@ describe('createTokenValidator', () => {
       expect(result.valid).toBe(false);
     });
   });
+
+  describe('DPoP', () => {
+    const createValidator = (introspection: Record<string, unknown>): TokenValidator =>
+      createTokenValidator(
+        { amUrl: TEST_AM_URL, clientId: TEST_CLIENT_ID, clientSecret: TEST_CLIENT_SECRET },
+        createIntrospectionHttpClient(introspection),
+        createMockCache<OidcDiscoveryDocument>()
+      );
+
+    describe('given a DPoP-bound token with a valid proof', () => {
+      it('returns success with the cnf claim', async () => {
+        const key = await createDpopKey();
+        const validator = createValidator({
+          active: true,
+          sub: TEST_SUBJECT,
+          cnf: { jkt: key.jkt },
+        });
+        const proof = await key.createProof(OPAQUE_TOKEN);
+
+        const result = await validator.validate(OPAQUE_TOKEN, {
+          dpop: { proof, method: TEST_DPOP_METHOD, url: TEST_DPOP_URL },
+        });
+
+        expect(result.valid).toBe(true);
+        if (result.valid) {
+          expect(result.claims.cnf?.jkt).toBe(key.jkt);
+        }
+      });
+    });
+
+    describe('given a DPoP-bound token without a proof', () => {
+      it('returns INVALID_DPOP_PROOF failure', async () => {
+        const key = await createDpopKey();
+        const validator = createValidator({
+          active: true,
+          sub: TEST_SUBJECT,
+          cnf: { jkt: key.jkt },
+        });
+
+        const result = await validator.validate(OPAQUE_TOKEN);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('INVALID_DPOP_PROOF');
+        }
+      });
+    });
+
+    describe('given a proof for a token that is not DPoP-bound', () => {
+      it('returns DPOP_BINDING_MISMATCH failure', async () => {
+        const key = await createDpopKey();
+        const validator = createValidator({ active: true, sub: TEST_SUBJECT });
+        const proof = await key.createProof(OPAQUE_TOKEN);
+
+        const result = await validator.validate(OPAQUE_TOKEN, {
+          dpop: { proof, method: TEST_DPOP_METHOD, url: TEST_DPOP_URL },
+        });
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('DPOP_BINDING_MISMATCH');
+        }
+      });
+    });
+
+    describe('given a proof that is replayed', () => {
+      it('returns DPOP_PROOF_REPLAYED failure', async () => {
+        const key = await createDpopKey();
+        const validator = createValidator({
+          active: true,
+          sub: TEST_SUBJECT,
+          cnf: { jkt: key.jkt },
+        });
+        const proof = await key.createProof(OPAQUE_TOKEN);
+        const options = { dpop: { proof, method: TEST_DPOP_METHOD, url: TEST_DPOP_URL } };
+
+        await validator.validate(OPAQUE_TOKEN, options);
+        const result = await validator.validate(OPAQUE_TOKEN, options);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('DPOP_PROOF_REPLAYED');
+        }
+      });
+    });
+  });
+
+  describe('introspected claims', () => {
+    describe('given an active introspection response with custom claims', () => {
+      it('keeps every claim except active', async () => {
+        const validator = createTokenValidator(
+          { amUrl: TEST_AM_URL, clientId: TEST_CLIENT_ID, clientSecret: TEST_CLIENT_SECRET },
+          createIntrospectionHttpClient({
+            active: true,
+            sub: TEST_SUBJECT,
+            groups: ['support'],
+            email: 'user@example.com',
+          }),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        const result = await validator.validate(OPAQUE_TOKEN);
+
+        expect(result.valid).toBe(true);
+        if (result.valid) {
+          expect(result.claims['groups']).toEqual(['support']);
+          expect(result.claims['email']).toBe('user@example.com');
+          expect(result.claims).not.toHaveProperty('active');
+        }
+      });
+    });
+  });
+
+  describe('introspection cache', () => {
+    /**
+     * Creates a validator whose introspection results go to a tracking cache, and a spy
+     * counting introspection requests.
+     */
+    const createCachingValidator = (
+      introspection: Record<string, unknown>,
+      introspectionCache: IntrospectionCacheOptions = {}
+    ): {
+      readonly validator: TokenValidator;
+      readonly cache: ReturnType<typeof createMockCache<IntrospectionResponse>>;
+      readonly introspect: ReturnType<typeof vi.fn>;
+    } => {
+      const httpClient = createIntrospectionHttpClient(introspection);
+      const introspect = vi.fn(httpClient.text);
+      const cache = createMockCache<IntrospectionResponse>();
+      const validator = createTokenValidator(
+        {
+          amUrl: TEST_AM_URL,
+          clientId: TEST_CLIENT_ID,
+          clientSecret: TEST_CLIENT_SECRET,
+          introspectionCache,
+        },
+        { ...httpClient, text: introspect },
+        createMockCache<OidcDiscoveryDocument>(),
+        createMockCache<boolean>(),
+        cache
+      );
+      return { validator, cache, introspect };
+    };
+
+    describe('given an active token validated twice', () => {
+      it('introspects only once', async () => {
+        const { validator, introspect } = createCachingValidator({
+          active: true,
+          sub: TEST_SUBJECT,
+        });
+
+        const first = await validator.validate(OPAQUE_TOKEN);
+        const second = await validator.validate(OPAQUE_TOKEN);
+
+        expect(first.valid).toBe(true);
+        expect(second.valid).toBe(true);
+        expect(introspect).toHaveBeenCalledTimes(1);
+      });
+
+      it('still checks required scopes against the cached result', async () => {
+        const { validator } = createCachingValidator({
+          active: true,
+          sub: TEST_SUBJECT,
+          scope: 'read',
+        });
+        await validator.validate(OPAQUE_TOKEN);
+
+        const result = await validator.validate(OPAQUE_TOKEN, { requiredScopes: ['write'] });
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('INSUFFICIENT_SCOPE');
+        }
+      });
+    });
+
+    describe('given an active token', () => {
+      it('keys the cache by token hash, never the raw token', async () => {
+        const { validator, cache } = createCachingValidator({ active: true, sub: TEST_SUBJECT });
+
+        await validator.validate(OPAQUE_TOKEN);
+
+        expect(cache.setCalls[0]?.key).toBe(hashToken(OPAQUE_TOKEN));
+        expect([...cache.data.keys()].some((key) => key.includes(OPAQUE_TOKEN))).toBe(false);
+      });
+
+      it('uses the max TTL when the token has no exp', async () => {
+        const { validator, cache } = createCachingValidator(
+          { active: true, sub: TEST_SUBJECT },
+          { maxTtlMs: 30000 }
+        );
+
+        await validator.validate(OPAQUE_TOKEN);
+
+        expect(cache.setCalls[0]?.ttlMs).toBe(30000);
+      });
+
+      it('caps the TTL at the token expiry', async () => {
+        const exp = Math.floor(Date.now() / 1000) + 20;
+        const { validator, cache } = createCachingValidator({
+          active: true,
+          sub: TEST_SUBJECT,
+          exp,
+        });
+
+        await validator.validate(OPAQUE_TOKEN);
+
+        const ttlMs = cache.setCalls[0]?.ttlMs ?? 0;
+        expect(ttlMs).toBeGreaterThan(0);
+        expect(ttlMs).toBeLessThanOrEqual(20000);
+      });
+    });
+
+    describe('given maxTtlMs of 0', () => {
+      it('does not cache active results', async () => {
+        const { validator, cache, introspect } = createCachingValidator(
+          { active: true, sub: TEST_SUBJECT },
+          { maxTtlMs: 0 }
+        );
+
+        await validator.validate(OPAQUE_TOKEN);
+        await validator.validate(OPAQUE_TOKEN);
+
+        expect(cache.setCalls).toHaveLength(0);
+        expect(introspect).toHaveBeenCalledTimes(2);
+      });
+    });
+
+    describe('given an inactive token', () => {
+      it('caches the result for the inactive TTL', async () => {
+        const { validator, cache, introspect } = createCachingValidator({ active: false });
+
+        const first = await validator.validate(OPAQUE_TOKEN);
+        const second = await validator.validate(OPAQUE_TOKEN);
+
+        expect(first.valid).toBe(false);
+        expect(second.valid).toBe(false);
+        if (!second.valid) {
+          expect(second.error).toBe('REVOKED_TOKEN');
+        }
+        expect(cache.setCalls[0]?.ttlMs).toBe(10000);
+        expect(introspect).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('given invalidateToken is called', () => {
+      it('introspects the token again on the next validation', async () => {
+        const { validator, introspect } = createCachingValidator({
+          active: true,
+          sub: TEST_SUBJECT,
+        });
+        await validator.validate(OPAQUE_TOKEN);
+
+        await validator.invalidateToken(OPAQUE_TOKEN);
+        await validator.validate(OPAQUE_TOKEN);
+
+        expect(introspect).toHaveBeenCalledTimes(2);
+      });
+    });
+  });
+
+  describe('client authentication', () => {
+    /**
+     * Creates a validator against a discovery document with the given auth methods,
+     * recording introspection requests.
+     */
+    const createRecordingValidator = (
+      methods: readonly string[],
+      config: Partial<TokenValidatorConfig> = {}
+    ): { readonly validator: TokenValidator; readonly requests: HttpRequest[] } => {
+      const requests: HttpRequest[] = [];
+      const discovery = createDiscoveryDocument({ token_endpoint_auth_methods_supported: methods });
+      const httpClient: HttpClient = {
+        json: () =>
+          Promise.resolve(
+            ok({ status: 200, statusText: 'OK', headers: {}, body: discovery as never })
+          ),
+        text: (request) => {
+          requests.push(request);
+          return Promise.resolve(
+            ok({
+              status: 200,
+              statusText: 'OK',
+              headers: {},
+              body: JSON.stringify({ active: true, sub: TEST_SUBJECT }),
+            })
+          );
+        },
+      };
+      const validator = createTokenValidator(
+        {
+          amUrl: TEST_AM_URL,
+          clientId: TEST_CLIENT_ID,
+          clientSecret: TEST_CLIENT_SECRET,
+          ...config,
+        },
+        httpClient,
+        createMockCache<OidcDiscoveryDocument>()
+      );
+      return { validator, requests };
+    };
+
+    describe('given AM only supports client_secret_post', () => {
+      it('sends the client secret in the introspection body', async () => {
+        const { validator, requests } = createRecordingValidator(['client_secret_post']);
+
+        const result = await validator.validate(OPAQUE_TOKEN);
+
+        expect(result.valid).toBe(true);
+        expect(requests[0]?.headers?.['Authorization']).toBeUndefined();
+        const body = new URLSearchParams(requests[0]?.body);
+        expect(body.get('client_id')).toBe(TEST_CLIENT_ID);
+        expect(body.get('client_secret')).toBe(TEST_CLIENT_SECRET);
+      });
+    });
+
+    describe('given tls_client_auth without a client secret', () => {
+      it('introspects with only the client ID', async () => {
+        const { validator, requests } = createRecordingValidator(['tls_client_auth'], {
+          clientSecret: '',
+          clientAuthentication: { tlsClientCertificate: true },
+        });
+
+        const result = await validator.validate(OPAQUE_TOKEN);
+
+        expect(result.valid).toBe(true);
+        const body = new URLSearchParams(requests[0]?.body);
+        expect(body.get('client_id')).toBe(TEST_CLIENT_ID);
+        expect(body.get('client_secret')).toBeNull();
+      });
+    });
+
+    describe('given private_key_jwt', () => {
+      it('signs a fresh client assertion when introspection is rebuilt for a retry', async () => {
+        const { privateKey } = await generateKeyPair('RS256', { extractable: true });
+        const { validator, requests } = createRecordingValidator(['private_key_jwt'], {
+          clientSecret: '',
+          clientAuthentication: {
+            privateKey: { pem: await exportPKCS8(privateKey), alg: 'RS256' },
+          },
+        });
+        const assertionId = (request: HttpRequest | undefined): unknown =>
+          decodeJwt(new URLSearchParams(request?.body).get('client_assertion') ?? '').jti;
+
+        await validator.validate(OPAQUE_TOKEN);
+        const retried = await requests[0]?.rebuild?.();
+
+        expect(assertionId(requests[0])).toEqual(expect.any(String));
+        expect(assertionId(retried)).toEqual(expect.any(String));
+        expect(assertionId(retried)).not.toBe(assertionId(requests[0]));
+      });
+    });
+
+    describe('given no method in common with AM', () => {
+      it('returns VALIDATION_ERROR without calling introspection', async () => {
+        const { validator, requests } = createRecordingValidator(['private_key_jwt']);
+
+        const result = await validator.validate(OPAQUE_TOKEN);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('VALIDATION_ERROR');
+        }
+        expect(requests).toHaveLength(0);
+      });
+    });
+  });
+
+  describe('revoke', () => {
+    /**
+     * Creates a validator whose AM answers introspection with the given activity and
+     * revocation with the given status, recording every POST.
+     */
+    const createRevokingValidator = (
+      revocationStatus = 200,
+      config: Partial<TokenValidatorConfig> = {}
+    ): {
+      readonly validator: TokenValidator;
+      readonly requests: HttpRequest[];
+      readonly setActive: (active: boolean) => void;
+    } => {
+      const requests: HttpRequest[] = [];
+      let active = true;
+      const httpClient: HttpClient = {
+        json: () =>
+          Promise.resolve(
+            ok({
+              status: 200,
+              statusText: 'OK',
+              headers: {},
+              body: createDiscoveryDocument() as never,
+            })
+          ),
+        text: (request) => {
+          requests.push(request);
+          const response =
+            request.url === TEST_REVOCATION_ENDPOINT
+              ? { status: revocationStatus, statusText: 'Status', headers: {}, body: '' }
+              : {
+                  status: 200,
+                  statusText: 'OK',
+                  headers: {},
+                  body: JSON.stringify({ active, sub: TEST_SUBJECT }),
+                };
+          return Promise.resolve(ok(response));
+        },
+      };
+      const validator = createTokenValidator(
+        {
+          amUrl: TEST_AM_URL,
+          clientId: TEST_CLIENT_ID,
+          clientSecret: TEST_CLIENT_SECRET,
+          ...config,
+        },
+        httpClient,
+        createMockCache<OidcDiscoveryDocument>()
+      );
+      return {
+        validator,
+        requests,
+        setActive: (value) => {
+          active = value;
+        },
+      };
+    };
+
+    describe('given the revocation endpoint accepts the request', () => {
+      it('posts the token with an access_token hint by default', async () => {
+        const { validator, requests } = createRevokingValidator();
+
+        const result = await validator.revoke(OPAQUE_TOKEN);
+
+        expect(result).toEqual({ revoked: true });
+        expect(requests[0]?.url).toBe(TEST_REVOCATION_ENDPOINT);
+        const body = new URLSearchParams(requests[0]?.body);
+        expect(body.get('token')).toBe(OPAQUE_TOKEN);
+        expect(body.get('token_type_hint')).toBe('access_token');
+      });
+
+      it('marks introspection for retry policies but not revocation', async () => {
+        const { validator, requests } = createRevokingValidator();
+
+        await validator.validate(OPAQUE_TOKEN);
+        await validator.revoke(OPAQUE_TOKEN);
+
+        expect(requests[0]?.url).not.toBe(TEST_REVOCATION_ENDPOINT);
+        expect(requests[0]?.operation).toBe('introspection');
+        expect(requests[1]?.url).toBe(TEST_REVOCATION_ENDPOINT);
+        expect(requests[1]?.operation).toBeUndefined();
+        expect(requests[1]?.rebuild).toBeUndefined();
+      });
+
+      it('passes a refresh_token hint through', async () => {
+        const { validator, requests } = createRevokingValidator();
+
+        await validator.revoke('refresh-token-value', 'refresh_token');
+
+        const body = new URLSearchParams(requests[0]?.body);
+        expect(body.get('token_type_hint')).toBe('refresh_token');
+      });
+
+      it('evicts the cached introspection result', async () => {
+        const { validator, setActive } = createRevokingValidator();
+        const before = await validator.validate(OPAQUE_TOKEN);
+        setActive(false);
+
+        await validator.revoke(OPAQUE_TOKEN);
+        const after = await validator.validate(OPAQUE_TOKEN);
+
+        expect(before.valid).toBe(true);
+        expect(after.valid).toBe(false);
+        if (!after.valid) {
+          expect(after.error).toBe('REVOKED_TOKEN');
+        }
+      });
+
+      it('rejects a revoked JWT even though its signature is still valid', async () => {
+        const key = await createSigningKey();
+        const now = Math.floor(Date.now() / 1000);
+        const token = await key.sign({
+          sub: TEST_SUBJECT,
+          iss: TEST_ISSUER,
+          aud: TEST_CLIENT_ID,
+          iat: now,
+          exp: now + 300,
+        });
+        const { validator } = createRevokingValidator(200, {
+          keySource: { type: 'jwks', jwks: key.jwks },
+        });
+        const before = await validator.validate(token);
+
+        await validator.revoke(token);
+        const after = await validator.validate(token);
+
+        expect(before.valid).toBe(true);
+        expect(after.valid).toBe(false);
+        if (!after.valid) {
+          expect(after.error).toBe('REVOKED_TOKEN');
+        }
+      });
+    });
+
+    describe('given the revocation endpoint refuses the request', () => {
+      it('returns REVOCATION_ERROR', async () => {
+        const { validator } = createRevokingValidator(401);
+
+        const result = await validator.revoke(OPAQUE_TOKEN);
+
+        expect(result.revoked).toBe(false);
+        if (!result.revoked) {
+          expect(result.error).toBe('REVOCATION_ERROR');
+          expect(result.message).toContain('401');
+        }
+      });
+    });
+
+    describe('given no clientSecret', () => {
+      it('returns REVOCATION_ERROR without calling AM', async () => {
+        const { validator, requests } = createRevokingValidator(200, { clientSecret: '' });
+
+        const result = await validator.revoke(OPAQUE_TOKEN);
+
+        expect(result.revoked).toBe(false);
+        if (!result.revoked) {
+          expect(result.error).toBe('REVOCATION_ERROR');
+        }
+        expect(requests).toHaveLength(0);
+      });
+    });
+
+    describe('given an empty token', () => {
+      it('returns MISSING_TOKEN', async () => {
+        const { validator } = createRevokingValidator();
+
+        const result = await validator.revoke('');
+
+        expect(result.revoked).toBe(false);
+        if (!result.revoked) {
+          expect(result.error).toBe('MISSING_TOKEN');
+        }
+      });
+    });
+  });
+
+  describe('keySource', () => {
+    describe('given an inline JWKS', () => {
+      it('validates JWTs without fetching the discovery jwks_uri', async () => {
+        const key = await createSigningKey();
+        const now = Math.floor(Date.now() / 1000);
+        const token = await key.sign({
+          sub: TEST_SUBJECT,
+          iss: TEST_ISSUER,
+          aud: TEST_CLIENT_ID,
+          iat: now,
+          exp: now + 300,
+        });
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            keySource: { type: 'jwks', jwks: key.jwks },
+          },
+          createSuccessHttpClient(
+            createDiscoveryDocument({ jwks_uri: 'https://unreachable.invalid/jwks' })
+          ),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        const result = await validator.validate(token);
+
+        expect(result.valid).toBe(true);
+        if (result.valid) {
+          expect(result.claims.sub).toBe(TEST_SUBJECT);
+        }
+      });
+
+      it('returns INVALID_SIGNATURE for tokens signed by another key', async () => {
+        const key = await createSigningKey();
+        const otherKey = await createSigningKey();
+        const now = Math.floor(Date.now() / 1000);
+        const token = await otherKey.sign({
+          sub: TEST_SUBJECT,
+          iss: TEST_ISSUER,
+          aud: TEST_CLIENT_ID,
+          iat: now,
+          exp: now + 300,
+        });
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            keySource: { type: 'jwks', jwks: key.jwks },
+          },
+          createSuccessHttpClient(createDiscoveryDocument()),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        const result = await validator.validate(token);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('INVALID_SIGNATURE');
+        }
+      });
+    });
+
+    describe('given close is called', () => {
+      it('keeps validating with a file key source', async () => {
+        const key = await createSigningKey();
+        const directory = await mkdtemp(join(tmpdir(), 'aic-jwks-'));
+        const path = join(directory, 'jwks.json');
+        await writeFile(path, JSON.stringify(key.jwks));
+        const now = Math.floor(Date.now() / 1000);
+        const validator = createTokenValidator(
+          { amUrl: TEST_AM_URL, clientId: TEST_CLIENT_ID, keySource: { type: 'file', path } },
+          createSuccessHttpClient(createDiscoveryDocument()),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        validator.close();
+        const result = await validator.validate(
+          await key.sign({
+            sub: TEST_SUBJECT,
+            iss: TEST_ISSUER,
+            aud: TEST_CLIENT_ID,
+            iat: now,
+            exp: now + 300,
+          })
+        );
+        await rm(directory, { recursive: true, force: true });
+
+        expect(result.valid).toBe(true);
+      });
+    });
+
+    describe('given a key source that cannot be loaded', () => {
+      it('returns VALIDATION_ERROR', async () => {
+        const key = await createSigningKey();
+        const token = await key.sign({ sub: TEST_SUBJECT, iss: TEST_ISSUER });
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            keySource: { type: 'file', path: '/nonexistent/jwks.json', watch: false },
+          },
+          createSuccessHttpClient(createDiscoveryDocument()),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        const result = await validator.validate(token);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('VALIDATION_ERROR');
+          expect(result.message).toContain('/nonexistent/jwks.json');
+        }
+      });
+    });
+  });
+
+  describe('signing algorithm allowlist', () => {
+    const createClaims = (): JWTPayload => {
+      const now = Math.floor(Date.now() / 1000);
+      return { sub: TEST_SUBJECT, iss: TEST_ISSUER, aud: TEST_CLIENT_ID, iat: now, exp: now + 300 };
+    };
+
+    describe('given no allowedAlgorithms', () => {
+      it('accepts only the asymmetric algorithms discovery advertises', async () => {
+        const key = await createSigningKey();
+        const token = await key.sign(createClaims());
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            keySource: { type: 'jwks', jwks: key.jwks },
+          },
+          createSuccessHttpClient(
+            createDiscoveryDocument({ id_token_signing_alg_values_supported: ['ES256'] })
+          ),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        const result = await validator.validate(token);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('ALGORITHM_NOT_ALLOWED');
+        }
+      });
+
+      it('accepts every asymmetric algorithm when discovery advertises none', async () => {
+        const key = await createSigningKey();
+        const token = await key.sign(createClaims());
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            keySource: { type: 'jwks', jwks: key.jwks },
+          },
+          createSuccessHttpClient(
+            createDiscoveryDocument({ id_token_signing_alg_values_supported: [] })
+          ),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        const result = await validator.validate(token);
+
+        expect(result.valid).toBe(true);
+      });
+
+      it('rejects HMAC tokens even when discovery advertises HS256', async () => {
+        const secret = new TextEncoder().encode('a-shared-secret-of-at-least-32-bytes!');
+        const token = await new SignJWT(createClaims())
+          .setProtectedHeader({ alg: 'HS256', kid: TEST_KEY_ID })
+          .sign(secret);
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            keySource: { type: 'jwks', jwks: (await createSigningKey()).jwks },
+          },
+          createSuccessHttpClient(
+            createDiscoveryDocument({ id_token_signing_alg_values_supported: ['HS256', 'RS256'] })
+          ),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        const result = await validator.validate(token);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('ALGORITHM_NOT_ALLOWED');
+        }
+      });
+    });
+
+    describe('given allowedAlgorithms in config', () => {
+      it('rejects algorithms outside the allowlist', async () => {
+        const key = await createSigningKey();
+        const token = await key.sign(createClaims());
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            keySource: { type: 'jwks', jwks: key.jwks },
+            allowedAlgorithms: ['ES256'],
+          },
+          createSuccessHttpClient(createDiscoveryDocument()),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        const result = await validator.validate(token);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('ALGORITHM_NOT_ALLOWED');
+        }
+      });
+    });
+
+    describe('given allowedAlgorithms in validation options', () => {
+      it('takes precedence over config', async () => {
+        const key = await createSigningKey();
+        const token = await key.sign(createClaims());
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            keySource: { type: 'jwks', jwks: key.jwks },
+            allowedAlgorithms: ['RS256'],
+          },
+          createSuccessHttpClient(createDiscoveryDocument()),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        const result = await validator.validate(token, { allowedAlgorithms: ['PS256'] });
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('ALGORITHM_NOT_ALLOWED');
+        }
+      });
+    });
+  });
+
+  describe('strictAccessTokenProfile', () => {
+    const createClaims = (extra: JWTPayload = {}): JWTPayload => {
+      const now = Math.floor(Date.now() / 1000);
+      return {
+        sub: TEST_SUBJECT,
+        iss: TEST_ISSUER,
+        aud: TEST_CLIENT_ID,
+        iat: now,
+        exp: now + 300,
+        ...extra,
+      };
+    };
+
+    const createStrictValidator = (jwks: JSONWebKeySet): TokenValidator =>
+      createTokenValidator(
+        {
+          amUrl: TEST_AM_URL,
+          clientId: TEST_CLIENT_ID,
+          keySource: { type: 'jwks', jwks },
+          strictAccessTokenProfile: true,
+        },
+        createSuccessHttpClient(createDiscoveryDocument()),
+        createMockCache<OidcDiscoveryDocument>()
+      );
+
+    describe('given an at+jwt token with client_id', () => {
+      it('returns valid result', async () => {
+        const key = await createSigningKey();
+        const token = await key.sign(createClaims({ client_id: TEST_CLIENT_ID }), {
+          typ: 'at+jwt',
+        });
+
+        const result = await createStrictValidator(key.jwks).validate(token);
+
+        expect(result.valid).toBe(true);
+      });
+
+      it('accepts the application/ prefixed media type', async () => {
+        const key = await createSigningKey();
+        const token = await key.sign(createClaims({ client_id: TEST_CLIENT_ID }), {
+          typ: 'application/at+jwt',
+        });
+
+        const result = await createStrictValidator(key.jwks).validate(token);
+
+        expect(result.valid).toBe(true);
+      });
+    });
+
+    describe('given a token with typ JWT', () => {
+      it('returns INVALID_TOKEN_TYPE', async () => {
+        const key = await createSigningKey();
+        const token = await key.sign(createClaims({ client_id: TEST_CLIENT_ID }));
+
+        const result = await createStrictValidator(key.jwks).validate(token);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('INVALID_TOKEN_TYPE');
+          expect(result.message).toContain('"JWT"');
+        }
+      });
+    });
+
+    describe('given an at+jwt token without client_id', () => {
+      it('returns MISSING_CLIENT_ID', async () => {
+        const key = await createSigningKey();
+        const token = await key.sign(createClaims(), { typ: 'at+jwt' });
+
+        const result = await createStrictValidator(key.jwks).validate(token);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('MISSING_CLIENT_ID');
+        }
+      });
+    });
+
+    describe('given an ID token', () => {
+      it('returns ID_TOKEN_REJECTED when it carries ID token claims', async () => {
+        const key = await createSigningKey();
+        const token = await key.sign(createClaims({ nonce: 'n-0S6_WzA2Mj', at_hash: 'abc' }));
+
+        const result = await createStrictValidator(key.jwks).validate(token);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('ID_TOKEN_REJECTED');
+        }
+      });
+
+      it('returns ID_TOKEN_REJECTED when tokenName is id_token', async () => {
+        const key = await createSigningKey();
+        const token = await key.sign(
+          createClaims({ tokenName: 'id_token', client_id: TEST_CLIENT_ID }),
+          { typ: 'at+jwt' }
+        );
+
+        const result = await createStrictValidator(key.jwks).validate(token);
+
+        expect(result.valid).toBe(false);
+        if (!result.valid) {
+          expect(result.error).toBe('ID_TOKEN_REJECTED');
+        }
+      });
+    });
+
+    describe('given strict mode disabled per call', () => {
+      it('accepts a typ JWT token', async () => {
+        const key = await createSigningKey();
+        const token = await key.sign(createClaims());
+
+        const result = await createStrictValidator(key.jwks).validate(token, {
+          strictAccessTokenProfile: false,
+        });
+
+        expect(result.valid).toBe(true);
+      });
+    });
+  });
+
+  describe('authorization_details', () => {
+    const TODO_ACCESS = {
+      type: 'todo_access',
+      actions: ['read', 'write'],
+      locations: ['https://todos.example.com'],
+    };
+
+    describe('given a JWT with authorization_details', () => {
+      it('exposes well-formed entries on the claims', async () => {
+        const key = await createSigningKey();
+        const now = Math.floor(Date.now() / 1000);
+        const token = await key.sign({
+          sub: TEST_SUBJECT,
+          iss: TEST_ISSUER,
+          aud: TEST_CLIENT_ID,
+          iat: now,
+          exp: now + 300,
+          authorization_details: [TODO_ACCESS, { actions: ['read'] }],
+        });
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            keySource: { type: 'jwks', jwks: key.jwks },
+          },
+          createSuccessHttpClient(createDiscoveryDocument()),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        const result = await validator.validate(token);
+
+        expect(result.valid).toBe(true);
+        if (result.valid) {
+          expect(result.claims.authorization_details).toEqual([TODO_ACCESS]);
+        }
+      });
+    });
+
+    describe('given an introspection response with authorization_details', () => {
+      it('exposes them on the claims', async () => {
+        const validator = createTokenValidator(
+          { amUrl: TEST_AM_URL, clientId: TEST_CLIENT_ID, clientSecret: TEST_CLIENT_SECRET },
+          createIntrospectionHttpClient({
+            active: true,
+            sub: TEST_SUBJECT,
+            authorization_details: [TODO_ACCESS],
+          }),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        const result = await validator.validate(OPAQUE_TOKEN);
+
+        expect(result.valid).toBe(true);
+        if (result.valid) {
+          expect(result.claims.authorization_details).toEqual([TODO_ACCESS]);
+        }
+      });
+    });
+  });
+
+  describe('onAuthEvent', () => {
+    describe('given a valid token', () => {
+      it('emits an allow event for the caller', async () => {
+        const onAuthEvent = vi.fn();
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            clientSecret: TEST_CLIENT_SECRET,
+            onAuthEvent,
+          },
+          createIntrospectionHttpClient({ active: true, sub: TEST_SUBJECT, scope: 'read' }),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        await validator.validate(OPAQUE_TOKEN, { requiredScopes: ['read'] });
+
+        expect(onAuthEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            source: 'validator',
+            decision: 'allow',
+            subject: TEST_SUBJECT,
+            tokenHash: hashToken(OPAQUE_TOKEN),
+            requiredScopes: ['read'],
+            presentScopes: ['read'],
+          })
+        );
+      });
+    });
+
+    describe('given an invalid token', () => {
+      it('emits a deny event with the error code', async () => {
+        const onAuthEvent = vi.fn();
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            clientSecret: TEST_CLIENT_SECRET,
+            onAuthEvent,
+          },
+          createIntrospectionHttpClient({ active: false }),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        const result = await validator.validate(OPAQUE_TOKEN);
+
+        expect(result.valid).toBe(false);
+        expect(onAuthEvent).toHaveBeenCalledWith(
+          expect.objectContaining({
+            source: 'validator',
+            decision: 'deny',
+            errorCode: result.valid ? undefined : result.error,
+          })
+        );
+      });
+    });
+  });
+
+  describe('telemetry', () => {
+    describe('given an opaque token', () => {
+      it('records validate, discovery and introspection spans with cache hit/miss', async () => {
+        const telemetry = createInMemoryTelemetry();
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            clientSecret: TEST_CLIENT_SECRET,
+            telemetry,
+          },
+          createIntrospectionHttpClient({ active: true, sub: TEST_SUBJECT }),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        await validator.validate(OPAQUE_TOKEN);
+        await validator.validate(OPAQUE_TOKEN);
+
+        expect(telemetry.spansNamed('aic.validate')[0]?.attributes).toEqual({
+          'aic.token.type': 'opaque',
+          'aic.validation.outcome': 'valid',
+        });
+        expect(telemetry.spansNamed('aic.discovery')[0]?.parent).toBe('aic.validate');
+        expect(
+          telemetry.spansNamed('aic.introspection').map((span) => span.attributes['aic.cache.hit'])
+        ).toEqual([false, true]);
+        expect(
+          telemetry
+            .measurementsOf('aic.backchannel.duration')
+            .map((measurement) => measurement.attributes['aic.operation'])
+        ).toEqual(['discovery', 'introspection']);
+      });
+    });
+
+    describe('given a JWT', () => {
+      it('records a JWKS span under the validate span', async () => {
+        const telemetry = createInMemoryTelemetry();
+        const key = await createSigningKey();
+        const now = Math.floor(Date.now() / 1000);
+        const token = await key.sign({
+          sub: TEST_SUBJECT,
+          iss: TEST_ISSUER,
+          aud: TEST_CLIENT_ID,
+          iat: now,
+          exp: now + 300,
+        });
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            keySource: { type: 'jwks', jwks: key.jwks },
+            telemetry,
+          },
+          createSuccessHttpClient(createDiscoveryDocument()),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        await validator.validate(token);
+
+        const [jwksSpan] = telemetry.spansNamed('aic.jwks');
+        expect(jwksSpan?.parent).toBe('aic.validate');
+        expect(jwksSpan?.status).toBeUndefined();
+        expect(telemetry.spansNamed('aic.validate')[0]?.attributes['aic.token.type']).toBe('jwt');
+      });
+    });
+
+    describe('given an invalid token', () => {
+      it('counts the outcome with its error code', async () => {
+        const telemetry = createInMemoryTelemetry();
+        const validator = createTokenValidator(
+          {
+            amUrl: TEST_AM_URL,
+            clientId: TEST_CLIENT_ID,
+            clientSecret: TEST_CLIENT_SECRET,
+            telemetry,
+          },
+          createIntrospectionHttpClient({ active: false }),
+          createMockCache<OidcDiscoveryDocument>()
+        );
+
+        await validator.validate(OPAQUE_TOKEN);
+
+        expect(telemetry.measurementsOf('aic.validation.count')).toEqual([
+          {
+            instrument: 'aic.validation.count',
+            value: 1,
+            attributes: {
+              'aic.token.type': 'opaque',
+              'aic.validation.outcome': 'invalid',
+              'aic.error.code': 'REVOKED_TOKEN',
+            },
+          },
+        ]);
+        expect(telemetry.spansNamed('aic.validate')[0]?.status?.code).toBe(2);
+        expect(telemetry.measurementsOf('aic.validation.duration')).toHaveLength(1);
+      });
+    });
+  });
 });
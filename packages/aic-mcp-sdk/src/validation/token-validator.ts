@@ -1,12 +1,17 @@
 import { ok, err, type Result } from 'neverthrow';
+import { decodeJwt, type JWTVerifyGetKey } from 'jose';
 import type {
   TokenValidationResult,
   TokenValidationSuccess,
   AuthenticationInfo,
   TokenClaims,
+  TokenConfirmation,
+  TokenRevocationResult,
+  TokenRevocationSuccess,
+  TokenTypeHint,
 } from '../types.js';
-import type { HttpClient } from '../http/types.js';
-import type { Cache } from '../cache/types.js';
+import type { HttpClient, HttpRequest } from '../http/types.js';
+import type { CacheLike } from '../cache/types.js';
 import type {
   TokenValidator,
   ValidationOptions,
@@ -14,10 +19,24 @@ import type {
   IntrospectionResponse,
   TokenValidatorConfig,
   JwtValidatorConfig,
+  ValidationError,
 } from './types.js';
 import { createFetchClient } from '../http/fetch-client.js';
 import { createMemoryCache } from '../cache/memory-cache.js';
+import { toAsyncCache } from '../cache/async-cache.js';
 import { createCachedDiscoveryFetcher, toAuthenticationInfo } from './discovery.js';
+import { createKeyResolver } from './key-source.js';
+import { hashToken } from './token-hash.js';
+import { auditValidation } from '../audit/audit.js';
+import { createTelemetry, TELEMETRY_ATTRIBUTES, TELEMETRY_SPANS } from '../telemetry/telemetry.js';
+import { checkUserAuthentication } from './user-authentication.js';
+import { parseAuthorizationDetails } from './authorization-details.js';
+import {
+  createClientAuthenticatedRequest,
+  createClientAuthenticationResolver,
+  hasClientCredentials,
+} from '../client-auth/client-authentication.js';
+import type { ClientAuthentication } from '../client-auth/types.js';
 import {
   isJwtFormat,
   createJwks,
@@ -30,11 +49,55 @@ import {
   createValidationFailure,
   createMissingTokenFailure,
   createIntrospectionError,
+  createRevocationError,
 } from './errors.js';
+import {
+  verifyDpopProof,
+  DEFAULT_DPOP_ALGORITHMS,
+  DEFAULT_DPOP_MAX_PROOF_AGE_SECONDS,
+} from './dpop.js';
 
 /** Default discovery cache TTL: 1 hour */
 const DEFAULT_DISCOVERY_CACHE_TTL_MS = 60 * 60 * 1000;
 
+/**
+ * Asymmetric JWS algorithms, from which the default access token algorithms are drawn.
+ * JWKS key selection narrows these to the ones matching the type of each published key.
+ */
+const DEFAULT_SIGNING_ALGORITHMS: readonly string[] = [
+  'RS256',
+  'RS384',
+  'RS512',
+  'PS256',
+  'PS384',
+  'PS512',
+  'ES256',
+  'ES384',
+  'ES512',
+  'EdDSA',
+];
+
+/** Default clock tolerance: 15 seconds */
+const DEFAULT_CLOCK_TOLERANCE_SECONDS = 15;
+
+/** How long a revoked token stays denied when its expiry is unknown: 1 hour */
+const DEFAULT_REVOKED_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+/** Default maximum number of locally denied revoked tokens */
+const DEFAULT_REVOKED_TOKEN_MAX_ENTRIES = 10000;
+
+/** Default maximum number of remembered DPoP proof identifiers */
+const DEFAULT_DPOP_REPLAY_CACHE_MAX_ENTRIES = 10000;
+
+/** Default maximum number of cached introspection results */
+const DEFAULT_INTROSPECTION_CACHE_MAX_ENTRIES = 10000;
+
+/** Default upper bound for caching an active introspection result: 1 minute */
+const DEFAULT_INTROSPECTION_CACHE_MAX_TTL_MS = 60 * 1000;
+
+/** Default TTL for caching an inactive introspection result: 10 seconds */
+const DEFAULT_INTROSPECTION_CACHE_INACTIVE_TTL_MS = 10 * 1000;
+
 /** Default realm path for AIC */
 const DEFAULT_REALM_PATH = '/am/oauth2/realms/root/realms/alpha';
 
@@ -45,37 +108,49 @@ const DEFAULT_REALM_PATH = '/am/oauth2/realms/root/realms/alpha';
  * @param httpClient - HTTP client for making requests
  * @param token - The token to introspect
  * @param introspectionEndpoint - The introspection endpoint URL
- * @param clientId - OAuth client ID
- * @param clientSecret - OAuth client secret
+ * @param clientAuthentication - How the client authenticates to the endpoint
  * @returns Result with introspection response or error
  */
 export const introspectToken = async (
   httpClient: HttpClient,
   token: string,
   introspectionEndpoint: string,
-  clientId: string,
-  clientSecret: string
-): Promise<Result<IntrospectionResponse, ReturnType<typeof createIntrospectionError>>> => {
-  // Encode client credentials in base64 for Basic auth
-  const credentials = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
-
+  clientAuthentication: ClientAuthentication
+): Promise<Result<IntrospectionResponse, ValidationError>> => {
   // Build request body (form-encoded per RFC 7662)
-  const body = new URLSearchParams({
+  const params = new URLSearchParams({
     token,
     token_type_hint: 'access_token',
-  }).toString();
-
-  const result = await httpClient.text({
-    url: introspectionEndpoint,
-    method: 'POST',
-    headers: {
-      Authorization: `Basic ${credentials}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
-      Accept: 'application/json',
-    },
-    body,
   });
 
+  // Authenticated per attempt so a retry never replays a client assertion's "jti"
+  const buildRequest = async (): Promise<Result<HttpRequest, ValidationError>> => {
+    const credentials = await clientAuthentication.authenticate();
+    if (credentials.isErr()) {
+      return err(
+        createIntrospectionError(
+          `Client authentication failed: ${credentials.error.message}`,
+          credentials.error
+        )
+      );
+    }
+    return ok({
+      ...createClientAuthenticatedRequest(introspectionEndpoint, params, credentials.value),
+      operation: 'introspection',
+      rebuild: async () => {
+        const retried = await buildRequest();
+        return retried.isOk() ? retried.value : undefined;
+      },
+    });
+  };
+
+  const request = await buildRequest();
+  if (request.isErr()) {
+    return err(request.error);
+  }
+
+  const result = await httpClient.text(request.value);
+
   if (result.isErr()) {
     return err(
       createIntrospectionError(
@@ -108,8 +183,8 @@ export const introspectToken = async (
  * @param httpClient - HTTP client for making requests
  * @param token - The token to revoke
  * @param revocationEndpoint - The revocation endpoint URL
- * @param clientId - OAuth client ID
- * @param clientSecret - OAuth client secret
+ * @param clientAuthentication - How the client authenticates to the endpoint
+ * @param tokenTypeHint - Kind of token being revoked (default: "access_token")
  * @returns Result indicating success or error
  *
  * @example
@@ -118,8 +193,7 @@ export const introspectToken = async (
  *   httpClient,
  *   'access_token_value',
  *   'https://auth.example.com/revoke',
- *   'client-id',
- *   'client-secret'
+ *   createClientSecretBasic('client-id', 'client-secret')
  * );
  *
  * if (result.isOk()) {
@@ -133,32 +207,32 @@ export const revokeToken = async (
   httpClient: HttpClient,
   token: string,
   revocationEndpoint: string,
-  clientId: string,
-  clientSecret: string
-): Promise<Result<{ readonly revoked: true }, ReturnType<typeof createIntrospectionError>>> => {
-  // Encode client credentials in base64 for Basic auth
-  const credentials = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
+  clientAuthentication: ClientAuthentication,
+  tokenTypeHint: TokenTypeHint = 'access_token'
+): Promise<Result<TokenRevocationSuccess, ValidationError>> => {
+  const credentials = await clientAuthentication.authenticate();
+  if (credentials.isErr()) {
+    return err(
+      createRevocationError(
+        `Client authentication failed: ${credentials.error.message}`,
+        credentials.error
+      )
+    );
+  }
 
   // Build request body (form-encoded per RFC 7009)
-  const body = new URLSearchParams({
+  const params = new URLSearchParams({
     token,
-    token_type_hint: 'access_token',
-  }).toString();
-
-  const result = await httpClient.text({
-    url: revocationEndpoint,
-    method: 'POST',
-    headers: {
-      Authorization: `Basic ${credentials}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
-      Accept: 'application/json',
-    },
-    body,
+    token_type_hint: tokenTypeHint,
   });
 
+  const result = await httpClient.text(
+    createClientAuthenticatedRequest(revocationEndpoint, params, credentials.value)
+  );
+
   if (result.isErr()) {
     return err(
-      createIntrospectionError(
+      createRevocationError(
         `Token revocation request failed: ${result.error.message}`,
         result.error
       )
@@ -172,7 +246,7 @@ export const revokeToken = async (
   }
 
   return err(
-    createIntrospectionError(
+    createRevocationError(
       `Token revocation failed with status ${String(result.value.status)}: ${result.value.statusText}`
     )
   );
@@ -183,7 +257,12 @@ export const revokeToken = async (
  *
  * @param config - Validator configuration
  * @param httpClient - Optional HTTP client (default: createFetchClient())
- * @param discoveryCache - Optional cache for discovery document (default: createMemoryCache())
+ * @param discoveryCache - Optional sync or async cache for discovery document (default: createMemoryCache())
+ * @param dpopReplayCache - Optional sync or async cache of seen DPoP proof identifiers
+ *   (default: bounded createMemoryCache()). Share one cache across instances to detect replays
+ *   between them.
+ * @param introspectionResultCache - Optional sync or async cache of introspection results, keyed by
+ *   token hash (default: bounded createMemoryCache()). TTLs come from config.introspectionCache.
  * @returns A TokenValidator instance
  *
  * @example
@@ -205,9 +284,52 @@ export const revokeToken = async (
 export const createTokenValidator = (
   config: JwtValidatorConfig | TokenValidatorConfig,
   httpClient: HttpClient = createFetchClient(),
-  discoveryCache: Cache<OidcDiscoveryDocument> = createMemoryCache(DEFAULT_DISCOVERY_CACHE_TTL_MS)
+  discoveryCache: CacheLike<OidcDiscoveryDocument> = createMemoryCache(
+    DEFAULT_DISCOVERY_CACHE_TTL_MS
+  ),
+  dpopReplayCache: CacheLike<boolean> = createMemoryCache({
+    maxEntries: DEFAULT_DPOP_REPLAY_CACHE_MAX_ENTRIES,
+  }),
+  introspectionResultCache: CacheLike<IntrospectionResponse> = createMemoryCache({
+    maxEntries: DEFAULT_INTROSPECTION_CACHE_MAX_ENTRIES,
+  })
 ): TokenValidator => {
-  const { amUrl, clientId, realmPath = DEFAULT_REALM_PATH, discoveryCacheTtlMs } = config;
+  const {
+    amUrl,
+    clientId,
+    realmPath = DEFAULT_REALM_PATH,
+    discoveryCacheTtlMs,
+    discoveryRefresh,
+    dpop: dpopConfig = {},
+    introspectionCache: introspectionCacheConfig = {},
+    clientAuthentication: clientAuthenticationConfig = {},
+    keySource,
+    allowedAlgorithms,
+    strictAccessTokenProfile = false,
+    onAuthEvent,
+    telemetry: telemetryConfig,
+  } = config;
+
+  const telemetry = createTelemetry(telemetryConfig);
+
+  const clientSecret = 'clientSecret' in config ? config.clientSecret : undefined;
+  const canAuthenticateClient = hasClientCredentials(clientSecret, clientAuthenticationConfig);
+  const resolveClientAuthentication = createClientAuthenticationResolver(
+    clientId,
+    clientSecret,
+    clientAuthenticationConfig
+  );
+
+  const replayCache = toAsyncCache(dpopReplayCache);
+  const introspectionCache = toAsyncCache(introspectionResultCache);
+  // Hashes of tokens revoked through this validator, denied until they would have expired
+  const revokedTokens = createMemoryCache<true>({
+    maxEntries: DEFAULT_REVOKED_TOKEN_MAX_ENTRIES,
+  });
+  const {
+    maxTtlMs: introspectionMaxTtlMs = DEFAULT_INTROSPECTION_CACHE_MAX_TTL_MS,
+    inactiveTtlMs: introspectionInactiveTtlMs = DEFAULT_INTROSPECTION_CACHE_INACTIVE_TTL_MS,
+  } = introspectionCacheConfig;
 
   // Create cached discovery fetcher
   const discoveryFetcher = createCachedDiscoveryFetcher(
@@ -215,7 +337,9 @@ export const createTokenValidator = (
     discoveryCache,
     amUrl,
     realmPath,
-    discoveryCacheTtlMs ?? DEFAULT_DISCOVERY_CACHE_TTL_MS
+    discoveryCacheTtlMs ?? DEFAULT_DISCOVERY_CACHE_TTL_MS,
+    discoveryRefresh,
+    telemetry
   );
 
   // JWKS instance with URI tracking (jose handles caching internally)
@@ -223,15 +347,107 @@ export const createTokenValidator = (
     | { readonly uri: string; readonly jwks: ReturnType<typeof createJwks> }
     | undefined;
 
+  // Configured key source, used instead of the discovery jwks_uri
+  const keyResolver = keySource !== undefined ? createKeyResolver(keySource) : undefined;
+
+  /**
+   * Runs signing key lookups inside a JWKS span. When the key set is known to be cached,
+   * lookups against a stale set are timed as back-channel calls.
+   */
+  const traceKeyLookup =
+    (getKey: JWTVerifyGetKey, isCached?: () => boolean): JWTVerifyGetKey =>
+    (protectedHeader, token) =>
+      telemetry.span(TELEMETRY_SPANS.jwks, async (span) => {
+        const cacheHit = isCached?.();
+        if (cacheHit !== undefined) {
+          span.setAttribute(TELEMETRY_ATTRIBUTES.cacheHit, cacheHit);
+        }
+        const startedAt = Date.now();
+        let errorCode: string | undefined;
+        try {
+          return await getKey(protectedHeader, token);
+        } catch (error) {
+          errorCode = 'JWKS_ERROR';
+          telemetry.fail(span, errorCode, error instanceof Error ? error.message : String(error));
+          throw error;
+        } finally {
+          if (cacheHit === false) {
+            telemetry.recordBackChannel('jwks', Date.now() - startedAt, errorCode);
+          }
+        }
+      });
+
   /**
    * Gets or creates the JWKS instance.
    * Recreates the instance if the JWKS URI has changed (e.g., after key rotation).
    */
-  const getJwks = (jwksUri: string): ReturnType<typeof createJwks> => {
+  const getJwks = (jwksUri: string): JWTVerifyGetKey => {
+    if (keyResolver !== undefined) {
+      return traceKeyLookup(keyResolver.getKey);
+    }
     if (jwksInstance?.uri !== jwksUri) {
       jwksInstance = { uri: jwksUri, jwks: createJwks(jwksUri) };
     }
-    return jwksInstance.jwks;
+    const { jwks } = jwksInstance;
+    return traceKeyLookup(jwks, () => jwks.fresh);
+  };
+
+  /**
+   * Verifies the DPoP proof for a sender-constrained token.
+   * Tokens with a cnf.jkt binding must come with a valid proof; when a proof is supplied,
+   * the token must be DPoP-bound.
+   */
+  const checkDpopBinding = async (
+    token: string,
+    cnf: TokenConfirmation | undefined,
+    options: ValidationOptions
+  ): Promise<Result<void, ValidationError>> => {
+    const jkt = cnf?.jkt;
+    const { dpop } = options;
+
+    if (dpop === undefined) {
+      return jkt === undefined
+        ? ok(undefined)
+        : err({
+            code: 'INVALID_DPOP_PROOF',
+            message: 'Token is DPoP-bound but no DPoP proof was provided',
+          });
+    }
+
+    if (jkt === undefined) {
+      return err({
+        code: 'DPOP_BINDING_MISMATCH',
+        message: 'Token is not DPoP-bound',
+      });
+    }
+
+    const { proof } = dpop;
+    if (proof === undefined || proof.length === 0) {
+      return err({
+        code: 'INVALID_DPOP_PROOF',
+        message: 'No DPoP proof provided',
+      });
+    }
+
+    const result = await verifyDpopProof(token, jkt, { ...dpop, proof }, replayCache, {
+      algorithms: dpopConfig.algorithms ?? DEFAULT_DPOP_ALGORITHMS,
+      maxProofAgeSeconds: dpopConfig.maxProofAgeSeconds ?? DEFAULT_DPOP_MAX_PROOF_AGE_SECONDS,
+      clockToleranceSeconds: options.clockToleranceSeconds ?? DEFAULT_CLOCK_TOLERANCE_SECONDS,
+    });
+
+    return result.map(() => undefined);
+  };
+
+  /**
+   * Access token algorithms accepted when none are configured: the asymmetric algorithms
+   * discovery advertises, or all of them when it advertises none. HMAC algorithms it lists
+   * are dropped, since a shared secret must never verify an access token.
+   */
+  const getDefaultSigningAlgorithms = (discovery: OidcDiscoveryDocument): readonly string[] => {
+    const advertised = discovery.id_token_signing_alg_values_supported ?? [];
+    return advertised.length > 0
+      ? DEFAULT_SIGNING_ALGORITHMS.filter((algorithm) => advertised.includes(algorithm))
+      : DEFAULT_SIGNING_ALGORITHMS;
   };
 
   /**
@@ -251,13 +467,25 @@ export const createTokenValidator = (
       jwks,
       discovery.issuer,
       options.audience ?? clientId,
-      options.clockToleranceSeconds
+      options.clockToleranceSeconds,
+      {
+        algorithms:
+          options.allowedAlgorithms ?? allowedAlgorithms ?? getDefaultSigningAlgorithms(discovery),
+        strictAccessTokenProfile: options.strictAccessTokenProfile ?? strictAccessTokenProfile,
+      }
     );
 
     if (verifyResult.isErr()) {
       return createValidationFailure(verifyResult.error, toAuthenticationInfo(discovery));
     }
 
+    // Check the sender constraint before scopes
+    const dpopResult = await checkDpopBinding(token, verifyResult.value.cnf, options);
+
+    if (dpopResult.isErr()) {
+      return createValidationFailure(dpopResult.error, toAuthenticationInfo(discovery));
+    }
+
     // Validate claims against options
     const claimsResult = validateJwtClaims(verifyResult.value, options);
 
@@ -274,23 +502,81 @@ export const createTokenValidator = (
     return success;
   };
 
+  /**
+   * How long an introspection result may be cached: inactive results briefly, active results
+   * no longer than the max TTL or the token's remaining lifetime.
+   */
+  const getIntrospectionCacheTtlMs = (introspection: IntrospectionResponse): number => {
+    if (!introspection.active) {
+      return introspectionInactiveTtlMs;
+    }
+    if (introspection.exp === undefined) {
+      return introspectionMaxTtlMs;
+    }
+    return Math.min(introspectionMaxTtlMs, introspection.exp * 1000 - Date.now());
+  };
+
+  /**
+   * Introspects a token, serving and storing results in the introspection cache.
+   * Failed introspection requests are not cached.
+   */
+  const introspectCached = async (
+    token: string,
+    introspectionEndpoint: string,
+    clientAuthentication: ClientAuthentication
+  ): Promise<Result<IntrospectionResponse, ValidationError>> => {
+    return telemetry.span(TELEMETRY_SPANS.introspection, async (span) => {
+      const cacheKey = hashToken(token);
+
+      const cached = await introspectionCache.get(cacheKey);
+      if (cached !== undefined) {
+        span.setAttribute(TELEMETRY_ATTRIBUTES.cacheHit, true);
+        return ok(cached);
+      }
+      span.setAttribute(TELEMETRY_ATTRIBUTES.cacheHit, false);
+
+      const startedAt = Date.now();
+      const result = await introspectToken(
+        httpClient,
+        token,
+        introspectionEndpoint,
+        clientAuthentication
+      );
+      telemetry.recordBackChannel(
+        'introspection',
+        Date.now() - startedAt,
+        result.isErr() ? result.error.code : undefined
+      );
+
+      if (result.isErr()) {
+        telemetry.fail(span, result.error.code, result.error.message);
+        return result;
+      }
+
+      const ttlMs = getIntrospectionCacheTtlMs(result.value);
+      if (ttlMs > 0) {
+        await introspectionCache.set(cacheKey, result.value, ttlMs);
+      }
+
+      return result;
+    });
+  };
+
   /**
    * Introspects an opaque token using client credentials.
-   * Only available when clientSecret is provided in config.
+   * Only available when clientSecret or clientAuthentication credentials are configured.
    */
   const introspectOpaque = async (
     token: string,
     discovery: OidcDiscoveryDocument,
-    config: TokenValidatorConfig,
     options: ValidationOptions
   ): Promise<TokenValidationResult> => {
-    const clientSecret = config.clientSecret;
-
-    if (!clientSecret) {
+    if (!canAuthenticateClient) {
       return createValidationFailure(
         {
           code: 'MALFORMED_TOKEN',
-          message: 'Opaque token introspection requires clientSecret configuration.',
+          message:
+            'Opaque token introspection requires clientSecret or clientAuthentication configuration.',
         },
         toAuthenticationInfo(discovery)
       );
@@ -306,12 +592,18 @@ export const createTokenValidator = (
       );
     }
 
-    const introspectionResult = await introspectToken(
-      httpClient,
+    const clientAuthentication = resolveClientAuthentication(discovery);
+    if (clientAuthentication.isErr()) {
+      return createValidationFailure(
+        createIntrospectionError(clientAuthentication.error.message, clientAuthentication.error),
+        toAuthenticationInfo(discovery)
+      );
+    }
+
+    const introspectionResult = await introspectCached(
       token,
       discovery.introspection_endpoint,
-      clientId,
-      clientSecret
+      clientAuthentication.value
     );
 
     if (introspectionResult.isErr()) {
@@ -331,6 +623,12 @@ export const createTokenValidator = (
       );
     }
 
+    const dpopResult = await checkDpopBinding(token, introspection.cnf, options);
+
+    if (dpopResult.isErr()) {
+      return createValidationFailure(dpopResult.error, toAuthenticationInfo(discovery));
+    }
+
     // Validate required claims are present in introspection response
     if (introspection.sub === undefined) {
       return createValidationFailure(
@@ -353,16 +651,24 @@ export const createTokenValidator = (
     const exp = introspection.exp ?? now + 3600; // Default 1 hour if not provided
     const iat = introspection.iat ?? now;
 
-    // Build TokenClaims from introspection response
+    const authorizationDetails = parseAuthorizationDetails(introspection.authorization_details);
+
+    // Build TokenClaims from the whole introspection response so custom claims are kept
+    const {
+      active: _active,
+      authorization_details: _rawAuthorizationDetails,
+      ...introspectedClaims
+    } = introspection;
     const claims: TokenClaims = {
+      ...introspectedClaims,
       sub: introspection.sub,
       iss,
       aud,
       exp,
       iat,
-      ...(introspection.jti !== undefined ? { jti: introspection.jti } : {}),
-      ...(introspection.scope !== undefined ? { scope: introspection.scope } : {}),
-      ...(introspection.client_id !== undefined ? { client_id: introspection.client_id } : {}),
+      ...(authorizationDetails !== undefined
+        ? { authorization_details: authorizationDetails }
+        : {}),
     };
 
     // Validate scopes if required
@@ -382,6 +688,11 @@ export const createTokenValidator = (
       }
     }
 
+    const userAuthResult = checkUserAuthentication(claims, options);
+    if (userAuthResult.isErr()) {
+      return createValidationFailure(userAuthResult.error, toAuthenticationInfo(discovery));
+    }
+
     const success: TokenValidationSuccess = {
       valid: true,
       claims,
@@ -391,9 +702,9 @@ export const createTokenValidator = (
     return success;
   };
 
-  const validate = async (
+  const validateToken = async (
     token: string | undefined,
-    options: ValidationOptions = {}
+    options: ValidationOptions
   ): Promise<TokenValidationResult> => {
     // Check for missing token
     if (!token || token.trim().length === 0) {
@@ -414,15 +725,48 @@ export const createTokenValidator = (
 
     const discovery = discoveryResult.value;
 
+    // A JWT stays verifiable until it expires, so revocation is enforced locally
+    if (revokedTokens.get(hashToken(token)) === true) {
+      return createValidationFailure(
+        { code: 'REVOKED_TOKEN', message: 'Token has been revoked' },
+        toAuthenticationInfo(discovery)
+      );
+    }
+
     // Check if token is JWT format
     if (!isJwtFormat(token)) {
       // For opaque tokens, attempt introspection if clientSecret is available
-      return introspectOpaque(token, discovery, config as TokenValidatorConfig, options);
+      return introspectOpaque(token, discovery, options);
     }
 
     return validateJwt(token, discovery, options);
   };
 
+  const validate = (
+    token: string | undefined,
+    options: ValidationOptions = {}
+  ): Promise<TokenValidationResult> =>
+    telemetry.span(TELEMETRY_SPANS.validate, async (span) => {
+      const startedAt = Date.now();
+      const tokenType =
+        !token || token.trim().length === 0 ? 'none' : isJwtFormat(token) ? 'jwt' : 'opaque';
+      span.setAttribute(TELEMETRY_ATTRIBUTES.tokenType, tokenType);
+
+      const result = await validateToken(token, options);
+
+      span.setAttribute(TELEMETRY_ATTRIBUTES.outcome, result.valid ? 'valid' : 'invalid');
+      if (!result.valid) {
+        telemetry.fail(span, result.error, result.message);
+      }
+      telemetry.recordValidation(Date.now() - startedAt, {
+        [TELEMETRY_ATTRIBUTES.tokenType]: tokenType,
+        [TELEMETRY_ATTRIBUTES.outcome]: result.valid ? 'valid' : 'invalid',
+        ...(!result.valid ? { [TELEMETRY_ATTRIBUTES.errorCode]: result.error } : {}),
+      });
+
+      return result;
+    });
+
   const getAuthenticationInfo = async (): Promise<AuthenticationInfo | undefined> => {
     const discoveryResult = await discoveryFetcher.fetch();
 
@@ -434,19 +778,110 @@ export const createTokenValidator = (
   };
 
   const refreshCache = async (): Promise<void> => {
-    // Clear discovery cache
-    discoveryFetcher.clear();
-
     // Clear JWKS instance (jose will refetch on next use)
     jwksInstance = undefined;
+    keyResolver?.reload();
+
+    // Re-fetch discovery document, bypassing any stale copy
+    await discoveryFetcher.refresh();
+  };
+
+  const invalidateToken = async (token: string): Promise<void> => {
+    await introspectionCache.delete(hashToken(token));
+  };
+
+  /**
+   * Returns how long a revoked token must stay denied: until its "exp" (from the JWT, or a
+   * cached introspection result) plus clock tolerance, or a default when it is unknown.
+   */
+  const getRevocationTtlMs = async (token: string): Promise<number> => {
+    let exp: unknown;
+    if (isJwtFormat(token)) {
+      try {
+        exp = decodeJwt(token).exp;
+      } catch {
+        exp = undefined;
+      }
+    } else {
+      exp = (await introspectionCache.get(hashToken(token)))?.exp;
+    }
+    return typeof exp === 'number'
+      ? exp * 1000 - Date.now() + DEFAULT_CLOCK_TOLERANCE_SECONDS * 1000
+      : DEFAULT_REVOKED_TOKEN_TTL_MS;
+  };
+
+  const revoke = async (
+    token: string,
+    tokenTypeHint: TokenTypeHint = 'access_token'
+  ): Promise<TokenRevocationResult> => {
+    if (token.trim().length === 0) {
+      return { revoked: false, error: 'MISSING_TOKEN', message: 'No token provided' };
+    }
+
+    if (!canAuthenticateClient) {
+      return {
+        revoked: false,
+        error: 'REVOCATION_ERROR',
+        message: 'Token revocation requires clientSecret or clientAuthentication configuration.',
+      };
+    }
+
+    const discoveryResult = await discoveryFetcher.fetch();
+    if (discoveryResult.isErr()) {
+      return { revoked: false, error: 'REVOCATION_ERROR', message: discoveryResult.error.message };
+    }
+
+    const revocationEndpoint = discoveryResult.value.revocation_endpoint;
+    if (!revocationEndpoint) {
+      return {
+        revoked: false,
+        error: 'REVOCATION_ERROR',
+        message: 'Revocation endpoint not available in discovery document.',
+      };
+    }
+
+    const clientAuthentication = resolveClientAuthentication(discoveryResult.value);
+    if (clientAuthentication.isErr()) {
+      return {
+        revoked: false,
+        error: 'REVOCATION_ERROR',
+        message: clientAuthentication.error.message,
+      };
+    }
+
+    const result = await revokeToken(
+      httpClient,
+      token,
+      revocationEndpoint,
+      clientAuthentication.value,
+      tokenTypeHint
+    );
+
+    if (result.isErr()) {
+      return { revoked: false, error: 'REVOCATION_ERROR', message: result.error.message };
+    }
+
+    // Stop accepting the token locally right away: deny it until it would have expired,
+    // since a JWT's signature stays valid, and drop any cached introspection result
+    const revokedTtlMs = await getRevocationTtlMs(token);
+    if (revokedTtlMs > 0) {
+      revokedTokens.set(hashToken(token), true, revokedTtlMs);
+    }
+    await invalidateToken(token);
+
+    return result.value;
+  };
 
-    // Pre-fetch discovery document
-    await discoveryFetcher.fetch();
+  const close = (): void => {
+    keyResolver?.close();
   };
 
   return {
-    validate,
+    validate: onAuthEvent !== undefined ? auditValidation(validate, onAuthEvent) : validate,
     getAuthenticationInfo,
     refreshCache,
+    revoke,
+    invalidateToken,
+    close,
   };
 };
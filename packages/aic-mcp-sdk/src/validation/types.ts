@@ -1,4 +1,15 @@
-import type { TokenValidationResult, AuthenticationInfo } from '../types.js';
+import type { JSONWebKeySet } from 'jose';
+import type {
+  TokenValidationResult,
+  AuthenticationInfo,
+  TokenConfirmation,
+  TokenRevocationResult,
+  TokenTypeHint,
+  AuthorizationDetail,
+} from '../types.js';
+import type { ClientAuthenticationConfig } from '../client-auth/types.js';
+import type { AuthEventListener } from '../audit/types.js';
+import type { TelemetryConfig } from '../telemetry/types.js';
 
 /**
  * OIDC Discovery Document as per RFC 8414.
@@ -63,6 +74,41 @@ export interface IntrospectionResponse {
   readonly iss?: string;
   /** JWT ID */
   readonly jti?: string;
+  /** Confirmation claim for sender-constrained tokens */
+  readonly cnf?: TokenConfirmation;
+  /** Authentication context class reference */
+  readonly acr?: string;
+  /** Time the user authenticated */
+  readonly auth_time?: number;
+  /** Rich Authorization Requests details (RFC 9396) */
+  readonly authorization_details?: readonly AuthorizationDetail[];
+  /** Additional claims returned by AM */
+  readonly [key: string]: unknown;
+}
+
+/**
+ * The request a DPoP proof must be bound to (RFC 9449 Section 4.3).
+ */
+export interface DpopRequestContext {
+  /** Value of the request's DPoP header, if any */
+  readonly proof: string | undefined;
+  /** HTTP method of the request (e.g., "POST") */
+  readonly method: string;
+  /** Absolute URL of the request; query and fragment are ignored when matching "htu" */
+  readonly url: string;
+}
+
+/**
+ * Options for the validator's DPoP proof checks.
+ */
+export interface DpopOptions {
+  /** Accepted proof signing algorithms (default: ES256, ES384, ES512, RS256, PS256, EdDSA) */
+  readonly algorithms?: readonly string[];
+  /**
+   * Maximum age of a proof's "iat" in seconds, before clock tolerance (default: 60).
+   * Also how long proof jtis are remembered for replay detection.
+   */
+  readonly maxProofAgeSeconds?: number;
 }
 
 /**
@@ -79,6 +125,28 @@ export interface ValidationOptions {
    * Recommended range is 5-30 seconds.
    */
   readonly clockToleranceSeconds?: number;
+  /**
+   * Accepted authentication context classes; the token's "acr" must be one of them (RFC 9470).
+   */
+  readonly acrValues?: readonly string[];
+  /**
+   * Maximum seconds since the user authenticated, checked against "auth_time" (RFC 9470).
+   */
+  readonly maxAge?: number;
+  /**
+   * Accepted JWS algorithms for JWTs. Overrides the validator's allowedAlgorithms.
+   */
+  readonly allowedAlgorithms?: readonly string[];
+  /**
+   * Enforce the RFC 9068 JWT access token profile. Overrides the validator's
+   * strictAccessTokenProfile.
+   */
+  readonly strictAccessTokenProfile?: boolean;
+  /**
+   * The DPoP proof and request to verify against a DPoP-bound token.
+   * When omitted, tokens carrying a cnf.jkt binding are rejected.
+   */
+  readonly dpop?: DpopRequestContext;
 }
 
 /**
@@ -96,6 +164,103 @@ export interface TokenValidatorConfig {
   readonly realmPath?: string;
   /** Discovery document cache TTL in ms (default: 3600000 = 1 hour) */
   readonly discoveryCacheTtlMs?: number;
+  /** Stale-while-revalidate settings for the discovery document (default: disabled) */
+  readonly discoveryRefresh?: DiscoveryFetcherOptions;
+  /** DPoP proof verification settings */
+  readonly dpop?: DpopOptions;
+  /**
+   * How the client authenticates to introspection and revocation endpoints
+   * (default: negotiated from clientSecret against the discovery document)
+   */
+  readonly clientAuthentication?: ClientAuthenticationConfig;
+  /** Caching of opaque token introspection results */
+  readonly introspectionCache?: IntrospectionCacheOptions;
+  /**
+   * Accepted JWS algorithms for JWTs. "none" is never accepted.
+   *
+   * Defaults to the asymmetric algorithms (RS*, PS*, ES*, EdDSA) that discovery's
+   * id_token_signing_alg_values_supported advertises, or all of them when it advertises
+   * none. HMAC algorithms it lists are never accepted by default. A token verifies only
+   * with the algorithm matching the type of the JWKS key it selects.
+   */
+  readonly allowedAlgorithms?: readonly string[];
+  /**
+   * Enforce the RFC 9068 JWT access token profile (default: false): require the
+   * "at+jwt" typ header and a client_id claim, and reject ID tokens.
+   */
+  readonly strictAccessTokenProfile?: boolean;
+  /**
+   * Where JWT signing keys come from (default: the discovery document's jwks_uri).
+   * When set, jwks_uri is ignored.
+   */
+  readonly keySource?: KeySource;
+  /** Receives an audit event for every validate() call */
+  readonly onAuthEvent?: AuthEventListener;
+  /** OpenTelemetry tracer and meter (default: no instrumentation) */
+  readonly telemetry?: TelemetryConfig;
+}
+
+/**
+ * A PEM-encoded public key (SPKI) or X.509 certificate.
+ */
+export interface PemKey {
+  /** PEM text, "-----BEGIN PUBLIC KEY-----" or "-----BEGIN CERTIFICATE-----" */
+  readonly pem: string;
+  /** JWS algorithm the key is used with (e.g., "RS256") */
+  readonly alg: string;
+  /** Key ID matched against the JWT "kid" header */
+  readonly kid?: string;
+}
+
+/**
+ * Source of JWT signing keys.
+ * - remote: JWKS fetched from a URI (cached and rate-limited by jose)
+ * - jwks: an inline JWKS object
+ * - file: a JWKS JSON file, re-read when it changes on disk
+ * - pem: PEM public keys or certificates
+ */
+export type KeySource =
+  | { readonly type: 'remote'; readonly uri: string }
+  | { readonly type: 'jwks'; readonly jwks: JSONWebKeySet }
+  | {
+      readonly type: 'file';
+      readonly path: string;
+      /** Watch the file and reload keys when it changes (default: true) */
+      readonly watch?: boolean;
+    }
+  | { readonly type: 'pem'; readonly keys: readonly PemKey[] };
+
+/**
+ * Options controlling how the discovery document is refreshed.
+ */
+export interface DiscoveryFetcherOptions {
+  /**
+   * Serve the last fetched document after its TTL while a background refresh runs
+   * (default: false).
+   */
+  readonly staleWhileRevalidate?: boolean;
+  /**
+   * How long past its TTL a document may be served while revalidating, in ms
+   * (default: 3600000 = 1 hour). After this, validation fails closed if AM is unreachable.
+   */
+  readonly maxStaleMs?: number;
+}
+
+/**
+ * Options controlling how introspection results for opaque tokens are cached.
+ * Results are keyed by a SHA-256 hash of the token; raw tokens are never stored as keys.
+ */
+export interface IntrospectionCacheOptions {
+  /**
+   * Longest an active result is cached, in ms (default: 60000 = 1 minute).
+   * Never longer than the token's remaining lifetime. 0 disables caching of active results.
+   */
+  readonly maxTtlMs?: number;
+  /**
+   * How long an inactive result is cached, in ms (default: 10000 = 10 seconds).
+   * 0 disables negative caching.
+   */
+  readonly inactiveTtlMs?: number;
 }
 
 /**
@@ -104,6 +269,51 @@ export interface TokenValidatorConfig {
  */
 export type JwtValidatorConfig = Omit<TokenValidatorConfig, 'clientSecret'>;
 
+/**
+ * A trusted issuer for multi-issuer validation.
+ */
+export type TrustedIssuerConfig = (JwtValidatorConfig | TokenValidatorConfig) & {
+  /**
+   * Expected "iss" value of tokens from this issuer
+   * (default: amUrl + realmPath, e.g. "https://auth.example.com/am/oauth2/realms/root/realms/alpha").
+   */
+  readonly issuer?: string;
+};
+
+/**
+ * Configuration for validating tokens from several issuers, realms or tenants.
+ */
+export interface MultiIssuerValidatorConfig {
+  /**
+   * Trusted issuers. The first entry is the primary issuer: it answers
+   * getAuthenticationInfo and introspects opaque tokens, which carry no "iss".
+   */
+  readonly issuers: readonly TrustedIssuerConfig[];
+  /**
+   * Receives an audit event for every validate() call, including tokens rejected for an
+   * untrusted issuer. Listeners set on individual issuers also receive their issuer's events.
+   */
+  readonly onAuthEvent?: AuthEventListener;
+}
+
+/**
+ * Token validator that accepts tokens from several trusted issuers.
+ */
+export interface MultiIssuerValidator extends TokenValidator {
+  /** Trusted issuer identifiers, primary first */
+  readonly issuers: readonly string[];
+}
+
+/**
+ * Internal settings for verifyJwt beyond issuer and audience.
+ */
+export interface VerifyJwtOptions {
+  /** Accepted JWS algorithms */
+  readonly algorithms?: readonly string[];
+  /** Enforce the RFC 9068 JWT access token profile */
+  readonly strictAccessTokenProfile?: boolean;
+}
+
 /**
  * Internal JWT claims after validation.
  * Based on jose JWTPayload with required fields.
@@ -118,6 +328,10 @@ export interface ValidatedJwtClaims {
   readonly nbf?: number;
   readonly scope?: string | readonly string[];
   readonly client_id?: string;
+  readonly cnf?: TokenConfirmation;
+  readonly acr?: string;
+  readonly auth_time?: number;
+  readonly authorization_details?: readonly AuthorizationDetail[];
   readonly [key: string]: unknown;
 }
 
@@ -134,9 +348,18 @@ export interface ValidationError {
     | 'INVALID_AUDIENCE'
     | 'REVOKED_TOKEN'
     | 'INSUFFICIENT_SCOPE'
+    | 'INSUFFICIENT_USER_AUTHENTICATION'
+    | 'ALGORITHM_NOT_ALLOWED'
+    | 'INVALID_TOKEN_TYPE'
+    | 'MISSING_CLIENT_ID'
+    | 'ID_TOKEN_REJECTED'
+    | 'INVALID_DPOP_PROOF'
+    | 'DPOP_PROOF_REPLAYED'
+    | 'DPOP_BINDING_MISMATCH'
     | 'DISCOVERY_ERROR'
     | 'JWKS_ERROR'
     | 'INTROSPECTION_ERROR'
+    | 'REVOCATION_ERROR'
     | 'NETWORK_ERROR';
   readonly message: string;
   readonly cause?: unknown;
@@ -166,4 +389,28 @@ export interface TokenValidator {
    * Forces a refresh of cached discovery document and JWKS.
    */
   readonly refreshCache: () => Promise<void>;
+
+  /**
+   * Revokes a token at the discovery document's revocation_endpoint (RFC 7009), removes any
+   * cached introspection result for it, and makes this validator reject it with
+   * REVOKED_TOKEN until it expires, JWTs included. The denial is local to this validator
+   * instance; other instances reject the token only once they introspect it.
+   * Requires clientSecret.
+   * @param token - The access or refresh token to revoke
+   * @param tokenTypeHint - Kind of token being revoked (default: "access_token")
+   */
+  readonly revoke: (token: string, tokenTypeHint?: TokenTypeHint) => Promise<TokenRevocationResult>;
+
+  /**
+   * Removes any cached introspection result for a token, e.g. after revoking it.
+   * @param token - The access token to forget
+   */
+  readonly invalidateToken: (token: string) => Promise<void>;
+
+  /**
+   * Releases resources held by the validator, such as a key source's file watcher.
+   * Validation keeps working afterwards; a closed file key source re-reads the file once
+   * its keys are a minute old.
+   */
+  readonly close: () => void;
 }
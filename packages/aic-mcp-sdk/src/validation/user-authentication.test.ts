@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { checkUserAuthentication } from './user-authentication.js';
+import { FIXED_TIMESTAMP_SECONDS } from '../test/fixtures.js';
+
+const MFA_ACR = 'urn:example:acr:mfa';
+const PASSWORD_ACR = 'urn:example:acr:password';
+
+describe('checkUserAuthentication', () => {
+  describe('given no requirements', () => {
+    it('returns ok even without acr or auth_time', () => {
+      const result = checkUserAuthentication({}, {}, FIXED_TIMESTAMP_SECONDS);
+
+      expect(result.isOk()).toBe(true);
+    });
+  });
+
+  describe('given acrValues', () => {
+    it('returns ok when the token acr is accepted', () => {
+      const result = checkUserAuthentication(
+        { acr: MFA_ACR },
+        { acrValues: [PASSWORD_ACR, MFA_ACR] },
+        FIXED_TIMESTAMP_SECONDS
+      );
+
+      expect(result.isOk()).toBe(true);
+    });
+
+    it('returns INSUFFICIENT_USER_AUTHENTICATION when the token acr is not accepted', () => {
+      const result = checkUserAuthentication(
+        { acr: PASSWORD_ACR },
+        { acrValues: [MFA_ACR] },
+        FIXED_TIMESTAMP_SECONDS
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe('INSUFFICIENT_USER_AUTHENTICATION');
+        expect(result.error.message).toContain(PASSWORD_ACR);
+        expect(result.error.message).toContain(MFA_ACR);
+      }
+    });
+
+    it('returns INSUFFICIENT_USER_AUTHENTICATION when the token has no acr', () => {
+      const result = checkUserAuthentication({}, { acrValues: [MFA_ACR] }, FIXED_TIMESTAMP_SECONDS);
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe('INSUFFICIENT_USER_AUTHENTICATION');
+      }
+    });
+  });
+
+  describe('given maxAge', () => {
+    it('returns ok when the user authenticated recently enough', () => {
+      const result = checkUserAuthentication(
+        { auth_time: FIXED_TIMESTAMP_SECONDS - 300 },
+        { maxAge: 300 },
+        FIXED_TIMESTAMP_SECONDS
+      );
+
+      expect(result.isOk()).toBe(true);
+    });
+
+    it('returns INSUFFICIENT_USER_AUTHENTICATION when authentication is too old', () => {
+      const result = checkUserAuthentication(
+        { auth_time: FIXED_TIMESTAMP_SECONDS - 301 },
+        { maxAge: 300 },
+        FIXED_TIMESTAMP_SECONDS
+      );
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.code).toBe('INSUFFICIENT_USER_AUTHENTICATION');
+        expect(result.error.message).toContain('300 seconds');
+      }
+    });
+
+    it('returns INSUFFICIENT_USER_AUTHENTICATION when the token has no auth_time', () => {
+      const result = checkUserAuthentication({}, { maxAge: 300 }, FIXED_TIMESTAMP_SECONDS);
+
+      expect(result.isErr()).toBe(true);
+      if (result.isErr()) {
+        expect(result.error.message).toContain('auth_time');
+      }
+    });
+  });
+});
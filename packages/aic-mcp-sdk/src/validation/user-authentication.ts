@@ -0,0 +1,53 @@
+import { ok, err, type Result } from 'neverthrow';
+import type { ValidationError, ValidationOptions } from './types.js';
+
+/**
+ * Checks a token's "acr" and "auth_time" claims against step-up requirements (RFC 9470).
+ * The token's acr must be one of the accepted values, and the user must have authenticated
+ * no more than maxAge seconds ago.
+ *
+ * @param claims - The token's acr and auth_time claims
+ * @param requirements - Accepted acr values and maximum authentication age in seconds
+ * @param nowSeconds - Current time as a Unix timestamp (default: now)
+ * @returns Result with void or INSUFFICIENT_USER_AUTHENTICATION error
+ *
+ * @example
+ * ```typescript
+ * const result = checkUserAuthentication(
+ *   { acr: 'urn:example:mfa', auth_time: 1700000000 },
+ *   { acrValues: ['urn:example:mfa'], maxAge: 300 }
+ * );
+ * ```
+ */
+export const checkUserAuthentication = (
+  claims: { readonly acr?: unknown; readonly auth_time?: unknown },
+  requirements: Pick<ValidationOptions, 'acrValues' | 'maxAge'>,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): Result<void, ValidationError> => {
+  const { acrValues = [], maxAge } = requirements;
+  const { acr, auth_time: authTime } = claims;
+
+  if (acrValues.length > 0 && (typeof acr !== 'string' || !acrValues.includes(acr))) {
+    return err({
+      code: 'INSUFFICIENT_USER_AUTHENTICATION',
+      message: `Authentication context ${typeof acr === 'string' ? `"${acr}"` : 'is missing and'} does not satisfy required acr values: ${acrValues.join(', ')}`,
+    });
+  }
+
+  if (maxAge !== undefined) {
+    if (typeof authTime !== 'number') {
+      return err({
+        code: 'INSUFFICIENT_USER_AUTHENTICATION',
+        message: 'Token is missing the "auth_time" claim required by max age',
+      });
+    }
+    if (nowSeconds - authTime > maxAge) {
+      return err({
+        code: 'INSUFFICIENT_USER_AUTHENTICATION',
+        message: `Authentication is older than the maximum age of ${String(maxAge)} seconds`,
+      });
+    }
+  }
+
+  return ok(undefined);
+};